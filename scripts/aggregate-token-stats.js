@@ -0,0 +1,45 @@
+/**
+ * Script to fold finished runs' guesses into the token statistics
+ * Usage: node scripts/aggregate-token-stats.js [options]
+ *
+ * Options:
+ *   --url <baseUrl>   Deployment to aggregate on (default: http://localhost:3000)
+ *
+ * Runs the aggregation job through /api/admin/aggregate-token-stats. Schedule
+ * it every few minutes to hourly; each run only adds the runs queued since the last.
+ *
+ * Needs PRIZE_POOL_ADMIN_KEY in the environment.
+ */
+
+async function aggregateTokenStats() {
+  const args = process.argv.slice(2);
+  const urlIndex = args.indexOf('--url');
+  const baseUrl = urlIndex >= 0 ? args[urlIndex + 1] : 'http://localhost:3000';
+  const adminKey = process.env.PRIZE_POOL_ADMIN_KEY;
+
+  if (!adminKey) {
+    console.error('❌ PRIZE_POOL_ADMIN_KEY is not set');
+    process.exit(1);
+  }
+
+  console.log(`📊 Aggregating token stats on ${baseUrl}\n`);
+
+  const response = await fetch(`${baseUrl}/api/admin/aggregate-token-stats`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${adminKey}` },
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    console.error('❌ Aggregation failed:', result.error);
+    process.exit(1);
+  }
+
+  console.log(`✅ ${result.message}`);
+  console.log(`   ${result.tokens} tokens, ${result.pairs} pairs tracked (${result.duration}ms)`);
+}
+
+aggregateTokenStats().catch((error) => {
+  console.error('❌ Error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+/**
+ * Script to evaluate and calibrate the skill rating model
+ * Usage: node scripts/calibrate-skill-model.js [options]
+ *
+ * Options:
+ *   --url <baseUrl>   Deployment to read logged runs from (default: http://localhost:3000)
+ *   --runs <n>        How many recent logged runs to replay (default: all logged)
+ *
+ * Runs through /api/admin/calibrate-skill so it replays with the same rating
+ * logic as the app (src/lib/game-core/skill-rating.ts). Nothing is changed -
+ * copy the best parameters into DEFAULT_SKILL_MODEL to use them.
+ *
+ * Needs PRIZE_POOL_ADMIN_KEY in the environment.
+ */
+
+function formatReport(label, report) {
+  const { base, ratioWeight, obscurityWeight } = report.model;
+  console.log(`${label}: base ${base}, ratioWeight ${ratioWeight}, obscurityWeight ${obscurityWeight}`);
+  console.log(
+    `  log loss ${report.logLoss.toFixed(4)}, Brier ${report.brierScore.toFixed(4)}, ` +
+    `accuracy ${(report.accuracy * 100).toFixed(1)}%`
+  );
+  for (const bucket of report.calibration) {
+    if (bucket.guesses === 0) continue;
+    console.log(
+      `  ${bucket.from.toFixed(1)}-${bucket.to.toFixed(1)}: ${bucket.guesses} guesses, ` +
+      `predicted ${(bucket.predicted * 100).toFixed(1)}%, actual ${(bucket.actual * 100).toFixed(1)}%`
+    );
+  }
+}
+
+async function calibrateSkillModel() {
+  const args = process.argv.slice(2);
+  const urlIndex = args.indexOf('--url');
+  const runsIndex = args.indexOf('--runs');
+  const baseUrl = urlIndex >= 0 ? args[urlIndex + 1] : 'http://localhost:3000';
+  const adminKey = process.env.PRIZE_POOL_ADMIN_KEY;
+
+  if (!adminKey) {
+    console.error('❌ PRIZE_POOL_ADMIN_KEY is not set');
+    process.exit(1);
+  }
+
+  const params = new URLSearchParams();
+  if (runsIndex >= 0) params.set('runs', args[runsIndex + 1]);
+
+  console.log(`🎯 Calibrating the skill model on ${baseUrl}\n`);
+
+  const response = await fetch(`${baseUrl}/api/admin/calibrate-skill?${params}`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${adminKey}` },
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    console.error('❌ Calibration failed:', result.error);
+    process.exit(1);
+  }
+
+  console.log(`Replayed ${result.current.guesses} guesses from ${result.current.runs} runs (${result.current.players} players)\n`);
+  formatReport('Current', result.current);
+  console.log('');
+  formatReport('Best', result.best);
+
+  console.log(`\n✅ ${result.message} (${result.modelsTried} models tried)`);
+}
+
+calibrateSkillModel().catch((error) => {
+  console.error('❌ Error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,79 @@
+/**
+ * Script to schedule a season, or archive the seasons that have ended
+ * Usage: node scripts/create-season.js [options]
+ *
+ * Options:
+ *   --url <baseUrl>       Deployment to configure (default: http://localhost:3000)
+ *   --id <seasonId>       Season ID, e.g. season-1 (reusing one reschedules it)
+ *   --name <name>         Display name (default: the ID)
+ *   --start <YYYY-MM-DD>  Any day in the season's first week
+ *   --end <YYYY-MM-DD>    Any day in the season's last week
+ *   --rewards <json>      Rewards by rank, e.g. '[{"fromRank":1,"toRank":1,"reward":"500 USDC"}]'
+ *                         (default: champion, podium and top 10 titles)
+ *   --finalize            Archive ended seasons' final standings instead
+ *
+ * Needs PRIZE_POOL_ADMIN_KEY in the environment. Seasons are archived
+ * anyway when the week they end with is finalized, or first looked at.
+ */
+
+function getArg(args, name) {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function createSeason() {
+  const args = process.argv.slice(2);
+  const baseUrl = getArg(args, '--url') || 'http://localhost:3000';
+  const adminKey = process.env.PRIZE_POOL_ADMIN_KEY;
+
+  if (!adminKey) {
+    console.error('❌ PRIZE_POOL_ADMIN_KEY is not set');
+    process.exit(1);
+  }
+
+  const body = args.includes('--finalize')
+    ? { action: 'finalize' }
+    : {
+        action: 'save',
+        seasonId: getArg(args, '--id'),
+        name: getArg(args, '--name'),
+        startDate: getArg(args, '--start'),
+        endDate: getArg(args, '--end'),
+        rewards: getArg(args, '--rewards') ? JSON.parse(getArg(args, '--rewards')) : undefined,
+      };
+
+  console.log(body.action === 'save'
+    ? `🗓️  Scheduling season ${body.seasonId} on ${baseUrl}\n`
+    : `🗄️  Archiving ended seasons on ${baseUrl}\n`);
+
+  const response = await fetch(`${baseUrl}/api/admin/seasons`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${adminKey}`,
+    },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    console.error('❌ Failed:', result.error);
+    process.exit(1);
+  }
+
+  if (result.season) {
+    const { name, startWeek, endWeek, startDate, endDate, rewards } = result.season;
+    console.log(`✅ ${name}: ${startWeek} to ${endWeek}`);
+    console.log(`   ${new Date(startDate).toISOString()} - ${new Date(endDate).toISOString()}`);
+    for (const { fromRank, toRank, reward } of rewards) {
+      console.log(`   #${fromRank}${toRank > fromRank ? `-${toRank}` : ''}: ${reward}`);
+    }
+  } else {
+    console.log(`✅ Archived ${result.finalized.length} season(s)${result.finalized.length ? `: ${result.finalized.join(', ')}` : ''}`);
+  }
+}
+
+createSeason().catch((error) => {
+  console.error('❌ Error:', error);
+  process.exit(1);
+});
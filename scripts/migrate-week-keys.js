@@ -0,0 +1,60 @@
+/**
+ * Script to migrate weekly leaderboard data to ISO week keys
+ * Usage: node scripts/migrate-week-keys.js [options]
+ *
+ * Options:
+ *   --url <baseUrl>   Deployment to migrate (default: http://localhost:3000)
+ *   --weeks <n>       How many weeks back to look (default: 8)
+ *   --apply           Apply the migration (default is a dry run)
+ *
+ * Runs the migration through /api/admin/migrate-week-keys so it uses the
+ * same week logic as the app (src/lib/leaderboard/period.ts).
+ *
+ * Needs PRIZE_POOL_ADMIN_KEY in the environment.
+ */
+
+async function migrateWeekKeys() {
+  const args = process.argv.slice(2);
+  const urlIndex = args.indexOf('--url');
+  const weeksIndex = args.indexOf('--weeks');
+  const baseUrl = urlIndex >= 0 ? args[urlIndex + 1] : 'http://localhost:3000';
+  const adminKey = process.env.PRIZE_POOL_ADMIN_KEY;
+
+  if (!adminKey) {
+    console.error('❌ PRIZE_POOL_ADMIN_KEY is not set');
+    process.exit(1);
+  }
+
+  const weeks = weeksIndex >= 0 ? args[weeksIndex + 1] : '8';
+  const apply = args.includes('--apply');
+
+  const params = new URLSearchParams({ weeks });
+  if (apply) params.set('confirm', 'true');
+
+  console.log(`${apply ? '🔁 Migrating' : '🔍 Dry run:'} week keys on ${baseUrl} (last ${weeks} weeks)\n`);
+
+  const response = await fetch(`${baseUrl}/api/admin/migrate-week-keys?${params}`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${adminKey}` },
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    console.error('❌ Migration failed:', result.error);
+    process.exit(1);
+  }
+
+  for (const week of result.migrated) {
+    console.log(
+      `  ${week.legacyWeekKey} → ${week.weekKey}: ` +
+      `${week.leaderboardEntries} leaderboard, ${week.cumulativeEntries} cumulative, ${week.userStats} user stats, ${week.prizePoolKeys} prize pool keys`
+    );
+  }
+
+  console.log(`\n✅ ${result.message}`);
+}
+
+migrateWeekKeys().catch((error) => {
+  console.error('❌ Error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,45 @@
+/**
+ * Script to remind players their daily play streak is about to end
+ * Usage: node scripts/send-streak-reminders.js [options]
+ *
+ * Options:
+ *   --url <baseUrl>   Deployment to send from (default: http://localhost:3000)
+ *
+ * Runs the reminder job through /api/admin/send-streak-reminders. Schedule it
+ * once a day, a few hours before UTC midnight; nobody is reminded twice a day.
+ *
+ * Needs PRIZE_POOL_ADMIN_KEY in the environment.
+ */
+
+async function sendStreakReminders() {
+  const args = process.argv.slice(2);
+  const urlIndex = args.indexOf('--url');
+  const baseUrl = urlIndex >= 0 ? args[urlIndex + 1] : 'http://localhost:3000';
+  const adminKey = process.env.PRIZE_POOL_ADMIN_KEY;
+
+  if (!adminKey) {
+    console.error('❌ PRIZE_POOL_ADMIN_KEY is not set');
+    process.exit(1);
+  }
+
+  console.log(`🔥 Sending play streak reminders from ${baseUrl}\n`);
+
+  const response = await fetch(`${baseUrl}/api/admin/send-streak-reminders`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${adminKey}` },
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    console.error('❌ Reminders failed:', result.error);
+    process.exit(1);
+  }
+
+  console.log(`✅ ${result.message}`);
+  console.log(`   ${result.checked} recent players checked (${result.duration}ms)`);
+}
+
+sendStreakReminders().catch((error) => {
+  console.error('❌ Error:', error);
+  process.exit(1);
+});
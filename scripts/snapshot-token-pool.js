@@ -0,0 +1,51 @@
+/**
+ * Script to store today's token pool snapshot (for time machine runs)
+ * Usage: node scripts/snapshot-token-pool.js [options]
+ *
+ * Options:
+ *   --url <baseUrl>   Deployment to snapshot (default: http://localhost:3000)
+ *   --force           Overwrite today's snapshot
+ *
+ * Runs the snapshot job through /api/admin/snapshot-pool. Schedule it once a
+ * day; running it again the same day does nothing unless --force is passed.
+ *
+ * Needs PRIZE_POOL_ADMIN_KEY in the environment.
+ */
+
+async function snapshotTokenPool() {
+  const args = process.argv.slice(2);
+  const urlIndex = args.indexOf('--url');
+  const baseUrl = urlIndex >= 0 ? args[urlIndex + 1] : 'http://localhost:3000';
+  const adminKey = process.env.PRIZE_POOL_ADMIN_KEY;
+
+  if (!adminKey) {
+    console.error('❌ PRIZE_POOL_ADMIN_KEY is not set');
+    process.exit(1);
+  }
+
+  const force = args.includes('--force');
+
+  const params = new URLSearchParams();
+  if (force) params.set('force', 'true');
+
+  console.log(`📸 Snapshotting token pool on ${baseUrl}${force ? ' (overwriting)' : ''}\n`);
+
+  const response = await fetch(`${baseUrl}/api/admin/snapshot-pool?${params}`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${adminKey}` },
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    console.error('❌ Snapshot failed:', result.error);
+    process.exit(1);
+  }
+
+  console.log(`✅ ${result.message}`);
+  console.log(`   ${result.days.length} days stored: ${result.days[0]} → ${result.days[result.days.length - 1]}`);
+}
+
+snapshotTokenPool().catch((error) => {
+  console.error('❌ Error:', error);
+  process.exit(1);
+});
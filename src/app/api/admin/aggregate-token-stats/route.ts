@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { aggregateTokenStats } from '@/lib/game-core/token-stats-storage';
+
+/**
+ * POST /api/admin/aggregate-token-stats
+ * Aggregation job - folds finished runs' queued guesses into the token statistics (protected)
+ * Run it every few minutes to hourly (cron, or scripts/aggregate-token-stats.js)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check admin key
+    const authHeader = request.headers.get('authorization');
+    const adminKey = process.env.PRIZE_POOL_ADMIN_KEY;
+
+    if (!adminKey || authHeader !== `Bearer ${adminKey}`) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const startTime = Date.now();
+
+    const result = await aggregateTokenStats();
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: 'An aggregation is already running' },
+        { status: 409 }
+      );
+    }
+
+    const { stats, runsAdded, pairs } = result;
+    return NextResponse.json({
+      success: true,
+      message: `Added ${runsAdded} runs (${stats.runs} runs, ${stats.guesses} guesses in total)`,
+      runsAdded,
+      runs: stats.runs,
+      guesses: stats.guesses,
+      tokens: Object.keys(stats.tokens).length,
+      pairs,
+      duration: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error('Error aggregating token stats:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to aggregate token stats' },
+      { status: 500 }
+    );
+  }
+}
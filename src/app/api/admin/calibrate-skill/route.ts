@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadSkillHistory, MAX_SKILL_HISTORY_RUNS } from '@/lib/game-core/skill-storage';
+import { calibrateSkillModel } from '@/lib/game-core/skill-evaluation';
+
+/**
+ * POST /api/admin/calibrate-skill
+ * Offline evaluator for the skill rating model (scripts/calibrate-skill-model.js) (protected)
+ * Replays logged rated guesses and grid-searches the pair difficulty model
+ * Read-only - copy the best parameters into DEFAULT_SKILL_MODEL to use them
+ *
+ * Query params:
+ *   - runs: most recent logged runs to replay (default and max: MAX_SKILL_HISTORY_RUNS)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check admin key
+    const authHeader = request.headers.get('authorization');
+    const adminKey = process.env.PRIZE_POOL_ADMIN_KEY;
+
+    if (!adminKey || authHeader !== `Bearer ${adminKey}`) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const startTime = Date.now();
+
+    const { searchParams } = new URL(request.url);
+    const runs = Math.min(
+      Math.max(parseInt(searchParams.get('runs') || `${MAX_SKILL_HISTORY_RUNS}`, 10) || MAX_SKILL_HISTORY_RUNS, 1),
+      MAX_SKILL_HISTORY_RUNS
+    );
+
+    const history = await loadSkillHistory(runs);
+    if (history.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No rated runs logged yet' },
+        { status: 404 }
+      );
+    }
+
+    const { current, best, modelsTried } = calibrateSkillModel(history);
+
+    return NextResponse.json({
+      success: true,
+      message: best === current
+        ? 'The current model is the best fit'
+        : `Best fit: base ${best.model.base}, ratioWeight ${best.model.ratioWeight}, obscurityWeight ${best.model.obscurityWeight}`,
+      modelsTried,
+      current,
+      best,
+      duration: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error('Error calibrating skill model:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to calibrate skill model' },
+      { status: 500 }
+    );
+  }
+}
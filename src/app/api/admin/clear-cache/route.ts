@@ -1,14 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getRedis } from '@/lib/redis';
-
-function getWeekKey(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const startOfYear = new Date(year, 0, 1);
-  const days = Math.floor((now.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000));
-  const week = Math.ceil((days + startOfYear.getDay() + 1) / 7);
-  return `${year}-${week.toString().padStart(2, '0')}`;
-}
+import { getStore } from '@/lib/store';
+import { getWeekKey } from '@/lib/leaderboard/period';
 
 /**
  * POST /api/admin/clear-cache
@@ -26,13 +18,7 @@ export async function POST(request: NextRequest) {
     const type = searchParams.get('type') || 'profiles';
     const userId = searchParams.get('userId');
 
-    const redis = getRedis();
-    if (!redis) {
-      return NextResponse.json(
-        { success: false, error: 'Redis not configured' },
-        { status: 500 }
-      );
-    }
+    const store = getStore();
 
     let deleted = 0;
 
@@ -45,17 +31,11 @@ export async function POST(request: NextRequest) {
         `user:${userId}:rank:weekly`,
       ];
 
-      // Get current week for weekly stats
-      const now = new Date();
-      const year = now.getFullYear();
-      const startOfYear = new Date(year, 0, 1);
-      const days = Math.floor((now.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000));
-      const week = Math.ceil((days + startOfYear.getDay() + 1) / 7);
-      const weekKey = `${year}-${week.toString().padStart(2, '0')}`;
-      keys.push(`user:${userId}:weekly:${weekKey}`);
+      // Current week's weekly stats
+      keys.push(`user:${userId}:weekly:${getWeekKey()}`);
 
       // Delete all keys for this user
-      const deletePromises = keys.map(key => redis.del(key));
+      const deletePromises = keys.map(key => store.del(key));
       const results = await Promise.all(deletePromises);
       deleted = results.filter(r => r === 1).length;
 
@@ -71,9 +51,9 @@ export async function POST(request: NextRequest) {
       
       // Since Upstash REST API has limitations, we'll use a workaround:
       // Delete profiles for users currently on leaderboard
-      const globalLeaderboard = await redis.zrange('leaderboard:global', 0, 100, { rev: true });
+      const globalLeaderboard = await store.zrange('leaderboard:global', 0, 100, { rev: true });
       const weeklyKey = `leaderboard:weekly:${getWeekKey()}`;
-      const weeklyLeaderboard = await redis.zrange(weeklyKey, 0, 100, { rev: true });
+      const weeklyLeaderboard = await store.zrange(weeklyKey, 0, 100, { rev: true });
       
       const userIds = new Set<string>();
       
@@ -103,7 +83,7 @@ export async function POST(request: NextRequest) {
 
       // Delete profiles for all found user IDs
       const deletePromises = Array.from(userIds).map(userId => 
-        redis.del(`user:${userId}:profile`)
+        store.del(`user:${userId}:profile`)
       );
       const results = await Promise.all(deletePromises);
       deleted = results.filter(r => r === 1).length;
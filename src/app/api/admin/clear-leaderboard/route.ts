@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getRedis } from '@/lib/redis';
+import { getStore } from '@/lib/store';
+import { getWeekKey } from '@/lib/leaderboard/period';
 
 /**
  * POST /api/admin/clear-leaderboard
@@ -35,32 +36,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const redis = getRedis();
-    if (!redis) {
-      return NextResponse.json(
-        { success: false, error: 'Redis not configured' },
-        { status: 500 }
-      );
-    }
+    const store = getStore();
 
     const deleted: Record<string, number> = {};
 
-    // Helper to get week key
-    function getWeekKey(): string {
-      const now = new Date();
-      const year = now.getFullYear();
-      const startOfYear = new Date(year, 0, 1);
-      const days = Math.floor((now.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000));
-      const week = Math.ceil((days + startOfYear.getDay() + 1) / 7);
-      return `${year}-${week.toString().padStart(2, '0')}`;
-    }
-
     if (type === 'all' || type === 'global') {
       // Clear global leaderboard
       const globalKey = 'leaderboard:global';
-      const count = await redis.zcard(globalKey);
+      const count = await store.zcard(globalKey);
       if (count > 0) {
-        await redis.del(globalKey);
+        await store.del(globalKey);
         deleted.globalLeaderboard = count;
       }
     }
@@ -69,17 +54,17 @@ export async function POST(request: NextRequest) {
       // Clear weekly leaderboard (current week)
       const weekKey = getWeekKey();
       const weeklyKey = `leaderboard:weekly:${weekKey}`;
-      const count = await redis.zcard(weeklyKey);
+      const count = await store.zcard(weeklyKey);
       if (count > 0) {
-        await redis.del(weeklyKey);
+        await store.del(weeklyKey);
         deleted.weeklyLeaderboard = count;
       }
 
       // Clear weekly cumulative scores
       const cumulativeKey = `scores:weekly:${weekKey}:cumulative`;
-      const cumulativeCount = await redis.zcard(cumulativeKey);
+      const cumulativeCount = await store.zcard(cumulativeKey);
       if (cumulativeCount > 0) {
-        await redis.del(cumulativeKey);
+        await store.del(cumulativeKey);
         deleted.weeklyCumulativeScores = cumulativeCount;
       }
     }
@@ -91,7 +76,7 @@ export async function POST(request: NextRequest) {
       // Get user IDs from global leaderboard (only if type is 'all', since 'profiles' doesn't need leaderboard data)
       if (type === 'all') {
         try {
-          const globalEntries = await redis.zrange('leaderboard:global', 0, 1000, { rev: true });
+          const globalEntries = await store.zrange('leaderboard:global', 0, 1000, { rev: true });
           for (const entry of globalEntries) {
             if (typeof entry === 'string') {
               try {
@@ -112,7 +97,7 @@ export async function POST(request: NextRequest) {
         try {
           const weekKey = getWeekKey();
           const weeklyKey = `leaderboard:weekly:${weekKey}`;
-          const weeklyEntries = await redis.zrange(weeklyKey, 0, 1000, { rev: true });
+          const weeklyEntries = await store.zrange(weeklyKey, 0, 1000, { rev: true });
           for (const entry of weeklyEntries) {
             if (typeof entry === 'string') {
               try {
@@ -140,10 +125,10 @@ export async function POST(request: NextRequest) {
         const rankWeeklyKey = `user:${userId}:rank:weekly`;
 
         const results = await Promise.all([
-          redis.del(profileKey),
-          redis.del(bestKey),
-          redis.del(rankGlobalKey),
-          redis.del(rankWeeklyKey),
+          store.del(profileKey),
+          store.del(bestKey),
+          store.del(rankGlobalKey),
+          store.del(rankWeeklyKey),
         ]);
 
         if (results[0]) profilesDeleted++;
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStore } from '@/lib/store';
+import { migrateLegacyWeekKeys } from '@/lib/leaderboard/week-key-migration';
+
+/**
+ * POST /api/admin/migrate-week-keys
+ * Re-keys weekly leaderboard data from legacy "YYYY-WW" week keys to ISO week keys (protected)
+ *
+ * Query params:
+ *   - weeks: number of weeks back to look (default: 8, max: 104)
+ *   - confirm: 'true' to apply (otherwise a dry run that only reports what would move)
+ *
+ * This will move, for each legacy week:
+ * - leaderboard:weekly:<week> (best streaks, higher score wins)
+ * - scores:weekly:<week>:cumulative (cumulative scores, summed)
+ * - user:<id>:weekly:<week> (weekly stats, summed)
+ * - prizepool:weekly:<week> and prizepool:history:<week> (prize pool config and history, kept if the ISO week has its own)
+ *
+ * Safe to re-run: legacy keys are deleted once their data has moved.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check admin key
+    const authHeader = request.headers.get('authorization');
+    const adminKey = process.env.PRIZE_POOL_ADMIN_KEY;
+
+    if (!adminKey || authHeader !== `Bearer ${adminKey}`) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const weeks = Math.min(Math.max(parseInt(searchParams.get('weeks') || '8', 10) || 8, 1), 104);
+    const dryRun = searchParams.get('confirm') !== 'true';
+
+    const store = getStore();
+    const migrated = await migrateLegacyWeekKeys(store, weeks, dryRun);
+
+    return NextResponse.json({
+      success: true,
+      dryRun,
+      message: dryRun
+        ? `Dry run: ${migrated.length} legacy weeks would be migrated. Add ?confirm=true to apply.`
+        : `Migrated ${migrated.length} legacy weeks`,
+      migrated,
+    });
+  } catch (error) {
+    console.error('Error migrating week keys:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to migrate week keys' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SeasonReward, finalizeEndedSeasons, saveSeason } from '@/lib/leaderboard/seasons';
+
+/**
+ * POST /api/admin/seasons
+ * Admin endpoint to schedule seasons and archive ended ones (protected)
+ * Body:
+ *   - action: 'save' - create or reschedule a season
+ *       seasonId, name, startDate, endDate (YYYY-MM-DD, snapped out to whole
+ *       weeks), rewards (optional - { fromRank, toRank, reward }[])
+ *   - action: 'finalize' - archive the final standings of ended seasons
+ * Run it with scripts/create-season.js
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check admin key
+    const authHeader = request.headers.get('authorization');
+    const adminKey = process.env.PRIZE_POOL_ADMIN_KEY;
+    
+    if (!adminKey || authHeader !== `Bearer ${adminKey}`) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const body = await request.json();
+    const { action, seasonId, name, startDate, endDate, rewards } = body as {
+      action?: string;
+      seasonId?: string;
+      name?: string;
+      startDate?: string;
+      endDate?: string;
+      rewards?: SeasonReward[];
+    };
+    
+    if (action === 'save') {
+      if (!seasonId || !startDate || !endDate) {
+        return NextResponse.json(
+          { success: false, error: 'seasonId, startDate and endDate are required' },
+          { status: 400 }
+        );
+      }
+      
+      const result = await saveSeason({ seasonId, name: name || seasonId, startDate, endDate, rewards });
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+      return NextResponse.json({ success: true, season: result.season });
+    }
+    
+    if (action === 'finalize') {
+      const finalized = await finalizeEndedSeasons();
+      return NextResponse.json({ success: true, finalized });
+    }
+    
+    return NextResponse.json(
+      { success: false, error: 'Invalid action' },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error('Error updating seasons:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update seasons' },
+      { status: 500 }
+    );
+  }
+}
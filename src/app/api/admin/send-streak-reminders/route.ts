@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sendPlayStreakReminders } from '@/lib/play-streak';
+
+/**
+ * POST /api/admin/send-streak-reminders
+ * Reminder job - notifies players who haven't played today that their daily (protected)
+ * play streak is about to end. Players are reminded at most once a day.
+ * Run it once in the (UTC) evening (cron, or scripts/send-streak-reminders.js)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check admin key
+    const authHeader = request.headers.get('authorization');
+    const adminKey = process.env.PRIZE_POOL_ADMIN_KEY;
+
+    if (!adminKey || authHeader !== `Bearer ${adminKey}`) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const startTime = Date.now();
+    const result = await sendPlayStreakReminders();
+
+    return NextResponse.json({
+      success: true,
+      message: `Reminded ${result.reminded} of ${result.atRisk} players at risk of losing their streak`,
+      ...result,
+      duration: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error('Error sending streak reminders:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to send streak reminders' },
+      { status: 500 }
+    );
+  }
+}
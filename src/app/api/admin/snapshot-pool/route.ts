@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listPoolSnapshotDays, takePoolSnapshot } from '@/lib/data/pool-snapshots';
+
+/**
+ * POST /api/admin/snapshot-pool
+ * Snapshot job - stores today's token pool for time machine runs (protected)
+ * Run it once a day (cron, or scripts/snapshot-token-pool.js); extra runs are no-ops
+ *
+ * Query params:
+ *   - force: 'true' to overwrite today's snapshot with the current pool
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check admin key
+    const authHeader = request.headers.get('authorization');
+    const adminKey = process.env.PRIZE_POOL_ADMIN_KEY;
+
+    if (!adminKey || authHeader !== `Bearer ${adminKey}`) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const force = searchParams.get('force') === 'true';
+
+    const result = await takePoolSnapshot(force);
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: 'Token pool too small to snapshot - is the market data API down?' },
+        { status: 503 }
+      );
+    }
+
+    const { snapshot, created } = result;
+    return NextResponse.json({
+      success: true,
+      created,
+      message: created
+        ? `Snapshot for ${snapshot.dayKey} stored (${snapshot.tokens.length} tokens)`
+        : `Snapshot for ${snapshot.dayKey} already exists. Add ?force=true to overwrite.`,
+      dayKey: snapshot.dayKey,
+      tokenCount: snapshot.tokens.length,
+      days: await listPoolSnapshotDays(),
+    });
+  } catch (error) {
+    console.error('Error taking pool snapshot:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to take pool snapshot' },
+      { status: 500 }
+    );
+  }
+}
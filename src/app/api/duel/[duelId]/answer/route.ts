@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { answerDuel } from '@/lib/duel/lobby';
+import { getDuelView } from '@/lib/game-core/duel';
+
+/**
+ * POST /api/duel/[duelId]/answer
+ * Answers the current round - answer time is taken when the request arrives
+ * Body:
+ *   - userId: string
+ *   - guess: 'cap' | 'slap'
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ duelId: string }> }
+) {
+  try {
+    const { duelId } = await params;
+    const body = await request.json();
+    const { userId, guess } = body as { userId?: string; guess?: string };
+
+    if (!userId || (guess !== 'cap' && guess !== 'slap')) {
+      return NextResponse.json(
+        { success: false, error: 'userId and a guess of cap or slap are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await answerDuel(duelId, userId, guess);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ success: true, duel: getDuelView(result.duel, userId, Date.now()) });
+  } catch (error) {
+    console.error('[API] Error answering duel round:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to submit answer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refreshDuel } from '@/lib/duel/lobby';
+import { getDuelView, isDuelPlayer } from '@/lib/game-core/duel';
+
+export const dynamic = 'force-dynamic';
+
+// How often the stream checks the store for changes
+const POLL_INTERVAL_MS = 500;
+
+// Comment line to keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+// Close before serverless limits do - EventSource reconnects on its own
+const MAX_STREAM_MS = 4 * 60 * 1000;
+
+/**
+ * GET /api/duel/[duelId]/events?userId=...
+ * Server-Sent Events stream of the duel as this player sees it
+ * Events:
+ *   - state: DuelView, sent whenever anything visible changes (including a
+ *     round starting after its countdown)
+ *   - error: { error } when the duel disappears, the user isn't one of its
+ *     players, or the store can't be read
+ * The stream ends once the duel is finished or cancelled.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ duelId: string }> }
+) {
+  const { duelId } = await params;
+  const userId = request.nextUrl.searchParams.get('userId');
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, error: 'userId is required' },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const signal = request.signal;
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const openedAt = Date.now();
+      let lastSent = '';
+      let lastHeartbeat = openedAt;
+
+      try {
+        while (!cancelled && !signal.aborted && Date.now() - openedAt < MAX_STREAM_MS) {
+          const duel = await refreshDuel(duelId);
+          if (!duel) {
+            send('error', { error: 'Duel not found or expired' });
+            break;
+          }
+          if (!isDuelPlayer(duel, userId)) {
+            send('error', { error: 'Not a player in this duel' });
+            break;
+          }
+
+          // serverTime changes every poll - leave it out when checking for changes
+          const view = getDuelView(duel, userId, Date.now());
+          const fingerprint = JSON.stringify({ ...view, serverTime: 0 });
+          if (fingerprint !== lastSent) {
+            send('state', view);
+            lastSent = fingerprint;
+          } else if (Date.now() - lastHeartbeat >= HEARTBEAT_INTERVAL_MS) {
+            controller.enqueue(encoder.encode(': heartbeat\n\n'));
+            lastHeartbeat = Date.now();
+          }
+
+          if (duel.status === 'finished' || duel.status === 'cancelled') break;
+
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        console.error('[Duel] Event stream error:', error);
+        if (!cancelled) send('error', { error: 'Failed to fetch duel' });
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      // Client went away
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
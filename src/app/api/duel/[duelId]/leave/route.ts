@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { leaveDuelById } from '@/lib/duel/lobby';
+import { getDuelView } from '@/lib/game-core/duel';
+
+/**
+ * POST /api/duel/[duelId]/leave
+ * Cancels a duel still waiting for an opponent, or forfeits a running one
+ * Body:
+ *   - userId: string
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ duelId: string }> }
+) {
+  try {
+    const { duelId } = await params;
+    const body = await request.json();
+    const { userId } = body as { userId?: string };
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'userId is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await leaveDuelById(duelId, userId);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ success: true, duel: getDuelView(result.duel, userId, Date.now()) });
+  } catch (error) {
+    console.error('[API] Error leaving duel:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to leave duel' },
+      { status: 500 }
+    );
+  }
+}
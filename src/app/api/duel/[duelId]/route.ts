@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refreshDuel } from '@/lib/duel/lobby';
+import { getDuelView, isDuelPlayer } from '@/lib/game-core/duel';
+
+/**
+ * GET /api/duel/[duelId]?userId=...
+ * Current duel state as this player sees it
+ * (use /api/duel/[duelId]/events to follow it live)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ duelId: string }> }
+) {
+  const { duelId } = await params;
+  const userId = request.nextUrl.searchParams.get('userId');
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, error: 'userId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const duel = await refreshDuel(duelId);
+    if (!duel) {
+      return NextResponse.json(
+        { success: false, error: 'Duel not found or expired' },
+        { status: 404 }
+      );
+    }
+    if (!isDuelPlayer(duel, userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Not a player in this duel' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ success: true, duel: getDuelView(duel, userId, Date.now()) });
+  } catch (error) {
+    console.error('[API] Error fetching duel:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch duel' },
+      { status: 500 }
+    );
+  }
+}
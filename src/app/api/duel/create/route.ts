@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createDuel } from '@/lib/duel/lobby';
+import { getDuelView } from '@/lib/game-core/duel';
+
+/**
+ * POST /api/duel/create
+ * Opens a duel and returns its invite code
+ * Body:
+ *   - userId: string
+ *   - opponentId: string (optional - challenge this player directly; only they can join)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId, opponentId } = body as { userId?: string; opponentId?: string };
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'userId is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await createDuel(userId, opponentId || undefined);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      duelId: result.duel.duelId,
+      inviteCode: result.duel.inviteCode,
+      duel: getDuelView(result.duel, userId, Date.now()),
+    });
+  } catch (error) {
+    console.error('[API] Error creating duel:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create duel' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPendingDuelInvites } from '@/lib/duel/lobby';
+
+/**
+ * GET /api/duel/invites?userId=...
+ * Duels other players have challenged this user to, still waiting for them
+ */
+export async function GET(request: NextRequest) {
+  const userId = request.nextUrl.searchParams.get('userId');
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, error: 'userId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const invites = await getPendingDuelInvites(userId);
+    return NextResponse.json({ success: true, invites });
+  } catch (error) {
+    console.error('[API] Error fetching duel invites:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch duel invites' },
+      { status: 500 }
+    );
+  }
+}
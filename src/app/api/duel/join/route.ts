@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { joinDuel, joinDuelByCode } from '@/lib/duel/lobby';
+import { getDuelView } from '@/lib/game-core/duel';
+
+/**
+ * POST /api/duel/join
+ * Joins a waiting duel and starts the countdown to round one
+ * Body:
+ *   - userId: string
+ *   - inviteCode: string (join by code), or
+ *   - duelId: string (accept a direct challenge from /api/duel/invites)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId, inviteCode, duelId } = body as {
+      userId?: string;
+      inviteCode?: string;
+      duelId?: string;
+    };
+
+    if (!userId || (!inviteCode && !duelId)) {
+      return NextResponse.json(
+        { success: false, error: 'userId and an inviteCode or duelId are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = inviteCode
+      ? await joinDuelByCode(userId, inviteCode)
+      : await joinDuel(userId, duelId!);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      duelId: result.duel.duelId,
+      duel: getDuelView(result.duel, userId, Date.now()),
+    });
+  } catch (error) {
+    console.error('[API] Error joining duel:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to join duel' },
+      { status: 500 }
+    );
+  }
+}
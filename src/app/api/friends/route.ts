@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { followPlayer, isFarcasterUserId, loadFollows, unfollowPlayer } from '@/lib/leaderboard/friends';
+
+/**
+ * GET /api/friends
+ * The players a user follows here (Farcaster follows count as friends too,
+ * but aren't listed)
+ * Query params:
+ *   - userId: string
+ */
+export async function GET(request: NextRequest) {
+  const userId = new URL(request.url).searchParams.get('userId');
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, error: 'Missing userId' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const follows = await loadFollows(userId);
+    return NextResponse.json({
+      success: true,
+      follows,
+      farcaster: isFarcasterUserId(userId), // Their Farcaster follows are friends too
+    });
+  } catch (error) {
+    console.error('Error fetching follows:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch follows' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Reads and checks a follow/unfollow request
+ */
+async function parseFollowRequest(
+  request: NextRequest
+): Promise<{ userId: string; followId: string } | NextResponse> {
+  const { userId, followId } = await request.json();
+
+  if (!userId || !followId) {
+    return NextResponse.json(
+      { success: false, error: 'Missing required fields' },
+      { status: 400 }
+    );
+  }
+
+  if (userId.startsWith('guest_') || followId.startsWith('guest_')) {
+    return NextResponse.json(
+      { success: false, error: 'Guests cannot follow or be followed' },
+      { status: 403 }
+    );
+  }
+
+  if (userId === followId) {
+    return NextResponse.json(
+      { success: false, error: 'Cannot follow yourself' },
+      { status: 400 }
+    );
+  }
+
+  return { userId, followId };
+}
+
+/**
+ * POST /api/friends
+ * Follow a player - they show up on the user's friends boards
+ * Body:
+ *   - userId: string
+ *   - followId: string (player to follow)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseFollowRequest(request);
+    if (parsed instanceof NextResponse) return parsed;
+
+    const follows = await followPlayer(parsed.userId, parsed.followId);
+    return NextResponse.json({ success: true, follows });
+  } catch (error) {
+    console.error('Error following player:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to follow player' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/friends
+ * Unfollow a player
+ * Body:
+ *   - userId: string
+ *   - followId: string (player to unfollow)
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const parsed = await parseFollowRequest(request);
+    if (parsed instanceof NextResponse) return parsed;
+
+    const follows = await unfollowPlayer(parsed.userId, parsed.followId);
+    return NextResponse.json({ success: true, follows });
+  } catch (error) {
+    console.error('Error unfollowing player:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to unfollow player' },
+      { status: 500 }
+    );
+  }
+}
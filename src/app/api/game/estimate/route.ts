@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { submitEstimate } from '@/lib/game-core/session';
+import { ESTIMATE_ROUND_SECONDS, hideMarketCap } from '@/lib/game-core/estimation';
+
+/**
+ * POST /api/game/estimate
+ * Submit a market cap estimate and get its score
+ * Estimation runs estimate every round; classic runs get a bonus round every
+ * few correct answers (the guess response's bonusToken)
+ * Body:
+ *   - runId: string
+ *   - userId: string
+ *   - estimate: number (estimated market cap, USD)
+ *   - ticket: string (round ticket from the previous response)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { runId, userId, estimate, ticket } = body;
+
+    if (!runId || !userId || estimate === undefined || !ticket) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof estimate !== 'number') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid estimate value' },
+        { status: 400 }
+      );
+    }
+
+    const outcome = await submitEstimate(runId, userId, estimate, ticket);
+
+    if (!outcome.success) {
+      return NextResponse.json(
+        { success: false, error: outcome.error },
+        { status: outcome.status }
+      );
+    }
+
+    const { session, result, nextToken, ticket: nextTicket } = outcome;
+
+    return NextResponse.json({
+      success: true,
+      result,
+      // Estimation runs: points so far, and the next token (null once the run is over)
+      score: session.mode === 'estimation' ? session.currentStreak : undefined,
+      nextToken: nextToken ? hideMarketCap(nextToken) : null,
+      complete: session.status === 'complete',
+      timerDuration: ESTIMATE_ROUND_SECONDS,
+      ticket: nextTicket, // Needed for the next round or leaderboard submission
+    });
+  } catch (error) {
+    console.error('Error processing estimate:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to process estimate' },
+      { status: 500 }
+    );
+  }
+}
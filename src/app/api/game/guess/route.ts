@@ -1,46 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getTokenPool } from '@/lib/data/token-pool';
-import { selectNextTokenSeeded } from '@/lib/game-core/seeded-selection';
 import { getTimerDuration } from '@/lib/game-core/timer';
-import { checkRateLimit, GameGuess } from '@/lib/game-core/validator';
-import { Guess, Token } from '@/lib/game-core/types';
-import { getRedis } from '@/lib/redis';
-import { selectNextToken } from '@/lib/game-core/sequencing';
-import { selectNextTokenByDifficulty } from '@/lib/game-core/difficulty';
-
-interface GuessRouteGameState {
-  runId: string;
-  seed: string;
-  userId: string;
-  startedAt: number;
-  guesses: GameGuess[];
-  currentStreak: number;
-  hasUsedReprieve: boolean;
-  reprieveUsedAtRound?: number;
-  currentTokenId: string;
-  nextTokenId: string;
-  roundNumber: number;
-  tokenPoolIds: string[];
-  lastGuessTimestamp?: number;
-}
+import { getBlitzClockRemaining, submitGuess } from '@/lib/game-core/session';
+import { withLiveMarketCaps } from '@/lib/data/pool-snapshots';
+import { hideMarketCap } from '@/lib/game-core/estimation';
+import { checkAchievements } from '@/lib/game-core/achievement-storage';
+import { toAchievementUnlock } from '@/lib/game-core/achievements';
 
 /**
  * POST /api/game/guess
  * Submit a guess and get the result
- * Server validates timing and tracks game state
+ * The game session decides which tokens are in play - the client only sends its guess
+ * Survival runs carry on after a wrong answer until their last life is gone,
+ * blitz runs until their clock runs out (410 once it has)
+ * Classic runs get a bonus token to estimate every few correct answers (see /api/game/estimate)
+ * Achievements the guess unlocked come back with it
+ * Body:
+ *   - runId: string
+ *   - userId: string
+ *   - guess: 'cap' | 'slap'
+ *   - ticket: string (round ticket from the previous response)
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { 
-      runId, 
-      userId, 
-      guess, // 'cap' | 'slap'
-      currentTokenId,
-      nextTokenId,
-    } = body;
+    const { runId, userId, guess, ticket } = body;
 
-    if (!runId || !userId || !guess || !currentTokenId || !nextTokenId) {
+    if (!runId || !userId || !guess || !ticket) {
       return NextResponse.json(
         { success: false, error: 'Missing required fields' },
         { status: 400 }
@@ -54,188 +39,68 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const redis = getRedis();
-    const now = Date.now();
-    
-    // Get token pool for validation and next token selection
-    const tokens = await getTokenPool();
-    const tokenMap = new Map<string, Token>();
-    tokens.forEach(t => tokenMap.set(t.id, t));
-    
-    const currentToken = tokenMap.get(currentTokenId);
-    const nextToken = tokenMap.get(nextTokenId);
-    
-    if (!currentToken || !nextToken) {
+    const result = await submitGuess(runId, userId, guess, ticket);
+
+    if (!result.success) {
       return NextResponse.json(
-        { success: false, error: 'Invalid token IDs' },
-        { status: 400 }
+        { success: false, error: result.error },
+        { status: result.status }
       );
     }
 
-    // Calculate if guess is correct
-    const isCorrect = guess === 'cap'
-      ? nextToken.marketCap >= currentToken.marketCap
-      : nextToken.marketCap < currentToken.marketCap;
-
-    let newStreak = 0;
-    let roundNumber = 0;
-    let seed = '';
-    let usedTokenIds: string[] = [currentTokenId, nextTokenId];
+    const { session, correctAnswer, ticket: nextTicket } = result;
+    // Blitz runs: what's left on the clock, after this guess's penalty
+    const clockRemainingMs = session.mode === 'blitz' ? getBlitzClockRemaining(session) : undefined;
+    let { guessedPair, nextPair } = result;
+    const achievements = (await checkAchievements(session.userId, { run: session })).map(toAchievementUnlock);
 
-    // If Redis is available, validate and update server state
-    if (redis) {
-      const stateData = await redis.get(`game:${runId}:state`);
-      
-      if (!stateData) {
-        return NextResponse.json(
-          { success: false, error: 'Game session not found or expired' },
-          { status: 404 }
-        );
-      }
-      
-      // Handle both string (needs parsing) and object (already parsed) cases
-      const state: GuessRouteGameState = typeof stateData === 'string' 
-        ? JSON.parse(stateData) 
-        : stateData as GuessRouteGameState;
-      
-      // Verify user owns this game
-      if (state.userId !== userId) {
-        return NextResponse.json(
-          { success: false, error: 'Unauthorized' },
-          { status: 403 }
-        );
-      }
-      
-      // Verify token IDs match expected state
-      if (state.currentTokenId !== currentTokenId || state.nextTokenId !== nextTokenId) {
-        return NextResponse.json(
-          { success: false, error: 'Token mismatch - possible tampering detected' },
-          { status: 400 }
-        );
-      }
-      
-      // Rate limiting
-      if (!checkRateLimit(state.lastGuessTimestamp, now)) {
-        return NextResponse.json(
-          { success: false, error: 'Too many requests' },
-          { status: 429 }
-        );
-      }
-      
-      // Record the guess
-      const guessRecord: GameGuess = {
-        roundNumber: state.roundNumber,
-        currentTokenId,
-        nextTokenId,
-        guess: guess as Guess,
-        timestamp: now,
-      };
-      
-      state.guesses.push(guessRecord);
-      state.lastGuessTimestamp = now;
-      seed = state.seed;
-      roundNumber = state.roundNumber;
-      
-      // Collect used token IDs from all guesses
-      usedTokenIds = state.guesses.flatMap(g => [g.currentTokenId, g.nextTokenId]);
-      
-      if (isCorrect) {
-        // Increment streak and prepare next round
-        state.currentStreak += 1;
-        state.roundNumber += 1;
-        newStreak = state.currentStreak;
-        
-        // Update state for next round
-        state.currentTokenId = nextTokenId;
-        
-        // Pre-select next token server-side
-        // Use difficulty-based selection which prioritizes famous tokens for streaks 0-4
-        let nextNextToken: Token | null = null;
-        if (newStreak <= 4) {
-          // For streaks 0-4, use difficulty-based selection (prioritizes famous tokens)
-          nextNextToken = selectNextTokenByDifficulty(tokens, nextToken, newStreak, usedTokenIds);
-        }
-        
-        // Fallback to regular selection if difficulty-based didn't work
-        if (!nextNextToken) {
-          nextNextToken = selectNextToken(tokens, nextToken, usedTokenIds);
-        }
-        
-        if (nextNextToken) {
-          state.nextTokenId = nextNextToken.id;
-        } else {
-          // Fallback to seeded selection if selection fails
-          const seededToken = selectNextTokenSeeded(tokens, state.seed, state.roundNumber, usedTokenIds);
-          if (seededToken) {
-            state.nextTokenId = seededToken.id;
-          }
-        }
-        
-        // Save updated state
-        await redis.set(`game:${runId}:state`, JSON.stringify(state), { ex: 3600 });
-      } else {
-        // Game over - save final state
-        newStreak = state.currentStreak;
-        await redis.set(`game:${runId}:state`, JSON.stringify(state), { ex: 3600 });
-      }
-    } else {
-      // No Redis - basic response without server validation
-      newStreak = isCorrect ? 1 : 0; // Can't track across requests without Redis
+    // Time machine runs reveal today's caps next to the snapshot day's
+    if (session.mode === 'timemachine') {
+      const [current, next, ...upcoming] = await withLiveMarketCaps([
+        guessedPair.currentToken,
+        guessedPair.nextToken,
+        ...(nextPair ? [nextPair.currentToken, nextPair.nextToken] : []),
+      ]);
+      guessedPair = { currentToken: current, nextToken: next };
+      if (nextPair) nextPair = { currentToken: upcoming[0], nextToken: upcoming[1] };
     }
 
-    // Prepare response
-    if (isCorrect) {
-      // Select next token
-      // Use difficulty-based selection which prioritizes famous tokens for streaks 0-4
-      let nextNextToken: Token | null = null;
-      if (newStreak <= 4) {
-        // For streaks 0-4, use difficulty-based selection (prioritizes famous tokens)
-        nextNextToken = selectNextTokenByDifficulty(tokens, nextToken, newStreak, usedTokenIds);
-      }
-      
-      // Fallback to regular selection if difficulty-based didn't work
-      if (!nextNextToken) {
-        nextNextToken = selectNextToken(tokens, nextToken, usedTokenIds);
-      }
-      
-      // Fallback to seeded selection if selection returns null
-      if (!nextNextToken) {
-        nextNextToken = selectNextTokenSeeded(
-          tokens, 
-          seed || `fallback_${runId}`, 
-          roundNumber + 1, 
-          usedTokenIds
-        );
-      }
-      
-      // Final fallback - just get a random token if all else fails
-      if (!nextNextToken && tokens.length > 0) {
-        nextNextToken = tokens[Math.floor(Math.random() * tokens.length)];
-      }
-      
-      const newTimerDuration = getTimerDuration(newStreak);
-      
+    // Correct - or a wrong answer a survival (life left) or blitz (time left) run carries on from
+    if (result.correct || session.status === 'active') {
       return NextResponse.json({
         success: true,
-        correct: true,
-        newStreak,
-        currentToken: nextToken, // The guessed token becomes current
-        nextToken: nextNextToken,
-        revealedMarketCap: nextToken.marketCap,
-        timerDuration: newTimerDuration,
-      });
-    } else {
-      // Game over
-      return NextResponse.json({
-        success: true,
-        correct: false,
-        finalStreak: newStreak,
-        currentToken,
-        nextToken,
-        revealedMarketCap: nextToken.marketCap,
-        correctAnswer: nextToken.marketCap >= currentToken.marketCap ? 'cap' : 'slap',
+        correct: result.correct,
+        newStreak: session.currentStreak,
+        lives: session.lives, // Survival runs only
+        clockRemainingMs,
+        // Null when there's nothing left to deal (challenge replay cleared)
+        currentToken: nextPair?.currentToken ?? guessedPair.nextToken,
+        nextToken: nextPair?.nextToken ?? null,
+        complete: session.status === 'complete',
+        revealedMarketCap: guessedPair.nextToken.marketCap,
+        timerDuration: getTimerDuration(session.currentStreak),
+        ticket: nextTicket,
+        ...(!result.correct && { correctAnswer }),
+        // Classic runs: a bonus estimate, with its market cap hidden
+        ...(result.bonusToken && { bonusToken: hideMarketCap(result.bonusToken) }),
+        achievements,
       });
     }
+
+    // Game over
+    return NextResponse.json({
+      success: true,
+      correct: false,
+      finalStreak: session.currentStreak,
+      lives: session.lives, // Survival runs only (0 - out of lives)
+      clockRemainingMs,
+      currentToken: guessedPair.currentToken,
+      nextToken: guessedPair.nextToken,
+      revealedMarketCap: guessedPair.nextToken.marketCap,
+      correctAnswer,
+      ticket: nextTicket, // Needed for a reprieve or leaderboard submission
+      achievements,
+    });
   } catch (error) {
     console.error('Error processing guess:', error);
     return NextResponse.json(
@@ -244,4 +109,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
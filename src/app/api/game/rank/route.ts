@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTimerDuration } from '@/lib/game-core/timer';
+import { submitRanking } from '@/lib/game-core/session';
+import { hideMarketCap } from '@/lib/game-core/estimation';
+
+/**
+ * POST /api/game/rank
+ * Submit a ranking round's order and get the result
+ * The game session decides which tokens are in play - the client only sends its order
+ * Body:
+ *   - runId: string
+ *   - userId: string
+ *   - order: string[] (the round's token IDs, highest market cap first)
+ *   - ticket: string (round ticket from the previous response)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { runId, userId, order, ticket } = body;
+
+    if (!runId || !userId || !order || !ticket) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(order)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid order value' },
+        { status: 400 }
+      );
+    }
+
+    const outcome = await submitRanking(runId, userId, order, ticket);
+
+    if (!outcome.success) {
+      return NextResponse.json(
+        { success: false, error: outcome.error },
+        { status: outcome.status }
+      );
+    }
+
+    const { session, result, nextTokens, ticket: nextTicket } = outcome;
+
+    if (result.correct) {
+      return NextResponse.json({
+        success: true,
+        correct: true,
+        newStreak: session.currentStreak,
+        result,
+        // Null when there's nothing left to deal - caps only come back in the round's result
+        tokens: nextTokens ? nextTokens.map(hideMarketCap) : null,
+        complete: session.status === 'complete',
+        timerDuration: getTimerDuration(session.currentStreak),
+        ticket: nextTicket,
+      });
+    }
+
+    // Game over
+    return NextResponse.json({
+      success: true,
+      correct: false,
+      finalStreak: session.currentStreak,
+      result,
+      ticket: nextTicket, // Needed for leaderboard submission
+    });
+  } catch (error) {
+    console.error('Error processing ranking:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to process ranking' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTimerDuration } from '@/lib/game-core/timer';
+import { applyReprieve } from '@/lib/game-core/session';
+
+/**
+ * POST /api/game/reprieve
+ * Continues a lost classic run with a fresh token
+ * Needs the run's payment verified first (see /api/reprieve/verify), unless reprieves are free - each payment revives once
+ * Body:
+ *   - runId: string
+ *   - userId: string
+ *   - ticket: string (final ticket from the losing guess)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { runId, userId, ticket } = body;
+
+    if (!runId || !userId || !ticket) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    const result = await applyReprieve(runId, userId, ticket);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      currentToken: result.currentToken,
+      nextToken: result.nextToken,
+      streak: result.session.currentStreak,
+      timerDuration: getTimerDuration(result.session.currentStreak),
+      ticket: result.ticket,
+    });
+  } catch (error) {
+    console.error('Error applying reprieve:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to apply reprieve' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,23 +3,65 @@ import { v4 as uuidv4 } from 'uuid';
 import { getTokenPool } from '@/lib/data/token-pool';
 import { 
   generateGameSeed, 
-  selectInitialPairSeeded
+  selectInitialPairSeeded,
+  selectNextTokenSeeded,
+  selectTokensWithSeed
 } from '@/lib/game-core/seeded-selection';
-import { selectInitialPair, selectNextToken, selectFamousTokenPair } from '@/lib/game-core/sequencing';
+import { isNearTiePair } from '@/lib/game-core/tie-policy';
+import { selectInitialPair, selectFamousTokenPair } from '@/lib/game-core/sequencing';
 import { selectInitialPairByDifficulty } from '@/lib/game-core/difficulty';
 import { getTimerDuration } from '@/lib/game-core/timer';
-import { getRedis } from '@/lib/redis';
-import { Token } from '@/lib/game-core/types';
+import { buildDailySequence, getDailyKey, getDailySeed, isValidDailyKey } from '@/lib/game-core/daily';
+import { claimDailyAttempt, getDailyTokenSnapshot } from '@/lib/leaderboard/daily-challenge';
+import { loadChallenge } from '@/lib/challenge/storage';
+import { createGameSession, getBlitzClockRemaining } from '@/lib/game-core/session';
+import { buildThemeTokenPool, getTheme, isThemeId } from '@/lib/game-core/themes';
+import { getTimeMachineDays, pickTimeMachineDay } from '@/lib/game-core/time-machine';
+import { listPoolSnapshotDays, loadPoolSnapshot, withLiveMarketCaps } from '@/lib/data/pool-snapshots';
+import { buildMetricTokenPool, getMetric, isComparisonMetric, MIN_METRIC_TOKENS } from '@/lib/game-core/metrics';
+import { getRankingSize, isRankingScoring, selectRankingTokens } from '@/lib/game-core/ranking';
+import { ESTIMATE_ROUND_SECONDS, ESTIMATION_ROUNDS, hideMarketCap } from '@/lib/game-core/estimation';
+import { ComparisonMetric, GameMode, RankingScoring, ThemeId, Token } from '@/lib/game-core/types';
+
+const GAME_MODES: GameMode[] = [
+  'classic',
+  'daily',
+  'challenge',
+  'themed',
+  'timemachine',
+  'metric',
+  'survival',
+  'blitz',
+  'ranking',
+  'estimation',
+];
 
 /**
  * POST /api/game/start
  * Starts a new game run with server-side state tracking
  * Returns initial token pair, run ID, and timer info
+ * Body:
+ *   - userId: string
+ *   - mode: 'classic' | 'daily' | 'challenge' | 'themed' | 'timemachine' | 'metric' | 'survival' | 'blitz' | 'ranking'
+ *           | 'estimation' (default: classic)
+ *   - challengeRunId: string (challenge mode only - run to replay)
+ *   - theme: ThemeId (themed mode only - e.g. 'memecoin-mayhem')
+ *   - date: YYYY-MM-DD (timemachine mode only - day to play; a random past snapshot if omitted)
+ *   - metric: ComparisonMetric (metric mode only - e.g. 'volume24h')
+ *   - scoring: 'exact' | 'inversions' (ranking mode only - default: exact)
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { userId } = body;
+    const { userId, mode = 'classic', challengeRunId, theme, date, metric, scoring } = body as {
+      userId?: string;
+      mode?: GameMode;
+      challengeRunId?: string;
+      theme?: string;
+      date?: string;
+      metric?: string;
+      scoring?: string;
+    };
 
     if (!userId) {
       return NextResponse.json(
@@ -28,8 +70,66 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get token pool
-    const tokens = await getTokenPool();
+    if (!GAME_MODES.includes(mode)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid game mode' },
+        { status: 400 }
+      );
+    }
+
+    if (mode === 'daily') {
+      return startDailyGame(userId);
+    }
+
+    if (mode === 'challenge') {
+      if (!challengeRunId) {
+        return NextResponse.json(
+          { success: false, error: 'challengeRunId is required' },
+          { status: 400 }
+        );
+      }
+      return startChallengeGame(userId, challengeRunId);
+    }
+
+    if (mode === 'timemachine') {
+      return startTimeMachineGame(userId, date);
+    }
+
+    if (mode === 'metric') {
+      if (!isComparisonMetric(metric) || metric === 'marketCap' || !getMetric(metric).enabled) {
+        return NextResponse.json(
+          { success: false, error: 'A valid metric is required' },
+          { status: 400 }
+        );
+      }
+      return startMetricGame(userId, metric);
+    }
+
+    if (mode === 'ranking') {
+      if (scoring !== undefined && !isRankingScoring(scoring)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid ranking scoring' },
+          { status: 400 }
+        );
+      }
+      return startRankingGame(userId, scoring ?? 'exact');
+    }
+
+    if (mode === 'estimation') {
+      return startEstimationGame(userId);
+    }
+
+    if (mode === 'themed' && !isThemeId(theme)) {
+      return NextResponse.json(
+        { success: false, error: 'A valid theme is required' },
+        { status: 400 }
+      );
+    }
+    const themeId = mode === 'themed' ? theme as ThemeId : undefined;
+
+    // Get token pool (themed runs only deal the theme's tokens)
+    const fullPool = await getTokenPool();
+    const tokens = themeId ? buildThemeTokenPool(fullPool, getTheme(themeId)) : fullPool;
     
     if (tokens.length < 2) {
       return NextResponse.json(
@@ -74,56 +174,43 @@ export async function POST(request: NextRequest) {
       nextToken = pair.nextToken;
     }
 
-    const startedAt = Date.now();
-    const timerDuration = getTimerDuration(0);
-
-    // Preload a batch of tokens for smooth gameplay (5 tokens ahead)
-    const PRELOAD_COUNT = 5;
-    const preloadedTokens: Token[] = [];
-    let lastToken = nextToken;
-    const usedIds = new Set([currentToken.id, nextToken.id]);
-
-    for (let i = 0; i < PRELOAD_COUNT; i++) {
-      const nextPreloaded = selectNextToken(tokens, lastToken, Array.from(usedIds));
-      if (!nextPreloaded) break;
-      
-      preloadedTokens.push(nextPreloaded);
-      usedIds.add(nextPreloaded.id);
-      lastToken = nextPreloaded;
+    // Never open on a near-tie (see tie-policy.ts)
+    const opening = separateNearTie({ currentToken, nextToken }, tokens, seed);
+    if (!opening) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to select initial tokens' },
+        { status: 500 }
+      );
     }
+    ({ currentToken, nextToken } = opening);
 
-    // Store game state in Redis for validation
-    const redis = getRedis();
-    if (redis) {
-      const gameState = {
-        runId,
-        seed,
-        userId,
-        startedAt,
-        guesses: [],
-        currentStreak: 0,
-        hasUsedReprieve: false,
-        currentTokenId: currentToken.id,
-        nextTokenId: nextToken.id,
-        roundNumber: 0,
-        // Store token IDs for this game session
-        tokenPoolIds: tokens.map(t => t.id),
-      };
-      
-      // Store with 1 hour TTL (games shouldn't last longer)
-      await redis.set(`game:${runId}:state`, JSON.stringify(gameState), { ex: 3600 });
-      await redis.set(`game:${runId}:seed`, seed, { ex: 3600 });
-    }
+    // The session deals every following token (see /api/game/guess)
+    // Survival and blitz runs are dealt like classic ones - the session keeps their lives and clock
+    const { session, ticket } = await createGameSession({
+      runId,
+      seed,
+      userId,
+      mode: themeId ? 'themed' : mode === 'survival' || mode === 'blitz' ? mode : 'classic',
+      theme: themeId,
+      currentToken,
+      nextToken,
+      tokens,
+      tokenPoolIds: tokens.map(t => t.id),
+    });
 
     return NextResponse.json({
       success: true,
       runId,
+      mode: session.mode,
+      theme: themeId,
+      lives: session.lives, // Survival runs only
+      clockRemainingMs: session.mode === 'blitz' ? getBlitzClockRemaining(session) : undefined,
       seed, // Client needs seed for verification
       currentToken,
       nextToken,
-      timerDuration,
-      startedAt,
-      preloadedTokens, // Preloaded tokens for smooth gameplay
+      timerDuration: getTimerDuration(0),
+      startedAt: session.startedAt,
+      ticket, // Signed round ticket - required with the first guess
     });
   } catch (error) {
     console.error('Error starting game:', error);
@@ -133,3 +220,321 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Swaps out the second token of a near-tie opening pair
+ * @returns The pair (unchanged if it isn't a near-tie), or null if nothing can replace it
+ */
+function separateNearTie(
+  pair: { currentToken: Token; nextToken: Token } | null,
+  tokens: Token[],
+  seed: string
+): { currentToken: Token; nextToken: Token } | null {
+  if (!pair || !isNearTiePair(pair.currentToken, pair.nextToken)) return pair;
+
+  const nextToken = selectNextTokenSeeded(tokens, seed, 0, [pair.currentToken.id, pair.nextToken.id], pair.currentToken);
+  return nextToken ? { currentToken: pair.currentToken, nextToken } : null;
+}
+
+/**
+ * Starts a Daily Challenge run
+ * Everyone gets the same sequence for the UTC day, one attempt per user
+ */
+async function startDailyGame(userId: string) {
+  const dayKey = getDailyKey();
+  const seed = getDailySeed(dayKey);
+
+  // Frozen snapshot so every player sees the same market caps all day
+  const tokens = await getDailyTokenSnapshot(dayKey);
+  const sequence = buildDailySequence(tokens, dayKey, 2);
+
+  if (sequence.length < 2) {
+    return NextResponse.json(
+      { success: false, error: 'Not enough tokens available' },
+      { status: 500 }
+    );
+  }
+
+  const runId = uuidv4();
+  const [currentToken, nextToken] = sequence;
+
+  // The session keeps dealing the day's seeded sequence
+  const { session, ticket } = await createGameSession({
+    runId,
+    seed,
+    userId,
+    mode: 'daily',
+    dayKey,
+    currentToken,
+    nextToken,
+    tokens,
+    tokenPoolIds: tokens.map(t => t.id),
+  });
+
+  // Claimed only once the run exists, so a failed start doesn't use up the day's attempt.
+  // A session left behind by a lost claim is never handed out and expires on its own.
+  const claimed = await claimDailyAttempt(userId, dayKey, runId);
+  if (!claimed) {
+    return NextResponse.json(
+      { success: false, error: "You've already played today's Daily Challenge", dayKey },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    runId,
+    mode: 'daily',
+    dayKey,
+    seed,
+    currentToken,
+    nextToken,
+    timerDuration: getTimerDuration(0),
+    startedAt: session.startedAt,
+    ticket, // Signed round ticket - required with the first guess
+  });
+}
+
+/**
+ * Starts a time machine run
+ * A classic run dealt from a past day's stored pool snapshot - the caps it's
+ * scored on are that day's; today's caps ride along for the reveal
+ */
+async function startTimeMachineGame(userId: string, date?: string) {
+  const days = getTimeMachineDays(await listPoolSnapshotDays());
+
+  if (date !== undefined && (!isValidDailyKey(date) || !days.includes(date))) {
+    return NextResponse.json(
+      { success: false, error: 'No market cap snapshot for that date', availableDates: days },
+      { status: 404 }
+    );
+  }
+
+  const dayKey = date ?? pickTimeMachineDay(days);
+  const snapshot = dayKey ? await loadPoolSnapshot(dayKey) : null;
+  if (!dayKey || !snapshot) {
+    return NextResponse.json(
+      { success: false, error: 'No market cap snapshots to travel to yet' },
+      { status: 404 }
+    );
+  }
+
+  const tokens = snapshot.tokens;
+  const seed = generateGameSeed();
+  const pair = separateNearTie(
+    selectInitialPairByDifficulty(tokens) ?? selectInitialPairSeeded(tokens, seed),
+    tokens,
+    seed
+  );
+  if (!pair) {
+    return NextResponse.json(
+      { success: false, error: 'Not enough tokens available' },
+      { status: 500 }
+    );
+  }
+
+  // The session keeps dealing from the same snapshot
+  const { session, ticket } = await createGameSession({
+    runId: uuidv4(),
+    seed,
+    userId,
+    mode: 'timemachine',
+    dayKey,
+    currentToken: pair.currentToken,
+    nextToken: pair.nextToken,
+    tokens,
+    tokenPoolIds: tokens.map(t => t.id),
+  });
+
+  const [currentToken, nextToken] = await withLiveMarketCaps([pair.currentToken, pair.nextToken]);
+
+  return NextResponse.json({
+    success: true,
+    runId: session.runId,
+    mode: 'timemachine',
+    snapshotDate: dayKey,
+    seed,
+    currentToken,
+    nextToken,
+    timerDuration: getTimerDuration(0),
+    startedAt: session.startedAt,
+    ticket, // Signed round ticket - required with the first guess
+  });
+}
+
+/**
+ * Starts a metric run
+ * A classic run compared on another metric (volume, TVL...), dealt only from
+ * tokens that have a value for it
+ */
+async function startMetricGame(userId: string, metric: ComparisonMetric) {
+  const tokens = buildMetricTokenPool(await getTokenPool(), metric);
+  if (tokens.length < MIN_METRIC_TOKENS) {
+    return NextResponse.json(
+      { success: false, error: `Not enough ${getMetric(metric).label} data right now - try again later` },
+      { status: 503 }
+    );
+  }
+
+  const seed = generateGameSeed();
+  const pair = selectInitialPairSeeded(tokens, seed, metric);
+  if (!pair) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to select initial tokens' },
+      { status: 500 }
+    );
+  }
+
+  // The session keeps dealing from the metric's pool, scored on the metric's values
+  const { session, ticket } = await createGameSession({
+    runId: uuidv4(),
+    seed,
+    userId,
+    mode: 'metric',
+    metric,
+    currentToken: pair.currentToken,
+    nextToken: pair.nextToken,
+    tokens,
+    tokenPoolIds: tokens.map(t => t.id),
+  });
+
+  return NextResponse.json({
+    success: true,
+    runId: session.runId,
+    mode: 'metric',
+    metric,
+    seed,
+    currentToken: pair.currentToken,
+    nextToken: pair.nextToken,
+    timerDuration: getTimerDuration(0),
+    startedAt: session.startedAt,
+    ticket, // Signed round ticket - required with the first guess
+  });
+}
+
+/**
+ * Starts a ranking run
+ * Every round orders three or four tokens - see /api/game/rank
+ */
+async function startRankingGame(userId: string, scoring: RankingScoring) {
+  const tokens = await getTokenPool();
+  const seed = generateGameSeed();
+  const rankingTokens = selectRankingTokens(tokens, seed, 0, getRankingSize(0));
+  if (rankingTokens.length < getRankingSize(0)) {
+    return NextResponse.json(
+      { success: false, error: 'Not enough tokens available' },
+      { status: 500 }
+    );
+  }
+
+  // The session keeps dealing rounds from the live pool, scored on the snapshotted caps
+  const { session, ticket } = await createGameSession({
+    runId: uuidv4(),
+    seed,
+    userId,
+    mode: 'ranking',
+    currentToken: rankingTokens[0],
+    nextToken: rankingTokens[1],
+    rankingTokens,
+    rankingScoring: scoring,
+    tokens,
+    tokenPoolIds: tokens.map(t => t.id),
+  });
+
+  return NextResponse.json({
+    success: true,
+    runId: session.runId,
+    mode: 'ranking',
+    scoring,
+    seed,
+    tokens: rankingTokens.map(hideMarketCap), // Caps only come back in each round's result
+    timerDuration: getTimerDuration(0),
+    startedAt: session.startedAt,
+    ticket, // Signed round ticket - required with the first ranking
+  });
+}
+
+/**
+ * Starts an estimation run
+ * Every round estimates one token's market cap - see /api/game/estimate
+ */
+async function startEstimationGame(userId: string) {
+  const tokens = await getTokenPool();
+  const seed = generateGameSeed();
+  const [token] = selectTokensWithSeed(tokens, `${seed}_estimate_0`, 1);
+  if (!token) {
+    return NextResponse.json(
+      { success: false, error: 'Not enough tokens available' },
+      { status: 500 }
+    );
+  }
+
+  // The session keeps dealing rounds from the live pool, scored on the snapshotted caps
+  const { session, ticket } = await createGameSession({
+    runId: uuidv4(),
+    seed,
+    userId,
+    mode: 'estimation',
+    currentToken: token,
+    nextToken: token,
+    tokens,
+    tokenPoolIds: tokens.map(t => t.id),
+  });
+
+  return NextResponse.json({
+    success: true,
+    runId: session.runId,
+    mode: 'estimation',
+    seed,
+    token: hideMarketCap(token), // The answer stays on the server
+    rounds: ESTIMATION_ROUNDS,
+    timerDuration: ESTIMATE_ROUND_SECONDS,
+    startedAt: session.startedAt,
+    ticket, // Signed round ticket - required with the first estimate
+  });
+}
+
+/**
+ * Starts a challenge run
+ * Replays the challenger's pairs in order, with the market caps (or metric) they saw
+ */
+async function startChallengeGame(userId: string, challengeRunId: string) {
+  const replay = await loadChallenge(challengeRunId);
+  if (!replay) {
+    return NextResponse.json(
+      { success: false, error: 'Challenge not found or expired' },
+      { status: 404 }
+    );
+  }
+
+  const { challenge, pairs } = replay;
+  const { current: currentToken, next: nextToken } = pairs[0];
+
+  // The session deals the challenger's pairs with their frozen market caps
+  const { session, ticket } = await createGameSession({
+    runId: uuidv4(),
+    seed: generateGameSeed(),
+    userId,
+    mode: 'challenge',
+    challengeRunId,
+    metric: challenge.metric,
+    currentToken,
+    nextToken,
+    tokens: pairs.flatMap(p => [p.current, p.next]),
+    tokenPoolIds: pairs.flatMap(p => [p.current.id, p.next.id]),
+    tokenPool: pairs.flatMap(p => [p.current, p.next]),
+  });
+
+  return NextResponse.json({
+    success: true,
+    runId: session.runId,
+    mode: 'challenge',
+    seed: session.seed,
+    currentToken,
+    nextToken,
+    timerDuration: getTimerDuration(0),
+    startedAt: session.startedAt,
+    ticket, // Signed round ticket - required with the first guess
+    challenge, // Later pairs are only revealed as they're guessed on
+  });
+}
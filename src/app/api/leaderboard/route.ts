@@ -1,28 +1,201 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getWeeklyLeaderboard, getGlobalLeaderboard, getUserWeeklyRank, getWeeklyCumulativeScores } from '@/lib/redis';
+import { getWeeklyLeaderboard, getGlobalLeaderboard, getUserWeeklyRank, getWeeklyCumulativeScores, getDailyLeaderboard, getUserDailyRank, getThemeLeaderboard, getUserThemeRank, getSurvivalLeaderboard, getUserSurvivalRank, getBlitzLeaderboard, getUserBlitzRank, getEstimationLeaderboard, getUserEstimationRank } from '@/lib/redis';
+import { isThemeId } from '@/lib/game-core/themes';
+import { getDailyKey, isValidDailyKey } from '@/lib/game-core/daily';
 import { LeaderboardEntry } from '@/lib/game-core/types';
+import { withAchievementBadges } from '@/lib/game-core/achievement-storage';
+import { getFriendRank, getFriendsLeaderboard } from '@/lib/leaderboard/friends';
+import { getTeamLeaderboard, getUserTeamStandings } from '@/lib/teams';
+import { getFeaturedSeason, getSeasonStandings } from '@/lib/leaderboard/seasons';
 
 /**
  * GET /api/leaderboard
  * Returns leaderboard entries
  * Query params:
- *   - type: 'weekly' | 'global' (default: weekly)
+ *   - type: 'weekly' | 'global' | 'daily' | 'theme' | 'survival' | 'blitz' | 'estimation' | 'friends' | 'teams' | 'season' (default: weekly)
  *   - limit: number (default: 100)
- *   - userId: string (optional, to get user's rank)
+ *   - userId: string (optional, to get user's rank and rank among friends - required for friends)
+ *   - date: YYYY-MM-DD (optional, daily only - defaults to today UTC)
+ *   - theme: ThemeId (theme only, e.g. 'l2-wars')
+ *   - board: 'weekly' | 'global' (theme, survival and friends only, default: weekly)
+ *   - season: season ID (season only - defaults to the running season, else the latest)
  * 
  * For weekly: Returns cumulative scores (sum of all streaks in the week)
  * For global: Returns best streaks (all-time best)
+ * For daily: Returns Daily Challenge streaks (one attempt per user)
+ * For theme: Returns best streaks in that theme's runs
+ * For survival: Returns best survival run scores
+ * For blitz: Returns this week's best blitz scores (correct answers in 60s)
+ * For estimation: Returns this week's best estimation scores (points over ten estimates)
+ * For friends: Returns the user and their friends (followed here or on Farcaster) by
+ * this week's cumulative score or all-time best streak
+ * For teams: Returns this week's team scores as `teams` (not player entries), with
+ * the user's team as `userTeam`
+ * For season: Returns season scores (sum of the season's weekly scores) - the archived
+ * final standings, with rewards, once the season has ended
+ * Every entry carries its player's achievement badges
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const type = (searchParams.get('type') || 'weekly') as 'weekly' | 'global';
+    const type = (searchParams.get('type') || 'weekly') as 'weekly' | 'global' | 'daily' | 'theme' | 'survival' | 'blitz' | 'estimation' | 'friends' | 'teams' | 'season';
     const limit = parseInt(searchParams.get('limit') || '100', 10);
     const userId = searchParams.get('userId');
 
     let entries: LeaderboardEntry[] = [];
     let userRank: number | null = null;
 
+    if (type === 'daily') {
+      const date = searchParams.get('date') || getDailyKey();
+      if (!isValidDailyKey(date)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid date - expected YYYY-MM-DD' },
+          { status: 400 }
+        );
+      }
+      
+      entries = await getDailyLeaderboard(date, limit);
+      if (userId) {
+        userRank = await getUserDailyRank(userId, date);
+      }
+      
+      return NextResponse.json({
+        success: true,
+        type,
+        date,
+        entries: await withAchievementBadges(entries),
+        userRank,
+      });
+    }
+
+    if (type === 'theme') {
+      const theme = searchParams.get('theme');
+      const board = searchParams.get('board') === 'global' ? 'global' : 'weekly';
+      if (!isThemeId(theme)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid theme' },
+          { status: 400 }
+        );
+      }
+      
+      entries = await getThemeLeaderboard(theme, board, limit);
+      if (userId) {
+        userRank = await getUserThemeRank(userId, theme, board);
+      }
+      
+      return NextResponse.json({
+        success: true,
+        type,
+        theme,
+        board,
+        entries: await withAchievementBadges(entries),
+        userRank,
+      });
+    }
+
+    if (type === 'survival') {
+      const board = searchParams.get('board') === 'global' ? 'global' : 'weekly';
+      
+      entries = await getSurvivalLeaderboard(board, limit);
+      if (userId) {
+        userRank = await getUserSurvivalRank(userId, board);
+      }
+      
+      return NextResponse.json({
+        success: true,
+        type,
+        board,
+        entries: await withAchievementBadges(entries),
+        userRank,
+      });
+    }
+
+    if (type === 'blitz') {
+      entries = await getBlitzLeaderboard(limit);
+      if (userId) {
+        userRank = await getUserBlitzRank(userId);
+      }
+      
+      return NextResponse.json({
+        success: true,
+        type,
+        entries: await withAchievementBadges(entries),
+        userRank,
+      });
+    }
+
+    if (type === 'friends') {
+      const board = searchParams.get('board') === 'global' ? 'global' : 'weekly';
+      if (!userId) {
+        return NextResponse.json(
+          { success: false, error: 'Friends boards need a userId' },
+          { status: 400 }
+        );
+      }
+      
+      entries = (await getFriendsLeaderboard(userId, board)).slice(0, limit);
+      const userIndex = entries.findIndex(e => e.user.userId === userId);
+      userRank = userIndex >= 0 ? userIndex + 1 : null;
+      
+      return NextResponse.json({
+        success: true,
+        type,
+        board,
+        entries: await withAchievementBadges(entries),
+        userRank,
+      });
+    }
+
+    if (type === 'teams') {
+      const userTeam = userId ? await getUserTeamStandings(userId) : null;
+      
+      return NextResponse.json({
+        success: true,
+        type,
+        teams: await getTeamLeaderboard(limit),
+        userTeam: userTeam && { teamId: userTeam.teamId, name: userTeam.name, rank: userTeam.rank, score: userTeam.score },
+      });
+    }
+
+    if (type === 'season') {
+      const seasonId = searchParams.get('season') || (await getFeaturedSeason())?.seasonId;
+      const standings = seasonId ? await getSeasonStandings(seasonId, limit) : null;
+      if (!standings) {
+        return NextResponse.json(
+          { success: false, error: seasonId ? 'Season not found' : 'No seasons yet' },
+          { status: 404 }
+        );
+      }
+      
+      entries = standings.entries;
+      if (userId) {
+        const userIndex = entries.findIndex(e => e.user.userId === userId);
+        userRank = userIndex >= 0 ? userIndex + 1 : null;
+      }
+      
+      return NextResponse.json({
+        success: true,
+        type,
+        season: { ...standings.season, status: standings.status, final: standings.final },
+        entries: await withAchievementBadges(entries),
+        userRank,
+      });
+    }
+
+    if (type === 'estimation') {
+      entries = await getEstimationLeaderboard(limit);
+      if (userId) {
+        userRank = await getUserEstimationRank(userId);
+      }
+      
+      return NextResponse.json({
+        success: true,
+        type,
+        entries: await withAchievementBadges(entries),
+        userRank,
+      });
+    }
+
     if (type === 'weekly') {
       // For weekly, prefer cumulative scores (sum of all streaks in the week)
       // But fallback to regular weekly leaderboard if cumulative scores don't exist yet
@@ -112,8 +285,10 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       success: true,
       type,
-      entries,
+      entries: await withAchievementBadges(entries),
       userRank,
+      // Rank on the same board among the user's friends
+      friendRank: userId ? await getFriendRank(userId, type) : null,
     });
   } catch (error) {
     console.error('Error fetching leaderboard:', error);
@@ -1,20 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Run } from '@/lib/game-core/types';
-import { requiresVerification, validateGameState, ServerGameState } from '@/lib/game-core/validator';
-import { submitScoreWithOvertakes, OvertakeEvent } from '@/lib/leaderboard/overtake';
+import { requiresVerification, validateGameState } from '@/lib/game-core/validator';
+import { redeemFinalTicket } from '@/lib/game-core/session';
+import { loadMarketCapSnapshot } from '@/lib/game-core/market-cap-snapshot';
+import { submitScoreWithOvertakes } from '@/lib/leaderboard/overtake';
+import { notifyFriendOvertakes } from '@/lib/leaderboard/friends';
+import { recordTeamMemberRun } from '@/lib/teams';
+import { trackSeasonScore } from '@/lib/leaderboard/seasons';
 import { resolveIdentity, ResolvedIdentity } from '@/lib/auth/identity-resolver';
-import { getRedis } from '@/lib/redis';
+import { getStore, GameStore } from '@/lib/store';
 import { updatePreviousRank } from '@/lib/leaderboard/position-tracker';
+import { submitDailyScore } from '@/lib/leaderboard/daily-challenge';
+import { submitThemeScore } from '@/lib/leaderboard/theme-boards';
+import { submitSurvivalScore } from '@/lib/leaderboard/survival-boards';
+import { submitBlitzScore } from '@/lib/leaderboard/blitz-boards';
+import { submitEstimationScore } from '@/lib/leaderboard/estimation-boards';
+import { checkAchievements } from '@/lib/game-core/achievement-storage';
+import { toAchievementUnlock } from '@/lib/game-core/achievements';
+
+/**
+ * Caches the player's profile so the mode boards can show their name
+ * (the main board gets its identity through submitScoreWithOvertakes)
+ */
+async function storeProfile(store: GameStore, userId: string): Promise<void> {
+  const identity = await resolveIdentity(userId).catch(() => null);
+  if (identity) {
+    await store.set(`user:${userId}:profile`, JSON.stringify(identity), { ex: 86400 * 7 });
+  }
+}
 
 /**
  * POST /api/leaderboard/submit
  * Submits a completed run to the leaderboard
- * High scores (10+) are validated server-side
+ * Every board is fed the session's score, never the client's; high scores
+ * (10+) are also re-validated round by round
+ * Body:
+ *   - run: Run
+ *   - userId: string
+ *   - ticket: string (final round ticket from the losing guess)
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { run, userId } = body as { run: Run; userId: string };
+    const { run, userId, ticket } = body as { run: Run; userId: string; ticket?: string };
 
     if (!run || !run.runId || !userId) {
       return NextResponse.json(
@@ -31,49 +59,203 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const redis = getRedis();
+    // The final round ticket proves this is a run the server dealt - and can only be used once
+    if (!ticket) {
+      return NextResponse.json(
+        { success: false, error: 'Round ticket is required' },
+        { status: 400 }
+      );
+    }
     
-    // For high scores, validate against server state
-    if (requiresVerification(run.streak) && redis) {
-      const stateData = await redis.get(`game:${run.runId}:state`);
-      
-      if (!stateData) {
-        return NextResponse.json(
-          { success: false, error: 'Game session not found - score cannot be verified' },
-          { status: 400 }
-        );
+    // The run reported has to be the one the server played - checked before the ticket is used up
+    const redeemed = await redeemFinalTicket(run.runId, userId, ticket, { mode: run.mode, streak: run.streak });
+    if (!redeemed.success) {
+      console.warn(`[Leaderboard] Rejected submission for run ${run.runId}: ${redeemed.error}`);
+      return NextResponse.json(
+        { success: false, error: redeemed.error },
+        { status: redeemed.status }
+      );
+    }
+    const gameState = redeemed.session;
+    const mode = gameState.mode ?? 'classic';
+    const streak = gameState.currentStreak;
+    
+    // Challenge replays use someone else's known pairs - they never hit the boards
+    if (mode === 'challenge') {
+      return NextResponse.json({
+        success: true,
+        isNewBest: false,
+        previousRank: null,
+        newRank: 0,
+        overtakes: [],
+        streak,
+        mode: 'challenge',
+      });
+    }
+    
+    // For high scores, re-score every round against the market caps the run was dealt
+    if (requiresVerification(streak)) {
+      const marketCaps = gameState.marketCapSnapshotHash
+        ? await loadMarketCapSnapshot(gameState.marketCapSnapshotHash)
+        : null;
+      if (gameState.marketCapSnapshotHash && !marketCaps) {
+        console.warn(`[Leaderboard] Snapshot missing for run ${run.runId} - validating against played tokens`);
       }
       
-      // Handle both string (needs parsing) and object (already parsed) cases
-      const gameState: ServerGameState = typeof stateData === 'string' 
-        ? JSON.parse(stateData) 
-        : stateData as ServerGameState;
-      
-      // Verify user owns this game
-      if (gameState.userId !== userId) {
+      // Validate the game state
+      const validation = validateGameState(gameState, marketCaps);
+      if (!validation.valid) {
+        console.warn(`[Leaderboard] Validation failed for run ${run.runId}: ${validation.reason}`);
         return NextResponse.json(
-          { success: false, error: 'Unauthorized - user mismatch' },
-          { status: 403 }
+          { success: false, error: 'Score validation failed', reason: validation.reason },
+          { status: 400 }
         );
       }
-      
-      // Verify streak matches server state
-      if (gameState.currentStreak !== run.streak) {
+    }
+    
+    const store = getStore();
+    
+    // Time machine runs are played on old caps - shareable, but not comparable with live runs
+    if (mode === 'timemachine') {
+      return NextResponse.json({
+        success: true,
+        isNewBest: false,
+        previousRank: null,
+        newRank: 0,
+        overtakes: [],
+        streak,
+        mode: 'timemachine',
+      });
+    }
+    
+    // Metric runs are a different game - shareable, but not comparable with market cap runs
+    if (mode === 'metric') {
+      return NextResponse.json({
+        success: true,
+        isNewBest: false,
+        previousRank: null,
+        newRank: 0,
+        overtakes: [],
+        streak,
+        mode: 'metric',
+        metric: gameState.metric,
+      });
+    }
+    
+    // Ranking runs order three or four tokens a round - not comparable with pair runs
+    if (mode === 'ranking') {
+      return NextResponse.json({
+        success: true,
+        isNewBest: false,
+        previousRank: null,
+        newRank: 0,
+        overtakes: [],
+        streak,
+        mode: 'ranking',
+      });
+    }
+    
+    // Daily Challenge runs only go to that day's board
+    if (mode === 'daily') {
+      if (!gameState.dayKey) {
         return NextResponse.json(
-          { success: false, error: `Streak mismatch: reported ${run.streak}, server has ${gameState.currentStreak}` },
+          { success: false, error: 'Daily Challenge session not found' },
           { status: 400 }
         );
       }
       
-      // Validate the game state
-      const validation = validateGameState(gameState);
-      if (!validation.valid) {
-        console.warn(`[Leaderboard] Validation failed for run ${run.runId}: ${validation.reason}`);
+      await storeProfile(store, userId);
+      
+      const dailyRank = await submitDailyScore(userId, gameState.dayKey, streak);
+      
+      return NextResponse.json({
+        success: true,
+        isNewBest: false,
+        previousRank: null,
+        newRank: dailyRank,
+        overtakes: [],
+        streak,
+        mode: 'daily',
+        dayKey: gameState.dayKey,
+      });
+    }
+    
+    // Themed runs only go to their theme's boards
+    if (mode === 'themed') {
+      if (!gameState.theme) {
         return NextResponse.json(
-          { success: false, error: 'Score validation failed', reason: validation.reason },
+          { success: false, error: 'Themed run session not found' },
           { status: 400 }
         );
       }
+      
+      await storeProfile(store, userId);
+      
+      const themeRanks = await submitThemeScore(userId, gameState.theme, streak);
+      
+      return NextResponse.json({
+        success: true,
+        isNewBest: false,
+        previousRank: null,
+        newRank: themeRanks.weeklyRank,
+        globalRank: themeRanks.globalRank,
+        overtakes: [],
+        streak,
+        mode: 'themed',
+        theme: gameState.theme,
+      });
+    }
+    
+    // Survival runs only go to the survival boards - lives make their scores incomparable
+    if (mode === 'survival') {
+      await storeProfile(store, userId);
+      
+      const survivalRanks = await submitSurvivalScore(userId, streak);
+      
+      return NextResponse.json({
+        success: true,
+        isNewBest: false,
+        previousRank: null,
+        newRank: survivalRanks.weeklyRank,
+        globalRank: survivalRanks.globalRank,
+        overtakes: [],
+        streak,
+        mode: 'survival',
+      });
+    }
+    
+    // Blitz runs only go to the weekly blitz board - their score is answers against the clock
+    if (mode === 'blitz') {
+      await storeProfile(store, userId);
+      
+      const blitzRank = await submitBlitzScore(userId, streak);
+      
+      return NextResponse.json({
+        success: true,
+        isNewBest: false,
+        previousRank: null,
+        newRank: blitzRank,
+        overtakes: [],
+        streak,
+        mode: 'blitz',
+      });
+    }
+    
+    // Estimation runs only go to the weekly estimation board - their score is points, not a streak
+    if (mode === 'estimation') {
+      await storeProfile(store, userId);
+      
+      const estimationRank = await submitEstimationScore(userId, streak);
+      
+      return NextResponse.json({
+        success: true,
+        isNewBest: false,
+        previousRank: null,
+        newRank: estimationRank,
+        overtakes: [],
+        streak,
+        mode: 'estimation',
+      });
     }
     
     // Resolve user identity
@@ -91,52 +273,52 @@ export async function POST(request: NextRequest) {
     }
     
     // Submit to leaderboard with overtake detection
-    let result: {
-      success: boolean;
-      isNewBest: boolean;
-      previousRank: number | null;
-      newRank: number;
-      overtakes: OvertakeEvent[];
-    };
-    
-    if (redis) {
-      // Use real Redis
-      result = await submitScoreWithOvertakes(redis, userId, run.streak, userIdentity);
-      
-      // Track cumulative weekly score (Phase 0: Score tracking backend)
-      const { trackWeeklyScore } = await import('@/lib/redis');
-      await trackWeeklyScore(userId, run.streak).catch((error) => {
-        console.error('Error tracking weekly score:', error);
-        // Don't fail the request if score tracking fails
+    const result = await submitScoreWithOvertakes(store, userId, streak, userIdentity);
+    
+    // Track cumulative weekly score (Phase 0: Score tracking backend)
+    const { trackWeeklyScore } = await import('@/lib/redis');
+    const weeklyScore = await trackWeeklyScore(userId, streak).catch((error) => {
+      console.error('Error tracking weekly score:', error);
+      // Don't fail the request if score tracking fails
+      return 0;
+    });
+    
+    // Seasons add up the weekly scores of their weeks
+    await trackSeasonScore(userId, streak).catch((error) => {
+      console.error('Error tracking season score:', error);
+    });
+    
+    // Let the friends this run passed on the weekly scores know
+    await notifyFriendOvertakes(userId, userIdentity.displayName, weeklyScore - streak, weeklyScore).catch((error) => {
+      console.error('Error notifying friend overtakes:', error);
+    });
+    
+    // The run counts towards the player's team
+    await recordTeamMemberRun(userId).catch((error) => {
+      console.error('Error updating team score:', error);
+    });
+    
+    // Update previous rank for position change tracking (Phase 1)
+    if (result.newRank > 0) {
+      await updatePreviousRank(userId, 'weekly', result.newRank).catch((error) => {
+        console.error('Error updating previous rank:', error);
+      });
+      await updatePreviousRank(userId, 'global', result.newRank).catch((error) => {
+        console.error('Error updating previous rank:', error);
       });
-      
-      // Update previous rank for position change tracking (Phase 1)
-      if (result.newRank > 0) {
-        await updatePreviousRank(userId, 'weekly', result.newRank).catch((error) => {
-          console.error('Error updating previous rank:', error);
-        });
-        await updatePreviousRank(userId, 'global', result.newRank).catch((error) => {
-          console.error('Error updating previous rank:', error);
-        });
-      }
-    } else {
-      // Redis not configured - return empty result
-      result = {
-        success: true,
-        isNewBest: false,
-        previousRank: null,
-        newRank: 0,
-        overtakes: [],
-      };
     }
 
+    // Passing a top-3 player is an achievement
+    const achievements = (await checkAchievements(userId, { overtakes: result.overtakes })).map(toAchievementUnlock);
+
     return NextResponse.json({
       success: result.success,
       isNewBest: result.isNewBest,
       previousRank: result.previousRank,
       newRank: result.newRank,
       overtakes: result.overtakes,
-      streak: run.streak,
+      achievements,
+      streak,
     });
   } catch (error) {
     console.error('Error submitting to leaderboard:', error);
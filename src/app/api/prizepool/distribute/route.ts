@@ -46,6 +46,7 @@ export async function POST(request: NextRequest) {
       success: true,
       weekKey: finalizeWeekKey,
       distribution: result.distribution,
+      teamDistribution: result.teamDistribution,
       message: 'Distribution calculated. Actual USDC transfers would be sent here in production.',
     });
   } catch (error) {
@@ -46,6 +46,7 @@ export async function POST(request: NextRequest) {
       finalized: {
         weekKey: finalizeWeekKey,
         distribution: result.distribution,
+        teamDistribution: result.teamDistribution,
       },
       nextWeekInitialized,
     });
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createPublicClient, http } from 'viem';
 import { base, baseSepolia } from 'viem/chains';
+import { recordReprievePayment } from '@/lib/payments/reprieve-payments';
 
 // USDC on Base
 const USDC_ADDRESS = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
@@ -8,6 +9,8 @@ const USDC_ADDRESS = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
 const USDC_ADDRESS_TESTNET = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
 const REPRIEVE_PRICE = 1_000_000; // $1 in USDC (6 decimals)
 
+const PAYMENT_USED_ERROR = { success: false, error: 'Payment was already used for another run' };
+
 // Check if we're in testnet mode
 function isTestnet(): boolean {
   return process.env.NEXT_PUBLIC_USE_TESTNET === 'true';
@@ -29,6 +32,8 @@ function getPublicClient() {
  * Supports two payment methods:
  * 1. base_pay: Uses Base Pay SDK - payment is already verified by Base Pay
  * 2. direct: Direct on-chain transaction - needs to be verified manually
+ *
+ * A verified payment is recorded against the run - /api/game/reprieve uses it up
  */
 export async function POST(request: NextRequest) {
   try {
@@ -46,6 +51,9 @@ export async function POST(request: NextRequest) {
     if (!treasuryAddress) {
       // If no treasury set, allow in dev mode
       console.warn('[Reprieve] No treasury address set - allowing reprieve in dev mode');
+      if (!await recordReprievePayment(txHash, runId)) {
+        return NextResponse.json(PAYMENT_USED_ERROR, { status: 409 });
+      }
       return NextResponse.json({ success: true, verified: true, devMode: true });
     }
 
@@ -102,6 +110,10 @@ export async function POST(request: NextRequest) {
         );
       }
       
+      if (!await recordReprievePayment(txHash, runId)) {
+        return NextResponse.json(PAYMENT_USED_ERROR, { status: 409 });
+      }
+      
       return NextResponse.json({
         success: true,
         verified: true,
@@ -115,8 +127,9 @@ export async function POST(request: NextRequest) {
     if (paymentMethod === 'base_pay') {
       console.log('[Reprieve] Base Pay payment verified:', txHash);
       
-      // TODO: Store used payment IDs in Redis to prevent replay attacks
-      // await redis.set(`reprieve:payment:${txHash}`, runId, { ex: 86400 * 7 }); // 7 days
+      if (!await recordReprievePayment(txHash, runId)) {
+        return NextResponse.json(PAYMENT_USED_ERROR, { status: 409 });
+      }
       
       return NextResponse.json({
         success: true,
@@ -183,9 +196,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Transaction verified! 
-    // TODO: Mark this transaction as used in Redis to prevent replay attacks
-    // await redis.set(`reprieve:tx:${txHash}`, runId, { ex: 86400 * 7 }); // 7 days
+    // Transaction verified - a transaction only ever pays for one run
+    if (!await recordReprievePayment(txHash, runId)) {
+      return NextResponse.json(PAYMENT_USED_ERROR, { status: 409 });
+    }
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getSeasonArchive, getSeasonStatus, getSeasonWeekCount, getSeasons } from '@/lib/leaderboard/seasons';
+
+/**
+ * GET /api/seasons
+ * Every season, newest first: dates, status, rewards and whether its final
+ * standings have been archived
+ */
+export async function GET() {
+  try {
+    const now = Date.now();
+    const seasons = await Promise.all((await getSeasons()).reverse().map(async season => ({
+      ...season,
+      weeks: getSeasonWeekCount(season),
+      status: getSeasonStatus(season, now),
+      archived: (await getSeasonArchive(season.seasonId)) !== null,
+    })));
+
+    return NextResponse.json({ success: true, seasons });
+  } catch (error) {
+    console.error('Error fetching seasons:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch seasons' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTokenPool } from '@/lib/data/token-pool';
+import { loadMostGuessedPairStats, loadPairStats, loadTokenStats } from '@/lib/game-core/token-stats-storage';
+import { PairAccuracy, TokenAccuracy, getPairKey } from '@/lib/game-core/token-stats';
+
+const SORTS = ['hardest', 'easiest', 'guesses', 'overrated', 'underrated'] as const;
+type TokenStatsSort = typeof SORTS[number];
+
+const MAX_LIMIT = 500;
+
+// Most guessed pairs the hardest/easiest are picked from
+const MAX_LISTED_PAIRS = 2000;
+
+/**
+ * GET /api/stats/tokens
+ * How often players get each token and pair right (aggregated by /api/admin/aggregate-token-stats)
+ * Query params:
+ *   - token: token ID (optional - only that token and its pairs)
+ *   - sort: 'hardest' | 'easiest' | 'guesses' | 'overrated' | 'underrated' (default: hardest)
+ *   - limit: number (default: 50, max: 500)
+ *   - minGuesses: number (default: 20) - tokens and pairs with fewer guesses are left out
+ *
+ * Without a token, pairs are picked from the most guessed ones
+ * overrated/underrated: share of a token's guesses missed by taking it for the bigger/smaller token
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const tokenId = searchParams.get('token');
+    const sort = (searchParams.get('sort') || 'hardest') as TokenStatsSort;
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), MAX_LIMIT);
+    const minGuesses = Math.max(parseInt(searchParams.get('minGuesses') || '20', 10) || 0, 0);
+
+    if (!SORTS.includes(sort)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid sort - expected one of ${SORTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const [stats, pool] = await Promise.all([loadTokenStats(), getTokenPool()]);
+    const poolMap = new Map(pool.map(t => [t.id, t]));
+
+    // Pairs are stored apart - read just the token's, or the most guessed
+    const pairStats = tokenId
+      ? await loadPairStats(pool.filter(t => t.id !== tokenId).map(t => getPairKey(tokenId, t.id)))
+      : await loadMostGuessedPairStats(MAX_LISTED_PAIRS);
+
+    const toTokenEntry = (id: string, accuracy: TokenAccuracy) => ({
+      id,
+      symbol: poolMap.get(id)?.symbol ?? null,
+      name: poolMap.get(id)?.name ?? null,
+      guesses: accuracy.guesses,
+      accuracy: accuracy.correct / accuracy.guesses,
+      overrated: accuracy.overrated / accuracy.guesses,
+      underrated: accuracy.underrated / accuracy.guesses,
+    });
+    const toPairEntry = (key: string, accuracy: PairAccuracy) => {
+      const tokenIds = key.split(':');
+      return {
+        tokenIds,
+        symbols: tokenIds.map(id => poolMap.get(id)?.symbol ?? null),
+        guesses: accuracy.guesses,
+        accuracy: accuracy.correct / accuracy.guesses,
+      };
+    };
+
+    const tokens = Object.entries(stats.tokens)
+      .filter(([id, accuracy]) => accuracy.guesses >= minGuesses && (!tokenId || id === tokenId))
+      .map(([id, accuracy]) => toTokenEntry(id, accuracy))
+      .sort((a, b) => {
+        switch (sort) {
+          case 'easiest': return b.accuracy - a.accuracy;
+          case 'guesses': return b.guesses - a.guesses;
+          case 'overrated': return b.overrated - a.overrated;
+          case 'underrated': return b.underrated - a.underrated;
+          default: return a.accuracy - b.accuracy;
+        }
+      })
+      .slice(0, limit);
+
+    // Pairs only have an accuracy - 'easiest' flips it, everything else lists the hardest
+    const pairs = Object.entries(pairStats)
+      .filter(([key, accuracy]) => accuracy.guesses >= minGuesses && (!tokenId || key.split(':').includes(tokenId)))
+      .map(([key, accuracy]) => toPairEntry(key, accuracy))
+      .sort((a, b) => sort === 'easiest' ? b.accuracy - a.accuracy : a.accuracy - b.accuracy)
+      .slice(0, limit);
+
+    return NextResponse.json({
+      success: true,
+      runs: stats.runs,
+      guesses: stats.guesses,
+      accuracy: stats.guesses > 0 ? stats.correct / stats.guesses : null,
+      updatedAt: stats.updatedAt,
+      tokens,
+      pairs,
+    });
+  } catch (error) {
+    console.error('Error fetching token stats:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch token stats' },
+      { status: 500 }
+    );
+  }
+}
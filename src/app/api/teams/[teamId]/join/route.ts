@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTeamStandings, joinTeam } from '@/lib/teams';
+
+/**
+ * POST /api/teams/[teamId]/join
+ * Joins a team through its invite link
+ * Body:
+ *   - userId: string
+ *   - inviteCode: string (from the invite link)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ teamId: string }> }
+) {
+  try {
+    const { teamId } = await params;
+    const body = await request.json();
+    const { userId, inviteCode } = body as { userId?: string; inviteCode?: string };
+
+    if (!userId || !inviteCode) {
+      return NextResponse.json(
+        { success: false, error: 'userId and inviteCode are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await joinTeam(userId, teamId, inviteCode);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ success: true, team: await getTeamStandings(teamId, userId) });
+  } catch (error) {
+    console.error('[API] Error joining team:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to join team' },
+      { status: 500 }
+    );
+  }
+}
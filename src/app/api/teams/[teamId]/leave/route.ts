@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTeamStandings, leaveTeam } from '@/lib/teams';
+
+/**
+ * POST /api/teams/[teamId]/leave
+ * Leaves a team - the captaincy passes on, and the last member out disbands it
+ * Body:
+ *   - userId: string
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ teamId: string }> }
+) {
+  try {
+    const { teamId } = await params;
+    const body = await request.json();
+    const { userId } = body as { userId?: string };
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'userId is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await leaveTeam(userId, teamId);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      team: result.team ? await getTeamStandings(teamId) : null, // null once disbanded
+    });
+  } catch (error) {
+    console.error('[API] Error leaving team:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to leave team' },
+      { status: 500 }
+    );
+  }
+}
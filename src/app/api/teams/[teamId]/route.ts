@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTeamStandings } from '@/lib/teams';
+
+/**
+ * GET /api/teams/[teamId]
+ * A team's week: score, rank on the team board and each member's weekly score
+ * Query params:
+ *   - userId: string (optional - members also get the invite code)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ teamId: string }> }
+) {
+  const { teamId } = await params;
+  const userId = new URL(request.url).searchParams.get('userId');
+
+  try {
+    const team = await getTeamStandings(teamId, userId);
+    if (!team) {
+      return NextResponse.json(
+        { success: false, error: 'Team not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, team });
+  } catch (error) {
+    console.error('Error fetching team:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch team' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createTeam, getTeamStandings, getUserTeamStandings } from '@/lib/teams';
+
+/**
+ * GET /api/teams
+ * The team a player is in (null if none), with this week's standings
+ * Query params:
+ *   - userId: string
+ */
+export async function GET(request: NextRequest) {
+  const userId = new URL(request.url).searchParams.get('userId');
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, error: 'Missing userId' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const team = await getUserTeamStandings(userId);
+    return NextResponse.json({ success: true, team });
+  } catch (error) {
+    console.error('Error fetching team:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch team' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/teams
+ * Creates a team captained by the player - they can't already be in one
+ * Body:
+ *   - userId: string
+ *   - name: string
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId, name } = body as { userId?: string; name?: string };
+
+    if (!userId || !name) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    const result = await createTeam(userId, name);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      team: await getTeamStandings(result.team.teamId, userId),
+    });
+  } catch (error) {
+    console.error('Error creating team:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create team' },
+      { status: 500 }
+    );
+  }
+}
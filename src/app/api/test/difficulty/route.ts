@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTokenPool } from '@/lib/data/token-pool';
+import { createFixtureTokenPool, simulateDifficulty } from '@/lib/game-core/difficulty-simulation';
+
+const MAX_PAIRS_PER_TIER = 5000;
+
+/**
+ * GET /api/test/difficulty
+ * Simulation harness for the difficulty tiers
+ * Deals pairs at every tier and reports the market cap ratio distribution
+ * Query params:
+ *   - pool: 'fixture' (default) | 'live'
+ *   - pairs: pairs dealt per tier (default 500)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const startTime = Date.now();
+    
+    const { searchParams } = new URL(request.url);
+    const poolSource = searchParams.get('pool') === 'live' ? 'live' : 'fixture';
+    const pairs = Math.min(
+      Math.max(parseInt(searchParams.get('pairs') || '500', 10) || 500, 1),
+      MAX_PAIRS_PER_TIER
+    );
+    
+    const pool = poolSource === 'live' ? await getTokenPool() : createFixtureTokenPool();
+    const tiers = simulateDifficulty(pool, pairs);
+    
+    return NextResponse.json({
+      success: true,
+      pool: {
+        source: poolSource,
+        size: pool.length,
+      },
+      pairsPerTier: pairs,
+      tiers: tiers.map(tier => ({
+        ...tier,
+        inBandRate: `${(tier.inBandRate * 100).toFixed(1)}%`,
+      })),
+      duration: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[TestDifficulty] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTokenPool } from '@/lib/data/token-pool';
+import { createFixtureTokenPool } from '@/lib/game-core/difficulty-simulation';
+import { checkTiePolicy, withTiePolicyFixtureMetrics } from '@/lib/game-core/tie-policy-properties';
+import { NEAR_TIE_THRESHOLD } from '@/lib/game-core/tie-policy';
+
+// Every ordered pair is scored per metric - keep the pool small enough to answer quickly
+const MAX_POOL_SIZE = 500;
+
+/**
+ * GET /api/test/tie-policy
+ * Property checks for the shared tie policy
+ * Scores every pair of the pool through the client, session and validator
+ * paths, and deals seeded sequences looking for near-ties
+ * Not served in production - the checks are O(n²) in the pool size
+ * Query params:
+ *   - pool: 'fixture' (default) | 'live'
+ *   - size: fixture pool size (default 200)
+ *   - seed: random seed for fixture values and generated pairs (default 1)
+ */
+export async function GET(request: NextRequest) {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ success: false, error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const startTime = Date.now();
+
+    const { searchParams } = new URL(request.url);
+    const poolSource = searchParams.get('pool') === 'live' ? 'live' : 'fixture';
+    const size = Math.min(
+      Math.max(parseInt(searchParams.get('size') || '200', 10) || 200, 2),
+      MAX_POOL_SIZE
+    );
+    const seed = parseInt(searchParams.get('seed') || '1', 10) || 1;
+
+    const pool = poolSource === 'live'
+      ? (await getTokenPool()).slice(0, MAX_POOL_SIZE)
+      : withTiePolicyFixtureMetrics(createFixtureTokenPool(size), seed);
+    const properties = checkTiePolicy(pool, { seed });
+
+    return NextResponse.json({
+      success: true,
+      passed: properties.every(p => p.failures === 0),
+      nearTieThreshold: NEAR_TIE_THRESHOLD,
+      pool: {
+        source: poolSource,
+        size: pool.length,
+      },
+      properties,
+      duration: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[TestTiePolicy] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPlayStreak } from '@/lib/play-streak';
+
+/**
+ * GET /api/user/[userId]/play-streak
+ * A player's daily play streak: current and longest streak, banked streak
+ * freezes, whether today's play is still due and the last four weeks' calendar
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const { userId } = await params;
+
+  if (userId.startsWith('guest_')) {
+    return NextResponse.json(
+      { success: false, error: 'Guests have no play streak' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const playStreak = await getPlayStreak(userId);
+    return NextResponse.json({ success: true, playStreak });
+  } catch (error) {
+    console.error('Error fetching play streak:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch play streak' },
+      { status: 500 }
+    );
+  }
+}
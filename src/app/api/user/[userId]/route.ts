@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPlayerProfile } from '@/lib/profile';
+
+/**
+ * GET /api/user/[userId]
+ * A player's public profile: identity, best and weekly streaks, streak
+ * histogram, accuracy by difficulty tier, most missed tokens, weekly rank
+ * history and recent runs
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const { userId } = await params;
+
+  try {
+    const profile = await getPlayerProfile(userId);
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, error: 'Player not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, profile });
+  } catch (error) {
+    console.error('Error fetching player profile:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch player profile' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import { use } from 'react';
+import { useAuth, useIdentity } from '@/hooks';
+import { DuelScreen } from '@/components/duel';
+
+interface DuelPageProps {
+  params: Promise<{ duelId: string }>;
+}
+
+export default function DuelPage({ params }: DuelPageProps) {
+  const { duelId } = use(params);
+  const { user } = useIdentity();
+  const { fid } = useAuth();
+  const userId = fid ? String(fid) : (user?.userId || '');
+
+  if (!userId) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950">
+        <div className="w-12 h-12 border-4 border-amber-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return <DuelScreen duelId={duelId} userId={userId} />;
+}
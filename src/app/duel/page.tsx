@@ -0,0 +1,19 @@
+'use client';
+
+import { use } from 'react';
+import { useAuth, useIdentity } from '@/hooks';
+import { DuelLobby } from '@/components/duel';
+
+interface DuelLobbyPageProps {
+  searchParams: Promise<{ code?: string }>;
+}
+
+export default function DuelLobbyPage({ searchParams }: DuelLobbyPageProps) {
+  // ?code=<inviteCode> comes from a shared invite link
+  const { code } = use(searchParams);
+  const { user } = useIdentity();
+  const { fid } = useAuth();
+  const userId = fid ? String(fid) : (user?.userId || '');
+
+  return <DuelLobby userId={userId} initialCode={code?.toUpperCase()} />;
+}
@@ -1,26 +1,51 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { use, useState, useEffect, useRef } from 'react';
 import Link from 'next/link';
 import { 
   LeaderboardList, 
   PrizePoolBanner, 
   SponsorAdCard, 
+  TeamLeaderboardList,
   TopThreePodium,
   UserRankCard 
 } from '@/components/leaderboard';
-import { LeaderboardEntry } from '@/lib/game-core/types';
+import { LeaderboardEntry, ThemeId } from '@/lib/game-core/types';
+import type { TeamLeaderboardEntry } from '@/lib/teams';
+import type { Season, SeasonStatus } from '@/lib/leaderboard/seasons';
+import { getAllThemes, getTheme, isThemeId } from '@/lib/game-core/themes';
 import { useIdentity } from '@/hooks';
 import { trackPageView } from '@/lib/analytics/session';
 import { trackLeaderboardEngagement, trackJourneyStep } from '@/lib/analytics/engagement';
 
-type LeaderboardType = 'weekly' | 'global';
+type LeaderboardType = 'weekly' | 'global' | 'daily' | 'theme' | 'survival' | 'blitz' | 'estimation' | 'friends' | 'teams' | 'season';
 
-export default function LeaderboardPage() {
+interface LeaderboardPageProps {
+  searchParams: Promise<{ type?: string; theme?: string; season?: string }>;
+}
+
+export default function LeaderboardPage({ searchParams }: LeaderboardPageProps) {
+  const { type: typeParam, theme: themeParam, season: seasonParam } = use(searchParams);
   const { userId } = useIdentity();
-  const [type, setType] = useState<LeaderboardType>('weekly');
+  const [type, setType] = useState<LeaderboardType>(
+    typeParam === 'global' || typeParam === 'daily' || typeParam === 'theme' || typeParam === 'survival'
+      || typeParam === 'blitz' || typeParam === 'estimation' || typeParam === 'friends'
+      || typeParam === 'teams' || typeParam === 'season'
+      ? typeParam
+      : 'weekly'
+  );
+  // Theme boards: which theme. Theme, survival and friends boards: this week's or all-time bests
+  const [theme, setTheme] = useState<ThemeId>(isThemeId(themeParam) ? themeParam : getAllThemes()[0].id);
+  const [modeBoard, setModeBoard] = useState<'weekly' | 'global'>('weekly');
   const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
   const [userRank, setUserRank] = useState<number | null>(null);
+  const [friendRank, setFriendRank] = useState<number | null>(null);
+  const [teams, setTeams] = useState<TeamLeaderboardEntry[]>([]);
+  // Season boards: which season (null = the running one, else the latest)
+  const [seasonId, setSeasonId] = useState<string | null>(seasonParam || null);
+  const [seasons, setSeasons] = useState<Array<Season & { status: SeasonStatus }>>([]);
+  const [season, setSeason] = useState<(Season & { status: SeasonStatus; final: boolean }) | null>(null);
+  const [userTeam, setUserTeam] = useState<{ teamId: string; name: string; rank: number | null; score: number } | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [prizePool, setPrizePool] = useState<{
     prizeAmount: number;
@@ -50,20 +75,41 @@ export default function LeaderboardPage() {
 
   useEffect(() => {
     async function fetchLeaderboard() {
+      // Friends boards are the signed-in player's
+      if (type === 'friends' && !userId) {
+        setEntries([]);
+        setUserRank(null);
+        setIsLoading(false);
+        return;
+      }
+      
       setIsLoading(true);
       try {
         const params = new URLSearchParams({
           type,
           limit: '50',
           ...(userId && { userId }),
+          ...(type === 'theme' && { theme, board: modeBoard }),
+          ...((type === 'survival' || type === 'friends') && { board: modeBoard }),
+          ...(type === 'season' && seasonId && { season: seasonId }),
         });
         
         const response = await fetch(`/api/leaderboard?${params}`);
         const data = await response.json();
         
-        if (data.success) {
+        if (data.success && type === 'teams') {
+          setTeams(data.teams);
+          setUserTeam(data.userTeam);
+        } else if (data.success) {
           setEntries(data.entries);
           setUserRank(data.userRank);
+          setFriendRank(data.friendRank ?? null);
+          setSeason(data.season ?? null);
+        } else if (type === 'season') {
+          // No seasons scheduled yet
+          setEntries([]);
+          setUserRank(null);
+          setSeason(null);
         }
       } catch (error) {
         console.error('Failed to fetch leaderboard:', error);
@@ -121,7 +167,18 @@ export default function LeaderboardPage() {
       fetchPrizePool();
       fetchPositionChange();
     }
-  }, [type, userId]);
+  }, [type, userId, theme, modeBoard, seasonId]);
+
+  // Seasons for the season picker
+  useEffect(() => {
+    if (type !== 'season' || seasons.length > 0) return;
+    fetch('/api/seasons')
+      .then(res => res.json())
+      .then(data => {
+        if (data.success) setSeasons(data.seasons);
+      })
+      .catch(err => console.error('Failed to fetch seasons:', err));
+  }, [type, seasons.length]);
 
   return (
     <div className="min-h-screen bg-zinc-950 flex flex-col">
@@ -171,7 +228,194 @@ export default function LeaderboardPage() {
             >
               All Time
             </button>
+            <button
+              onClick={() => {
+                setType('daily');
+                trackLeaderboardEngagement('filter', Date.now() - pageStartTime.current);
+              }}
+              className={`
+                flex-1 py-2 px-4 rounded-lg font-medium text-sm transition-colors
+                ${type === 'daily' 
+                  ? 'bg-violet-600 text-white' 
+                  : 'bg-zinc-800 text-zinc-400 hover:text-white'
+                }
+              `}
+            >
+              Daily
+            </button>
+            <button
+              onClick={() => {
+                setType('theme');
+                trackLeaderboardEngagement('filter', Date.now() - pageStartTime.current);
+              }}
+              className={`
+                flex-1 py-2 px-4 rounded-lg font-medium text-sm transition-colors
+                ${type === 'theme' 
+                  ? 'bg-violet-600 text-white' 
+                  : 'bg-zinc-800 text-zinc-400 hover:text-white'
+                }
+              `}
+            >
+              Themes
+            </button>
+            <button
+              onClick={() => {
+                setType('survival');
+                trackLeaderboardEngagement('filter', Date.now() - pageStartTime.current);
+              }}
+              className={`
+                flex-1 py-2 px-4 rounded-lg font-medium text-sm transition-colors
+                ${type === 'survival' 
+                  ? 'bg-violet-600 text-white' 
+                  : 'bg-zinc-800 text-zinc-400 hover:text-white'
+                }
+              `}
+            >
+              Survival
+            </button>
+            <button
+              onClick={() => {
+                setType('blitz');
+                trackLeaderboardEngagement('filter', Date.now() - pageStartTime.current);
+              }}
+              className={`
+                flex-1 py-2 px-4 rounded-lg font-medium text-sm transition-colors
+                ${type === 'blitz' 
+                  ? 'bg-violet-600 text-white' 
+                  : 'bg-zinc-800 text-zinc-400 hover:text-white'
+                }
+              `}
+            >
+              Blitz
+            </button>
+            <button
+              onClick={() => {
+                setType('estimation');
+                trackLeaderboardEngagement('filter', Date.now() - pageStartTime.current);
+              }}
+              className={`
+                flex-1 py-2 px-4 rounded-lg font-medium text-sm transition-colors
+                ${type === 'estimation' 
+                  ? 'bg-violet-600 text-white' 
+                  : 'bg-zinc-800 text-zinc-400 hover:text-white'
+                }
+              `}
+            >
+              Estimate
+            </button>
+            <button
+              onClick={() => {
+                setType('friends');
+                trackLeaderboardEngagement('filter', Date.now() - pageStartTime.current);
+              }}
+              className={`
+                flex-1 py-2 px-4 rounded-lg font-medium text-sm transition-colors
+                ${type === 'friends' 
+                  ? 'bg-violet-600 text-white' 
+                  : 'bg-zinc-800 text-zinc-400 hover:text-white'
+                }
+              `}
+            >
+              Friends
+            </button>
+            <button
+              onClick={() => {
+                setType('teams');
+                trackLeaderboardEngagement('filter', Date.now() - pageStartTime.current);
+              }}
+              className={`
+                flex-1 py-2 px-4 rounded-lg font-medium text-sm transition-colors
+                ${type === 'teams' 
+                  ? 'bg-violet-600 text-white' 
+                  : 'bg-zinc-800 text-zinc-400 hover:text-white'
+                }
+              `}
+            >
+              Teams
+            </button>
+            <button
+              onClick={() => {
+                setType('season');
+                trackLeaderboardEngagement('filter', Date.now() - pageStartTime.current);
+              }}
+              className={`
+                flex-1 py-2 px-4 rounded-lg font-medium text-sm transition-colors
+                ${type === 'season' 
+                  ? 'bg-violet-600 text-white' 
+                  : 'bg-zinc-800 text-zinc-400 hover:text-white'
+                }
+              `}
+            >
+              Season
+            </button>
           </div>
+
+          {/* Theme picker */}
+          {type === 'theme' && (
+            <div className="mt-3">
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                {getAllThemes().map(t => (
+                  <button
+                    key={t.id}
+                    onClick={() => setTheme(t.id)}
+                    className={`
+                      shrink-0 py-1.5 px-3 rounded-full text-xs font-medium transition-colors
+                      ${theme === t.id
+                        ? 'bg-fuchsia-600 text-white'
+                        : 'bg-zinc-800 text-zinc-400 hover:text-white'
+                      }
+                    `}
+                  >
+                    {t.emoji} {t.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Season picker */}
+          {type === 'season' && seasons.length > 1 && (
+            <div className="mt-3">
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                {seasons.map(s => (
+                  <button
+                    key={s.seasonId}
+                    onClick={() => setSeasonId(s.seasonId)}
+                    className={`
+                      shrink-0 py-1.5 px-3 rounded-full text-xs font-medium transition-colors
+                      ${(seasonId ?? season?.seasonId) === s.seasonId
+                        ? 'bg-fuchsia-600 text-white'
+                        : 'bg-zinc-800 text-zinc-400 hover:text-white'
+                      }
+                    `}
+                  >
+                    {s.status === 'active' ? '🟢 ' : ''}{s.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Board toggle for theme, survival and friends boards */}
+          {(type === 'theme' || type === 'survival' || type === 'friends') && (
+            <div className="flex gap-2 mt-2">
+              {(['weekly', 'global'] as const).map(board => (
+                <button
+                  key={board}
+                  onClick={() => setModeBoard(board)}
+                  className={`
+                    flex-1 py-1.5 rounded-lg text-xs font-medium transition-colors
+                    ${modeBoard === board
+                      ? 'bg-zinc-700 text-white'
+                      : 'bg-zinc-900 text-zinc-500 hover:text-white'
+                    }
+                  `}
+                >
+                  {board === 'weekly' ? 'This Week' : 'All Time'}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       </header>
 
@@ -190,8 +434,57 @@ export default function LeaderboardPage() {
           <div className="flex items-center justify-center py-12">
             <div className="w-8 h-8 border-3 border-violet-500 border-t-transparent rounded-full animate-spin" />
           </div>
+        ) : type === 'teams' ? (
+          <>
+            {/* The user's team, or a way to start one */}
+            <Link
+              href={userTeam ? `/team/${userTeam.teamId}` : '/team'}
+              className="flex items-center justify-between mb-4 px-4 py-3 rounded-xl bg-zinc-900/60 border border-violet-700/40 hover:bg-zinc-800/60 transition-colors"
+            >
+              <span className="text-sm text-zinc-300 truncate">
+                {userTeam ? `🛡️ ${userTeam.name}` : 'Play with friends - start a team'}
+              </span>
+              <span className="text-sm font-bold text-violet-300 shrink-0">
+                {userTeam ? (userTeam.rank ? `#${userTeam.rank}` : '—') : 'Create →'}
+              </span>
+            </Link>
+            
+            <TeamLeaderboardList teams={teams} currentTeamId={userTeam?.teamId} />
+          </>
+        ) : type === 'season' && !season ? (
+          <div className="text-center py-12">
+            <div className="text-4xl mb-4">🗓️</div>
+            <p className="text-zinc-400">No seasons yet - check back soon!</p>
+          </div>
         ) : (
           <>
+            {/* Season dates, status and rewards */}
+            {type === 'season' && season && (
+              <div className="mb-4 px-4 py-3 rounded-xl bg-zinc-900/60 border border-fuchsia-700/40">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-white font-bold truncate">{season.name}</span>
+                  <span className="text-xs text-fuchsia-300 shrink-0">
+                    {season.final
+                      ? 'Final standings'
+                      : season.status === 'active' ? 'Live' : 'Starts soon'}
+                  </span>
+                </div>
+                <p className="text-xs text-zinc-500 mt-0.5">
+                  {new Date(season.startDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                  {' - '}
+                  {new Date(season.endDate - 1).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+                  {' · every run\'s streak counts'}
+                </p>
+                <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2">
+                  {season.rewards.map(r => (
+                    <span key={r.fromRank} className="text-xs text-zinc-300">
+                      #{r.fromRank}{r.toRank > r.fromRank ? `-${r.toRank}` : ''}: {r.reward}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+            
             {/* Top 3 Podium */}
             {entries.length >= 3 && (
               <TopThreePodium 
@@ -218,15 +511,26 @@ export default function LeaderboardPage() {
             {userRank && userRank > 3 && (
               <UserRankCard
                 rank={userRank}
-                score={type === 'weekly' 
+                score={type === 'weekly' || type === 'season' || (type === 'friends' && modeBoard === 'weekly')
                   ? (entries.find(e => e.user.userId === userId)?.cumulativeScore || userScore || entries.find(e => e.user.userId === userId)?.bestStreak || 0)
                   : (entries.find(e => e.user.userId === userId)?.bestStreak || 0)
                 }
-                rankChange={positionChange?.rankChange}
-                direction={positionChange?.direction || null}
+                rankChange={type === 'weekly' ? positionChange?.rankChange : undefined}
+                direction={type === 'weekly' ? positionChange?.direction || null : null}
+                friendRank={type === 'weekly' || type === 'global' ? friendRank : null}
+                label={type === 'friends' ? 'You Rank Among Friends' : undefined}
               />
             )}
             
+            {/* Friends board with nobody else on it yet */}
+            {type === 'friends' && entries.filter(e => e.user.userId !== userId).length === 0 && (
+              <div className="py-8 text-center text-zinc-500 text-sm">
+                {userId
+                  ? 'None of your friends have scored yet. Follow players from their profile - Farcaster follows count too.'
+                  : 'Sign in to see how you stack up against your friends.'}
+              </div>
+            )}
+            
             {/* Rest of Leaderboard */}
             <LeaderboardList
               entries={entries}
@@ -242,7 +546,10 @@ export default function LeaderboardPage() {
       <div className="sticky bottom-0 p-4 bg-zinc-950/90 backdrop-blur border-t border-zinc-800">
         <div className="max-w-lg mx-auto">
           <Link
-            href="/"
+            href={type === 'daily'
+              ? '/?mode=daily'
+              : type === 'theme' ? `/?theme=${theme}` : type === 'survival' ? '/?mode=survival'
+              : type === 'blitz' ? '/?mode=blitz' : type === 'estimation' ? '/?mode=estimation' : '/'}
             className="
               block w-full py-4 text-center rounded-2xl
               bg-gradient-to-br from-violet-500 via-purple-600 to-violet-500
@@ -255,7 +562,12 @@ export default function LeaderboardPage() {
           >
             {/* Animated gradient overlay */}
             <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent -translate-x-full animate-[shimmer_2s_infinite]" />
-            <span className="relative z-10">Play Now</span>
+            <span className="relative z-10">{type === 'daily'
+              ? 'Play Daily Challenge'
+              : type === 'theme' ? `Play ${getTheme(theme).name}`
+              : type === 'survival' ? 'Play Survival'
+              : type === 'blitz' ? 'Play Blitz'
+              : type === 'estimation' ? 'Play Guess the Market Cap' : 'Play Now'}</span>
           </Link>
           <p className="text-center text-violet-300/60 text-xs mt-2 font-medium">
             One more win changes everything.
@@ -1,15 +1,51 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { use, useEffect, useState } from 'react';
 import { useAuth } from '@/hooks';
-import { GameScreen } from '@/components/game';
+import { EstimationScreen, GameScreen, RankingScreen } from '@/components/game';
 import { LandingPage, OnboardingModal } from '@/components/landing';
 import { initSessionTracking, trackPageView } from '@/lib/analytics/session';
 import { trackJourneyStep } from '@/lib/analytics/engagement';
+import { GameMode } from '@/lib/game-core/types';
+import { isThemeId } from '@/lib/game-core/themes';
+import { isComparisonMetric } from '@/lib/game-core/metrics';
+import { isRankingScoring } from '@/lib/game-core/ranking';
 
 const ONBOARDING_SEEN_KEY = 'caporslap_onboarding_seen';
 
-export default function Home() {
+interface HomeProps {
+  searchParams: Promise<{
+    mode?: string;
+    challenge?: string;
+    theme?: string;
+    date?: string;
+    metric?: string;
+    scoring?: string;
+  }>;
+}
+
+export default function Home({ searchParams }: HomeProps) {
+  // ?challenge=<runId> replays a shared run, ?mode=daily opens the Daily Challenge,
+  // ?theme=<id> starts a themed run, ?mode=timemachine (&date=YYYY-MM-DD) plays a past day,
+  // ?metric=<id> compares on another metric (e.g. volume24h), ?mode=survival plays with three lives,
+  // ?mode=blitz plays against a 60s clock, ?mode=ranking orders tokens (&scoring=inversions allows a swap),
+  // ?mode=estimation guesses market caps, anything else is a classic run
+  const {
+    mode: modeParam,
+    challenge: challengeRunId,
+    theme: themeParam,
+    date,
+    metric: metricParam,
+    scoring: scoringParam,
+  } = use(searchParams);
+  const theme = isThemeId(themeParam) ? themeParam : undefined;
+  const metric = isComparisonMetric(metricParam) && metricParam !== 'marketCap' ? metricParam : undefined;
+  const mode: GameMode = challengeRunId
+    ? 'challenge'
+    : modeParam === 'daily' || modeParam === 'timemachine' || modeParam === 'survival' || modeParam === 'blitz'
+      || modeParam === 'ranking' || modeParam === 'estimation'
+      ? modeParam
+      : theme ? 'themed' : metric ? 'metric' : 'classic';
   const { isReady, isAuthenticated, login, isLoading, fid, user } = useAuth();
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [onboardingChecked, setOnboardingChecked] = useState(false);
@@ -84,6 +120,27 @@ export default function Home() {
     );
   }
   
+  // Ranking runs have their own screen - every round orders several tokens
+  if (mode === 'ranking') {
+    const scoring = isRankingScoring(scoringParam) ? scoringParam : 'exact';
+    return <RankingScreen key={scoring} scoring={scoring} />;
+  }
+  
+  // Estimation runs have their own screen - every round estimates one token's market cap
+  if (mode === 'estimation') {
+    return <EstimationScreen />;
+  }
+  
   // Show game if authenticated
-  return <GameScreen />;
+  // Keyed by mode (and challenge/theme/date/metric) so switching starts a fresh game
+  return (
+    <GameScreen
+      key={`${mode}:${challengeRunId ?? ''}:${theme ?? ''}:${date ?? ''}:${metric ?? ''}`}
+      mode={mode}
+      challengeRunId={challengeRunId}
+      theme={mode === 'themed' ? theme : undefined}
+      snapshotDate={mode === 'timemachine' ? date : undefined}
+      metric={mode === 'metric' ? metric : undefined}
+    />
+  );
 }
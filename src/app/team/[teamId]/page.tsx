@@ -0,0 +1,21 @@
+'use client';
+
+import { use } from 'react';
+import { useAuth, useIdentity } from '@/hooks';
+import { TeamScreen } from '@/components/team';
+
+interface TeamPageProps {
+  params: Promise<{ teamId: string }>;
+  searchParams: Promise<{ invite?: string }>;
+}
+
+export default function TeamPage({ params, searchParams }: TeamPageProps) {
+  const { teamId } = use(params);
+  // ?invite=<inviteCode> comes from a shared invite link
+  const { invite } = use(searchParams);
+  const { user } = useIdentity();
+  const { fid } = useAuth();
+  const userId = fid ? String(fid) : (user?.userId || '');
+
+  return <TeamScreen teamId={decodeURIComponent(teamId)} userId={userId} inviteCode={invite?.toUpperCase()} />;
+}
@@ -0,0 +1,12 @@
+'use client';
+
+import { useAuth, useIdentity } from '@/hooks';
+import { CreateTeamScreen } from '@/components/team';
+
+export default function CreateTeamPage() {
+  const { user } = useIdentity();
+  const { fid } = useAuth();
+  const userId = fid ? String(fid) : (user?.userId || '');
+
+  return <CreateTeamScreen userId={userId} />;
+}
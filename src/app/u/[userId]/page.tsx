@@ -0,0 +1,13 @@
+'use client';
+
+import { use } from 'react';
+import { ProfileScreen } from '@/components/profile';
+
+interface ProfilePageProps {
+  params: Promise<{ userId: string }>;
+}
+
+export default function ProfilePage({ params }: ProfilePageProps) {
+  const { userId } = use(params);
+  return <ProfileScreen userId={decodeURIComponent(userId)} />;
+}
@@ -4,16 +4,33 @@ import { useState, useRef, useEffect } from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
 import { useAuth } from '@/hooks/useAuth';
+import type { PlayStreak } from '@/lib/play-streak';
 
 interface UserMenuProps {
   className?: string;
 }
 
 export function UserMenu({ className = '' }: UserMenuProps) {
-  const { logout, user, isAuthenticated } = useAuth();
+  const { logout, user, userId, isAuthenticated } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
+  const [playStreak, setPlayStreak] = useState<PlayStreak | null>(null);
   const menuRef = useRef<HTMLDivElement>(null);
   
+  // Daily play streak - refreshed every time the menu opens
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    
+    fetch(`/api/user/${encodeURIComponent(userId)}/play-streak`)
+      .then(res => res.json())
+      .then(data => {
+        if (!cancelled && data.success) setPlayStreak(data.playStreak);
+      })
+      .catch(err => console.error('Failed to fetch play streak:', err));
+    
+    return () => { cancelled = true; };
+  }, [userId, isOpen]);
+  
   // Close menu when clicking outside
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -71,6 +88,13 @@ export function UserMenu({ className = '' }: UserMenuProps) {
           {displayName}
         </span>
         
+        {/* Daily play streak */}
+        {playStreak && playStreak.currentStreak > 0 && (
+          <span className={`text-xs font-bold tabular-nums ${playStreak.atRisk ? 'text-zinc-400' : 'text-orange-400'}`}>
+            🔥{playStreak.currentStreak}
+          </span>
+        )}
+        
         {/* Dropdown arrow */}
         <svg 
           className={`w-4 h-4 text-zinc-400 transition-transform ${isOpen ? 'rotate-180' : ''}`}
@@ -121,6 +145,35 @@ export function UserMenu({ className = '' }: UserMenuProps) {
             </div>
           </div>
           
+          {/* Daily play streak */}
+          {playStreak && (
+            <div className="px-4 py-3 border-b border-zinc-800">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-white font-semibold">
+                  🔥 {playStreak.currentStreak} day{playStreak.currentStreak === 1 ? '' : 's'}
+                </span>
+                <span className="text-xs text-zinc-500">Best {playStreak.longestStreak}</span>
+              </div>
+              <div className="flex gap-1 mt-2">
+                {playStreak.calendar.slice(-7).map(({ day, runs, frozen }) => (
+                  <div
+                    key={day}
+                    title={frozen ? `${day}: streak freeze` : `${day}: ${runs} run${runs === 1 ? '' : 's'}`}
+                    className={`flex-1 h-2 rounded-full ${runs > 0 ? 'bg-orange-500' : frozen ? 'bg-sky-400' : 'bg-zinc-800'}`}
+                  />
+                ))}
+              </div>
+              <p className="text-xs text-zinc-500 mt-2">
+                {playStreak.freezes > 0 && `🧊 ${playStreak.freezes} freeze${playStreak.freezes === 1 ? '' : 's'} · `}
+                {playStreak.currentStreak === 0
+                  ? 'Play a round to start a streak'
+                  : playStreak.atRisk
+                    ? 'Play today to keep it!'
+                    : playStreak.playedToday ? 'Played today ✓' : 'A freeze covers today'}
+              </p>
+            </div>
+          )}
+          
           {/* Menu items */}
           <div className="py-1">
             <Link
@@ -0,0 +1,162 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+
+interface PendingInvite {
+  duelId: string;
+  inviteCode: string;
+  hostId: string;
+  hostName: string;
+  createdAt: number;
+}
+
+interface DuelLobbyProps {
+  userId: string;
+  initialCode?: string; // From a shared /duel?code= link
+}
+
+/**
+ * Duel lobby - open an invite, challenge a player, or join with a code
+ */
+export function DuelLobby({ userId, initialCode = '' }: DuelLobbyProps) {
+  const router = useRouter();
+  const [inviteCode, setInviteCode] = useState(initialCode);
+  const [opponentId, setOpponentId] = useState('');
+  const [invites, setInvites] = useState<PendingInvite[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Direct challenges waiting for this player
+  useEffect(() => {
+    if (!userId) return;
+    fetch(`/api/duel/invites?userId=${encodeURIComponent(userId)}`)
+      .then(res => res.json())
+      .then(data => {
+        if (data.success) setInvites(data.invites);
+      })
+      .catch(err => console.error('[Duel] Failed to load invites:', err));
+  }, [userId]);
+
+  const enterDuel = useCallback(async (endpoint: 'create' | 'join', body: Record<string, unknown>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/duel/${endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, ...body }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        router.push(`/duel/${data.duelId}`);
+      } else {
+        setError(data.error || 'Something went wrong');
+        setIsBusy(false);
+      }
+    } catch (err) {
+      console.error(`[Duel] Failed to ${endpoint} duel:`, err);
+      setError('Network error - try again');
+      setIsBusy(false);
+    }
+  }, [userId, router]);
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-white flex flex-col items-center px-4 py-10">
+      <div className="w-full max-w-md flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <Link href="/" className="text-zinc-400 hover:text-white text-sm">
+            ← Back
+          </Link>
+          <h1 className="text-2xl font-bold">⚔️ Duel</h1>
+          <span className="w-10" />
+        </div>
+
+        <p className="text-sm text-zinc-400 text-center">
+          Same pair, same clock. First wrong answer loses - if you both miss, the faster player wins.
+        </p>
+
+        {error && (
+          <div className="rounded-xl bg-rose-500/10 border border-rose-500/30 px-4 py-3 text-sm text-rose-300">
+            {error}
+          </div>
+        )}
+
+        {/* Pending direct challenges */}
+        {invites.length > 0 && (
+          <div className="rounded-2xl bg-zinc-900 border border-amber-500/30 p-4 flex flex-col gap-3">
+            <p className="text-sm font-semibold text-amber-300">You&apos;ve been challenged</p>
+            {invites.map(invite => (
+              <div key={invite.duelId} className="flex items-center justify-between gap-3">
+                <span className="text-sm text-zinc-300 truncate">{invite.hostName}</span>
+                <button
+                  onClick={() => enterDuel('join', { duelId: invite.duelId })}
+                  disabled={isBusy}
+                  className="rounded-lg bg-amber-500 px-3 py-1.5 text-sm font-bold text-black disabled:opacity-50"
+                >
+                  Accept
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Open invite */}
+        <div className="rounded-2xl bg-zinc-900 border border-zinc-800 p-4 flex flex-col gap-3">
+          <p className="text-sm font-semibold">Invite a friend</p>
+          <p className="text-xs text-zinc-500">Get a code anyone can join with</p>
+          <button
+            onClick={() => enterDuel('create', {})}
+            disabled={isBusy || !userId}
+            className="rounded-xl bg-gradient-to-br from-amber-500 to-orange-500 py-3 font-bold text-black disabled:opacity-50"
+          >
+            Create Duel
+          </button>
+        </div>
+
+        {/* Join by code */}
+        <div className="rounded-2xl bg-zinc-900 border border-zinc-800 p-4 flex flex-col gap-3">
+          <p className="text-sm font-semibold">Join with a code</p>
+          <div className="flex gap-2">
+            <input
+              value={inviteCode}
+              onChange={e => setInviteCode(e.target.value.toUpperCase())}
+              placeholder="ABC123"
+              maxLength={6}
+              className="flex-1 rounded-xl bg-zinc-800 border border-zinc-700 px-3 py-2 font-mono tracking-widest uppercase outline-none focus:border-amber-500"
+            />
+            <button
+              onClick={() => enterDuel('join', { inviteCode })}
+              disabled={isBusy || !userId || inviteCode.trim().length === 0}
+              className="rounded-xl bg-zinc-700 px-4 py-2 font-bold disabled:opacity-50"
+            >
+              Join
+            </button>
+          </div>
+        </div>
+
+        {/* Challenge a player directly */}
+        <div className="rounded-2xl bg-zinc-900 border border-zinc-800 p-4 flex flex-col gap-3">
+          <p className="text-sm font-semibold">Challenge a player</p>
+          <p className="text-xs text-zinc-500">By FID or wallet address - only they can join</p>
+          <div className="flex gap-2">
+            <input
+              value={opponentId}
+              onChange={e => setOpponentId(e.target.value)}
+              placeholder="User ID"
+              className="flex-1 rounded-xl bg-zinc-800 border border-zinc-700 px-3 py-2 outline-none focus:border-amber-500"
+            />
+            <button
+              onClick={() => enterDuel('create', { opponentId: opponentId.trim() })}
+              disabled={isBusy || !userId || opponentId.trim().length === 0}
+              className="rounded-xl bg-zinc-700 px-4 py-2 font-bold disabled:opacity-50"
+            >
+              Send
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
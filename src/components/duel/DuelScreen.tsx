@@ -0,0 +1,245 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useDuel } from '@/hooks/useDuel';
+import { TokenCard } from '@/components/game/TokenCard';
+import { ActionButtons } from '@/components/game/ActionButtons';
+import { DuelAnswer, DuelEndReason, DuelTokenView } from '@/lib/game-core/duel';
+import { getTimerConfig, getTimerColor, formatTimer } from '@/lib/game-core/timer';
+import { shareToClipboard } from '@/lib/social/sharing';
+
+interface DuelScreenProps {
+  duelId: string;
+  userId: string;
+}
+
+const END_REASON_TEXT: Record<DuelEndReason, string> = {
+  wrong_answer: 'First wrong answer',
+  both_wrong: 'Both missed - decided on speed',
+  sequence_complete: 'Ran out of tokens - decided on speed',
+  forfeit: 'Forfeit',
+};
+
+const TIMER_COLOR_CLASSES = {
+  green: 'text-emerald-400',
+  yellow: 'text-amber-400',
+  red: 'text-rose-400',
+};
+
+function toCardToken(token: DuelTokenView) {
+  return { ...token, marketCap: token.marketCap ?? 0 };
+}
+
+function describeAnswer(answer: DuelAnswer | null): string {
+  if (!answer || !answer.guess) return '⏰ Out of time';
+  return `${answer.guess === 'cap' ? '⬆️ CAP' : '⬇️ SLAP'} ${answer.correct ? '✅' : '❌'}`;
+}
+
+/**
+ * Live duel - waiting room, rounds, reveals and the result
+ */
+export function DuelScreen({ duelId, userId }: DuelScreenProps) {
+  const router = useRouter();
+  const { duel, error, isSubmitting, clockOffset, answer, leave } = useDuel(duelId, userId);
+  const [now, setNow] = useState(() => Date.now());
+  const [copied, setCopied] = useState(false);
+  const [isRematching, setIsRematching] = useState(false);
+
+  // Tick for countdowns, on the server's clock
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now() + clockOffset), 100);
+    return () => clearInterval(interval);
+  }, [clockOffset]);
+
+  const handleCopyInvite = async () => {
+    if (!duel) return;
+    const link = `${window.location.origin}/duel?code=${duel.inviteCode}`;
+    if (await shareToClipboard(`Duel me on CapOrSlap! Code ${duel.inviteCode}\n${link}`)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  const handleRematch = async () => {
+    if (!duel?.opponentId) return;
+    setIsRematching(true);
+    try {
+      const response = await fetch('/api/duel/create', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, opponentId: duel.opponentId }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        router.push(`/duel/${data.duelId}`);
+        return;
+      }
+    } catch (err) {
+      console.error('[Duel] Failed to create rematch:', err);
+    }
+    setIsRematching(false);
+  };
+
+  if (!duel) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950">
+        {error ? (
+          <div className="flex flex-col items-center gap-4 text-center px-4">
+            <p className="text-rose-300">{error}</p>
+            <Link href="/duel" className="text-amber-400 hover:text-amber-300 text-sm">Back to lobby</Link>
+          </div>
+        ) : (
+          <div className="w-12 h-12 border-4 border-amber-500 border-t-transparent rounded-full animate-spin" />
+        )}
+      </div>
+    );
+  }
+
+  const yourName = duel.displayNames[duel.you] || 'You';
+  const opponentName = duel.opponentId ? duel.displayNames[duel.opponentId] || duel.opponentId : 'Waiting...';
+  const round = duel.round;
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-white flex flex-col items-center px-4 py-6">
+      {/* Header: you vs opponent */}
+      <div className="w-full max-w-md flex items-center justify-between gap-3 mb-6">
+        <span className="flex-1 truncate text-sm font-bold text-amber-300">{yourName}</span>
+        <span className="rounded-full bg-black/40 px-3 py-1 text-sm font-bold tabular-nums">
+          ⚔️ {duel.roundsWon}
+        </span>
+        <span className="flex-1 truncate text-right text-sm font-bold text-zinc-300">{opponentName}</span>
+      </div>
+
+      {error && (
+        <div className="w-full max-w-md mb-4 rounded-xl bg-rose-500/10 border border-rose-500/30 px-4 py-2 text-sm text-rose-300">
+          {error}
+        </div>
+      )}
+
+      {/* Waiting room */}
+      {duel.status === 'waiting' && (
+        <div className="w-full max-w-md flex flex-col items-center gap-4 text-center mt-10">
+          <p className="text-zinc-400 text-sm">
+            {duel.invitedUserId ? 'Challenge sent - waiting for them to accept' : 'Share this code with your opponent'}
+          </p>
+          <p className="font-mono text-4xl font-bold tracking-[0.3em] text-amber-400">{duel.inviteCode}</p>
+          <button
+            onClick={handleCopyInvite}
+            className="rounded-xl bg-zinc-800 border border-zinc-700 px-4 py-2 text-sm font-medium hover:bg-zinc-700"
+          >
+            {copied ? '✓ Copied' : '📋 Copy invite link'}
+          </button>
+          <div className="w-8 h-8 border-4 border-amber-500 border-t-transparent rounded-full animate-spin mt-4" />
+          <button onClick={leave} disabled={isSubmitting} className="text-sm text-zinc-500 hover:text-white">
+            Cancel duel
+          </button>
+        </div>
+      )}
+
+      {/* Countdown before round one */}
+      {duel.status === 'active' && !round && duel.nextRoundAt && (
+        <div className="flex flex-col items-center gap-2 mt-20">
+          <p className="text-zinc-400">Get ready</p>
+          <p className="text-7xl font-bold tabular-nums">
+            {Math.max(1, Math.ceil((duel.nextRoundAt - now) / 1000))}
+          </p>
+        </div>
+      )}
+
+      {/* Round */}
+      {duel.status !== 'waiting' && duel.status !== 'cancelled' && round && (
+        <div className="w-full max-w-md flex flex-col items-center gap-4">
+          {!round.resolved && (() => {
+            const secondsLeft = Math.max(0, (round.deadline - now) / 1000);
+            const config = getTimerConfig(round.roundNumber);
+            const color = getTimerColor(secondsLeft / config.duration, config);
+            return (
+              <p className={`text-3xl font-bold tabular-nums ${TIMER_COLOR_CLASSES[color]}`}>
+                {formatTimer(secondsLeft)}
+              </p>
+            );
+          })()}
+
+          <div className="grid grid-cols-2 gap-3 w-full">
+            <TokenCard token={toCardToken(round.currentToken)} />
+            <TokenCard token={toCardToken(round.nextToken)} showMarketCap={round.resolved} />
+          </div>
+
+          {round.resolved ? (
+            <div className="w-full rounded-2xl bg-zinc-900 border border-zinc-800 p-4 flex flex-col gap-2 text-sm">
+              <p className="text-center font-bold">
+                Answer: {round.correctAnswer === 'cap' ? '⬆️ CAP' : '⬇️ SLAP'}
+              </p>
+              <div className="flex justify-between">
+                <span className="text-zinc-400">{yourName}</span>
+                <span>{describeAnswer(round.yourAnswer)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-zinc-400">{opponentName}</span>
+                <span>{describeAnswer(round.opponentAnswer)}</span>
+              </div>
+              {duel.status === 'active' && duel.nextRoundAt && (
+                <p className="text-center text-zinc-500 text-xs mt-1">
+                  Next round in {Math.max(1, Math.ceil((duel.nextRoundAt - now) / 1000))}...
+                </p>
+              )}
+            </div>
+          ) : (
+            <>
+              <ActionButtons onGuess={answer} disabled={isSubmitting || round.yourAnswer !== null} />
+              <p className="text-xs text-zinc-500">
+                {round.yourAnswer ? 'Locked in - ' : ''}
+                {round.opponentAnswered ? `${opponentName} has answered` : `${opponentName} is thinking...`}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Result */}
+      {(duel.status === 'finished' || duel.status === 'cancelled') && (
+        <div className="w-full max-w-md flex flex-col items-center gap-4 text-center mt-6">
+          {duel.status === 'cancelled' ? (
+            <p className="text-xl font-bold text-zinc-300">Duel cancelled</p>
+          ) : (
+            <>
+              <p className="text-4xl font-bold">
+                {duel.winnerId === null ? '🤝 Draw' : duel.winnerId === duel.you ? '🏆 You win!' : '💀 You lose'}
+              </p>
+              {duel.endReason && <p className="text-sm text-zinc-400">{END_REASON_TEXT[duel.endReason]}</p>}
+              {duel.totalAnswerMs && (
+                <p className="text-xs text-zinc-500">
+                  Answer time: {yourName} {((duel.totalAnswerMs[duel.you] ?? 0) / 1000).toFixed(1)}s
+                  {duel.opponentId && ` · ${opponentName} ${((duel.totalAnswerMs[duel.opponentId] ?? 0) / 1000).toFixed(1)}s`}
+                </p>
+              )}
+            </>
+          )}
+          <div className="flex gap-3 mt-2">
+            {duel.status === 'finished' && duel.opponentId && (
+              <button
+                onClick={handleRematch}
+                disabled={isRematching}
+                className="rounded-xl bg-gradient-to-br from-amber-500 to-orange-500 px-5 py-3 font-bold text-black disabled:opacity-50"
+              >
+                Rematch
+              </button>
+            )}
+            <Link href="/duel" className="rounded-xl bg-zinc-800 border border-zinc-700 px-5 py-3 font-bold">
+              Lobby
+            </Link>
+          </div>
+        </div>
+      )}
+
+      {/* Forfeit */}
+      {duel.status === 'active' && (
+        <button onClick={leave} disabled={isSubmitting} className="mt-8 text-xs text-zinc-600 hover:text-zinc-300">
+          Forfeit
+        </button>
+      )}
+    </div>
+  );
+}
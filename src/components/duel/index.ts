@@ -0,0 +1,3 @@
+// Export duel components
+export { DuelLobby } from './DuelLobby';
+export { DuelScreen } from './DuelScreen';
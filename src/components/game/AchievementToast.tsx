@@ -0,0 +1,77 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { AchievementUnlock } from '@/lib/game-core/achievements';
+
+interface AchievementToastProps {
+  achievement: AchievementUnlock;
+  onDismiss: () => void;
+}
+
+export function AchievementToast({ achievement, onDismiss }: AchievementToastProps) {
+  const [isVisible, setIsVisible] = useState(false);
+  const [isExiting, setIsExiting] = useState(false);
+
+  useEffect(() => {
+    // Animate in immediately
+    requestAnimationFrame(() => setIsVisible(true));
+
+    // Auto-dismiss after 3 seconds
+    const dismissTimer = setTimeout(() => {
+      setIsExiting(true);
+      setTimeout(onDismiss, 200);
+    }, 3000);
+
+    return () => clearTimeout(dismissTimer);
+  }, [onDismiss]);
+
+  return (
+    <div
+      className={`
+        fixed top-4 left-1/2 -translate-x-1/2 z-50
+        transition-all duration-200 ease-out
+        ${isVisible && !isExiting
+          ? 'opacity-100 translate-y-0'
+          : 'opacity-0 -translate-y-full'
+        }
+      `}
+    >
+      <div className="
+        flex items-center gap-3 px-4 py-2
+        bg-violet-900/80 backdrop-blur-sm
+        border border-violet-500/30
+        text-white
+        rounded-lg
+        shadow-lg shadow-violet-500/10
+        min-w-[220px]
+      ">
+        <span className="text-2xl">{achievement.icon}</span>
+        <div className="min-w-0">
+          <p className="text-[10px] font-bold uppercase tracking-wider text-violet-300">Achievement unlocked</p>
+          <p className="text-sm font-bold truncate">{achievement.name}</p>
+          <p className="text-xs text-zinc-300 truncate">{achievement.description}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface AchievementToastQueueProps {
+  achievements: AchievementUnlock[];
+  onDismiss: () => void; // Drops the first achievement
+}
+
+/**
+ * Shows newly unlocked achievements one at a time, oldest first
+ */
+export function AchievementToastQueue({ achievements, onDismiss }: AchievementToastQueueProps) {
+  if (achievements.length === 0) return null;
+
+  return (
+    <AchievementToast
+      key={achievements[0].id}
+      achievement={achievements[0]}
+      onDismiss={onDismiss}
+    />
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BLITZ_MISS_PENALTY_MS, getBlitzTimerConfig, getTimerColor } from '@/lib/game-core/timer';
+import { GameTimer } from './GameTimer';
+
+interface BlitzClockProps {
+  endsAt: number; // When the run's clock runs out (client time, ms)
+}
+
+/**
+ * Blitz run clock - one countdown for the whole run
+ * Drawn like the round timer; the run ends in useGame when it hits zero
+ */
+export function BlitzClock({ endsAt }: BlitzClockProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Update every 100ms for smooth display
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, []);
+
+  const config = getBlitzTimerConfig();
+  const timeRemaining = Math.max(endsAt - now, 0) / 1000;
+  const percentRemaining = Math.min(timeRemaining / config.duration, 1);
+
+  return (
+    <GameTimer
+      timeRemaining={timeRemaining}
+      totalTime={config.duration}
+      percentRemaining={percentRemaining}
+      color={getTimerColor(percentRemaining, config)}
+      isPulsing={timeRemaining <= 5 && timeRemaining > 0}
+      isPaused={timeRemaining === 0}
+      tier={config.tier}
+    />
+  );
+}
+
+interface BlitzPenaltyOverlayProps {
+  onComplete: () => void;
+}
+
+/**
+ * Blitz runs: a wrong answer's time penalty
+ * Quick like the correct overlay - the clock keeps running underneath
+ */
+export function BlitzPenaltyOverlay({ onComplete }: BlitzPenaltyOverlayProps) {
+  const [show, setShow] = useState(true);
+
+  useEffect(() => {
+    // Auto-dismiss after 400ms
+    const timer = setTimeout(() => {
+      setShow(false);
+      onComplete();
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [onComplete]);
+
+  if (!show) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center pointer-events-none">
+      {/* Red flash background */}
+      <div
+        className="absolute inset-0 bg-rose-500/20 animate-pulse"
+        style={{ animationDuration: '200ms' }}
+      />
+
+      {/* Penalty */}
+      <div className="relative text-rose-400 text-5xl font-black animate-bounce">
+        -{BLITZ_MISS_PENALTY_MS / 1000}s
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import { ChallengeInfo } from '@/lib/game-core/types';
+
+interface ChallengeProgressProps {
+  challenge: ChallengeInfo;
+  streak: number;
+}
+
+/**
+ * You-vs-challenger pill shown during a challenge replay
+ * Fills up as the player closes in on the challenger's streak
+ */
+export function ChallengeProgress({ challenge, streak }: ChallengeProgressProps) {
+  const target = challenge.challengerStreak;
+  const percent = target > 0 ? Math.min(100, (streak / target) * 100) : 100;
+  const isAhead = streak > target;
+
+  return (
+    <div className="bg-black/40 backdrop-blur-sm rounded-2xl px-3 py-1.5 min-w-[140px]">
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="text-white font-bold tabular-nums">You {streak}</span>
+        <span className="text-white/40">vs</span>
+        <span className="text-violet-300 font-bold truncate max-w-[90px]">
+          {challenge.challenger.displayName} {target}
+        </span>
+      </div>
+      <div className="mt-1 h-1 w-full rounded-full bg-white/10 overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all duration-500 ${
+            isAhead ? 'bg-emerald-400' : 'bg-violet-400'
+          }`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
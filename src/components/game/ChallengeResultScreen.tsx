@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { ChallengeInfo, Run } from '@/lib/game-core/types';
+import { getChallengeOutcome } from '@/lib/game-core/challenge';
+import { generateChallengeResultShareData, generateShareText, shareToClipboard } from '@/lib/social/sharing';
+import { miniAppComposeCast } from '@/lib/farcaster/sdk';
+import { trackSocialShare } from '@/lib/analytics/engagement';
+import { trackShareInSession } from '@/lib/analytics/session';
+
+interface ChallengeResultScreenProps {
+  run: Run;
+  challenge: ChallengeInfo;
+  onRematch: () => void;
+}
+
+const OUTCOME_COPY = {
+  win: { emoji: '👑', title: 'You won the challenge', color: 'text-emerald-400' },
+  loss: { emoji: '💀', title: 'Challenger wins', color: 'text-rose-400' },
+  tie: { emoji: '🤝', title: "It's a tie", color: 'text-amber-400' },
+} as const;
+
+/**
+ * Head-to-head result of a challenge replay
+ */
+export function ChallengeResultScreen({ run, challenge, onRematch }: ChallengeResultScreenProps) {
+  const [copied, setCopied] = useState(false);
+  const [sharing, setSharing] = useState(false);
+
+  const outcome = getChallengeOutcome(run.streak, challenge.challengerStreak);
+  const copy = OUTCOME_COPY[outcome];
+  // Outlasting every pair the challenger saw means there was nothing left to play
+  const clearedAll = !run.failedGuess;
+  const challengerName = challenge.challenger.displayName;
+
+  const handleShare = async () => {
+    setSharing(true);
+    trackSocialShare('farcaster', run.streak, 'challenge');
+    trackShareInSession();
+
+    const shareData = generateChallengeResultShareData(run, challenge);
+
+    const castSuccess = await miniAppComposeCast({
+      text: `${shareData.message}\n\nCan you beat us?`,
+      embeds: [shareData.url],
+    });
+
+    if (castSuccess || await shareToClipboard(generateShareText(shareData))) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+    setSharing(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-zinc-950 px-6 overflow-y-auto py-8">
+      <div className="relative flex flex-col items-center gap-5 max-w-sm w-full">
+        <div className="text-5xl">{copy.emoji}</div>
+
+        <div className={`text-2xl font-black ${copy.color}`}>{copy.title}</div>
+
+        {/* Head to head */}
+        <div className="w-full flex items-stretch gap-3">
+          <div className={`flex-1 p-4 rounded-xl bg-zinc-900/80 border text-center ${
+            outcome === 'win' ? 'border-emerald-500/60' : 'border-zinc-800'
+          }`}>
+            <div className="text-zinc-400 text-xs uppercase tracking-widest">You</div>
+            <div className="text-5xl font-black text-white tabular-nums mt-1">{run.streak}</div>
+          </div>
+          <div className="flex items-center text-zinc-600 font-black">VS</div>
+          <div className={`flex-1 p-4 rounded-xl bg-zinc-900/80 border text-center ${
+            outcome === 'loss' ? 'border-rose-500/60' : 'border-zinc-800'
+          }`}>
+            <div className="text-zinc-400 text-xs uppercase tracking-widest truncate">
+              {challengerName}
+            </div>
+            <div className="text-5xl font-black text-white tabular-nums mt-1">
+              {challenge.challengerStreak}
+            </div>
+          </div>
+        </div>
+
+        {clearedAll ? (
+          <p className="text-zinc-400 text-sm text-center">
+            You survived every round {challengerName} played.
+          </p>
+        ) : run.failedGuess && (
+          <p className="text-zinc-400 text-sm text-center">
+            Knocked out on{' '}
+            <span className="text-white font-bold">{run.failedGuess.currentToken.symbol}</span>
+            {' vs '}
+            <span className="text-white font-bold">{run.failedGuess.nextToken.symbol}</span>
+          </p>
+        )}
+
+        <div className="w-full flex flex-col gap-3">
+          <button
+            onClick={handleShare}
+            disabled={sharing}
+            className="
+              w-full py-4 px-6 rounded-2xl
+              bg-gradient-to-br from-violet-500 to-purple-600
+              text-white font-bold text-lg
+              shadow-lg shadow-violet-500/25
+              transform transition-all
+              hover:scale-[1.02] active:scale-[0.98]
+              disabled:opacity-50
+            "
+          >
+            {copied ? '✓ Shared!' : '📣 Share Result'}
+          </button>
+
+          <button
+            onClick={onRematch}
+            className="w-full py-3 px-6 rounded-xl bg-zinc-800 hover:bg-zinc-700 text-white font-bold transition-colors"
+          >
+            🔁 Rematch
+          </button>
+
+          <Link
+            href="/"
+            className="w-full py-3 px-6 rounded-xl bg-zinc-900 hover:bg-zinc-800 text-zinc-300 font-bold text-center transition-colors"
+          >
+            🎮 Play Classic
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
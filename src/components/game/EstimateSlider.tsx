@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { EstimateResult, Token } from '@/lib/game-core/types';
+import { formatMarketCap } from '@/lib/game-core/comparison';
+import {
+  ESTIMATE_MAX_CAP,
+  ESTIMATE_MAX_POINTS,
+  ESTIMATE_MIN_CAP,
+  ESTIMATE_ROUND_SECONDS,
+  sliderPositionToCap,
+} from '@/lib/game-core/estimation';
+
+// Slider steps between ESTIMATE_MIN_CAP and ESTIMATE_MAX_CAP
+const SLIDER_STEPS = 1000;
+
+// How long a bonus estimate's result stays up
+const BONUS_RESULT_MS = 1800;
+
+interface EstimateSliderProps {
+  token: Token; // Market cap hidden
+  onSubmit: (estimate: number) => void;
+  disabled?: boolean;
+  result?: EstimateResult | null; // Reveals the market cap and the points
+}
+
+/**
+ * Rounds an estimate to what formatMarketCap shows, so the player gets what they read
+ */
+function roundEstimate(estimate: number): number {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(estimate)) - 2);
+  return Math.min(Math.max(Math.round(estimate / magnitude) * magnitude, ESTIMATE_MIN_CAP), ESTIMATE_MAX_CAP);
+}
+
+/**
+ * Log-scale market cap slider for one hidden token
+ * Every notch moves the estimate by the same ratio - $1M to $10M is as far as $1B to $10B.
+ * Locks in whatever it's set to when the round's time runs out.
+ * Remount (key on the token) for each new token.
+ */
+export function EstimateSlider({ token, onSubmit, disabled = false, result }: EstimateSliderProps) {
+  const [position, setPosition] = useState(0.5);
+  const [secondsLeft, setSecondsLeft] = useState(ESTIMATE_ROUND_SECONDS);
+  const estimate = roundEstimate(sliderPositionToCap(position));
+  const locked = disabled || !!result;
+
+  // Count down while the estimate is open
+  useEffect(() => {
+    if (locked) return;
+    const interval = setInterval(() => setSecondsLeft(s => Math.max(s - 1, 0)), 1000);
+    return () => clearInterval(interval);
+  }, [locked]);
+
+  // Out of time - whatever the slider says gets locked in
+  useEffect(() => {
+    if (secondsLeft === 0 && !locked) onSubmit(estimate);
+  }, [secondsLeft, locked, estimate, onSubmit]);
+
+  return (
+    <div className="w-full max-w-md flex flex-col items-center gap-5 p-6 rounded-3xl bg-zinc-900/90 border border-zinc-800">
+      {/* Token */}
+      <div className="flex flex-col items-center gap-2">
+        <div className="relative w-20 h-20 rounded-full overflow-hidden bg-zinc-800 ring-4 ring-zinc-700">
+          <Image
+            src={token.logoUrl}
+            alt={token.symbol}
+            fill
+            sizes="80px"
+            className="object-cover"
+            onError={(e) => {
+              // Fallback to placeholder
+              const target = e.target as HTMLImageElement;
+              target.src = `https://ui-avatars.com/api/?name=${token.symbol}&background=random&size=128`;
+            }}
+          />
+        </div>
+        <div className="text-white font-black text-2xl">{token.symbol}</div>
+        <div className="text-zinc-400 text-sm">{token.name}</div>
+      </div>
+
+      {/* Estimate */}
+      <div className="text-center">
+        <div className="text-zinc-500 text-xs uppercase tracking-wider">Your estimate</div>
+        <div className="font-mono font-black text-3xl text-amber-400">{formatMarketCap(estimate)}</div>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={SLIDER_STEPS}
+        value={Math.round(position * SLIDER_STEPS)}
+        onChange={(e) => setPosition(Number(e.target.value) / SLIDER_STEPS)}
+        disabled={locked}
+        className="w-full accent-amber-500 disabled:opacity-50"
+        aria-label={`Market cap estimate for ${token.symbol}`}
+      />
+      <div className="w-full flex justify-between text-xs text-zinc-500 -mt-3">
+        <span>{formatMarketCap(ESTIMATE_MIN_CAP)}</span>
+        <span>{formatMarketCap(ESTIMATE_MAX_CAP)}</span>
+      </div>
+
+      {/* Result, or the lock-in button */}
+      {result ? (
+        <div className="text-center">
+          <div className="text-zinc-400 text-sm">
+            Actual: <span className="font-mono font-bold text-emerald-400">{formatMarketCap(result.token.marketCap)}</span>
+          </div>
+          <div className={`text-3xl font-black mt-1 ${result.points >= ESTIMATE_MAX_POINTS / 2 ? 'text-emerald-400' : 'text-rose-400'}`}>
+            +{result.points}
+          </div>
+          <div className="text-zinc-500 text-xs">
+            {result.logDistance < 0.05 ? 'Dead on' : `Off by ${Math.pow(10, result.logDistance).toFixed(1)}x`}
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => onSubmit(estimate)}
+          disabled={locked}
+          className="w-full py-4 rounded-2xl bg-gradient-to-br from-amber-500 to-orange-600 text-white font-bold text-lg disabled:opacity-50"
+        >
+          {disabled ? 'Checking...' : `Lock it in · ${secondsLeft}s`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface BonusEstimateOverlayProps {
+  token: Token; // Market cap hidden
+  onSubmit: (estimate: number) => Promise<EstimateResult | null>;
+  onComplete: () => void;
+}
+
+/**
+ * Classic runs: the bonus estimate every few correct answers
+ * The round timer is paused underneath; the result stays up briefly before play carries on
+ */
+export function BonusEstimateOverlay({ token, onSubmit, onComplete }: BonusEstimateOverlayProps) {
+  const [result, setResult] = useState<EstimateResult | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = (estimate: number) => {
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    onSubmit(estimate).then(scored => {
+      setIsSubmitting(false);
+      // Not scored - carry on without the bonus
+      if (!scored) onComplete();
+      setResult(scored);
+    });
+  };
+
+  useEffect(() => {
+    if (!result) return;
+    const timer = setTimeout(onComplete, BONUS_RESULT_MS);
+    return () => clearTimeout(timer);
+  }, [result, onComplete]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-4 bg-black/80 backdrop-blur-sm px-4">
+      <div className="text-amber-400 font-black text-xl">🎯 Bonus round - guess the market cap</div>
+      <EstimateSlider
+        key={token.id}
+        token={token}
+        onSubmit={handleSubmit}
+        disabled={isSubmitting}
+        result={result}
+      />
+    </div>
+  );
+}
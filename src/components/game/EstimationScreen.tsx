@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { useAuth, useIdentity } from '@/hooks';
+import { useEstimationGame } from '@/hooks/useEstimationGame';
+import { ESTIMATE_MAX_POINTS } from '@/lib/game-core/estimation';
+import { EstimateSlider } from './EstimateSlider';
+
+// How long a round's answer stays up
+const REVEAL_MS = 2000;
+
+/**
+ * Estimation run - guess ten hidden tokens' market caps on a log-scale slider
+ */
+export function EstimationScreen() {
+  const { user, isLoading: identityLoading } = useIdentity();
+  const { fid } = useAuth();
+  // Use FID as the user identifier
+  const userId = fid ? String(fid) : (user?.userId || '');
+
+  const {
+    state,
+    isLoading,
+    isSubmitting,
+    error,
+    startGame,
+    submitEstimate,
+    continueAfterReveal,
+  } = useEstimationGame(userId);
+
+  // Start once the player is known
+  useEffect(() => {
+    if (userId && !state.runId && !isLoading && !error) {
+      startGame();
+    }
+  }, [userId, state.runId, isLoading, error, startGame]);
+
+  // Auto-advance after the reveal
+  useEffect(() => {
+    if (state.phase !== 'reveal') return;
+    const timeout = setTimeout(continueAfterReveal, REVEAL_MS);
+    return () => clearTimeout(timeout);
+  }, [state.phase, continueAfterReveal]);
+
+  // Loading state
+  if (identityLoading || (isLoading && !state.token)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950">
+        <div className="flex flex-col items-center gap-4">
+          <div className="w-12 h-12 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin" />
+          <p className="text-zinc-400">Loading game...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Error state
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950 px-6">
+        <div className="text-center">
+          <div className="text-4xl mb-4">😵</div>
+          <p className="text-rose-400 font-bold">{error}</p>
+          <div className="mt-4 flex items-center justify-center gap-2">
+            <Link href="/" className="px-6 py-2 bg-zinc-800 rounded-lg text-white">
+              Play Classic
+            </Link>
+            <Link href="/leaderboard?type=estimation" className="px-6 py-2 bg-zinc-800 rounded-lg text-white">
+              Estimate Board
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-zinc-950 px-4 py-6">
+      {/* Top bar */}
+      <div className="w-full max-w-md flex items-center justify-between mb-6">
+        <Link
+          href="/"
+          className="bg-black/40 rounded-full px-3 py-1.5 text-white/60 hover:text-white text-sm font-medium transition-colors"
+        >
+          ← Classic
+        </Link>
+        <div className="text-zinc-400 text-sm font-bold">
+          Round {Math.min(state.round, state.rounds)}/{state.rounds}
+        </div>
+        <div className="text-right">
+          <div className="text-white font-black text-2xl">{state.score}</div>
+          <div className="text-zinc-500 text-xs">points</div>
+        </div>
+      </div>
+
+      {state.phase === 'over' ? (
+        <div className="mt-6 w-full max-w-md flex flex-col items-center gap-3">
+          <div className="text-5xl">🎯</div>
+          <p className="text-zinc-400">
+            You scored <span className="text-white font-bold">{state.score}</span> of {state.rounds * ESTIMATE_MAX_POINTS}
+          </p>
+          <button
+            onClick={startGame}
+            className="w-full py-4 rounded-2xl bg-gradient-to-br from-amber-500 to-orange-600 text-white font-bold text-lg"
+          >
+            Play Again
+          </button>
+          <Link href="/leaderboard?type=estimation" className="text-zinc-400 hover:text-white text-sm">
+            Estimate Board
+          </Link>
+          <Link href="/" className="text-zinc-400 hover:text-white text-sm">
+            Back to Classic
+          </Link>
+        </div>
+      ) : state.token && (
+        <>
+          <h1 className="text-white font-bold text-lg mb-4 text-center">Guess the market cap</h1>
+          <EstimateSlider
+            key={state.token.id}
+            token={state.token}
+            onSubmit={submitEstimate}
+            disabled={isSubmitting}
+            result={state.phase === 'reveal' ? state.lastResult : null}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,15 +3,28 @@
 import { useCallback, useEffect, useRef } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
+import { useRouter } from 'next/navigation';
 import { useGame, useIdentity, useGameTimer, useAuth } from '@/hooks';
-import { Token, Guess } from '@/lib/game-core/types';
-import { formatMarketCap } from '@/lib/game-core/comparison';
+import { Token, Guess, GameMode, ChallengeInfo, ThemeId, ComparisonMetric } from '@/lib/game-core/types';
+import { formatMarketCap, formatMetricValue } from '@/lib/game-core/comparison';
+import { getMetric, getMetricValue } from '@/lib/game-core/metrics';
+import { getCorrectAnswer } from '@/lib/game-core/tie-policy';
+import { formatSnapshotDate } from '@/lib/game-core/time-machine';
+import { SURVIVAL_LIVES } from '@/lib/game-core/survival';
 import { CorrectOverlay } from './CorrectOverlay';
+import { LifeLostOverlay } from './LifeLostOverlay';
+import { BlitzClock, BlitzPenaltyOverlay } from './BlitzClock';
+import { BonusEstimateOverlay } from './EstimateSlider';
 import { LossScreen } from './LossScreen';
 import { WinScreen } from './WinScreen';
+import { ChallengeResultScreen } from './ChallengeResultScreen';
+import { ChallengeProgress } from './ChallengeProgress';
 import { TokenInfoTooltip } from './TokenInfoTooltip';
 import { GameTimer } from './GameTimer';
+import { ThemeMenu } from './ThemeMenu';
+import { MetricMenu } from './MetricMenu';
 import { LiveOvertakeQueue } from './LiveOvertakeToast';
+import { AchievementToastQueue } from './AchievementToast';
 import { UserMenu } from '@/components/auth/UserMenu';
 import { MysteryBoxCounter } from '@/components/mystery-box';
 import { 
@@ -21,7 +34,16 @@ import {
 } from '@/lib/analytics/session';
 import { trackJourneyStep } from '@/lib/analytics/engagement';
 
-export function GameScreen() {
+interface GameScreenProps {
+  mode?: GameMode;
+  challengeRunId?: string; // Run to replay (challenge mode only)
+  theme?: ThemeId; // Theme to play (themed mode only)
+  snapshotDate?: string; // Day to play, YYYY-MM-DD (time machine only - random if omitted)
+  metric?: ComparisonMetric; // Metric to compare (metric mode only)
+}
+
+export function GameScreen({ mode = 'classic', challengeRunId, theme, snapshotDate, metric }: GameScreenProps) {
+  const router = useRouter();
   const { user, isLoading: identityLoading } = useIdentity();
   const { fid } = useAuth();
   // Use FID as the user identifier
@@ -50,14 +72,18 @@ export function GameScreen() {
     lossExplanation,
     makeGuess,
     continueAfterCorrect,
+    submitBonusEstimate,
+    finishBonus,
     playAgain,
     activateReprieve,
     milestoneMessage,
     completedRun,
     liveOvertakes,
     clearLiveOvertakes,
+    achievements,
+    dismissAchievement,
     winInfo,
-  } = useGame(userId);
+  } = useGame(userId, mode, challengeRunId, theme, snapshotDate, metric);
   
   // Track token display time for guess timing analytics (using ref, not state)
   useEffect(() => {
@@ -108,53 +134,66 @@ export function GameScreen() {
 
 
   // Timer management
+  // Blitz runs have no round timer - one clock for the whole run (see BlitzClock)
+  const usesRoundTimer = mode !== 'blitz';
   const handleTimerExpire = useCallback(() => {
     // Timer expired - trigger loss
-    if (gameState.phase === 'playing' && gameState.nextToken) {
+    if (usesRoundTimer && gameState.phase === 'playing' && gameState.nextToken) {
       // Make an incorrect guess to trigger loss
       // We'll guess the opposite of what would be correct
-      const currentMcap = gameState.currentToken?.marketCap || 0;
-      const nextMcap = gameState.nextToken?.marketCap || 0;
-      const correctGuess = nextMcap >= currentMcap ? 'cap' : 'slap';
+      const currentValue = gameState.currentToken ? getMetricValue(gameState.currentToken, gameState.metric) ?? 0 : 0;
+      const nextValue = getMetricValue(gameState.nextToken, gameState.metric) ?? 0;
+      const correctGuess = getCorrectAnswer(currentValue, nextValue);
       const wrongGuess = correctGuess === 'cap' ? 'slap' : 'cap';
       makeGuess(wrongGuess);
     }
-  }, [gameState.phase, gameState.currentToken, gameState.nextToken, makeGuess]);
+  }, [usesRoundTimer, gameState.phase, gameState.currentToken, gameState.nextToken, gameState.metric, makeGuess]);
 
   const timer = useGameTimer(gameState.streak, handleTimerExpire);
 
   // Start timer when game starts playing
   useEffect(() => {
-    if (gameState.phase === 'playing' && !timer.isPaused && timer.isExpired) {
+    if (usesRoundTimer && gameState.phase === 'playing' && !timer.isPaused && timer.isExpired) {
       timer.reset(gameState.streak);
       timer.start();
     }
-  }, [gameState.phase, gameState.streak, timer]);
+  }, [usesRoundTimer, gameState.phase, gameState.streak, timer]);
 
-  // Pause timer during correct phase and loss phase
+  // Pause timer during correct, miss, bonus and loss phases
   useEffect(() => {
-    if (gameState.phase === 'correct' || gameState.phase === 'loss') {
+    if (gameState.phase === 'correct' || gameState.phase === 'miss' || gameState.phase === 'bonus' || gameState.phase === 'loss') {
       timer.pause();
-    } else if (gameState.phase === 'playing' && timer.isPaused && !timer.isExpired) {
+    } else if (usesRoundTimer && gameState.phase === 'playing' && timer.isPaused && !timer.isExpired) {
       // Reset with new timer duration for streak
       timer.reset(gameState.streak);
       timer.start();
     }
-  }, [gameState.phase, gameState.streak, timer]);
+  }, [usesRoundTimer, gameState.phase, gameState.streak, timer]);
 
   // Start timer when game first loads
   useEffect(() => {
-    if (gameState.currentToken && gameState.phase === 'playing' && timer.isPaused) {
+    if (usesRoundTimer && gameState.currentToken && gameState.phase === 'playing' && timer.isPaused) {
       timer.start();
     }
-  }, [gameState.currentToken, gameState.phase, timer]);
+  }, [usesRoundTimer, gameState.currentToken, gameState.phase, timer]);
 
   // Handle continue after correct - reset and start timer
   const handleContinueAfterCorrect = useCallback(() => {
-    timer.reset(gameState.streak);
-    timer.start();
+    if (usesRoundTimer) {
+      timer.reset(gameState.streak);
+      timer.start();
+    }
     continueAfterCorrect();
-  }, [continueAfterCorrect, timer, gameState.streak]);
+  }, [usesRoundTimer, continueAfterCorrect, timer, gameState.streak]);
+
+  // Daily Challenge is one attempt per day - "play again" goes back to classic
+  const handlePlayAgain = useCallback(() => {
+    if (mode === 'daily') {
+      router.push('/');
+      return;
+    }
+    playAgain();
+  }, [mode, playAgain, router]);
 
   // Handle reprieve completion - reset timer and resume game
   const handleReprieveComplete = useCallback(() => {
@@ -184,38 +223,84 @@ export function GameScreen() {
         <div className="text-center">
           <div className="text-4xl mb-4">😵</div>
           <p className="text-rose-400 font-bold">{error}</p>
-          <button
-            onClick={() => window.location.reload()}
-            className="mt-4 px-6 py-2 bg-zinc-800 rounded-lg text-white"
-          >
-            Try Again
-          </button>
+          {mode !== 'classic' ? (
+            <div className="mt-4 flex items-center justify-center gap-2">
+              <Link href="/" className="px-6 py-2 bg-zinc-800 rounded-lg text-white">
+                Play Classic
+              </Link>
+              {mode === 'daily' && (
+                <Link href="/leaderboard?type=daily" className="px-6 py-2 bg-zinc-800 rounded-lg text-white">
+                  Today&apos;s Board
+                </Link>
+              )}
+              {mode === 'themed' && theme && (
+                <Link href={`/leaderboard?type=theme&theme=${theme}`} className="px-6 py-2 bg-zinc-800 rounded-lg text-white">
+                  Theme Board
+                </Link>
+              )}
+              {mode === 'survival' && (
+                <Link href="/leaderboard?type=survival" className="px-6 py-2 bg-zinc-800 rounded-lg text-white">
+                  Survival Board
+                </Link>
+              )}
+              {mode === 'blitz' && (
+                <Link href="/leaderboard?type=blitz" className="px-6 py-2 bg-zinc-800 rounded-lg text-white">
+                  Blitz Board
+                </Link>
+              )}
+            </div>
+          ) : (
+            <button
+              onClick={() => window.location.reload()}
+              className="mt-4 px-6 py-2 bg-zinc-800 rounded-lg text-white"
+            >
+              Try Again
+            </button>
+          )}
         </div>
       </div>
     );
   }
 
-  // Win screen (if personal best or top 3)
-  if (gameState.phase === 'loss' && completedRun && winInfo) {
+  // Challenge result - head to head against the challenger
+  if (gameState.phase === 'loss' && completedRun && gameState.challenge) {
     return (
-      <WinScreen
+      <ChallengeResultScreen
         run={completedRun}
-        winType={winInfo.type}
-        rank={winInfo.rank}
-        onPlayAgain={playAgain}
+        challenge={gameState.challenge}
+        onRematch={playAgain}
       />
     );
   }
 
+  // Win screen (if personal best or top 3)
+  if (gameState.phase === 'loss' && completedRun && winInfo) {
+    return (
+      <>
+        <WinScreen
+          run={completedRun}
+          winType={winInfo.type}
+          rank={winInfo.rank}
+          onPlayAgain={handlePlayAgain}
+        />
+        <AchievementToastQueue achievements={achievements} onDismiss={dismissAchievement} />
+      </>
+    );
+  }
+
   // Loss screen
   if (gameState.phase === 'loss' && completedRun) {
     return (
-      <LossScreen
-        run={completedRun}
-        lossExplanation={lossExplanation}
-        onPlayAgain={playAgain}
-        onReprieveComplete={handleReprieveComplete}
-      />
+      <>
+        <LossScreen
+          run={completedRun}
+          lossExplanation={lossExplanation}
+          onPlayAgain={handlePlayAgain}
+          onReprieveComplete={handleReprieveComplete}
+        />
+        {/* Achievements the final guess or the leaderboard submission unlocked */}
+        <AchievementToastQueue achievements={achievements} onDismiss={dismissAchievement} />
+      </>
     );
   }
 
@@ -227,6 +312,13 @@ export function GameScreen() {
           currentToken={gameState.currentToken}
           nextToken={gameState.nextToken}
           streak={gameState.streak}
+          mode={mode}
+          challenge={gameState.challenge}
+          theme={gameState.theme}
+          snapshotDate={gameState.snapshotDate}
+          metric={gameState.metric}
+          lives={gameState.lives}
+          clockEndsAt={gameState.clockEndsAt}
           onGuess={makeGuess}
           isLoading={isLoading}
           showNextMarketCap={true}
@@ -239,6 +331,60 @@ export function GameScreen() {
         />
         {/* Live overtake notifications */}
         <LiveOvertakeQueue overtakes={liveOvertakes} onClear={clearLiveOvertakes} />
+        <AchievementToastQueue achievements={achievements} onDismiss={dismissAchievement} />
+      </>
+    );
+  }
+
+  // Miss overlay - survival: reveal the answer, blitz: flash the penalty, then carry on
+  if (gameState.phase === 'miss') {
+    return (
+      <>
+        <SplitScreenGame
+          currentToken={gameState.currentToken}
+          nextToken={gameState.nextToken}
+          streak={gameState.streak}
+          mode={mode}
+          metric={gameState.metric}
+          lives={gameState.lives}
+          clockEndsAt={gameState.clockEndsAt}
+          onGuess={makeGuess}
+          isLoading={isLoading}
+          showNextMarketCap={true}
+          timer={timer}
+        />
+        {mode === 'blitz' ? (
+          <BlitzPenaltyOverlay onComplete={handleContinueAfterCorrect} />
+        ) : (
+          <LifeLostOverlay
+            lives={gameState.lives ?? 0}
+            onComplete={handleContinueAfterCorrect}
+            explanation={lossExplanation}
+          />
+        )}
+      </>
+    );
+  }
+
+  // Bonus estimate - classic runs, every few correct answers
+  if (gameState.phase === 'bonus' && gameState.bonusToken) {
+    return (
+      <>
+        <SplitScreenGame
+          currentToken={gameState.currentToken}
+          nextToken={gameState.nextToken}
+          streak={gameState.streak}
+          mode={mode}
+          onGuess={makeGuess}
+          isLoading={isLoading}
+          showNextMarketCap={false}
+          timer={timer}
+        />
+        <BonusEstimateOverlay
+          token={gameState.bonusToken}
+          onSubmit={submitBonusEstimate}
+          onComplete={finishBonus}
+        />
       </>
     );
   }
@@ -250,6 +396,13 @@ export function GameScreen() {
         currentToken={gameState.currentToken}
         nextToken={gameState.nextToken}
         streak={gameState.streak}
+        mode={mode}
+        challenge={gameState.challenge}
+        theme={gameState.theme}
+        snapshotDate={gameState.snapshotDate}
+        metric={gameState.metric}
+        lives={gameState.lives}
+        clockEndsAt={gameState.clockEndsAt}
         onGuess={makeGuess}
         isLoading={isLoading}
         showNextMarketCap={false}
@@ -257,6 +410,7 @@ export function GameScreen() {
       />
       {/* Live overtake notifications */}
       <LiveOvertakeQueue overtakes={liveOvertakes} onClear={clearLiveOvertakes} />
+      <AchievementToastQueue achievements={achievements} onDismiss={dismissAchievement} />
     </>
   );
 }
@@ -265,6 +419,13 @@ interface SplitScreenGameProps {
   currentToken: Token | null;
   nextToken: Token | null;
   streak: number;
+  mode: GameMode;
+  challenge?: ChallengeInfo;
+  theme?: ThemeId;
+  snapshotDate?: string;
+  metric?: ComparisonMetric;
+  lives?: number; // Survival runs only
+  clockEndsAt?: number; // Blitz runs only
   onGuess: (guess: Guess) => void;
   isLoading: boolean;
   showNextMarketCap: boolean;
@@ -275,6 +436,13 @@ function SplitScreenGame({
   currentToken, 
   nextToken, 
   streak, 
+  mode,
+  challenge,
+  theme,
+  snapshotDate,
+  metric,
+  lives,
+  clockEndsAt,
   onGuess, 
   isLoading,
   showNextMarketCap,
@@ -296,6 +464,8 @@ function SplitScreenGame({
           token={currentToken}
           showMarketCap={true}
           side="left"
+          snapshotDate={snapshotDate}
+          metric={metric}
         />
       </div>
 
@@ -315,21 +485,27 @@ function SplitScreenGame({
           onGuess={onGuess}
           isLoading={isLoading}
           compareToken={currentToken}
+          snapshotDate={snapshotDate}
+          metric={metric}
         />
       </div>
 
       {/* Timer - Centered at top */}
       <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30">
         <div className="bg-black/40 backdrop-blur-sm rounded-full p-1">
-          <GameTimer
-            timeRemaining={timer.timeRemaining}
-            totalTime={timer.totalTime}
-            percentRemaining={timer.percentRemaining}
-            color={timer.color}
-            isPulsing={timer.isPulsing}
-            isPaused={timer.isPaused}
-            tier={timer.config.tier}
-          />
+          {clockEndsAt !== undefined ? (
+            <BlitzClock endsAt={clockEndsAt} />
+          ) : (
+            <GameTimer
+              timeRemaining={timer.timeRemaining}
+              totalTime={timer.totalTime}
+              percentRemaining={timer.percentRemaining}
+              color={timer.color}
+              isPulsing={timer.isPulsing}
+              isPaused={timer.isPaused}
+              tier={timer.config.tier}
+            />
+          )}
         </div>
       </div>
 
@@ -343,6 +519,16 @@ function SplitScreenGame({
             <span className="text-white font-bold text-lg tabular-nums">{streak}</span>
           </div>
 
+          {/* Survival lives */}
+          {lives !== undefined && (
+            <div className="bg-black/40 backdrop-blur-sm rounded-full px-3 py-1.5 text-sm tracking-wider" title="Lives">
+              {Array.from({ length: SURVIVAL_LIVES }, (_, i) => (i < lives ? '❤️' : '🖤')).join('')}
+            </div>
+          )}
+
+          {/* You vs challenger */}
+          {challenge && <ChallengeProgress challenge={challenge} streak={streak} />}
+
           {/* Mystery Box Counter */}
           <MysteryBoxCounter />
         </div>
@@ -352,6 +538,96 @@ function SplitScreenGame({
           {/* User menu (only shows when authenticated) */}
           <UserMenu className="hidden md:block" />
           
+          {/* Themed runs - hidden during daily and challenge runs */}
+          {(mode === 'classic' || mode === 'themed') && (
+            <ThemeMenu activeTheme={mode === 'themed' ? theme : undefined} />
+          )}
+          
+          {/* Comparison metric - badge while playing one, entry point in classic */}
+          {(mode === 'classic' || mode === 'metric') && (
+            <MetricMenu activeMetric={mode === 'metric' ? metric : undefined} />
+          )}
+          
+          {/* Time machine - badge with the day being played, entry point in classic */}
+          {mode === 'timemachine' && snapshotDate && (
+            <span className="bg-sky-500/20 border border-sky-400/40 rounded-full px-3 py-1.5 text-sky-300 text-sm font-bold">
+              🕰️ {formatSnapshotDate(snapshotDate)}
+            </span>
+          )}
+          {mode === 'classic' && (
+            <Link
+              href="/?mode=timemachine"
+              className="bg-black/40 backdrop-blur-sm rounded-full px-3 py-1.5 text-white/60 hover:text-white text-sm font-medium transition-colors"
+              title="Time Machine"
+            >
+              🕰️
+            </Link>
+          )}
+
+          {/* Survival, blitz, ranking and estimation - entry points in classic */}
+          {mode === 'classic' && (
+            <Link
+              href="/?mode=survival"
+              className="bg-black/40 backdrop-blur-sm rounded-full px-3 py-1.5 text-white/60 hover:text-white text-sm font-medium transition-colors"
+              title="Survival"
+            >
+              ❤️
+            </Link>
+          )}
+          {mode === 'classic' && (
+            <Link
+              href="/?mode=blitz"
+              className="bg-black/40 backdrop-blur-sm rounded-full px-3 py-1.5 text-white/60 hover:text-white text-sm font-medium transition-colors"
+              title="Blitz"
+            >
+              ⚡
+            </Link>
+          )}
+          {mode === 'classic' && (
+            <Link
+              href="/?mode=ranking"
+              className="bg-black/40 backdrop-blur-sm rounded-full px-3 py-1.5 text-white/60 hover:text-white text-sm font-medium transition-colors"
+              title="Ranking"
+            >
+              🔢
+            </Link>
+          )}
+          {mode === 'classic' && (
+            <Link
+              href="/?mode=estimation"
+              className="bg-black/40 backdrop-blur-sm rounded-full px-3 py-1.5 text-white/60 hover:text-white text-sm font-medium transition-colors"
+              title="Guess the Market Cap"
+            >
+              🎯
+            </Link>
+          )}
+
+          {/* Duels - head to head against another player */}
+          {mode === 'classic' && (
+            <Link
+              href="/duel"
+              className="bg-black/40 backdrop-blur-sm rounded-full px-3 py-1.5 text-white/60 hover:text-white text-sm font-medium transition-colors"
+              title="Duel"
+            >
+              ⚔️
+            </Link>
+          )}
+
+          {/* Daily Challenge - badge while playing it, entry point otherwise */}
+          {mode === 'daily' ? (
+            <span className="bg-amber-500/20 border border-amber-400/40 rounded-full px-3 py-1.5 text-amber-300 text-sm font-bold">
+              📅 Daily
+            </span>
+          ) : (
+            <Link 
+              href="/?mode=daily" 
+              className="bg-black/40 backdrop-blur-sm rounded-full px-3 py-1.5 text-white/60 hover:text-white text-sm font-medium transition-colors"
+              title="Daily Challenge"
+            >
+              📅
+            </Link>
+          )}
+          
           {/* Leaderboard link */}
           <Link 
             href="/leaderboard" 
@@ -372,6 +648,8 @@ interface TokenPanelProps {
   onGuess?: (guess: Guess) => void;
   isLoading?: boolean;
   compareToken?: Token;
+  snapshotDate?: string; // Time machine: day the market cap is from
+  metric?: ComparisonMetric; // What's compared (default: market cap)
 }
 
 function TokenPanel({ 
@@ -380,7 +658,9 @@ function TokenPanel({
   side, 
   onGuess, 
   isLoading,
-  compareToken 
+  compareToken,
+  snapshotDate,
+  metric = 'marketCap'
 }: TokenPanelProps) {
   const isRight = side === 'right';
 
@@ -483,14 +763,24 @@ function TokenPanel({
         {/* Divider */}
         <div className="w-12 h-0.5 bg-white/20 rounded-full my-1" />
 
-        {/* Market cap label */}
-        <p className="text-white/40 text-xs uppercase tracking-widest">Market Cap</p>
+        {/* Metric label */}
+        <p className="text-white/40 text-xs uppercase tracking-widest">
+          {snapshotDate ? `Market Cap on ${formatSnapshotDate(snapshotDate)}` : getMetric(metric).label}
+        </p>
 
-        {/* Market cap or question mark */}
+        {/* Metric value or question mark */}
         {showMarketCap ? (
-          <div className="text-4xl md:text-5xl font-black text-amber-400 tabular-nums drop-shadow-lg">
-            {formatMarketCap(token.marketCap)}
-          </div>
+          <>
+            <div className="text-4xl md:text-5xl font-black text-amber-400 tabular-nums drop-shadow-lg">
+              {formatMetricValue(token, metric)}
+            </div>
+            {/* Time machine: where it is now */}
+            {token.liveMarketCap !== undefined && (
+              <p className="text-white/50 text-xs md:text-sm tabular-nums">
+                Today: {formatMarketCap(token.liveMarketCap)}
+              </p>
+            )}
+          </>
         ) : (
           <div className="text-5xl md:text-6xl font-black text-amber-400/80 animate-pulse">
             ?
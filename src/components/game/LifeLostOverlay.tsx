@@ -0,0 +1,60 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { SURVIVAL_LIVES } from '@/lib/game-core/survival';
+
+interface LifeLostOverlayProps {
+  lives: number; // Lives left after the wrong answer
+  onComplete: () => void;
+  explanation?: string | null;
+}
+
+/**
+ * Survival runs: a wrong answer that cost a life
+ * Stays up longer than the correct overlay so the revealed value can be read
+ */
+export function LifeLostOverlay({ lives, onComplete, explanation }: LifeLostOverlayProps) {
+  const [show, setShow] = useState(true);
+
+  useEffect(() => {
+    // Auto-dismiss after 1500ms
+    const timer = setTimeout(() => {
+      setShow(false);
+      onComplete();
+    }, 1500);
+
+    return () => clearTimeout(timer);
+  }, [onComplete]);
+
+  if (!show) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center pointer-events-none">
+      {/* Red flash background */}
+      <div
+        className="absolute inset-0 bg-rose-500/20 animate-pulse"
+        style={{ animationDuration: '300ms' }}
+      />
+
+      {/* Content */}
+      <div className="relative flex flex-col items-center gap-2 px-6 text-center">
+        {/* -1 life indicator */}
+        <div className="text-rose-400 text-4xl font-bold">
+          -1 ❤️
+        </div>
+
+        {/* Lives left */}
+        <div className="text-4xl tracking-widest">
+          {Array.from({ length: SURVIVAL_LIVES }, (_, i) => (i < lives ? '❤️' : '🖤')).join('')}
+        </div>
+
+        {/* What went wrong */}
+        {explanation && (
+          <div className="text-white/80 text-sm font-medium mt-2 max-w-xs">
+            {explanation}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,9 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { Run } from '@/lib/game-core/types';
-import { formatMarketCap } from '@/lib/game-core/comparison';
+import { formatMarketCap, formatMetricValue } from '@/lib/game-core/comparison';
+import { getMetric } from '@/lib/game-core/metrics';
+import { formatSnapshotDate } from '@/lib/game-core/time-machine';
 import { generateShareData, generateShareText, shareToClipboard } from '@/lib/social/sharing';
 import { miniAppComposeCast } from '@/lib/farcaster/sdk';
 import { canOfferReprieve, getReprieveState, getReprieveCopy, isReprieveFree } from '@/lib/game-core/reprieve';
@@ -128,13 +130,12 @@ export function LossScreen({
     trackShareInSession();
     
     const shareData = generateShareData(run);
-    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://caporslap.fun';
     
     // Try composeCast first (native Mini App share)
     const shareText = `${shareData.message}\n\nCan you beat me?`;
     const castSuccess = await miniAppComposeCast({
       text: shareText,
-      embeds: [appUrl],
+      embeds: [shareData.url], // Challenge link - opens a replay of this run
     });
     
     if (castSuccess) {
@@ -167,7 +168,8 @@ export function LossScreen({
     onReprieveComplete();
   };
 
-  const showReprieve = canOfferReprieve(run.streak, run.usedReprieve);
+  // Daily and challenge runs are one shot - no reprieves
+  const showReprieve = (run.mode ?? 'classic') === 'classic' && canOfferReprieve(run.streak, run.usedReprieve);
   const reprieveCopy = showReprieve && reprieveState ? getReprieveCopy(run.streak, reprieveState) : null;
   const isFree = isReprieveFree();
   
@@ -182,7 +184,9 @@ export function LossScreen({
       {/* Leaderboard link - top right */}
       <div className="absolute top-4 right-4 z-30 pointer-events-auto">
         <Link 
-          href="/leaderboard" 
+          href={run.theme
+            ? `/leaderboard?type=theme&theme=${run.theme}`
+            : run.mode === 'survival' || run.mode === 'blitz' ? `/leaderboard?type=${run.mode}` : '/leaderboard'} 
           className="bg-black/40 backdrop-blur-sm rounded-full px-3 py-1.5 text-white/60 hover:text-white text-sm font-medium transition-colors"
         >
           🏆
@@ -199,8 +203,14 @@ export function LossScreen({
             {run.streak}
           </div>
           <div className="text-xl font-bold text-rose-400 mt-1">
-            You got rekt
+            {run.mode === 'survival' ? 'Out of lives' : run.mode === 'blitz' ? "Time's up!" : 'You got rekt'}
           </div>
+          {/* Classic runs: points from bonus estimates - not part of the streak */}
+          {!!run.bonusPoints && (
+            <div className="text-sm font-bold text-amber-400 mt-2">
+              🎯 +{run.bonusPoints} bonus points
+            </div>
+          )}
         </div>
 
         {/* Explanation */}
@@ -215,6 +225,8 @@ export function LossScreen({
               <span className={run.failedGuess.guess === 'cap' ? 'text-emerald-400' : 'text-rose-400'}>
                 {run.failedGuess.guess === 'cap' ? 'higher' : 'lower'}
               </span>
+              {run.snapshotDate && ` on ${formatSnapshotDate(run.snapshotDate)}`}
+              {run.metric && ` on ${getMetric(run.metric).label}`}
             </p>
             <div className="flex items-center justify-center gap-4 mt-3">
               <div className="text-center">
@@ -222,8 +234,13 @@ export function LossScreen({
                   {run.failedGuess.currentToken.symbol}
                 </div>
                 <div className="text-sm text-emerald-400">
-                  {formatMarketCap(run.failedGuess.currentToken.marketCap)}
+                  {formatMetricValue(run.failedGuess.currentToken, run.metric)}
                 </div>
+                {run.failedGuess.currentToken.liveMarketCap !== undefined && (
+                  <div className="text-xs text-zinc-500">
+                    today {formatMarketCap(run.failedGuess.currentToken.liveMarketCap)}
+                  </div>
+                )}
               </div>
               <div className="text-zinc-600 text-xl">→</div>
               <div className="text-center">
@@ -231,8 +248,13 @@ export function LossScreen({
                   {run.failedGuess.nextToken.symbol}
                 </div>
                 <div className="text-sm text-emerald-400">
-                  {formatMarketCap(run.failedGuess.nextToken.marketCap)}
+                  {formatMetricValue(run.failedGuess.nextToken, run.metric)}
                 </div>
+                {run.failedGuess.nextToken.liveMarketCap !== undefined && (
+                  <div className="text-xs text-zinc-500">
+                    today {formatMarketCap(run.failedGuess.nextToken.liveMarketCap)}
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -417,12 +439,14 @@ export function LossScreen({
                 disabled:opacity-50
               "
             >
-              🔄 Try Again
+              {run.mode === 'daily' ? '🎮 Play Classic' : '🔄 Try Again'}
             </button>
             
             {/* Explanation text */}
             <p className="text-zinc-600 text-xs text-center">
-              Start a new game from scratch
+              {run.mode === 'daily'
+                ? 'Next Daily Challenge unlocks at 00:00 UTC'
+                : 'Start a new game from scratch'}
             </p>
           </div>
         )}
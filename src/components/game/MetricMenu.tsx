@@ -0,0 +1,112 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import Link from 'next/link';
+import { getFeaturedMetric, getMetric, getPlayableMetrics } from '@/lib/game-core/metrics';
+import { ComparisonMetric } from '@/lib/game-core/types';
+
+interface MetricMenuProps {
+  activeMetric?: ComparisonMetric; // Metric being played, if any
+}
+
+/**
+ * Comparison metric picker - badge while playing a metric run, entry point otherwise
+ * The featured metric (e.g. Volume Week) is pinned to the top
+ */
+export function MetricMenu({ activeMetric }: MetricMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const active = activeMetric ? getMetric(activeMetric) : null;
+  const featured = getFeaturedMetric();
+  const metrics = getPlayableMetrics()
+    .filter(m => m.id !== 'marketCap')
+    .sort((a, b) => Number(b.id === featured) - Number(a.id === featured));
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      {/* Trigger button */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={active
+          ? 'bg-cyan-500/20 border border-cyan-400/40 rounded-full px-3 py-1.5 text-cyan-300 text-sm font-bold'
+          : 'bg-black/40 backdrop-blur-sm rounded-full px-3 py-1.5 text-white/60 hover:text-white text-sm font-medium transition-colors'
+        }
+        title="Compare On"
+      >
+        {active ? `${active.emoji} ${active.name}` : featured ? `${getMetric(featured).emoji} ✨` : '📊'}
+      </button>
+
+      {/* Dropdown menu */}
+      {isOpen && (
+        <div
+          className="
+            absolute right-0 mt-2 w-64
+            bg-zinc-900 border border-zinc-700
+            rounded-xl shadow-lg shadow-black/50
+            overflow-hidden z-50
+            animate-in fade-in slide-in-from-top-2 duration-200
+          "
+        >
+          <div className="px-4 py-3 border-b border-zinc-800">
+            <p className="text-sm font-semibold text-white">Compare On</p>
+            <p className="text-xs text-zinc-500">Same game, different number - unranked, no reprieves</p>
+          </div>
+
+          <div className="py-1">
+            {metrics.map(metric => (
+              <Link
+                key={metric.id}
+                href={`/?metric=${metric.id}`}
+                onClick={() => setIsOpen(false)}
+                className={`
+                  flex items-start gap-3 px-4 py-2.5
+                  text-sm hover:bg-zinc-800/50 transition-colors
+                  ${metric.id === activeMetric ? 'text-white' : 'text-zinc-300 hover:text-white'}
+                `}
+              >
+                <span className="text-lg">{metric.emoji}</span>
+                <span className="flex-1 min-w-0">
+                  <span className="block font-medium">
+                    {metric.name}
+                    {metric.id === featured && (
+                      <span className="ml-2 text-xs font-bold text-cyan-300">This week</span>
+                    )}
+                  </span>
+                  <span className="block text-xs text-zinc-500">{metric.description}</span>
+                </span>
+              </Link>
+            ))}
+
+            {active && (
+              <Link
+                href="/"
+                onClick={() => setIsOpen(false)}
+                className="
+                  flex items-center gap-3 px-4 py-2.5 border-t border-zinc-800
+                  text-sm text-zinc-300 hover:text-white
+                  hover:bg-zinc-800/50
+                  transition-colors
+                "
+              >
+                <span className="text-lg">🎮</span>
+                Back to Market Cap
+              </Link>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { RankingGuess, RankingResult, Token } from '@/lib/game-core/types';
+import { formatMarketCap } from '@/lib/game-core/comparison';
+
+interface RankingBoardProps {
+  tokens: Token[]; // In the player's current order, highest first
+  onReorder: (order: RankingGuess) => void;
+  disabled?: boolean;
+  result?: RankingResult | null; // Reveals market caps and the right order
+}
+
+/**
+ * Moves one ID to another position
+ */
+function moveTo(order: RankingGuess, from: number, to: number): RankingGuess {
+  const next = [...order];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+/**
+ * Drag-to-order list of a ranking round's tokens
+ * Rows can be dragged, or nudged with the arrow buttons (touch screens, keyboards)
+ */
+export function RankingBoard({ tokens, onReorder, disabled = false, result }: RankingBoardProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const order = tokens.map(t => t.id);
+  const locked = disabled || !!result;
+  // Rounds are dealt without market caps - the result brings them
+  const revealed = new Map(result?.tokens.map(t => [t.id, t]));
+
+  const handleDragOver = (index: number) => {
+    if (dragIndex === null || dragIndex === index) return;
+    onReorder(moveTo(order, dragIndex, index));
+    setDragIndex(index);
+  };
+
+  return (
+    <ol className="flex flex-col gap-3 w-full max-w-md">
+      {tokens.map((token, index) => {
+        const rightPlace = result ? result.correctOrder[index] === token.id : null;
+        const correctRank = result ? result.correctOrder.indexOf(token.id) + 1 : null;
+
+        return (
+          <li
+            key={token.id}
+            draggable={!locked}
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => {
+              e.preventDefault();
+              handleDragOver(index);
+            }}
+            onDragEnd={() => setDragIndex(null)}
+            className={`
+              flex items-center gap-3 p-3 rounded-2xl border transition-colors
+              ${dragIndex === index ? 'bg-zinc-800 border-amber-500' : 'bg-zinc-900/80 border-zinc-800'}
+              ${rightPlace === true ? 'border-emerald-500/60' : ''}
+              ${rightPlace === false ? 'border-rose-500/60' : ''}
+              ${locked ? '' : 'cursor-grab active:cursor-grabbing'}
+            `}
+          >
+            {/* Position */}
+            <span className="w-6 text-center text-lg font-black text-zinc-500">{index + 1}</span>
+
+            {/* Token Logo */}
+            <div className="relative w-10 h-10 shrink-0 rounded-full overflow-hidden bg-zinc-800 ring-2 ring-zinc-700">
+              <Image
+                src={token.logoUrl}
+                alt={token.symbol}
+                fill
+                sizes="40px"
+                className="object-cover"
+                onError={(e) => {
+                  // Fallback to placeholder
+                  const target = e.target as HTMLImageElement;
+                  target.src = `https://ui-avatars.com/api/?name=${token.symbol}&background=random&size=128`;
+                }}
+              />
+            </div>
+
+            {/* Token Info */}
+            <div className="flex-1 min-w-0">
+              <div className="text-white font-bold truncate">{token.symbol}</div>
+              <div className="text-xs text-zinc-400 truncate">{token.name}</div>
+            </div>
+
+            {/* Revealed market cap, or the arrow buttons */}
+            {result ? (
+              <div className="text-right">
+                <div className="font-mono font-bold text-emerald-400">{formatMarketCap(revealed.get(token.id)?.marketCap ?? token.marketCap)}</div>
+                {!rightPlace && (
+                  <div className="text-xs text-rose-400">should be #{correctRank}</div>
+                )}
+              </div>
+            ) : (
+              <div className="flex flex-col gap-1">
+                <button
+                  type="button"
+                  onClick={() => onReorder(moveTo(order, index, index - 1))}
+                  disabled={locked || index === 0}
+                  className="px-2 text-zinc-400 hover:text-white disabled:opacity-20"
+                  aria-label={`Move ${token.symbol} up`}
+                >
+                  ▲
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onReorder(moveTo(order, index, index + 1))}
+                  disabled={locked || index === tokens.length - 1}
+                  className="px-2 text-zinc-400 hover:text-white disabled:opacity-20"
+                  aria-label={`Move ${token.symbol} down`}
+                >
+                  ▼
+                </button>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
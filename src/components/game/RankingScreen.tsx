@@ -0,0 +1,188 @@
+'use client';
+
+import { useCallback, useEffect } from 'react';
+import Link from 'next/link';
+import { useAuth, useGameTimer, useIdentity } from '@/hooks';
+import { useRankingGame } from '@/hooks/useRankingGame';
+import { RankingScoring } from '@/lib/game-core/types';
+import { MAX_RANKING_INVERSIONS } from '@/lib/game-core/ranking';
+import { RankingBoard } from './RankingBoard';
+import { GameTimer } from './GameTimer';
+
+interface RankingScreenProps {
+  scoring?: RankingScoring;
+}
+
+// How long a correct round's answer stays up
+const REVEAL_MS = 1500;
+
+const SCORING_TEXT: Record<RankingScoring, string> = {
+  exact: 'Exact order',
+  inversions: `${MAX_RANKING_INVERSIONS} swap allowed`,
+};
+
+/**
+ * Ranking run - order three or four tokens by market cap, highest first
+ */
+export function RankingScreen({ scoring = 'exact' }: RankingScreenProps) {
+  const { user, isLoading: identityLoading } = useIdentity();
+  const { fid } = useAuth();
+  // Use FID as the user identifier
+  const userId = fid ? String(fid) : (user?.userId || '');
+
+  const {
+    state,
+    isLoading,
+    isSubmitting,
+    error,
+    startGame,
+    reorder,
+    submitOrder,
+    continueAfterReveal,
+  } = useRankingGame(userId, scoring);
+
+  // Start once the player is known
+  useEffect(() => {
+    if (userId && !state.runId && !isLoading && !error) {
+      startGame();
+    }
+  }, [userId, state.runId, isLoading, error, startGame]);
+
+  // Out of time - whatever order is on the board gets locked in
+  const handleTimerExpire = useCallback(() => {
+    submitOrder();
+  }, [submitOrder]);
+
+  const timer = useGameTimer(state.streak, handleTimerExpire);
+
+  // Round timer runs while ordering, paused during reveals
+  useEffect(() => {
+    if (state.phase === 'playing' && state.runId && timer.isPaused && !timer.isExpired) {
+      timer.start();
+    } else if (state.phase !== 'playing' && !timer.isPaused) {
+      timer.pause();
+    }
+  }, [state.phase, state.runId, timer]);
+
+  // Auto-advance after a correct round, with a fresh timer for the new streak
+  useEffect(() => {
+    if (state.phase !== 'reveal') return;
+    const timeout = setTimeout(() => {
+      timer.reset(state.streak);
+      continueAfterReveal();
+    }, REVEAL_MS);
+    return () => clearTimeout(timeout);
+  }, [state.phase, state.streak, timer, continueAfterReveal]);
+
+  const handlePlayAgain = useCallback(() => {
+    timer.reset(0);
+    startGame();
+  }, [timer, startGame]);
+
+  // Loading state
+  if (identityLoading || (isLoading && state.tokens.length === 0)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950">
+        <div className="flex flex-col items-center gap-4">
+          <div className="w-12 h-12 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin" />
+          <p className="text-zinc-400">Loading game...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Error state
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950 px-6">
+        <div className="text-center">
+          <div className="text-4xl mb-4">😵</div>
+          <p className="text-rose-400 font-bold">{error}</p>
+          <div className="mt-4 flex items-center justify-center gap-2">
+            <Link href="/" className="px-6 py-2 bg-zinc-800 rounded-lg text-white">
+              Play Classic
+            </Link>
+            <button
+              onClick={() => window.location.reload()}
+              className="px-6 py-2 bg-zinc-800 rounded-lg text-white"
+            >
+              Try Again
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-zinc-950 px-4 py-6">
+      {/* Top bar */}
+      <div className="w-full max-w-md flex items-center justify-between mb-6">
+        <Link
+          href="/"
+          className="bg-black/40 rounded-full px-3 py-1.5 text-white/60 hover:text-white text-sm font-medium transition-colors"
+        >
+          ← Classic
+        </Link>
+        <GameTimer
+          timeRemaining={timer.timeRemaining}
+          totalTime={timer.totalTime}
+          percentRemaining={timer.percentRemaining}
+          color={timer.color}
+          isPulsing={timer.isPulsing}
+          isPaused={timer.isPaused}
+          tier={timer.config.tier}
+        />
+        <div className="text-right">
+          <div className="text-white font-black text-2xl">{state.streak}</div>
+          <div className="text-zinc-500 text-xs">{SCORING_TEXT[state.scoring]}</div>
+        </div>
+      </div>
+
+      {/* Prompt */}
+      <h1 className="text-white font-bold text-lg mb-4 text-center">
+        {state.phase === 'over'
+          ? state.lastResult && !state.lastResult.correct
+            ? `Wrong order - ${state.lastResult.inversions} swapped`
+            : 'Nothing left to rank!'
+          : state.phase === 'reveal'
+            ? '✅ Nailed it'
+            : 'Rank by market cap - highest first'}
+      </h1>
+
+      <RankingBoard
+        tokens={state.tokens}
+        onReorder={reorder}
+        disabled={state.phase !== 'playing' || isSubmitting}
+        result={state.phase === 'playing' ? null : state.lastResult}
+      />
+
+      {state.phase === 'playing' && (
+        <button
+          onClick={submitOrder}
+          disabled={isSubmitting}
+          className="mt-6 w-full max-w-md py-4 rounded-2xl bg-gradient-to-br from-amber-500 to-orange-600 text-white font-bold text-lg disabled:opacity-50"
+        >
+          {isSubmitting ? 'Checking...' : 'Lock it in'}
+        </button>
+      )}
+
+      {state.phase === 'over' && (
+        <div className="mt-6 w-full max-w-md flex flex-col items-center gap-3">
+          <p className="text-zinc-400">
+            You ranked <span className="text-white font-bold">{state.streak}</span> round{state.streak === 1 ? '' : 's'}
+          </p>
+          <button
+            onClick={handlePlayAgain}
+            className="w-full py-4 rounded-2xl bg-gradient-to-br from-amber-500 to-orange-600 text-white font-bold text-lg"
+          >
+            Play Again
+          </button>
+          <Link href="/" className="text-zinc-400 hover:text-white text-sm">
+            Back to Classic
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import Link from 'next/link';
+import { getAllThemes, getTheme } from '@/lib/game-core/themes';
+import { ThemeId } from '@/lib/game-core/types';
+
+interface ThemeMenuProps {
+  activeTheme?: ThemeId; // Theme being played, if any
+}
+
+/**
+ * Themed run picker - badge while playing a theme, entry point otherwise
+ */
+export function ThemeMenu({ activeTheme }: ThemeMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const active = activeTheme ? getTheme(activeTheme) : null;
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      {/* Trigger button */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={active
+          ? 'bg-fuchsia-500/20 border border-fuchsia-400/40 rounded-full px-3 py-1.5 text-fuchsia-300 text-sm font-bold'
+          : 'bg-black/40 backdrop-blur-sm rounded-full px-3 py-1.5 text-white/60 hover:text-white text-sm font-medium transition-colors'
+        }
+        title="Themed Runs"
+      >
+        {active ? `${active.emoji} ${active.name}` : '🎭'}
+      </button>
+
+      {/* Dropdown menu */}
+      {isOpen && (
+        <div
+          className="
+            absolute right-0 mt-2 w-64
+            bg-zinc-900 border border-zinc-700
+            rounded-xl shadow-lg shadow-black/50
+            overflow-hidden z-50
+            animate-in fade-in slide-in-from-top-2 duration-200
+          "
+        >
+          <div className="px-4 py-3 border-b border-zinc-800">
+            <p className="text-sm font-semibold text-white">Themed Runs</p>
+            <p className="text-xs text-zinc-500">Own leaderboards, no reprieves</p>
+          </div>
+
+          <div className="py-1">
+            {getAllThemes().map(theme => (
+              <Link
+                key={theme.id}
+                href={`/?theme=${theme.id}`}
+                onClick={() => setIsOpen(false)}
+                className={`
+                  flex items-start gap-3 px-4 py-2.5
+                  text-sm hover:bg-zinc-800/50 transition-colors
+                  ${theme.id === activeTheme ? 'text-white' : 'text-zinc-300 hover:text-white'}
+                `}
+              >
+                <span className="text-lg">{theme.emoji}</span>
+                <span className="flex-1 min-w-0">
+                  <span className="block font-medium">{theme.name}</span>
+                  <span className="block text-xs text-zinc-500">{theme.description}</span>
+                </span>
+              </Link>
+            ))}
+
+            {active && (
+              <Link
+                href="/"
+                onClick={() => setIsOpen(false)}
+                className="
+                  flex items-center gap-3 px-4 py-2.5 border-t border-zinc-800
+                  text-sm text-zinc-300 hover:text-white
+                  hover:bg-zinc-800/50
+                  transition-colors
+                "
+              >
+                <span className="text-lg">🎮</span>
+                Back to Classic
+              </Link>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
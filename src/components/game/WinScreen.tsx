@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import confetti from 'canvas-confetti';
 import { Run } from '@/lib/game-core/types';
+import { getTheme } from '@/lib/game-core/themes';
 import { generateWinShareData, generateShareText, shareToClipboard } from '@/lib/social/sharing';
 import { miniAppComposeCast } from '@/lib/farcaster/sdk';
 import { trackSocialShare } from '@/lib/analytics/engagement';
@@ -74,13 +75,12 @@ export function WinScreen({
     trackShareInSession();
     
     const shareData = generateWinShareData(run, winType, rank);
-    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://caporslap.fun';
     
     // Try composeCast first (native Mini App share)
     const shareText = `${shareData.message}\n\nCan you beat me?`;
     const castSuccess = await miniAppComposeCast({
       text: shareText,
-      embeds: [appUrl],
+      embeds: [shareData.url], // Challenge link - opens a replay of this run
     });
     
     if (castSuccess) {
@@ -118,6 +118,12 @@ export function WinScreen({
   };
 
   const getSubMessage = () => {
+    if (winType === 'top_3' && run.mode === 'daily') {
+      return "Top 3 in today's Daily Challenge!";
+    }
+    if (winType === 'top_3' && run.theme) {
+      return `Top 3 in ${getTheme(run.theme).name} this week!`;
+    }
     if (winType === 'top_3') {
       return 'Top 3 on the leaderboard!';
     }
@@ -132,7 +138,7 @@ export function WinScreen({
       {/* Leaderboard link - top right */}
       <div className="absolute top-4 right-4 z-30 pointer-events-auto">
         <Link 
-          href="/leaderboard" 
+          href={run.theme ? `/leaderboard?type=theme&theme=${run.theme}` : '/leaderboard'} 
           className="bg-black/40 backdrop-blur-sm rounded-full px-3 py-1.5 text-white/60 hover:text-white text-sm font-medium transition-colors"
         >
           🏆
@@ -188,12 +194,14 @@ export function WinScreen({
                 active:scale-[0.98]
               "
             >
-              🔄 Play Again
+              {run.mode === 'daily' ? '🎮 Play Classic' : '🔄 Play Again'}
             </button>
             
             {/* Explanation text */}
             <p className="text-zinc-600 text-xs text-center">
-              Start a new game from scratch
+              {run.mode === 'daily'
+                ? 'Next Daily Challenge unlocks at 00:00 UTC'
+                : 'Start a new game from scratch'}
             </p>
           </div>
         )}
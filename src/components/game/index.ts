@@ -1,14 +1,25 @@
 // Export all game components
 export { GameScreen } from './GameScreen';
 export { TokenCard } from './TokenCard';
+export { RankingBoard } from './RankingBoard';
+export { RankingScreen } from './RankingScreen';
+export { EstimateSlider, BonusEstimateOverlay } from './EstimateSlider';
+export { EstimationScreen } from './EstimationScreen';
 export { ActionButtons } from './ActionButtons';
 export { StreakDisplay } from './StreakDisplay';
 export { CorrectOverlay } from './CorrectOverlay';
+export { LifeLostOverlay } from './LifeLostOverlay';
+export { BlitzClock, BlitzPenaltyOverlay } from './BlitzClock';
 export { LossScreen } from './LossScreen';
 export { WinScreen } from './WinScreen';
+export { ChallengeResultScreen } from './ChallengeResultScreen';
+export { ChallengeProgress } from './ChallengeProgress';
+export { ThemeMenu } from './ThemeMenu';
+export { MetricMenu } from './MetricMenu';
 export { TokenInfoTooltip } from './TokenInfoTooltip';
 export { GameTimer, CompactTimer, TimerWithTier } from './GameTimer';
 export { OvertakeQueue, OvertakeSummary } from './OvertakeNotification';
 export { LiveOvertakeToast, LiveOvertakeQueue } from './LiveOvertakeToast';
+export { AchievementToast, AchievementToastQueue } from './AchievementToast';
 export { DifficultyBadge, DifficultyIndicator, DifficultyDisplay } from './DifficultyBadge';
 
@@ -1,7 +1,9 @@
 'use client';
 
 import { LeaderboardEntry } from '@/lib/game-core/types';
+import { getAchievement } from '@/lib/game-core/achievements';
 import Image from 'next/image';
+import Link from 'next/link';
 
 interface LeaderboardListProps {
   entries: LeaderboardEntry[];
@@ -80,7 +82,8 @@ function LeaderboardRow({ entry, isCurrentUser }: LeaderboardRowProps) {
   };
 
   return (
-    <div
+    <Link
+      href={`/u/${encodeURIComponent(entry.user.userId)}`}
       className={`
         flex items-center gap-3 px-4 py-3 rounded-xl
         transition-all duration-200
@@ -123,12 +126,25 @@ function LeaderboardRow({ entry, isCurrentUser }: LeaderboardRowProps) {
 
       {/* Name and Info */}
       <div className="flex-1 min-w-0">
-        <p className={`font-medium truncate ${isCurrentUser ? 'text-blue-200' : 'text-white'}`}>
-          {entry.user.displayName}
-        </p>
+        <div className="flex items-center gap-1.5 min-w-0">
+          <p className={`font-medium truncate ${isCurrentUser ? 'text-blue-200' : 'text-white'}`}>
+            {entry.user.displayName}
+          </p>
+          {entry.badges?.map(id => {
+            const achievement = getAchievement(id);
+            return achievement && (
+              <span key={id} title={`${achievement.name} - ${achievement.description}`} className="text-xs shrink-0">
+                {achievement.icon}
+              </span>
+            );
+          })}
+        </div>
         {entry.usedReprieve && (
           <span className="text-xs text-amber-500">🕯 used reprieve</span>
         )}
+        {entry.reward && (
+          <span className="block text-xs text-fuchsia-300 truncate">🎁 {entry.reward}</span>
+        )}
       </div>
 
       {/* Score */}
@@ -144,7 +160,7 @@ function LeaderboardRow({ entry, isCurrentUser }: LeaderboardRowProps) {
           </div>
         )}
       </div>
-    </div>
+    </Link>
   );
 }
 
@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { FlipTimer } from './FlipTimer';
+import { getNextWeekStart } from '@/lib/leaderboard/period';
 
 interface PrizePoolBannerProps {
   prizeAmount?: number;
@@ -29,18 +30,11 @@ export function PrizePoolBanner({
   const [isPulsing, setIsPulsing] = useState(false);
   
   useEffect(() => {
-    // Calculate time remaining until end of week (Sunday 11:59 PM UTC)
+    // Calculate time remaining until the weekly reset
     // Optimized: Only recalculate when needed, use requestAnimationFrame for smoother updates
     const updateTimeRemaining = () => {
       const now = new Date();
-      const currentDay = now.getUTCDay();
-      const daysUntilSunday = currentDay === 0 ? 7 : 7 - currentDay;
-      
-      const nextSunday = new Date(now);
-      nextSunday.setUTCDate(now.getUTCDate() + daysUntilSunday);
-      nextSunday.setUTCHours(23, 59, 59, 999);
-      
-      const diff = nextSunday.getTime() - now.getTime();
+      const diff = getNextWeekStart(now).getTime() - now.getTime();
       
       if (diff <= 0) {
         setTimeRemaining({ days: 0, hours: 0, minutes: 0, seconds: 0 });
@@ -0,0 +1,73 @@
+'use client';
+
+import Link from 'next/link';
+import type { TeamLeaderboardEntry } from '@/lib/teams';
+
+interface TeamLeaderboardListProps {
+  teams: TeamLeaderboardEntry[];
+  currentTeamId?: string | null;
+}
+
+/**
+ * This week's team board - each row links to the team's page
+ */
+export function TeamLeaderboardList({ teams, currentTeamId }: TeamLeaderboardListProps) {
+  if (teams.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-4xl mb-4">🛡️</div>
+        <p className="text-zinc-400">No teams yet. Start one!</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {teams.map(team => {
+        const isCurrentTeam = team.teamId === currentTeamId;
+        return (
+          <Link
+            key={team.teamId}
+            href={`/team/${team.teamId}`}
+            className={`
+              flex items-center gap-3 px-4 py-3 rounded-xl
+              transition-all duration-200
+              ${isCurrentTeam
+                ? 'bg-gradient-to-r from-blue-900/30 to-indigo-900/30 border border-blue-700/50 shadow-lg shadow-blue-500/10'
+                : 'bg-zinc-900/40 border border-zinc-800/50 hover:bg-zinc-800/50'
+              }
+            `}
+          >
+            {/* Rank Badge */}
+            <div className="w-12 text-center shrink-0">
+              <div className={`
+                inline-flex items-center justify-center w-10 h-10 rounded-full
+                ${team.rank <= 3
+                  ? 'bg-gradient-to-br from-amber-500/20 to-orange-600/20 border border-amber-500/50'
+                  : 'bg-zinc-800/50 border border-zinc-700/50'
+                }
+              `}>
+                <span className={`font-bold text-sm ${team.rank <= 3 ? 'text-amber-300' : 'text-zinc-400'}`}>
+                  #{team.rank}
+                </span>
+              </div>
+            </div>
+
+            {/* Name and Info */}
+            <div className="flex-1 min-w-0">
+              <p className={`font-medium truncate ${isCurrentTeam ? 'text-blue-200' : 'text-white'}`}>
+                {team.name}
+              </p>
+              <span className="text-xs text-zinc-500">
+                {team.memberCount} member{team.memberCount === 1 ? '' : 's'}
+              </span>
+            </div>
+
+            {/* Score */}
+            <span className="text-lg font-bold text-white tabular-nums shrink-0">{team.score}</span>
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import Image from 'next/image';
+import Link from 'next/link';
 import { LeaderboardEntry } from '@/lib/game-core/types';
 
 interface TopThreePodiumProps {
@@ -66,9 +67,9 @@ export function TopThreePodium({ entries, currentUserId }: TopThreePodiumProps)
             </div>
           </div>
           <div className="text-center">
-            <div className="text-xs font-semibold text-white truncate w-full">
+            <Link href={`/u/${encodeURIComponent(second.user.userId)}`} className="block text-xs font-semibold text-white truncate w-full hover:underline">
               {second.user.displayName}
-            </div>
+            </Link>
             <div className="text-blue-300 font-bold text-sm mt-1">
               {second.cumulativeScore !== undefined ? second.cumulativeScore : second.bestStreak}
             </div>
@@ -96,9 +97,9 @@ export function TopThreePodium({ entries, currentUserId }: TopThreePodiumProps)
             </div>
           </div>
           <div className="text-center">
-            <div className="text-sm font-bold text-white truncate w-full">
+            <Link href={`/u/${encodeURIComponent(first.user.userId)}`} className="block text-sm font-bold text-white truncate w-full hover:underline">
               {first.user.displayName}
-            </div>
+            </Link>
             <div className="text-yellow-300 font-bold text-base mt-1">
               {first.cumulativeScore !== undefined ? first.cumulativeScore : first.bestStreak}
             </div>
@@ -125,9 +126,9 @@ export function TopThreePodium({ entries, currentUserId }: TopThreePodiumProps)
             </div>
           </div>
           <div className="text-center">
-            <div className="text-xs font-semibold text-white truncate w-full">
+            <Link href={`/u/${encodeURIComponent(third.user.userId)}`} className="block text-xs font-semibold text-white truncate w-full hover:underline">
               {third.user.displayName}
-            </div>
+            </Link>
             <div className="text-purple-300 font-bold text-sm mt-1">
               {third.cumulativeScore !== undefined ? third.cumulativeScore : third.bestStreak}
             </div>
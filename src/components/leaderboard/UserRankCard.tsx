@@ -5,9 +5,18 @@ interface UserRankCardProps {
   score: number;
   rankChange?: number;
   direction?: 'up' | 'down' | null;
+  friendRank?: number | null; // Rank on the same board among the user's friends
+  label?: string;
 }
 
-export function UserRankCard({ rank, score, rankChange, direction }: UserRankCardProps) {
+export function UserRankCard({
+  rank,
+  score,
+  rankChange,
+  direction,
+  friendRank,
+  label = 'You Currently Rank',
+}: UserRankCardProps) {
   return (
     <div className="
       relative mb-4 p-4 rounded-xl
@@ -22,7 +31,7 @@ export function UserRankCard({ rank, score, rankChange, direction }: UserRankCar
       <div className="relative flex items-center justify-between">
         <div className="flex items-center gap-3">
           <div className="text-white/90 font-medium text-sm">
-            You Currently Rank
+            {label}
           </div>
         </div>
         
@@ -45,8 +54,11 @@ export function UserRankCard({ rank, score, rankChange, direction }: UserRankCar
         </div>
       </div>
       
-      <div className="relative mt-2 text-blue-300 text-xs font-medium">
-        Score: {score}
+      <div className="relative mt-2 flex items-center justify-between text-blue-300 text-xs font-medium">
+        <span>Score: {score}</span>
+        {friendRank && (
+          <span className="text-violet-200">👥 #{friendRank} among friends</span>
+        )}
       </div>
     </div>
   );
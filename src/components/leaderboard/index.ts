@@ -5,6 +5,7 @@ export { ShareLeaderboard } from './ShareLeaderboard';
 export { SponsorAdCard } from './SponsorAdCard';
 export { FlipTimer } from './FlipTimer';
 export { TopThreePodium } from './TopThreePodium';
+export { TeamLeaderboardList } from './TeamLeaderboardList';
 export { UserRankCard } from './UserRankCard';
 
 
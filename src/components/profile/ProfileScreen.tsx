@@ -0,0 +1,316 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useIdentity } from '@/hooks';
+import type { PlayerProfile } from '@/lib/profile';
+import { GameMode } from '@/lib/game-core/types';
+
+interface ProfileScreenProps {
+  userId: string;
+}
+
+const MODE_LABELS: Record<GameMode, string> = {
+  classic: '🔥 Classic',
+  daily: '📅 Daily',
+  challenge: '⚔️ Challenge',
+  themed: '🎨 Themed',
+  timemachine: '🕰️ Time machine',
+  metric: '📊 Metric',
+  survival: '❤️ Survival',
+  blitz: '⚡ Blitz',
+  ranking: '🔢 Ranking',
+  estimation: '🎯 Estimation',
+};
+
+const SOURCE_LABELS: Record<PlayerProfile['identity']['source'], string | null> = {
+  farcaster: 'Farcaster',
+  ens: 'ENS',
+  basename: 'Basename',
+  address: null,
+};
+
+function formatBucket(from: number, to: number | null): string {
+  if (to === null) return `${from}+`;
+  return from === to ? `${from}` : `${from}-${to}`;
+}
+
+function formatRunDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+function StatCard({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-xl bg-zinc-900/60 border border-zinc-800 p-3 text-center">
+      <div className="text-white font-black text-2xl tabular-nums">{value}</div>
+      <div className="text-zinc-500 text-xs mt-0.5">{label}</div>
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="rounded-2xl bg-zinc-900/40 border border-zinc-800 p-4">
+      <h2 className="text-zinc-400 text-xs font-bold uppercase tracking-wider mb-3">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+/**
+ * Follows or unfollows a player for the viewer's friends boards
+ */
+function FollowButton({ viewerId, playerId }: { viewerId: string; playerId: string }) {
+  const [following, setFollowing] = useState<boolean | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchFollows() {
+      try {
+        const response = await fetch(`/api/friends?userId=${encodeURIComponent(viewerId)}`);
+        const data = await response.json();
+        if (!cancelled && data.success) {
+          setFollowing(data.follows.includes(playerId));
+        }
+      } catch {
+        // No button until we know
+      }
+    }
+
+    fetchFollows();
+    return () => { cancelled = true; };
+  }, [viewerId, playerId]);
+
+  const toggleFollow = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/friends', {
+        method: following ? 'DELETE' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: viewerId, followId: playerId }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setFollowing(data.follows.includes(playerId));
+      }
+    } catch (error) {
+      console.error('Failed to update follow:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (following === null) return null;
+
+  return (
+    <button
+      onClick={toggleFollow}
+      disabled={isSaving}
+      className={`
+        ml-auto shrink-0 px-4 py-1.5 rounded-lg text-sm font-medium transition-colors disabled:opacity-50
+        ${following
+          ? 'bg-zinc-800 text-zinc-300 hover:text-white'
+          : 'bg-violet-600 text-white hover:bg-violet-500'
+        }
+      `}
+    >
+      {following ? 'Following' : 'Follow'}
+    </button>
+  );
+}
+
+/**
+ * Public player profile - identity, streaks, how their runs end and where they slip up
+ */
+export function ProfileScreen({ userId }: ProfileScreenProps) {
+  const { userId: viewerId } = useIdentity();
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchProfile() {
+      try {
+        const response = await fetch(`/api/user/${encodeURIComponent(userId)}`);
+        const data = await response.json();
+        if (cancelled) return;
+        if (data.success) {
+          setProfile(data.profile);
+        } else {
+          setError(data.error || 'Failed to load profile');
+        }
+      } catch {
+        if (!cancelled) setError('Failed to load profile');
+      }
+    }
+
+    fetchProfile();
+    return () => { cancelled = true; };
+  }, [userId]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950 px-6">
+        <div className="text-center">
+          <div className="text-4xl mb-4">🕵️</div>
+          <p className="text-rose-400 font-bold">{error}</p>
+          <Link href="/leaderboard" className="inline-block mt-4 px-6 py-2 bg-zinc-800 rounded-lg text-white">
+            Leaderboard
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950">
+        <div className="w-12 h-12 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const { identity } = profile;
+  const sourceLabel = SOURCE_LABELS[identity.source];
+  const histogramMax = Math.max(...profile.streakHistogram.map(b => b.runs), 1);
+
+  return (
+    <div className="min-h-screen bg-zinc-950 flex flex-col">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-zinc-950/90 backdrop-blur border-b border-zinc-800">
+        <div className="max-w-lg mx-auto px-4 py-4 flex items-center justify-between">
+          <Link href="/leaderboard" className="text-zinc-400 hover:text-white transition-colors">
+            ← Back
+          </Link>
+          <h1 className="text-xl font-bold text-white">Player</h1>
+          <div className="w-12" /> {/* Spacer */}
+        </div>
+      </header>
+
+      <main className="flex-1 max-w-lg mx-auto w-full px-4 py-6 flex flex-col gap-4">
+        {/* Identity */}
+        <div className="flex items-center gap-4">
+          <div className="relative w-16 h-16 rounded-full overflow-hidden bg-zinc-800 border-2 border-zinc-700 shrink-0">
+            {identity.avatarUrl ? (
+              <Image src={identity.avatarUrl} alt={identity.displayName} fill className="object-cover" />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center text-2xl font-bold text-white">
+                {identity.displayName.charAt(0).toUpperCase()}
+              </div>
+            )}
+          </div>
+          <div className="min-w-0">
+            <p className="text-white font-bold text-xl truncate">{identity.displayName}</p>
+            {sourceLabel && <span className="text-xs text-violet-300">{sourceLabel}</span>}
+          </div>
+          {viewerId && viewerId !== userId && !userId.startsWith('guest_') && (
+            <FollowButton viewerId={viewerId} playerId={userId} />
+          )}
+        </div>
+
+        {/* Streaks */}
+        <div className="grid grid-cols-2 gap-2">
+          <StatCard label="Best streak" value={profile.bestStreak} />
+          <StatCard label="Best this week" value={profile.weekly.bestStreak} />
+          <StatCard label="Weekly score" value={profile.weekly.cumulativeScore} />
+          <StatCard label="Weekly rank" value={profile.weekly.rank ? `#${profile.weekly.rank}` : '—'} />
+        </div>
+
+        <Section title={`Streaks (${profile.streakRuns} runs)`}>
+          <div className="flex items-end gap-1 h-28">
+            {profile.streakHistogram.map(bucket => (
+              <div key={bucket.from} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+                <span className="text-zinc-500 text-[10px] tabular-nums">{bucket.runs || ''}</span>
+                <div
+                  className="w-full rounded-t bg-gradient-to-t from-amber-600 to-orange-400"
+                  style={{ height: `${(bucket.runs / histogramMax) * 100}%` }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-1 mt-1">
+            {profile.streakHistogram.map(bucket => (
+              <span key={bucket.from} className="flex-1 text-center text-zinc-500 text-[10px]">
+                {formatBucket(bucket.from, bucket.to)}
+              </span>
+            ))}
+          </div>
+        </Section>
+
+        <Section title="Accuracy by difficulty">
+          <div className="flex flex-col gap-2">
+            {profile.tiers.map(({ tier, guesses, accuracy }) => (
+              <div key={tier} className="flex items-center gap-3 text-sm">
+                <span className="w-14 text-zinc-300">{tier}</span>
+                <div className="flex-1 h-2 rounded-full bg-zinc-800 overflow-hidden">
+                  <div
+                    className="h-full bg-emerald-500"
+                    style={{ width: `${(accuracy ?? 0) * 100}%` }}
+                  />
+                </div>
+                <span className="w-20 text-right text-zinc-400 tabular-nums">
+                  {accuracy === null ? '—' : `${Math.round(accuracy * 100)}%`}
+                  <span className="text-zinc-600 text-xs"> /{guesses}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </Section>
+
+        {profile.mostMissed.length > 0 && (
+          <Section title="Most missed tokens">
+            <div className="flex flex-col gap-2">
+              {profile.mostMissed.map(token => (
+                <div key={token.tokenId} className="flex items-center gap-3">
+                  <div className="relative w-7 h-7 rounded-full overflow-hidden bg-zinc-800 shrink-0">
+                    {token.logoUrl && (
+                      <Image src={token.logoUrl} alt={token.symbol} fill sizes="28px" className="object-cover" />
+                    )}
+                  </div>
+                  <span className="flex-1 text-white font-medium">{token.symbol}</span>
+                  <span className="text-rose-400 text-sm tabular-nums">{token.misses}× missed</span>
+                </div>
+              ))}
+            </div>
+          </Section>
+        )}
+
+        <Section title="Weekly rank history">
+          <div className="flex flex-col gap-1 text-sm">
+            {profile.weeklyRanks.map(({ weekKey, rank }) => (
+              <div key={weekKey} className="flex justify-between">
+                <span className="text-zinc-400">{weekKey}</span>
+                <span className={rank ? 'text-white font-bold tabular-nums' : 'text-zinc-600'}>
+                  {rank ? `#${rank}` : '—'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </Section>
+
+        {profile.recentRuns.length > 0 && (
+          <Section title="Recent runs">
+            <div className="flex flex-col gap-1 text-sm">
+              {profile.recentRuns.map(run => (
+                <div key={run.runId} className="flex items-center justify-between">
+                  <span className="text-zinc-300">
+                    {MODE_LABELS[run.mode] ?? run.mode}
+                    {run.usedReprieve && <span className="text-amber-500 text-xs"> 🕯</span>}
+                  </span>
+                  <span className="flex items-center gap-3">
+                    <span className="text-zinc-500 text-xs">{formatRunDate(run.timestamp)}</span>
+                    <span className="w-10 text-right text-white font-bold tabular-nums">{run.score}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </Section>
+        )}
+      </main>
+    </div>
+  );
+}
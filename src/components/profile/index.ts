@@ -0,0 +1,2 @@
+// Export profile components
+export { ProfileScreen } from './ProfileScreen';
@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+
+interface CreateTeamScreenProps {
+  userId: string;
+}
+
+/**
+ * Create a team - players already in one go straight to their team's page
+ */
+export function CreateTeamScreen({ userId }: CreateTeamScreenProps) {
+  const router = useRouter();
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+    fetch(`/api/teams?userId=${encodeURIComponent(userId)}`)
+      .then(res => res.json())
+      .then(data => {
+        if (data.success && data.team) router.replace(`/team/${data.team.teamId}`);
+      })
+      .catch(err => console.error('[Teams] Failed to load team:', err));
+  }, [userId, router]);
+
+  const handleCreate = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/teams', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, name }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        router.push(`/team/${data.team.teamId}`);
+        return;
+      }
+      setError(data.error || 'Something went wrong');
+    } catch (err) {
+      console.error('[Teams] Failed to create team:', err);
+      setError('Network error - try again');
+    }
+    setIsBusy(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-white flex flex-col items-center px-4 py-10">
+      <div className="w-full max-w-md flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <Link href="/leaderboard?type=teams" className="text-zinc-400 hover:text-white text-sm">
+            ← Back
+          </Link>
+          <h1 className="text-2xl font-bold">🛡️ Teams</h1>
+          <span className="w-10" />
+        </div>
+
+        <p className="text-sm text-zinc-400 text-center">
+          Start a team and share its invite link. Your best players&apos; weekly scores add up on the team leaderboard.
+        </p>
+
+        {error && (
+          <div className="rounded-xl bg-rose-500/10 border border-rose-500/30 px-4 py-3 text-sm text-rose-300">
+            {error}
+          </div>
+        )}
+
+        <div className="rounded-2xl bg-zinc-900 border border-zinc-800 p-4 flex flex-col gap-3">
+          <p className="text-sm font-semibold">Create a team</p>
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="Team name"
+            maxLength={24}
+            className="rounded-xl bg-zinc-800 border border-zinc-700 px-3 py-2 outline-none focus:border-violet-500"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={isBusy || !userId || name.trim().length === 0}
+            className="rounded-xl bg-gradient-to-br from-violet-500 to-indigo-600 py-3 font-bold text-white disabled:opacity-50"
+          >
+            Create Team
+          </button>
+          <p className="text-xs text-zinc-500">Got an invite link? Open it to join that team instead.</p>
+        </div>
+      </div>
+    </div>
+  );
+}
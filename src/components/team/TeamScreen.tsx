@@ -0,0 +1,208 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import type { TeamStandings } from '@/lib/teams';
+import { shareToClipboard } from '@/lib/social/sharing';
+
+interface TeamScreenProps {
+  teamId: string;
+  userId: string;
+  inviteCode?: string; // From a shared /team/<teamId>?invite= link
+}
+
+/**
+ * Team page - this week's team score and rank, each member's contribution,
+ * and the invite link (members) or a join button (invite link visitors)
+ */
+export function TeamScreen({ teamId, userId, inviteCode }: TeamScreenProps) {
+  const router = useRouter();
+  const [team, setTeam] = useState<TeamStandings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchTeam() {
+      try {
+        const params = new URLSearchParams(userId ? { userId } : {});
+        const response = await fetch(`/api/teams/${encodeURIComponent(teamId)}?${params}`);
+        const data = await response.json();
+        if (cancelled) return;
+        if (data.success) {
+          setTeam(data.team);
+        } else {
+          setError(data.error || 'Failed to load team');
+        }
+      } catch {
+        if (!cancelled) setError('Failed to load team');
+      }
+    }
+
+    fetchTeam();
+    return () => { cancelled = true; };
+  }, [teamId, userId]);
+
+  const updateMembership = useCallback(async (action: 'join' | 'leave') => {
+    setIsBusy(true);
+    setActionError(null);
+    try {
+      const response = await fetch(`/api/teams/${encodeURIComponent(teamId)}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, inviteCode }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setActionError(data.error || 'Something went wrong');
+      } else if (data.team) {
+        setTeam(data.team);
+      } else {
+        router.push('/leaderboard?type=teams'); // Disbanded
+      }
+    } catch (err) {
+      console.error(`[Teams] Failed to ${action} team:`, err);
+      setActionError('Network error - try again');
+    } finally {
+      setIsBusy(false);
+    }
+  }, [teamId, userId, inviteCode, router]);
+
+  const handleCopyInvite = async () => {
+    if (!team?.inviteCode) return;
+    const link = `${window.location.origin}/team/${team.teamId}?invite=${team.inviteCode}`;
+    if (await shareToClipboard(`Join ${team.name} on CapOrSlap!\n${link}`)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950 px-6">
+        <div className="text-center">
+          <div className="text-4xl mb-4">🛡️</div>
+          <p className="text-rose-400 font-bold">{error}</p>
+          <Link href="/leaderboard?type=teams" className="inline-block mt-4 px-6 py-2 bg-zinc-800 rounded-lg text-white">
+            Team Leaderboard
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!team) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950">
+        <div className="w-12 h-12 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const isMember = team.members.some(m => m.userId === userId);
+
+  return (
+    <div className="min-h-screen bg-zinc-950 flex flex-col">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-zinc-950/90 backdrop-blur border-b border-zinc-800">
+        <div className="max-w-lg mx-auto px-4 py-4 flex items-center justify-between">
+          <Link href="/leaderboard?type=teams" className="text-zinc-400 hover:text-white transition-colors">
+            ← Back
+          </Link>
+          <h1 className="text-xl font-bold text-white">Team</h1>
+          <div className="w-12" /> {/* Spacer */}
+        </div>
+      </header>
+
+      <main className="flex-1 max-w-lg mx-auto w-full px-4 py-6 flex flex-col gap-4">
+        <div>
+          <p className="text-white font-black text-2xl truncate">🛡️ {team.name}</p>
+          <p className="text-zinc-500 text-sm">{team.members.length} member{team.members.length === 1 ? '' : 's'}</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="rounded-xl bg-zinc-900/60 border border-zinc-800 p-3 text-center">
+            <div className="text-white font-black text-2xl tabular-nums">{team.score}</div>
+            <div className="text-zinc-500 text-xs mt-0.5">Team score this week</div>
+          </div>
+          <div className="rounded-xl bg-zinc-900/60 border border-zinc-800 p-3 text-center">
+            <div className="text-white font-black text-2xl tabular-nums">{team.rank ? `#${team.rank}` : '—'}</div>
+            <div className="text-zinc-500 text-xs mt-0.5">Team rank</div>
+          </div>
+        </div>
+
+        {actionError && (
+          <div className="rounded-xl bg-rose-500/10 border border-rose-500/30 px-4 py-3 text-sm text-rose-300">
+            {actionError}
+          </div>
+        )}
+
+        {/* Invite link visitors can join */}
+        {!isMember && inviteCode && userId && (
+          <button
+            onClick={() => updateMembership('join')}
+            disabled={isBusy}
+            className="rounded-xl bg-gradient-to-br from-violet-500 to-indigo-600 py-3 font-bold text-white disabled:opacity-50"
+          >
+            Join {team.name}
+          </button>
+        )}
+
+        <section className="rounded-2xl bg-zinc-900/40 border border-zinc-800 p-4">
+          <h2 className="text-zinc-400 text-xs font-bold uppercase tracking-wider mb-3">Members</h2>
+          <div className="flex flex-col gap-2">
+            {team.members.map(member => (
+              <Link
+                key={member.userId}
+                href={`/u/${encodeURIComponent(member.userId)}`}
+                className={`flex items-center gap-3 ${member.counted ? '' : 'opacity-50'}`}
+              >
+                <div className="relative w-8 h-8 rounded-full overflow-hidden bg-zinc-800 shrink-0">
+                  {member.avatarUrl ? (
+                    <Image src={member.avatarUrl} alt={member.displayName} fill sizes="32px" className="object-cover" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center text-sm font-bold text-white">
+                      {member.displayName.charAt(0).toUpperCase()}
+                    </div>
+                  )}
+                </div>
+                <span className={`flex-1 truncate ${member.userId === userId ? 'text-blue-200' : 'text-white'}`}>
+                  {member.displayName}
+                  {member.userId === team.captainId && <span className="text-xs" title="Captain"> 👑</span>}
+                </span>
+                <span className="text-zinc-500 text-xs tabular-nums">🔥{member.bestStreak} · {member.attempts} runs</span>
+                <span className="w-12 text-right text-white font-bold tabular-nums">{member.score}</span>
+              </Link>
+            ))}
+          </div>
+          <p className="text-zinc-600 text-xs mt-3">
+            Each member scores best streak × 10 + runs this week; the top scores make the team&apos;s.
+          </p>
+        </section>
+
+        {isMember && (
+          <div className="flex gap-2">
+            <button
+              onClick={handleCopyInvite}
+              className="flex-1 rounded-xl bg-zinc-800 py-3 text-sm font-bold text-white"
+            >
+              {copied ? '✓ Copied' : '📋 Copy invite link'}
+            </button>
+            <button
+              onClick={() => updateMembership('leave')}
+              disabled={isBusy}
+              className="rounded-xl bg-zinc-900 border border-zinc-800 px-4 py-3 text-sm text-zinc-400 hover:text-rose-300 disabled:opacity-50"
+            >
+              Leave
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
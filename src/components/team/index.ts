@@ -0,0 +1,3 @@
+// Export team components
+export { CreateTeamScreen } from './CreateTeamScreen';
+export { TeamScreen } from './TeamScreen';
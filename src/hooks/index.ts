@@ -1,8 +1,11 @@
 // Export all hooks
 export { useGame } from './useGame';
+export { useRankingGame } from './useRankingGame';
+export { useEstimationGame } from './useEstimationGame';
 export { useIdentity } from './useIdentity';
 export { useEnvironment } from './useEnvironment';
 export { useAuth, useUserId } from './useAuth';
 export { useGameTimer, useTimerPauseOnCorrect } from './useGameTimer';
 export { useReprievePayment } from './useReprievePayment';
 
+export { useDuel } from './useDuel';
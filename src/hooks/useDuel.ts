@@ -0,0 +1,87 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { DuelView } from '@/lib/game-core/duel';
+import { Guess } from '@/lib/game-core/types';
+
+export interface UseDuelReturn {
+  duel: DuelView | null;
+  error: string | null;
+  isSubmitting: boolean;
+  clockOffset: number; // Server time minus local time, for countdowns
+  answer: (guess: Guess) => Promise<void>;
+  leave: () => Promise<void>;
+}
+
+/**
+ * Follows a duel live over its event stream
+ * @param duelId - Duel to follow
+ * @param userId - Player's user ID (decides what the server reveals)
+ */
+export function useDuel(duelId: string, userId: string): UseDuelReturn {
+  const [duel, setDuel] = useState<DuelView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [clockOffset, setClockOffset] = useState(0);
+
+  const applyView = useCallback((view: DuelView) => {
+    setDuel(current => (current && current.version > view.version ? current : view));
+    setClockOffset(view.serverTime - Date.now());
+  }, []);
+
+  useEffect(() => {
+    if (!duelId || !userId) return;
+
+    const source = new EventSource(
+      `/api/duel/${encodeURIComponent(duelId)}/events?userId=${encodeURIComponent(userId)}`
+    );
+
+    source.addEventListener('state', (event) => {
+      const view = JSON.parse((event as MessageEvent).data) as DuelView;
+      applyView(view);
+      setError(null);
+
+      // Finished duels don't change again - stop EventSource from reconnecting
+      if (view.status === 'finished' || view.status === 'cancelled') {
+        source.close();
+      }
+    });
+
+    source.addEventListener('error', (event) => {
+      // Server-sent error event (duel gone) - connection drops reconnect on their own
+      if (event instanceof MessageEvent) {
+        setError(JSON.parse(event.data).error);
+        source.close();
+      }
+    });
+
+    return () => source.close();
+  }, [duelId, userId, applyView]);
+
+  const post = useCallback(async (action: 'answer' | 'leave', body: Record<string, unknown>) => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/duel/${encodeURIComponent(duelId)}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, ...body }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        applyView(data.duel);
+      } else {
+        setError(data.error || 'Something went wrong');
+      }
+    } catch (err) {
+      console.error(`[Duel] Failed to ${action}:`, err);
+      setError('Network error - try again');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [duelId, userId, applyView]);
+
+  const answer = useCallback((guess: Guess) => post('answer', { guess }), [post]);
+  const leave = useCallback(() => post('leave', {}), [post]);
+
+  return { duel, error, isSubmitting, clockOffset, answer, leave };
+}
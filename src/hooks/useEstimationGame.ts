@@ -0,0 +1,181 @@
+'use client';
+
+import { useState, useCallback, useRef } from 'react';
+import { EstimateResult, Run, Token } from '@/lib/game-core/types';
+import { ESTIMATION_ROUNDS } from '@/lib/game-core/estimation';
+
+// playing = estimating the round's token, reveal = its market cap is shown, over = run finished
+export type EstimationPhase = 'playing' | 'reveal' | 'over';
+
+export interface EstimationGameState {
+  phase: EstimationPhase;
+  runId: string;
+  token: Token | null; // The round's token, market cap hidden
+  round: number; // 1-indexed
+  rounds: number;
+  score: number; // Points so far
+  lastResult: EstimateResult | null;
+}
+
+export interface UseEstimationGameReturn {
+  state: EstimationGameState;
+  isLoading: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+  completedRun: Run | null;
+  startGame: () => Promise<void>;
+  submitEstimate: (estimate: number) => Promise<void>;
+  continueAfterReveal: () => void;
+}
+
+// /api/game/estimate response
+interface EstimateResponse {
+  result: EstimateResult;
+  score?: number;
+  nextToken: Token | null; // Null once the run is over
+  ticket: string;
+}
+
+/**
+ * Estimation run state - every round estimates a hidden token's market cap
+ * The session deals and scores every round (see /api/game/estimate)
+ * @param userId - Player's user ID
+ */
+export function useEstimationGame(userId: string): UseEstimationGameReturn {
+  const [state, setState] = useState<EstimationGameState>({
+    phase: 'playing',
+    runId: '',
+    token: null,
+    round: 1,
+    rounds: ESTIMATION_ROUNDS,
+    score: 0,
+    lastResult: null,
+  });
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [completedRun, setCompletedRun] = useState<Run | null>(null);
+
+  // Latest signed round ticket - every estimate and the submission must present it
+  const ticketRef = useRef<string | null>(null);
+  // The next round, held back while the last one's answer is revealed
+  const nextTokenRef = useRef<Token | null>(null);
+
+  const startGame = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    setCompletedRun(null);
+    nextTokenRef.current = null;
+
+    try {
+      const response = await fetch('/api/game/start', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, mode: 'estimation' }),
+      });
+
+      if (!response.ok) {
+        console.error('[useEstimationGame] Failed to start game:', await response.text());
+        throw new Error('Failed to start game');
+      }
+
+      const data = await response.json();
+      ticketRef.current = data.ticket;
+
+      setState({
+        phase: 'playing',
+        runId: data.runId,
+        token: data.token,
+        round: 1,
+        rounds: data.rounds,
+        score: 0,
+        lastResult: null,
+      });
+    } catch (err) {
+      console.error('[useEstimationGame] startGame error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start game');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  // End the run and submit it to the weekly estimation board
+  const endRun = useCallback((run: Run) => {
+    setCompletedRun(run);
+    setState(prev => ({ ...prev, phase: 'over' }));
+
+    fetch('/api/leaderboard/submit', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ run, userId, ticket: ticketRef.current }),
+    }).catch(console.error);
+  }, [userId]);
+
+  // Lock in an estimate for the round's token
+  const submitEstimate = useCallback(async (estimate: number) => {
+    if (state.phase !== 'playing' || isSubmitting || !state.token) return;
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch('/api/game/estimate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ runId: state.runId, userId, estimate, ticket: ticketRef.current }),
+      });
+
+      if (!response.ok) {
+        console.error('[useEstimationGame] Estimate rejected:', await response.text());
+        setError('Round could not be scored');
+        return;
+      }
+
+      const data: EstimateResponse = await response.json();
+      ticketRef.current = data.ticket;
+      nextTokenRef.current = data.nextToken;
+
+      setState(prev => ({
+        ...prev,
+        phase: 'reveal',
+        score: data.score ?? prev.score + data.result.points,
+        lastResult: data.result,
+      }));
+    } catch (err) {
+      console.error('[useEstimationGame] Failed to send estimate:', err);
+      setError('Network error - try again');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [state, isSubmitting, userId]);
+
+  // Move on to the next round - or finish after the last one
+  const continueAfterReveal = useCallback(() => {
+    const next = nextTokenRef.current;
+    nextTokenRef.current = null;
+
+    if (!next) {
+      endRun({
+        runId: state.runId,
+        userId,
+        streak: state.score, // An estimation run's score is its points
+        usedReprieve: false,
+        timestamp: Date.now(),
+        lastToken: state.lastResult?.token ?? state.token!,
+        mode: 'estimation',
+      });
+      return;
+    }
+
+    setState(prev => ({ ...prev, phase: 'playing', token: next, round: prev.round + 1, lastResult: null }));
+  }, [state, userId, endRun]);
+
+  return {
+    state,
+    isLoading,
+    isSubmitting,
+    error,
+    completedRun,
+    startGame,
+    submitEstimate,
+    continueAfterReveal,
+  };
+}
@@ -2,18 +2,25 @@
 
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { 
+  ComparisonMetric,
+  EstimateResult,
+  GameMode,
   GameState, 
   Guess, 
   GuessResult,
   Run,
+  ThemeId,
   Token
 } from '@/lib/game-core/types';
-import { compareMarketCaps, generateLossExplanation } from '@/lib/game-core/comparison';
+import { compareTokens, generateLossExplanation } from '@/lib/game-core/comparison';
 import { canOfferReprieve } from '@/lib/game-core/reprieve';
-import { getStreakTier, getStreakMilestoneMessage } from '@/lib/game-core/streak';
+import { calculateNewStreak, getStreakTier, getStreakMilestoneMessage, survivesWrongAnswers } from '@/lib/game-core/streak';
+import { calculateNewLives } from '@/lib/game-core/survival';
+import { BLITZ_MISS_PENALTY_MS } from '@/lib/game-core/timer';
 import { getTierName } from '@/lib/game-core/difficulty';
 import { OvertakeEvent } from '@/lib/leaderboard/overtake';
 import { LiveOvertakeData } from '@/components/game/LiveOvertakeToast';
+import type { AchievementUnlock } from '@/lib/game-core/achievements';
 import { 
   trackGuess, 
   trackGameLoss, 
@@ -38,14 +45,18 @@ interface UseGameReturn {
   lossExplanation: string | null;
   overtakes: OvertakeEvent[];
   liveOvertakes: LiveOvertakeData[];
+  achievements: AchievementUnlock[]; // Unlocked this run, not yet shown
   
   // Actions
   startGame: () => Promise<void>;
   makeGuess: (guess: Guess) => void;
   continueAfterCorrect: () => Promise<void>;
+  submitBonusEstimate: (estimate: number) => Promise<EstimateResult | null>;
+  finishBonus: () => void; // Back to the pair in play after a bonus estimate
   activateReprieve: () => Promise<void>; // Called after payment is verified
   playAgain: () => void; // Start a new game
   clearLiveOvertakes: () => void; // Clear live overtake notifications
+  dismissAchievement: () => void; // Drop the achievement toast being shown
   
   // Derived
   canUseReprieve: boolean;
@@ -59,27 +70,60 @@ interface UseGameReturn {
 }
 
 const initialGameState: GameState = {
+  mode: 'classic',
   phase: 'playing',
   currentToken: null,
   nextToken: null,
   streak: 0,
   hasUsedReprieve: false,
   runId: '',
-  preloadedTokens: [],
 };
 
+// /api/game/guess response
+interface GuessResponse {
+  correct: boolean;
+  currentToken: Token;
+  nextToken: Token | null;
+  complete?: boolean;
+  newStreak?: number;
+  finalStreak?: number;
+  correctAnswer?: Guess;
+  lives?: number; // Survival runs only
+  clockRemainingMs?: number; // Blitz runs only
+  bonusToken?: Token; // Classic runs: a bonus estimate the streak earned (market cap hidden)
+  ticket: string;
+  achievements?: AchievementUnlock[]; // Unlocked by this guess
+}
+
 /**
  * Main game state management hook
  * Handles all game logic including guessing, streaks, and game flow
+ * @param userId - Player's user ID
+ * @param mode - 'classic' (random run), 'daily' (shared sequence for the UTC day),
+ *               'challenge' (replay of another player's run), 'themed' or
+ *               'timemachine' (a past day's market caps), 'metric' (compared on another metric)
+ *               'survival' (three lives) or 'blitz' (60 seconds on one clock)
+ * @param challengeRunId - Run to replay (challenge mode only)
+ * @param theme - Theme to play (themed mode only)
+ * @param snapshotDate - Day to play, YYYY-MM-DD (time machine only - random past day if omitted)
+ * @param metric - Metric to compare (metric mode only)
  */
-export function useGame(userId: string): UseGameReturn {
-  const [gameState, setGameState] = useState<GameState>(initialGameState);
+export function useGame(
+  userId: string,
+  mode: GameMode = 'classic',
+  challengeRunId?: string,
+  theme?: ThemeId,
+  snapshotDate?: string,
+  metric?: ComparisonMetric
+): UseGameReturn {
+  const [gameState, setGameState] = useState<GameState>({ ...initialGameState, mode, theme, metric });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastResult, setLastResult] = useState<GuessResult | null>(null);
   const [completedRun, setCompletedRun] = useState<Run | null>(null);
   const [overtakes, setOvertakes] = useState<OvertakeEvent[]>([]);
   const [liveOvertakes, setLiveOvertakes] = useState<LiveOvertakeData[]>([]);
+  const [achievements, setAchievements] = useState<AchievementUnlock[]>([]);
   const [winInfo, setWinInfo] = useState<{
     type: 'personal_best' | 'top_3';
     rank?: number;
@@ -89,6 +133,12 @@ export function useGame(userId: string): UseGameReturn {
   const gameStartTimeRef = useRef<number | null>(null);
   const lastGameEndTimeRef = useRef<number | null>(null);
   const tokenDisplayTimeRef = useRef<number | null>(null);
+  
+  // The session's answer to the latest guess (carries the next round)
+  const pendingGuessRef = useRef<Promise<GuessResponse | null> | null>(null);
+  
+  // Latest signed round ticket - every guess, reprieve and submission must present it
+  const ticketRef = useRef<string | null>(null);
 
   // Check for live overtakes after streak increases
   const checkLiveOvertakes = useCallback(async (newStreak: number, previousStreak: number, retryCount = 0) => {
@@ -143,6 +193,11 @@ export function useGame(userId: string): UseGameReturn {
     setLiveOvertakes([]);
   }, []);
 
+  // Drop the achievement toast being shown - the next one in line shows
+  const dismissAchievement = useCallback(() => {
+    setAchievements(prev => prev.slice(1));
+  }, []);
+
   // Start a new game
   const startGame = useCallback(async () => {
     setIsLoading(true);
@@ -157,9 +212,30 @@ export function useGame(userId: string): UseGameReturn {
       const response = await fetch('/api/game/start', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId }),
+        body: JSON.stringify({ userId, mode, challengeRunId, theme, date: snapshotDate, metric }),
       });
       
+      if (response.status === 404 && mode === 'challenge') {
+        throw new Error('This challenge has expired or does not exist');
+      }
+      
+      if (response.status === 404 && mode === 'timemachine') {
+        const data = await response.json();
+        throw new Error(data.error || 'No market cap snapshot for that date');
+      }
+      
+      if (response.status === 503 && mode === 'metric') {
+        // Not enough tokens with data for the metric right now
+        const data = await response.json();
+        throw new Error(data.error || 'This metric is unavailable right now');
+      }
+      
+      if (response.status === 409) {
+        // Daily Challenge already played today
+        const data = await response.json();
+        throw new Error(data.error || "You've already played today's Daily Challenge");
+      }
+      
       if (!response.ok) {
         const errorText = await response.text();
         console.error('[useGame] Failed to start game:', errorText);
@@ -171,15 +247,24 @@ export function useGame(userId: string): UseGameReturn {
       const now = Date.now();
       gameStartTimeRef.current = now;
       tokenDisplayTimeRef.current = now;
+      pendingGuessRef.current = null;
+      ticketRef.current = data.ticket;
       
       setGameState({
+        mode,
         phase: 'playing',
         currentToken: data.currentToken,
         nextToken: data.nextToken,
         streak: 0,
         hasUsedReprieve: false,
         runId: data.runId,
-        preloadedTokens: data.preloadedTokens || [],
+        challenge: data.challenge,
+        theme: data.theme,
+        snapshotDate: data.snapshotDate,
+        // Challenge replays compare whatever the challenger's run did
+        metric: data.metric ?? data.challenge?.metric,
+        lives: data.lives,
+        clockEndsAt: data.clockRemainingMs !== undefined ? now + data.clockRemainingMs : undefined,
       });
       
       // Track game start
@@ -193,6 +278,101 @@ export function useGame(userId: string): UseGameReturn {
     } finally {
       setIsLoading(false);
     }
+  }, [userId, mode, challengeRunId, theme, snapshotDate, metric]);
+
+  // Build the completed run from the current state
+  const buildRun = useCallback((failedGuess?: GuessResult, streak = gameState.streak): Run => ({
+    runId: gameState.runId,
+    userId,
+    streak,
+    usedReprieve: gameState.hasUsedReprieve,
+    timestamp: Date.now(),
+    lastToken: gameState.currentToken!,
+    failedGuess,
+    mode: gameState.mode,
+    challengeRunId: gameState.challenge?.runId,
+    theme: gameState.theme,
+    snapshotDate: gameState.snapshotDate,
+    metric: gameState.metric,
+    bonusPoints: gameState.bonusPoints,
+  }), [gameState, userId]);
+
+  // Send a guess to the game session - it scores it and deals the next round
+  const postGuess = useCallback(async (guess: Guess): Promise<GuessResponse | null> => {
+    try {
+      const response = await fetch('/api/game/guess', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ runId: gameState.runId, userId, guess, ticket: ticketRef.current }),
+      });
+      
+      if (!response.ok) {
+        console.error('[useGame] Guess rejected:', await response.text());
+        return null;
+      }
+      
+      const data: GuessResponse = await response.json();
+      ticketRef.current = data.ticket;
+      if (data.achievements && data.achievements.length > 0) {
+        setAchievements(prev => [...prev, ...data.achievements!]);
+      }
+      return data;
+    } catch (err) {
+      console.error('[useGame] Failed to send guess:', err);
+      return null;
+    }
+  }, [gameState.runId, userId]);
+
+  // End the run and submit it to the leaderboard
+  const endRun = useCallback((run: Run) => {
+    setCompletedRun(run);
+    setGameState(prev => ({
+      ...prev,
+      phase: 'loss',
+    }));
+    
+    lastGameEndTimeRef.current = Date.now();
+    
+    // Challenge replays are head-to-head only - nothing to rank
+    if (run.mode === 'challenge') return;
+    
+    // Submit once the session has recorded the final guess
+    const pendingGuess = pendingGuessRef.current ?? Promise.resolve(null);
+    pendingGuess
+      .then(() => fetch('/api/leaderboard/submit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ run, userId, ticket: ticketRef.current }),
+      }))
+      .then(res => res.json())
+      .then(data => {
+        if (data.overtakes && data.overtakes.length > 0) {
+          setOvertakes(data.overtakes);
+        }
+        if (data.achievements && data.achievements.length > 0) {
+          setAchievements(prev => [...prev, ...data.achievements]);
+        }
+        
+        // Detect wins: personal best OR top 3
+        const isNewBest = data.isNewBest === true;
+        const newRank = data.newRank || 0;
+        const isTop3 = newRank > 0 && newRank <= 3;
+        
+        if (isNewBest || isTop3) {
+          // Determine win type - prioritize top 3 if both conditions are met
+          if (isTop3) {
+            setWinInfo({
+              type: 'top_3',
+              rank: newRank,
+            });
+          } else if (isNewBest) {
+            setWinInfo({
+              type: 'personal_best',
+            });
+          }
+        }
+      })
+      .catch(console.error);
   }, [userId]);
 
   // Make a guess
@@ -210,14 +390,16 @@ export function useGame(userId: string): UseGameReturn {
         Math.min(gameState.currentToken.marketCap, gameState.nextToken.marketCap)
       : undefined;
     
-    // Compare market caps
-    const result = compareMarketCaps(
+    // Compare locally for instant feedback - the session has the final say
+    const result = compareTokens(
       gameState.currentToken,
       gameState.nextToken,
-      guess
+      guess,
+      gameState.metric
     );
     
     setLastResult(result);
+    pendingGuessRef.current = postGuess(guess);
     
     // Track guess with analytics
     trackGuess(
@@ -238,8 +420,13 @@ export function useGame(userId: string): UseGameReturn {
       trackGuessTiming(timeToGuess, gameState.streak, difficulty, result.correct);
     }
     
+    const newStreak = calculateNewStreak(gameState.streak, result, gameState.mode);
+    // Survival runs: a wrong answer costs a life, milestones earn one back
+    const newLives = gameState.lives !== undefined
+      ? calculateNewLives(gameState.lives, result, newStreak)
+      : undefined;
+    
     if (result.correct) {
-      const newStreak = gameState.streak + 1;
       const previousStreak = gameState.streak;
       
       // Track streak milestones
@@ -250,28 +437,24 @@ export function useGame(userId: string): UseGameReturn {
         ...prev,
         phase: 'correct',
         streak: newStreak,
+        lives: newLives,
       }));
       
       // Check for live overtakes (fire and forget)
-      checkLiveOvertakes(newStreak, previousStreak);
-    } else {
-      // Incorrect - game over
-      const run: Run = {
-        runId: gameState.runId,
-        userId,
-        streak: gameState.streak,
-        usedReprieve: gameState.hasUsedReprieve,
-        timestamp: Date.now(),
-        lastToken: gameState.currentToken!,
-        failedGuess: result,
-      };
-      
-      setCompletedRun(run);
+      // Survival and blitz scores have their own boards - nothing to overtake on the classic ones
+      if (!survivesWrongAnswers(gameState.mode)) {
+        checkLiveOvertakes(newStreak, previousStreak);
+      }
+    } else if (survivesWrongAnswers(gameState.mode) && (newLives === undefined || newLives > 0)) {
+      // Wrong, but the run carries on - survival with a life left, blitz with time left
       setGameState(prev => ({
         ...prev,
-        phase: 'loss',
+        phase: 'miss',
+        lives: newLives,
+        clockEndsAt: prev.clockEndsAt !== undefined ? prev.clockEndsAt - BLITZ_MISS_PENALTY_MS : undefined,
       }));
-      
+    } else {
+      // Incorrect - game over
       // Track game loss with analytics
       const gameDuration = gameStartTimeRef.current 
         ? Date.now() - gameStartTimeRef.current 
@@ -292,217 +475,159 @@ export function useGame(userId: string): UseGameReturn {
         accuracy
       );
       
-      lastGameEndTimeRef.current = Date.now();
-      
-      // Submit to leaderboard and capture overtakes
-      fetch('/api/leaderboard/submit', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ run, userId }),
-      })
-        .then(res => res.json())
-        .then(data => {
-          if (data.overtakes && data.overtakes.length > 0) {
-            setOvertakes(data.overtakes);
-          }
-          
-          // Detect wins: personal best OR top 3
-          const isNewBest = data.isNewBest === true;
-          const newRank = data.newRank || 0;
-          const isTop3 = newRank > 0 && newRank <= 3;
-          
-          if (isNewBest || isTop3) {
-            // Determine win type - prioritize top 3 if both conditions are met
-            if (isTop3) {
-              setWinInfo({
-                type: 'top_3',
-                rank: newRank,
-              });
-            } else if (isNewBest) {
-              setWinInfo({
-                type: 'personal_best',
-              });
-            }
-          }
-        })
-        .catch(console.error);
+      endRun(buildRun(result));
     }
-  }, [gameState, userId]);
+  }, [gameState, buildRun, postGuess, endRun]);
 
-  // Background fetch more tokens when running low
-  const fetchMoreTokens = useCallback(async (currentTokenId: string, recentTokenIds: string[]) => {
-    try {
-      const response = await fetch('/api/tokens/batch', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          currentTokenId,
-          recentTokenIds,
-          count: 5,
-        }),
-      });
-      
-      if (response.ok) {
-        const data = await response.json();
-        if (data.tokens && data.tokens.length > 0) {
-          setGameState(prev => ({
-            ...prev,
-            preloadedTokens: [...prev.preloadedTokens, ...data.tokens],
-          }));
-        }
-      }
-    } catch (err) {
-      console.error('[useGame] Failed to preload tokens:', err);
-      // Non-critical, don't show error to user
-    }
-  }, []);
-
-  // Continue after correct guess animation
+  // Continue after correct guess animation (or a survival/blitz miss)
   const continueAfterCorrect = useCallback(async () => {
-    if (gameState.phase !== 'correct') return;
+    if (gameState.phase !== 'correct' && gameState.phase !== 'miss') return;
     
-    // Use preloaded token if available (instant, no loading)
-    if (gameState.preloadedTokens.length > 0) {
-      const nextPreloaded = gameState.preloadedTokens[0];
-      const remainingPreloaded = gameState.preloadedTokens.slice(1);
-      
-      setGameState(prev => ({
-        ...prev,
-        phase: 'playing',
-        currentToken: prev.nextToken,
-        nextToken: nextPreloaded,
-        preloadedTokens: remainingPreloaded,
-      }));
-      
-      // Update token display time for next guess timing
-      tokenDisplayTimeRef.current = Date.now();
-      
-      // Track play time in session
-      if (gameStartTimeRef.current) {
-        const playTimeSeconds = Math.round((Date.now() - gameStartTimeRef.current) / 1000);
-        const { trackPlayTime } = await import('@/lib/analytics/session');
-        trackPlayTime(playTimeSeconds);
-      }
-      
-      // If we're running low on preloaded tokens, fetch more in background
-      if (remainingPreloaded.length <= 2) {
-        const recentIds = [
-          gameState.currentToken?.id,
-          gameState.nextToken?.id,
-          nextPreloaded.id,
-        ].filter(Boolean) as string[];
-        
-        // Fire and forget - fetch more tokens in background
-        fetchMoreTokens(nextPreloaded.id, recentIds);
+    // The session dealt the next round when it scored the guess
+    setIsLoading(true);
+    const data = await pendingGuessRef.current;
+    setIsLoading(false);
+    
+    if (!data) {
+      // Blitz: the session turns guesses away once the clock is out
+      if (gameState.mode === 'blitz') {
+        endRun(buildRun());
+        return;
       }
-      
-      return; // No loading state needed!
+      setError('Failed to continue');
+      return;
     }
     
-    // Fallback: fetch from API if no preloaded tokens (shouldn't happen normally)
-    setIsLoading(true);
+    // The session disagreed with the local comparison - its answer stands
+    // (a survival run's wrong answer only ends it with the last life - final responses carry finalStreak)
+    if (!data.correct && data.finalStreak !== undefined) {
+      const failedGuess = lastResult && {
+        ...lastResult,
+        correct: false,
+        correctAnswer: data.correctAnswer ?? lastResult.correctAnswer,
+      };
+      endRun(buildRun(failedGuess ?? undefined, data.finalStreak));
+      return;
+    }
+    
+    // Nothing left to deal - challenge replay cleared (or the pool ran dry)
+    if (data.complete || !data.nextToken) {
+      endRun(buildRun());
+      return;
+    }
+    
+    // The blitz clock may have ended the run while the session answered
+    // A bonus estimate comes before the next pair
+    setGameState(prev => prev.phase === 'loss' ? prev : {
+      ...prev,
+      phase: data.bonusToken ? 'bonus' : 'playing',
+      bonusToken: data.bonusToken,
+      currentToken: data.currentToken,
+      nextToken: data.nextToken,
+      // The session keeps survival and blitz runs' score, lives and clock
+      ...(survivesWrongAnswers(prev.mode) && { streak: data.newStreak ?? prev.streak, lives: data.lives }),
+      ...(data.clockRemainingMs !== undefined && { clockEndsAt: Date.now() + data.clockRemainingMs }),
+    });
+    
+    // Update token display time for next guess timing
+    tokenDisplayTimeRef.current = Date.now();
+    
+    // Track play time in session
+    if (gameStartTimeRef.current) {
+      const playTimeSeconds = Math.round((Date.now() - gameStartTimeRef.current) / 1000);
+      const { trackPlayTime } = await import('@/lib/analytics/session');
+      trackPlayTime(playTimeSeconds);
+    }
+  }, [gameState, lastResult, buildRun, endRun]);
+
+  // Estimate the bonus token's market cap - the session scores it
+  const submitBonusEstimate = useCallback(async (estimate: number): Promise<EstimateResult | null> => {
+    if (gameState.phase !== 'bonus') return null;
     
     try {
-      const response = await fetch('/api/tokens/next', {
+      const response = await fetch('/api/game/estimate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          currentTokenId: gameState.nextToken?.id,
-          runId: gameState.runId,
-        }),
+        body: JSON.stringify({ runId: gameState.runId, userId, estimate, ticket: ticketRef.current }),
       });
       
       if (!response.ok) {
-        throw new Error('Failed to get next token');
+        console.error('[useGame] Estimate rejected:', await response.text());
+        return null;
       }
       
-      const data = await response.json();
-      
-      setGameState(prev => ({
-        ...prev,
-        phase: 'playing',
-        currentToken: prev.nextToken,
-        nextToken: data.nextToken,
-      }));
+      const data: { result: EstimateResult; ticket: string } = await response.json();
+      ticketRef.current = data.ticket;
+      setGameState(prev => ({ ...prev, bonusPoints: (prev.bonusPoints ?? 0) + data.result.points }));
+      return data.result;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to continue');
-    } finally {
-      setIsLoading(false);
+      console.error('[useGame] Failed to send estimate:', err);
+      return null;
     }
-  }, [gameState, fetchMoreTokens]);
+  }, [gameState.phase, gameState.runId, userId]);
+
+  // Back to the pair in play once the bonus estimate is done
+  const finishBonus = useCallback(() => {
+    setGameState(prev => prev.phase !== 'bonus' ? prev : {
+      ...prev,
+      phase: 'playing',
+      bonusToken: undefined,
+    });
+    tokenDisplayTimeRef.current = Date.now();
+  }, []);
 
   // Activate reprieve (called AFTER payment is verified)
-  // This just resumes the game - payment verification happens separately
+  // The session swaps the failed comparison for a fresh token
   const activateReprieve = useCallback(async () => {
     if (gameState.phase !== 'loss') return;
+    if (gameState.mode !== 'classic') return; // Daily, challenge and themed runs can't be revived
     if (gameState.hasUsedReprieve) return;
     if (gameState.streak < 5) return; // Min streak requirement
     
-    // Use preloaded token if available
-    if (gameState.preloadedTokens.length > 0) {
-      const nextPreloaded = gameState.preloadedTokens[0];
-      const remainingPreloaded = gameState.preloadedTokens.slice(1);
-      
-      setGameState(prev => ({
-        ...prev,
-        phase: 'playing',
-        nextToken: nextPreloaded,
-        hasUsedReprieve: true,
-        preloadedTokens: remainingPreloaded,
-      }));
-      
-      setLastResult(null);
-      setCompletedRun(null);
-      
-      // Fetch more tokens in background if needed
-      if (remainingPreloaded.length <= 2 && gameState.currentToken) {
-        const recentIds = [
-          gameState.currentToken.id,
-          nextPreloaded.id,
-        ].filter(Boolean) as string[];
-        fetchMoreTokens(nextPreloaded.id, recentIds);
-      }
-      
-      return;
-    }
-    
     setIsLoading(true);
     
     try {
-      // Fetch a new token to continue with
-      const response = await fetch('/api/tokens/next', {
+      // The losing guess's response carries the ticket the reprieve needs
+      await pendingGuessRef.current;
+      
+      const response = await fetch('/api/game/reprieve', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
-          currentTokenId: gameState.currentToken?.id,
           runId: gameState.runId,
+          userId,
+          ticket: ticketRef.current,
         }),
       });
       
       if (!response.ok) {
-        throw new Error('Failed to get next token');
+        throw new Error('Failed to use reprieve');
       }
       
       const data = await response.json();
+      ticketRef.current = data.ticket;
+      pendingGuessRef.current = null;
       
       // Continue the game with the current token and a new next token
       // The failed comparison is discarded
       setGameState(prev => ({
         ...prev,
         phase: 'playing',
+        currentToken: data.currentToken,
         nextToken: data.nextToken,
         hasUsedReprieve: true,
       }));
       
       setLastResult(null);
       setCompletedRun(null);
+      tokenDisplayTimeRef.current = Date.now();
       
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to use reprieve');
     } finally {
       setIsLoading(false);
     }
-  }, [gameState, fetchMoreTokens]);
+  }, [gameState, userId]);
 
   // Play again (start fresh)
   const playAgain = useCallback(() => {
@@ -520,7 +645,9 @@ export function useGame(userId: string): UseGameReturn {
     // Reset to initial state, then start new game
     setGameState({
       ...initialGameState,
-      preloadedTokens: [],
+      mode,
+      theme,
+      metric,
     });
     setLastResult(null);
     setCompletedRun(null);
@@ -529,7 +656,17 @@ export function useGame(userId: string): UseGameReturn {
     setWinInfo(null);
     gameStartTimeRef.current = null;
     tokenDisplayTimeRef.current = null;
-  }, [gameState.streak]);
+    pendingGuessRef.current = null;
+    ticketRef.current = null;
+  }, [gameState.streak, mode, theme, metric]);
+
+  // Blitz runs end when their clock does
+  useEffect(() => {
+    if (gameState.clockEndsAt === undefined || gameState.phase === 'loss') return;
+    
+    const timeout = setTimeout(() => endRun(buildRun()), Math.max(gameState.clockEndsAt - Date.now(), 0));
+    return () => clearTimeout(timeout);
+  }, [gameState.clockEndsAt, gameState.phase, buildRun, endRun]);
 
   // Auto-start game on mount or after playAgain
   useEffect(() => {
@@ -541,11 +678,13 @@ export function useGame(userId: string): UseGameReturn {
   // Derived values
   // Note: getReprieveState is now async, but we can't use async in useMemo
   // This will need to be handled differently - for now, use a simplified version
-  const canUseReprieve = canOfferReprieve(gameState.streak, gameState.hasUsedReprieve);
+  // No reprieves in daily or challenge mode - everyone gets exactly one shot at the same sequence
+  // Themed boards are reprieve-free too
+  const canUseReprieve = gameState.mode === 'classic' && canOfferReprieve(gameState.streak, gameState.hasUsedReprieve);
   const streakTier = getStreakTier(gameState.streak);
   const milestoneMessage = getStreakMilestoneMessage(gameState.streak);
   const lossExplanation = lastResult && !lastResult.correct 
-    ? generateLossExplanation(lastResult)
+    ? generateLossExplanation(lastResult, gameState.metric)
     : null;
 
   return {
@@ -556,12 +695,16 @@ export function useGame(userId: string): UseGameReturn {
     lossExplanation,
     overtakes,
     liveOvertakes,
+    achievements,
     startGame,
     makeGuess,
     continueAfterCorrect,
+    submitBonusEstimate,
+    finishBonus,
     activateReprieve,
     playAgain,
     clearLiveOvertakes,
+    dismissAchievement,
     canUseReprieve,
     streakTier,
     milestoneMessage,
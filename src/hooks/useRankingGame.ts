@@ -0,0 +1,204 @@
+'use client';
+
+import { useState, useCallback, useRef } from 'react';
+import { RankingGuess, RankingResult, RankingScoring, Run, Token } from '@/lib/game-core/types';
+
+// playing = ordering the round, reveal = the round's right order is shown, over = run finished
+export type RankingPhase = 'playing' | 'reveal' | 'over';
+
+export interface RankingGameState {
+  phase: RankingPhase;
+  runId: string;
+  tokens: Token[]; // The round's tokens, in the player's current order
+  streak: number;
+  scoring: RankingScoring;
+  lastResult: RankingResult | null;
+}
+
+export interface UseRankingGameReturn {
+  state: RankingGameState;
+  isLoading: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+  completedRun: Run | null;
+  startGame: () => Promise<void>;
+  reorder: (order: RankingGuess) => void;
+  submitOrder: () => Promise<void>;
+  continueAfterReveal: () => void;
+}
+
+// /api/game/rank response
+interface RankResponse {
+  correct: boolean;
+  result: RankingResult;
+  tokens?: Token[] | null; // Next round (null once there's nothing left to deal)
+  newStreak?: number;
+  finalStreak?: number;
+  ticket: string;
+}
+
+/**
+ * Ranking run state - every round orders three or four tokens by market cap
+ * The session deals and scores every round (see /api/game/rank)
+ * @param userId - Player's user ID
+ * @param scoring - 'exact' (whole order right) or 'inversions' (one swapped pair passes)
+ */
+export function useRankingGame(userId: string, scoring: RankingScoring = 'exact'): UseRankingGameReturn {
+  const [state, setState] = useState<RankingGameState>({
+    phase: 'playing',
+    runId: '',
+    tokens: [],
+    streak: 0,
+    scoring,
+    lastResult: null,
+  });
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [completedRun, setCompletedRun] = useState<Run | null>(null);
+
+  // Latest signed round ticket - every ranking and the submission must present it
+  const ticketRef = useRef<string | null>(null);
+  // The next round, held back while the last one's answer is revealed
+  const nextTokensRef = useRef<Token[] | null>(null);
+
+  const startGame = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    setCompletedRun(null);
+    nextTokensRef.current = null;
+
+    try {
+      const response = await fetch('/api/game/start', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, mode: 'ranking', scoring }),
+      });
+
+      if (!response.ok) {
+        console.error('[useRankingGame] Failed to start game:', await response.text());
+        throw new Error('Failed to start game');
+      }
+
+      const data = await response.json();
+      ticketRef.current = data.ticket;
+
+      setState({
+        phase: 'playing',
+        runId: data.runId,
+        tokens: data.tokens,
+        streak: 0,
+        scoring: data.scoring,
+        lastResult: null,
+      });
+    } catch (err) {
+      console.error('[useRankingGame] startGame error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start game');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, scoring]);
+
+  // Reorder the round's tokens (drag or arrow buttons)
+  const reorder = useCallback((order: RankingGuess) => {
+    setState(prev => {
+      const tokenMap = new Map(prev.tokens.map(t => [t.id, t]));
+      const tokens = order.map(id => tokenMap.get(id)).filter((t): t is Token => !!t);
+      return tokens.length === prev.tokens.length ? { ...prev, tokens } : prev;
+    });
+  }, []);
+
+  // End the run and submit it - ranking runs are validated, but not ranked
+  const endRun = useCallback((run: Run) => {
+    setCompletedRun(run);
+    setState(prev => ({ ...prev, phase: 'over' }));
+
+    fetch('/api/leaderboard/submit', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ run, userId, ticket: ticketRef.current }),
+    }).catch(console.error);
+  }, [userId]);
+
+  const buildRun = useCallback((streak: number, lastToken: Token): Run => ({
+    runId: state.runId,
+    userId,
+    streak,
+    usedReprieve: false,
+    timestamp: Date.now(),
+    lastToken,
+    mode: 'ranking',
+  }), [state.runId, userId]);
+
+  // Lock in the current order
+  const submitOrder = useCallback(async () => {
+    if (state.phase !== 'playing' || isSubmitting || state.tokens.length === 0) return;
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch('/api/game/rank', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          runId: state.runId,
+          userId,
+          order: state.tokens.map(t => t.id),
+          ticket: ticketRef.current,
+        }),
+      });
+
+      if (!response.ok) {
+        console.error('[useRankingGame] Ranking rejected:', await response.text());
+        setError('Round could not be scored');
+        return;
+      }
+
+      const data: RankResponse = await response.json();
+      ticketRef.current = data.ticket;
+
+      if (!data.correct) {
+        setState(prev => ({ ...prev, lastResult: data.result }));
+        endRun(buildRun(data.finalStreak ?? state.streak, data.result.tokens[0]));
+        return;
+      }
+
+      nextTokensRef.current = data.tokens ?? null;
+      setState(prev => ({
+        ...prev,
+        phase: 'reveal',
+        streak: data.newStreak ?? prev.streak + 1,
+        lastResult: data.result,
+      }));
+    } catch (err) {
+      console.error('[useRankingGame] Failed to send ranking:', err);
+      setError('Network error - try again');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [state, isSubmitting, userId, endRun, buildRun]);
+
+  // Move on to the next round - or finish if there's nothing left to deal
+  const continueAfterReveal = useCallback(() => {
+    const next = nextTokensRef.current;
+    nextTokensRef.current = null;
+
+    if (!next) {
+      endRun(buildRun(state.streak, state.lastResult?.tokens[0] ?? state.tokens[0]));
+      return;
+    }
+
+    setState(prev => ({ ...prev, phase: 'playing', tokens: next }));
+  }, [state.streak, state.tokens, state.lastResult, endRun, buildRun]);
+
+  return {
+    state,
+    isLoading,
+    isSubmitting,
+    error,
+    completedRun,
+    startGame,
+    reorder,
+    submitOrder,
+    continueAfterReveal,
+  };
+}
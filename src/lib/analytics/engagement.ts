@@ -153,7 +153,7 @@ export function trackLeaderboardEngagement(
 export function trackSocialShare(
   platform: 'twitter' | 'farcaster' | 'copy_link' | 'other',
   streak: number,
-  shareContext: 'loss' | 'milestone' | 'leaderboard' | 'win'
+  shareContext: 'loss' | 'milestone' | 'leaderboard' | 'win' | 'challenge'
 ) {
   trackEngagementEvent('social_share', {
     platform,
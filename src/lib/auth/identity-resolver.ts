@@ -194,6 +194,51 @@ async function resolveFarcaster(address: string): Promise<{ name: string; avatar
   }
 }
 
+/**
+ * Gets the FIDs a Farcaster user follows via Neynar API
+ * @param limit - Most FIDs to return (Neynar pages 100 at a time)
+ * @returns Followed FIDs, most recently followed first (empty without a Neynar key)
+ */
+export async function getFarcasterFollowing(fid: string, limit: number = 500): Promise<string[]> {
+  const neynarKey = process.env.NEYNAR_API_KEY;
+  if (!neynarKey) {
+    return [];
+  }
+  
+  const following: string[] = [];
+  let cursor: string | undefined;
+  
+  try {
+    do {
+      const params = new URLSearchParams({ fid, limit: '100', ...(cursor && { cursor }) });
+      const response = await fetch(
+        `https://api.neynar.com/v2/farcaster/following?${params}`,
+        {
+          headers: {
+            'accept': 'application/json',
+            'api_key': neynarKey,
+          },
+          next: { revalidate: 3600 }, // Cache for 1 hour
+        }
+      );
+      
+      if (!response.ok) {
+        break;
+      }
+      
+      const data = await response.json();
+      for (const follow of data.users ?? []) {
+        if (follow.user?.fid) following.push(String(follow.user.fid));
+      }
+      cursor = data.next?.cursor ?? undefined;
+    } while (cursor && following.length < limit);
+  } catch (error) {
+    console.error('[Identity] Farcaster following resolution error:', error);
+  }
+  
+  return following.slice(0, limit);
+}
+
 /**
  * Checks if a string is a valid Ethereum address
  */
@@ -0,0 +1,104 @@
+/**
+ * Storage helpers for challenge replays
+ * Keeps finished runs around for ?challenge=<runId> links
+ */
+
+import { ChallengeInfo, TokenPair } from '@/lib/game-core/types';
+import { GameSession } from '@/lib/game-core/session';
+import { scoreGuess } from '@/lib/game-core/tie-policy';
+import { resolveIdentity } from '@/lib/auth/identity-resolver';
+import { getStore } from '@/lib/store';
+
+// Challenge links stay playable for a week after the run
+export const CHALLENGE_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+// Redis key patterns
+const KEYS = {
+  challenge: (runId: string) => `challenge:${runId}`,
+};
+
+// What a replay needs from the challenger's run - kept apart from the live session
+interface ChallengeRecord {
+  userId: string;
+  streak: number;
+  pairs: TokenPair[]; // In the order they were played, with the market caps they were played on
+  outcomes: boolean[]; // Whether the challenger got each pair right
+  metric?: ChallengeInfo['metric'];
+}
+
+export interface ChallengeReplay {
+  challenge: ChallengeInfo; // Safe to send - holds no market caps
+  pairs: TokenPair[]; // Stays on the server - the replay's session deals these
+}
+
+/**
+ * Archives a finished run for challenge replays
+ * Every round and the tokens they were played with are copied out of the
+ * session, so everyone replaying the run gets the same answers.
+ */
+export async function archiveChallengeRun(session: GameSession): Promise<void> {
+  if (session.guesses.length === 0 || !session.tokenPool || session.tokenPool.length === 0) {
+    return;
+  }
+
+  const tokenMap = new Map(session.tokenPool.map(t => [t.id, t]));
+  const pairs: TokenPair[] = [];
+  const outcomes: boolean[] = [];
+  for (const guess of session.guesses) {
+    const current = tokenMap.get(guess.currentTokenId);
+    const next = tokenMap.get(guess.nextTokenId);
+    if (!current || !next) return;
+    pairs.push({ current, next });
+    outcomes.push(scoreGuess(current, next, guess.guess, session.metric).correct);
+  }
+
+  const record: ChallengeRecord = {
+    userId: session.userId,
+    streak: session.currentStreak,
+    pairs,
+    outcomes,
+    metric: session.metric,
+  };
+
+  try {
+    await getStore().set(KEYS.challenge(session.runId), JSON.stringify(record), { ex: CHALLENGE_TTL_SECONDS });
+  } catch (error) {
+    console.error('[Challenge] Error archiving run:', error);
+  }
+}
+
+/**
+ * Loads a run as a challenge
+ * @param runId - Challenger's run ID (from the ?challenge= link)
+ * @returns The challenge to show and the pairs to deal, or null if unavailable
+ */
+export async function loadChallenge(runId: string): Promise<ChallengeReplay | null> {
+  try {
+    const data = await getStore().get(KEYS.challenge(runId));
+    if (!data) return null;
+
+    const record: ChallengeRecord = typeof data === 'string' ? JSON.parse(data) : data as ChallengeRecord;
+    if (record.pairs.length === 0) return null;
+
+    const identity = await resolveIdentity(record.userId).catch(() => null);
+
+    return {
+      challenge: {
+        runId,
+        challenger: {
+          userId: record.userId,
+          userType: identity?.source === 'farcaster' ? 'farcaster' : 'wallet',
+          displayName: identity?.displayName || record.userId,
+          avatarUrl: identity?.avatarUrl,
+        },
+        challengerStreak: record.streak,
+        outcomes: record.outcomes,
+        metric: record.metric,
+      },
+      pairs: record.pairs,
+    };
+  } catch (error) {
+    console.error('[Challenge] Error loading challenge:', error);
+    return null;
+  }
+}
@@ -23,8 +23,9 @@ interface CoinGeckoCoin {
   current_price: number;
   market_cap: number;
   market_cap_rank: number;
+  fully_diluted_valuation: number | null;
   total_volume: number;
-  price_change_percentage_24h: number;
+  price_change_percentage_24h: number | null;
 }
 
 interface CoinGeckoDetailedCoin {
@@ -305,6 +306,10 @@ function coinToToken(coin: CoinGeckoCoin): Token {
     marketCap: coin.market_cap || 0,
     chain: CHAIN_MAP[coin.id] || curatedInfo?.chains?.[0] || 'ethereum',
     address: coin.id,
+    // Other comparison metrics (null when CoinGecko doesn't know)
+    fullyDilutedValuation: coin.fully_diluted_valuation ?? undefined,
+    volume24h: coin.total_volume ?? undefined,
+    priceChange24h: coin.price_change_percentage_24h ?? undefined,
     // Add curated metadata
     category: curatedInfo?.category as TokenCategory || 'unknown',
     description: curatedInfo?.description,
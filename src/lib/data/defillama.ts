@@ -0,0 +1,46 @@
+/**
+ * DefiLlama API client for protocol TVL
+ * Free public API, no key needed. Only used to add TVL to DeFi tokens in the
+ * pool - protocols are matched to CoinGecko coins by their gecko_id.
+ */
+
+const BASE_URL = 'https://api.llama.fi';
+
+// DefiLlama response types (only the fields we use)
+interface DefiLlamaProtocol {
+  name: string;
+  gecko_id: string | null;
+  tvl: number | null;
+}
+
+/**
+ * Fetches current TVL for every protocol DefiLlama tracks
+ * @returns CoinGecko coin ID -> TVL in USD (empty on failure)
+ */
+export async function fetchProtocolTvls(): Promise<Map<string, number>> {
+  const tvls = new Map<string, number>();
+
+  try {
+    const response = await fetch(`${BASE_URL}/protocols`, {
+      headers: { 'Accept': 'application/json' },
+      next: { revalidate: 900 },
+    });
+
+    if (!response.ok) {
+      throw new Error(`DefiLlama API error: ${response.status}`);
+    }
+
+    const protocols: DefiLlamaProtocol[] = await response.json();
+    for (const protocol of protocols) {
+      if (!protocol.gecko_id || !protocol.tvl || protocol.tvl <= 0) continue;
+      // Several protocol versions can share one token - add them up
+      tvls.set(protocol.gecko_id, (tvls.get(protocol.gecko_id) ?? 0) + protocol.tvl);
+    }
+
+    console.log(`[DefiLlama] Fetched TVL for ${tvls.size} tokens`);
+  } catch (error) {
+    console.error('[DefiLlama] Error fetching protocol TVLs:', error);
+  }
+
+  return tvls;
+}
@@ -3,3 +3,4 @@ export * from './dexscreener';
 export * from './coingecko';
 export * from './token-pool';
 export * from './token-categories';
+export * from './defillama';
@@ -0,0 +1,188 @@
+/**
+ * Token Pool Snapshots
+ * One stored copy of the token pool per UTC day, so past market caps can be
+ * played back ("which was bigger on <date>?") without any live API.
+ *
+ * Snapshots go to the store and, where the filesystem allows it, to
+ * POOL_SNAPSHOT_DIR (default: data/pool-snapshots) as one JSON file per day.
+ * Reads fall back to those files, so copying them into another deployment or a
+ * local checkout replays the same days there.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Token } from '../game-core/types';
+import { getDailyKey, isValidDailyKey } from '../game-core/daily';
+import { getTokenPool } from './token-pool';
+import { getStore } from '../store';
+
+// The fallback pool is 50 curated tokens with estimated caps - never snapshot that
+const MIN_SNAPSHOT_TOKENS = 100;
+
+// Redis key patterns
+const KEYS = {
+  snapshot: (dayKey: string) => `pool-snapshot:${dayKey}`,
+  index: 'pool-snapshots', // Sorted set of day keys, scored by day
+};
+
+export interface PoolSnapshot {
+  dayKey: string; // UTC day the caps are from (YYYY-MM-DD)
+  takenAt: number;
+  tokens: Token[];
+}
+
+export interface TakePoolSnapshotResult {
+  snapshot: PoolSnapshot;
+  created: boolean; // false when the day already had a snapshot
+}
+
+function getSnapshotDir(): string {
+  return process.env.POOL_SNAPSHOT_DIR || path.join(process.cwd(), 'data', 'pool-snapshots');
+}
+
+function getSnapshotFile(dayKey: string): string {
+  return path.join(getSnapshotDir(), `${dayKey}.json`);
+}
+
+/**
+ * Drops the long-form curated text - it's looked up again from token-categories
+ */
+function toSnapshotToken(token: Token): Token {
+  return {
+    id: token.id,
+    symbol: token.symbol,
+    name: token.name,
+    logoUrl: token.logoUrl,
+    marketCap: token.marketCap,
+    chain: token.chain,
+    address: token.address,
+    category: token.category,
+  };
+}
+
+function parseSnapshot(data: unknown): PoolSnapshot | null {
+  if (!data) return null;
+  return typeof data === 'string' ? JSON.parse(data) : (data as PoolSnapshot);
+}
+
+async function readSnapshotFile(dayKey: string): Promise<PoolSnapshot | null> {
+  try {
+    return parseSnapshot(await fs.readFile(getSnapshotFile(dayKey), 'utf8'));
+  } catch {
+    return null; // No file for that day
+  }
+}
+
+/**
+ * Stores a snapshot (overwrites any existing one for the day)
+ * The file copy is best effort - read-only filesystems only get the store copy
+ */
+export async function savePoolSnapshot(snapshot: PoolSnapshot): Promise<void> {
+  const store = getStore();
+  const data = JSON.stringify(snapshot);
+
+  await store.set(KEYS.snapshot(snapshot.dayKey), data);
+  await store.zadd(KEYS.index, { score: Date.parse(`${snapshot.dayKey}T00:00:00Z`), member: snapshot.dayKey });
+
+  try {
+    await fs.mkdir(getSnapshotDir(), { recursive: true });
+    await fs.writeFile(getSnapshotFile(snapshot.dayKey), data);
+  } catch (error) {
+    console.warn(`[PoolSnapshot] Could not write file for ${snapshot.dayKey}:`, error);
+  }
+}
+
+/**
+ * Loads a day's snapshot from the store, or from its file
+ * @returns null if that day was never snapshotted
+ */
+export async function loadPoolSnapshot(dayKey: string): Promise<PoolSnapshot | null> {
+  if (!isValidDailyKey(dayKey)) return null;
+
+  try {
+    const stored = parseSnapshot(await getStore().get(KEYS.snapshot(dayKey)));
+    if (stored) return stored;
+  } catch (error) {
+    console.error(`[PoolSnapshot] Error loading ${dayKey} from store:`, error);
+  }
+
+  return readSnapshotFile(dayKey);
+}
+
+/**
+ * Every day with a snapshot, oldest first
+ */
+export async function listPoolSnapshotDays(): Promise<string[]> {
+  const days = new Set<string>();
+
+  try {
+    const stored = await getStore().zrange<unknown[]>(KEYS.index, 0, -1);
+    for (const day of stored) days.add(String(day));
+  } catch (error) {
+    console.error('[PoolSnapshot] Error listing stored snapshots:', error);
+  }
+
+  try {
+    for (const file of await fs.readdir(getSnapshotDir())) {
+      const day = file.replace(/\.json$/, '');
+      if (file.endsWith('.json') && isValidDailyKey(day)) days.add(day);
+    }
+  } catch {
+    // No snapshot directory
+  }
+
+  return Array.from(days).sort();
+}
+
+/**
+ * Snapshot job - freezes today's token pool
+ * Safe to run as often as you like: the first run of a UTC day writes the
+ * snapshot, later runs leave it alone unless forced.
+ * @param force - Overwrite today's snapshot with the current pool
+ * @returns null if the live pool is too thin to be worth keeping (API outage)
+ */
+export async function takePoolSnapshot(
+  force: boolean = false,
+  now: number = Date.now()
+): Promise<TakePoolSnapshotResult | null> {
+  const dayKey = getDailyKey(now);
+
+  if (!force) {
+    const existing = await loadPoolSnapshot(dayKey);
+    if (existing) return { snapshot: existing, created: false };
+  }
+
+  const tokens = await getTokenPool();
+  if (tokens.length < MIN_SNAPSHOT_TOKENS) {
+    console.warn(`[PoolSnapshot] Skipping ${dayKey}: only ${tokens.length} tokens in the pool`);
+    return null;
+  }
+
+  const snapshot: PoolSnapshot = {
+    dayKey,
+    takenAt: now,
+    tokens: tokens.map(toSnapshotToken),
+  };
+  await savePoolSnapshot(snapshot);
+
+  return { snapshot, created: true };
+}
+
+/**
+ * Adds today's market caps to snapshot tokens (as liveMarketCap)
+ * Uses the live pool when it's reachable; tokens simply go without when it isn't
+ */
+export async function withLiveMarketCaps(tokens: Token[]): Promise<Token[]> {
+  let livePool: Token[] = [];
+  try {
+    livePool = await getTokenPool();
+  } catch (error) {
+    console.warn('[PoolSnapshot] Live pool unavailable:', error);
+  }
+
+  const liveCaps = new Map(livePool.map(t => [t.id, t.marketCap]));
+  return tokens.map(token => {
+    const liveMarketCap = liveCaps.get(token.id);
+    return liveMarketCap !== undefined ? { ...token, liveMarketCap } : token;
+  });
+}
@@ -1,6 +1,7 @@
 import { Token } from '../game-core/types';
 import { fetchCuratedTokens, fetchTop500Tokens, fetchTrendingCoins, testCoinGeckoAPI } from './coingecko';
 import { fetchTopTokens, fetchTrendingTokens, testDexScreenerAPI } from './dexscreener';
+import { fetchProtocolTvls } from './defillama';
 import { CURATED_TOKENS, findTokenInfoBySymbol } from './token-categories';
 import { trackTokenPoolRefresh } from '../analytics';
 
@@ -72,6 +73,13 @@ export async function getTokenPool(): Promise<Token[]> {
           }
         }
         
+        // TVL for DeFi tokens (the tvl comparison metric) - CoinGecko tokens keep their coin ID as address
+        const tvls = await fetchProtocolTvls();
+        for (const token of tokenMap.values()) {
+          const tvl = token.id.startsWith('cg-') ? tvls.get(token.address) : undefined;
+          if (tvl !== undefined) token.tvl = tvl;
+        }
+        
         dataSourceStatus.coingecko.errorCount = 0;
       } catch (error) {
         console.error('[TokenPool] CoinGecko error:', error);
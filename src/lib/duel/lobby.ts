@@ -0,0 +1,216 @@
+/**
+ * Duel Lobby
+ * Pairs players by invite code or by challenging a userId directly, and runs
+ * every duel update under the duel's lock.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getTokenPool } from '@/lib/data/token-pool';
+import { generateGameSeed } from '@/lib/game-core/seeded-selection';
+import {
+  DuelResult,
+  DuelState,
+  advanceDuel,
+  answerDuelRound,
+  createDuelState,
+  leaveDuel,
+  startDuel,
+} from '@/lib/game-core/duel';
+import { Guess } from '@/lib/game-core/types';
+import { resolveIdentity } from '@/lib/auth/identity-resolver';
+import {
+  addPendingInvite,
+  claimInviteCode,
+  getDuelIdByInviteCode,
+  getDuelLockKey,
+  getPendingInviteIds,
+  loadDuel,
+  saveDuel,
+} from './storage';
+import { withLock } from '@/lib/store/lock';
+import { generateInviteCode, normalizeInviteCode } from '@/lib/invite-code';
+
+const INVITE_CODE_LENGTH = 6;
+const INVITE_CODE_ATTEMPTS = 5;
+
+const LOCK_TIMEOUT_ERROR = { success: false as const, error: 'Duel is busy, try again', status: 503 };
+
+export interface PendingDuelInvite {
+  duelId: string;
+  inviteCode: string;
+  hostId: string;
+  hostName: string;
+  createdAt: number;
+}
+
+async function getDisplayName(userId: string): Promise<string> {
+  const identity = await resolveIdentity(userId).catch(() => null);
+  return identity?.displayName || userId;
+}
+
+/**
+ * Opens a duel and waits for an opponent
+ * @param hostId - Player opening the duel
+ * @param invitedUserId - Only this player may join (they see it in their pending invites)
+ */
+export async function createDuel(
+  hostId: string,
+  invitedUserId?: string
+): Promise<DuelResult<{ duel: DuelState }>> {
+  if (invitedUserId === hostId) {
+    return { success: false, error: 'Cannot duel yourself', status: 400 };
+  }
+
+  const duelId = uuidv4();
+  let inviteCode: string | null = null;
+  for (let attempt = 0; attempt < INVITE_CODE_ATTEMPTS && !inviteCode; attempt++) {
+    const candidate = generateInviteCode(INVITE_CODE_LENGTH);
+    if (await claimInviteCode(candidate, duelId)) inviteCode = candidate;
+  }
+  if (!inviteCode) {
+    return { success: false, error: 'Could not allocate an invite code', status: 503 };
+  }
+
+  const duel = createDuelState({
+    duelId,
+    seed: generateGameSeed(),
+    inviteCode,
+    hostId,
+    invitedUserId,
+    hostName: await getDisplayName(hostId),
+    pool: await getTokenPool(),
+    now: Date.now(),
+  });
+  if (!duel) {
+    return { success: false, error: 'Not enough tokens available', status: 500 };
+  }
+
+  await saveDuel(duel);
+  if (invitedUserId) {
+    await addPendingInvite(invitedUserId, duelId);
+  }
+
+  return { success: true, duel };
+}
+
+/**
+ * Joins a waiting duel by its invite code, starting the countdown
+ */
+export async function joinDuelByCode(
+  userId: string,
+  inviteCode: string
+): Promise<DuelResult<{ duel: DuelState }>> {
+  const duelId = await getDuelIdByInviteCode(normalizeInviteCode(inviteCode));
+  if (!duelId) {
+    return { success: false, error: 'Invite code not found or expired', status: 404 };
+  }
+  return joinDuel(userId, duelId);
+}
+
+/**
+ * Joins a waiting duel, starting the countdown
+ */
+export async function joinDuel(userId: string, duelId: string): Promise<DuelResult<{ duel: DuelState }>> {
+  const guestName = await getDisplayName(userId);
+
+  const result = await withLock(getDuelLockKey(duelId), async (): Promise<DuelResult<{ duel: DuelState }>> => {
+    const duel = await loadDuel(duelId);
+    if (!duel) {
+      return { success: false, error: 'Duel not found or expired', status: 404 };
+    }
+
+    const started = startDuel(duel, userId, guestName, Date.now());
+    if (started.success) await saveDuel(started.duel);
+    return started;
+  });
+
+  return result ?? LOCK_TIMEOUT_ERROR;
+}
+
+/**
+ * Answers the current round
+ */
+export async function answerDuel(
+  duelId: string,
+  userId: string,
+  guess: Guess
+): Promise<DuelResult<{ duel: DuelState }>> {
+  // Timestamp on arrival, before any wait for the lock
+  const now = Date.now();
+
+  const result = await withLock(getDuelLockKey(duelId), async (): Promise<DuelResult<{ duel: DuelState }>> => {
+    const duel = await loadDuel(duelId);
+    if (!duel) {
+      return { success: false, error: 'Duel not found or expired', status: 404 };
+    }
+
+    const answered = answerDuelRound(duel, userId, guess, now);
+    if (answered.success) await saveDuel(answered.duel);
+    return answered;
+  });
+
+  return result ?? LOCK_TIMEOUT_ERROR;
+}
+
+/**
+ * Leaves a duel - cancels it while waiting, forfeits it once started
+ */
+export async function leaveDuelById(duelId: string, userId: string): Promise<DuelResult<{ duel: DuelState }>> {
+  const result = await withLock(getDuelLockKey(duelId), async (): Promise<DuelResult<{ duel: DuelState }>> => {
+    const duel = await loadDuel(duelId);
+    if (!duel) {
+      return { success: false, error: 'Duel not found or expired', status: 404 };
+    }
+
+    const now = Date.now();
+    const left = leaveDuel(advanceDuel(duel, now), userId, now);
+    if (left.success) await saveDuel(left.duel);
+    return left;
+  });
+
+  return result ?? LOCK_TIMEOUT_ERROR;
+}
+
+/**
+ * Loads a duel with any overdue rounds resolved
+ * Only takes the lock (and writes) when something actually moved on.
+ */
+export async function refreshDuel(duelId: string): Promise<DuelState | null> {
+  const duel = await loadDuel(duelId);
+  if (!duel) return null;
+
+  const advanced = advanceDuel(duel, Date.now());
+  if (advanced === duel) return duel;
+
+  const saved = await withLock(getDuelLockKey(duelId), async () => {
+    // Re-read under the lock - an answer may have landed meanwhile
+    const latest = await loadDuel(duelId);
+    if (!latest) return null;
+
+    const next = advanceDuel(latest, Date.now());
+    if (next !== latest) await saveDuel(next);
+    return next;
+  });
+
+  return saved ?? advanced;
+}
+
+/**
+ * Duels a user has been challenged to that are still waiting for them
+ */
+export async function getPendingDuelInvites(userId: string): Promise<PendingDuelInvite[]> {
+  const ids = await getPendingInviteIds(userId);
+  const duels = await Promise.all(ids.map(id => loadDuel(id).catch(() => null)));
+
+  return duels
+    .filter((duel): duel is DuelState =>
+      duel !== null && duel.status === 'waiting' && duel.invitedUserId === userId
+    )
+    .map(duel => ({
+      duelId: duel.duelId,
+      inviteCode: duel.inviteCode,
+      hostId: duel.hostId,
+      hostName: duel.displayNames[duel.hostId] || duel.hostId,
+      createdAt: duel.createdAt,
+    }));
+}
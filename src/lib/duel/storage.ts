@@ -0,0 +1,88 @@
+/**
+ * Storage helpers for duels
+ * Duel state lives in one key per duel; writes go through a short lock so two
+ * players answering at once can't overwrite each other.
+ */
+
+import { getStore } from '@/lib/store';
+import { DuelState } from '@/lib/game-core/duel';
+
+// Duels are short - an hour covers the wait for an opponent plus the match
+export const DUEL_TTL_SECONDS = 60 * 60;
+
+// Pending invites a user can have waiting at once
+const MAX_PENDING_INVITES = 20;
+
+// Redis key patterns
+const KEYS = {
+  duel: (duelId: string) => `duel:${duelId}`,
+  lock: (duelId: string) => `duel:${duelId}:lock`,
+  inviteCode: (code: string) => `duel:invite:${code}`,
+  pendingInvites: (userId: string) => `duel:pending:${userId}`,
+};
+
+/**
+ * Load a duel
+ * @returns null if it doesn't exist or has expired
+ */
+export async function loadDuel(duelId: string): Promise<DuelState | null> {
+  const store = getStore();
+  const data = await store.get(KEYS.duel(duelId));
+  if (!data) return null;
+  return typeof data === 'string' ? JSON.parse(data) : (data as DuelState);
+}
+
+/**
+ * Save a duel
+ */
+export async function saveDuel(duel: DuelState): Promise<void> {
+  const store = getStore();
+  await store.set(KEYS.duel(duel.duelId), JSON.stringify(duel), { ex: DUEL_TTL_SECONDS });
+}
+
+/**
+ * Key a duel's updates are locked on (see withLock)
+ */
+export function getDuelLockKey(duelId: string): string {
+  return KEYS.lock(duelId);
+}
+
+/**
+ * Reserve an invite code for a duel
+ * @returns false if the code is already taken
+ */
+export async function claimInviteCode(code: string, duelId: string): Promise<boolean> {
+  const store = getStore();
+  const result = await store.set(KEYS.inviteCode(code), duelId, { nx: true, ex: DUEL_TTL_SECONDS });
+  return result === 'OK';
+}
+
+/**
+ * Look up the duel behind an invite code
+ */
+export async function getDuelIdByInviteCode(code: string): Promise<string | null> {
+  const store = getStore();
+  const duelId = await store.get(KEYS.inviteCode(code));
+  return duelId ? String(duelId) : null;
+}
+
+/**
+ * Add a duel to a user's pending invites
+ */
+export async function addPendingInvite(userId: string, duelId: string): Promise<void> {
+  const store = getStore();
+  const key = KEYS.pendingInvites(userId);
+  await store.lpush(key, duelId);
+  await store.ltrim(key, 0, MAX_PENDING_INVITES - 1);
+  await store.expire(key, DUEL_TTL_SECONDS);
+}
+
+/**
+ * Duel IDs a user has been invited to, newest first
+ * May include duels that have since started, been cancelled or expired
+ */
+export async function getPendingInviteIds(userId: string): Promise<string[]> {
+  const store = getStore();
+  const ids = await store.lrange(KEYS.pendingInvites(userId), 0, MAX_PENDING_INVITES - 1);
+  return ids.map(id => String(id));
+}
@@ -0,0 +1,83 @@
+/**
+ * Achievement Storage for CapOrSlap
+ * Players' unlocked achievements. Guests don't earn achievements.
+ */
+
+import { getStore } from '../store';
+import { getPlayStreakStatus } from '../play-streak/calendar';
+import { loadPlayCalendar } from '../play-streak/storage';
+import { AchievementContext, AchievementDefinition, evaluateAchievements, getAchievementBadges } from './achievements';
+import { AchievementId, LeaderboardEntry } from './types';
+
+// Redis key patterns
+const KEYS = {
+  record: (userId: string) => `user:${userId}:achievements`,
+};
+
+export interface AchievementRecord {
+  unlocked: Partial<Record<AchievementId, number>>; // Unlock time per achievement
+}
+
+/**
+ * Loads a player's achievements
+ * @returns The record, or an empty one for players without any
+ */
+export async function loadAchievementRecord(userId: string): Promise<AchievementRecord> {
+  try {
+    const data = await getStore().get(KEYS.record(userId));
+    if (data) {
+      return typeof data === 'string' ? JSON.parse(data) : data as AchievementRecord;
+    }
+  } catch (error) {
+    console.error('[Achievements] Error loading achievements:', error);
+  }
+  return { unlocked: {} };
+}
+
+/**
+ * IDs of a record's unlocked achievements
+ */
+export function getUnlockedAchievements(record: AchievementRecord): AchievementId[] {
+  return Object.keys(record.unlocked) as AchievementId[];
+}
+
+/**
+ * Unlocks whatever the context - and the player's daily play streak - earns
+ * @returns The achievements unlocked just now (empty for guests)
+ */
+export async function checkAchievements(
+  userId: string,
+  context: Omit<AchievementContext, 'playStreak'>,
+  now: number = Date.now()
+): Promise<AchievementDefinition[]> {
+  if (userId.startsWith('guest_')) return [];
+
+  try {
+    const [record, calendar] = await Promise.all([loadAchievementRecord(userId), loadPlayCalendar(userId)]);
+    const unlocked = evaluateAchievements(
+      { ...context, playStreak: getPlayStreakStatus(calendar, now).currentStreak },
+      getUnlockedAchievements(record)
+    );
+    if (unlocked.length === 0) return [];
+
+    for (const achievement of unlocked) {
+      record.unlocked[achievement.id] = now;
+    }
+    await getStore().set(KEYS.record(userId), JSON.stringify(record)); // Kept for good
+    return unlocked;
+  } catch (error) {
+    console.error('[Achievements] Error checking achievements:', error);
+    return [];
+  }
+}
+
+/**
+ * Adds every entry's player's badges to leaderboard entries
+ */
+export async function withAchievementBadges(entries: LeaderboardEntry[]): Promise<LeaderboardEntry[]> {
+  return Promise.all(entries.map(async entry => {
+    if (entry.user.userId.startsWith('guest_')) return entry;
+    const badges = getAchievementBadges(getUnlockedAchievements(await loadAchievementRecord(entry.user.userId)));
+    return badges.length > 0 ? { ...entry, badges } : entry;
+  }));
+}
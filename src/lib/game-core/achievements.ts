@@ -0,0 +1,150 @@
+/**
+ * Achievements for CapOrSlap
+ * Badges players keep for good: streak milestones, clean and Insane-tier
+ * runs, passing a top-3 player, playing day after day. Unlocked on the
+ * server as guesses and leaderboard submissions come in (see
+ * achievement-storage.ts) and shown next to players on the leaderboards.
+ */
+
+import { DIFFICULTY_TIERS } from './difficulty';
+import { STREAK_MILESTONES, isStreakRunMode } from './streak';
+import { AchievementId } from './types';
+import { ServerGameState, getReprievedGuessIndex } from './validator';
+
+// Streak a run must reach without a reprieve for 'clean-10'
+export const CLEAN_STREAK = 10;
+
+// Insane-tier pairs in a row for 'perfect-insane'
+export const PERFECT_INSANE_PAIRS = 10;
+
+// Consecutive UTC days played for 'play-streak-7'
+export const PLAY_STREAK_DAYS = 7;
+
+// Leaderboard rank a passed player must have held for 'beat-top-3'
+export const TOP_RANK = 3;
+
+// What unlocks are checked against
+export interface AchievementContext {
+  run?: ServerGameState; // After a guess - the run as it now stands
+  overtakes?: { newRank: number }[]; // After a leaderboard submission - the players it passed (newRank: the rank taken from them)
+  playStreak?: number; // Daily play streak (see play-streak/calendar.ts)
+}
+
+export interface AchievementDefinition {
+  id: AchievementId;
+  name: string;
+  description: string;
+  icon: string;
+  streakMilestone?: number; // Streak milestones - only a player's highest is shown as a badge
+  isUnlocked: (context: AchievementContext) => boolean;
+}
+
+// An unlocked achievement, as sent to the client
+export type AchievementUnlock = Omit<AchievementDefinition, 'isUnlocked'>;
+
+/**
+ * Streak a run's streak counts toward - runs that play through misses
+ * (survival, blitz) and non-pair runs have none
+ */
+function getRunStreak(run: ServerGameState | undefined): number {
+  if (!run || !isStreakRunMode(run.mode ?? 'classic')) return 0;
+  return run.currentStreak;
+}
+
+/**
+ * Insane-tier pairs a streak run has guessed in a row
+ * Counted from the start of the tier, or from the miss a reprieve forgave
+ * (every guess before it was right, so its index is the streak it was made at)
+ */
+function getInsanePairsInARow(run: ServerGameState): number {
+  const insane = DIFFICULTY_TIERS.find(t => t.name === 'Insane')!;
+  const reprievedIndex = getReprievedGuessIndex(run);
+  return run.currentStreak - Math.max(insane.minStreak, reprievedIndex);
+}
+
+const STREAK_MILESTONE_ACHIEVEMENTS: AchievementDefinition[] = Object.entries(STREAK_MILESTONES).map(
+  ([streak, message]) => ({
+    id: `streak-${streak}` as AchievementId,
+    name: `${streak} Streak`,
+    description: message,
+    icon: Number(streak) >= 50 ? '👑' : '🔥',
+    streakMilestone: Number(streak),
+    isUnlocked: ({ run }) => getRunStreak(run) >= Number(streak),
+  })
+);
+
+// Every achievement, in the order badges are shown
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  ...STREAK_MILESTONE_ACHIEVEMENTS,
+  {
+    id: 'clean-10',
+    name: 'Clean Ten',
+    description: `A ${CLEAN_STREAK} streak without a reprieve`,
+    icon: '✨',
+    isUnlocked: ({ run }) => !!run && !run.hasUsedReprieve && getRunStreak(run) >= CLEAN_STREAK,
+  },
+  {
+    id: 'perfect-insane',
+    name: 'Perfect Insane',
+    description: `${PERFECT_INSANE_PAIRS} Insane-tier pairs in a row`,
+    icon: '🧠',
+    isUnlocked: ({ run }) => !!run && getRunStreak(run) > 0 && getInsanePairsInARow(run) >= PERFECT_INSANE_PAIRS,
+  },
+  {
+    id: 'beat-top-3',
+    name: 'Giant Slayer',
+    description: `Passed a top-${TOP_RANK} player on the leaderboard`,
+    icon: '⚔️',
+    isUnlocked: ({ overtakes }) => !!overtakes?.some(o => o.newRank <= TOP_RANK),
+  },
+  {
+    id: 'play-streak-7',
+    name: 'Regular',
+    description: `Played ${PLAY_STREAK_DAYS} days in a row`,
+    icon: '📅',
+    isUnlocked: ({ playStreak }) => (playStreak ?? 0) >= PLAY_STREAK_DAYS,
+  },
+];
+
+const ACHIEVEMENTS_BY_ID = new Map(ACHIEVEMENTS.map(a => [a.id, a]));
+
+/**
+ * Get an achievement's definition
+ */
+export function getAchievement(id: AchievementId): AchievementDefinition | undefined {
+  return ACHIEVEMENTS_BY_ID.get(id);
+}
+
+/**
+ * Achievements a context unlocks that the player doesn't have yet
+ * @param unlocked - The player's unlocked achievements
+ */
+export function evaluateAchievements(
+  context: AchievementContext,
+  unlocked: AchievementId[] = []
+): AchievementDefinition[] {
+  const have = new Set(unlocked);
+  return ACHIEVEMENTS.filter(a => !have.has(a.id) && a.isUnlocked(context));
+}
+
+/**
+ * An achievement as sent to the client (without its unlock check)
+ */
+export function toAchievementUnlock({ id, name, description, icon, streakMilestone }: AchievementDefinition): AchievementUnlock {
+  return { id, name, description, icon, streakMilestone };
+}
+
+/**
+ * The badges shown next to a player - every unlocked achievement, streak
+ * milestones only by the highest reached
+ */
+export function getAchievementBadges(unlocked: AchievementId[]): AchievementId[] {
+  const have = new Set(unlocked);
+  const highestMilestone = Math.max(
+    0,
+    ...ACHIEVEMENTS.filter(a => a.streakMilestone && have.has(a.id)).map(a => a.streakMilestone!)
+  );
+  return ACHIEVEMENTS
+    .filter(a => have.has(a.id) && (!a.streakMilestone || a.streakMilestone === highestMilestone))
+    .map(a => a.id);
+}
@@ -0,0 +1,16 @@
+/**
+ * Challenge Replays for CapOrSlap
+ * Scoring for replaying another player's run
+ */
+
+/**
+ * Head-to-head outcome of a challenge run
+ */
+export function getChallengeOutcome(
+  streak: number,
+  challengerStreak: number
+): 'win' | 'loss' | 'tie' {
+  if (streak > challengerStreak) return 'win';
+  if (streak < challengerStreak) return 'loss';
+  return 'tie';
+}
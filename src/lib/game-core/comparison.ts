@@ -1,4 +1,6 @@
-import { Token, Guess, GuessResult } from './types';
+import { Token, Guess, GuessResult, ComparisonMetric } from './types';
+import { getMetricValue } from './metrics';
+import { scoreGuess } from './tie-policy';
 
 /**
  * Compares two tokens and determines if the guess was correct
@@ -12,9 +14,22 @@ export function compareMarketCaps(
   nextToken: Token,
   guess: Guess
 ): GuessResult {
-  const nextIsHigher = nextToken.marketCap > currentToken.marketCap;
-  const correctAnswer: Guess = nextIsHigher ? 'cap' : 'slap';
-  const correct = guess === correctAnswer;
+  return compareTokens(currentToken, nextToken, guess, 'marketCap');
+}
+
+/**
+ * Compares two tokens on any metric and determines if the guess was correct
+ * Scored with the shared tie policy, so it always agrees with the session
+ * @param metric - What the run compares (see metrics.ts)
+ * @returns GuessResult with correctness and details
+ */
+export function compareTokens(
+  currentToken: Token,
+  nextToken: Token,
+  guess: Guess,
+  metric: ComparisonMetric = 'marketCap'
+): GuessResult {
+  const { correct, correctAnswer } = scoreGuess(currentToken, nextToken, guess, metric);
 
   return {
     correct,
@@ -47,24 +62,95 @@ export function formatMarketCap(marketCap: number): string {
 }
 
 /**
- * Generates explanation text for a loss
- * @param result - The guess result
- * @returns Human readable explanation of the mistake
+ * Formats 24h trading volume for display
+ * @returns Formatted string like "$1.2B" or "$840K"
  */
-export function generateLossExplanation(result: GuessResult): string {
-  const currentCap = formatMarketCap(result.currentToken.marketCap);
-  const nextCap = formatMarketCap(result.nextToken.marketCap);
-  
-  const guessedDirection = result.guess === 'cap' ? 'higher' : 'lower';
-  const actualDirection = result.correctAnswer === 'cap' ? 'higher' : 'lower';
-
-  return `You guessed ${result.nextToken.symbol} was ${guessedDirection} than ${result.currentToken.symbol}, but ${result.nextToken.symbol} (${nextCap}) is actually ${actualDirection} than ${result.currentToken.symbol} (${currentCap}).`;
+export function formatVolume(volume: number): string {
+  return formatMarketCap(volume);
 }
 
+/**
+ * Formats total value locked for display
+ * @returns Formatted string like "$12.4B"
+ */
+export function formatTvl(tvl: number): string {
+  return formatMarketCap(tvl);
+}
 
+/**
+ * Formats a percent price change for display
+ * @param change - Percent change, e.g. -3.24
+ * @returns Formatted string like "+12.4%" or "-3.2%"
+ */
+export function formatPriceChange(change: number): string {
+  const sign = change > 0 ? '+' : change < 0 ? '-' : '';
+  const abs = Math.abs(change);
+  return `${sign}${abs >= 100 ? abs.toFixed(0) : abs.toFixed(1)}%`;
+}
 
+/**
+ * Formats a holder count for display
+ * @returns Formatted string like "1.2M" or "845"
+ */
+export function formatHolders(holders: number): string {
+  if (holders >= 1_000_000) {
+    return `${(holders / 1_000_000).toFixed(1)}M`;
+  }
+  if (holders >= 1_000) {
+    return `${(holders / 1_000).toFixed(1)}K`;
+  }
+  return holders.toFixed(0);
+}
 
+/**
+ * Formats a token's value for a metric
+ * @returns Formatted string, or "?" if the token has no value for it
+ */
+export function formatMetricValue(token: Token, metric: ComparisonMetric = 'marketCap'): string {
+  const value = getMetricValue(token, metric);
+  if (value === undefined) return '?';
 
+  switch (metric) {
+    case 'volume24h':
+      return formatVolume(value);
+    case 'tvl':
+      return formatTvl(value);
+    case 'priceChange24h':
+      return formatPriceChange(value);
+    case 'holders':
+      return formatHolders(value);
+    default:
+      // Market cap and FDV are both valuations
+      return formatMarketCap(value);
+  }
+}
 
+/**
+ * Generates explanation text for a loss
+ * @param result - The guess result
+ * @param metric - What the run compared (default: market cap)
+ * @returns Human readable explanation of the mistake
+ */
+export function generateLossExplanation(result: GuessResult, metric: ComparisonMetric = 'marketCap'): string {
+  const current = result.currentToken.symbol;
+  const next = result.nextToken.symbol;
+  const currentValue = formatMetricValue(result.currentToken, metric);
+  const nextValue = formatMetricValue(result.nextToken, metric);
+  const guessedHigher = result.guess === 'cap';
+  const actuallyHigher = result.correctAnswer === 'cap';
 
-
+  switch (metric) {
+    case 'fullyDilutedValuation':
+      return `You guessed ${next} was worth ${guessedHigher ? 'more' : 'less'} than ${current} fully diluted, but with every token unlocked ${next} (${nextValue}) is actually worth ${actuallyHigher ? 'more' : 'less'} than ${current} (${currentValue}).`;
+    case 'volume24h':
+      return `You guessed ${next} traded ${guessedHigher ? 'more' : 'less'} than ${current} in the last 24h, but ${next} did ${nextValue} in volume against ${current}'s ${currentValue}.`;
+    case 'priceChange24h':
+      return `You guessed ${next} ${guessedHigher ? 'outperformed' : 'underperformed'} ${current} today, but ${next} moved ${nextValue} in 24h while ${current} moved ${currentValue}.`;
+    case 'holders':
+      return `You guessed ${next} had ${guessedHigher ? 'more' : 'fewer'} holders than ${current}, but ${next} has ${nextValue} holders to ${current}'s ${currentValue}.`;
+    case 'tvl':
+      return `You guessed ${next} had ${guessedHigher ? 'more' : 'less'} locked than ${current}, but ${next} holds ${nextValue} in TVL against ${current}'s ${currentValue}.`;
+    default:
+      return `You guessed ${next} was ${guessedHigher ? 'higher' : 'lower'} than ${current}, but ${next} (${nextValue}) is actually ${actuallyHigher ? 'higher' : 'lower'} than ${current} (${currentValue}).`;
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Daily Challenge for CapOrSlap
+ * Every player gets the same token sequence for the UTC day
+ */
+
+import { Token } from './types';
+import { buildSeededSequence } from './seeded-selection';
+
+// Default length of a built daily sequence (initial pair + rounds)
+// Far beyond any realistic streak
+export const DAILY_SEQUENCE_LENGTH = 100;
+
+/**
+ * Get the daily key (YYYY-MM-DD, UTC) for a timestamp
+ */
+export function getDailyKey(timestamp: number = Date.now()): string {
+  const date = new Date(timestamp);
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Check that a string is a valid daily key
+ */
+export function isValidDailyKey(dayKey: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dayKey)) return false;
+  return getDailyKey(Date.parse(`${dayKey}T00:00:00Z`)) === dayKey;
+}
+
+/**
+ * Get the shared seed for a day
+ */
+export function getDailySeed(dayKey: string): string {
+  return `daily_${dayKey}`;
+}
+
+/**
+ * Seconds remaining until the next UTC midnight
+ */
+export function getSecondsUntilNextDay(timestamp: number = Date.now()): number {
+  const date = new Date(timestamp);
+  const nextDay = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+  return Math.ceil((nextDay - timestamp) / 1000);
+}
+
+/**
+ * Build the daily token sequence
+ * Uses the same round seeding as verifyGameSequence, so a daily run
+ * can be replayed against the frozen pool snapshot
+ * @param pool - Frozen token pool snapshot for the day
+ * @param dayKey - Daily key (YYYY-MM-DD)
+ * @param length - Number of tokens to generate
+ * @returns Ordered tokens: [current, next, ...following rounds]
+ */
+export function buildDailySequence(
+  pool: Token[],
+  dayKey: string,
+  length: number = DAILY_SEQUENCE_LENGTH
+): Token[] {
+  return buildSeededSequence(pool, getDailySeed(dayKey), length);
+}
@@ -0,0 +1,134 @@
+/**
+ * Difficulty Simulation for CapOrSlap
+ * Deals pairs for every tier against a token pool and reports the
+ * market cap ratios players actually get
+ */
+
+import { Token } from './types';
+import {
+  DIFFICULTY_TIERS,
+  DifficultyTier,
+  getMcapRatio,
+  selectNextTokenByDifficulty,
+} from './difficulty';
+import { CURATED_TOKENS } from '../data/token-categories';
+
+// Ratio histogram bucket edges (last bucket is open-ended)
+export const RATIO_BUCKETS = [1, 1.1, 1.2, 1.5, 1.8, 2, 2.5, 3, 4, 10, 100];
+
+export interface TierSimulationReport {
+  tier: DifficultyTier['name'];
+  streak: number;
+  band: [number, number]; // The tier's [minMcapRatio, maxMcapRatio]
+  pairs: number;
+  inBandRate: number; // Share of pairs inside the tier's band (0-1)
+  ratios: {
+    min: number;
+    p10: number;
+    median: number;
+    p90: number;
+    max: number;
+  };
+  histogram: { from: number; to: number | null; count: number }[];
+}
+
+/**
+ * Builds a deterministic fixture pool shaped like the live top 500
+ * Curated tokens take the top ranks (so famous-token rules apply as in production),
+ * market caps fall off with a power law from ~$1.4T to ~$125M
+ */
+export function createFixtureTokenPool(size: number = 500): Token[] {
+  const tokens: Token[] = [];
+
+  for (let rank = 1; rank <= size; rank++) {
+    const curated = CURATED_TOKENS[rank - 1];
+    // Small deterministic wobble so neighbouring ranks aren't a perfect curve
+    const wobble = 1 + 0.08 * Math.sin(rank * 12.9898);
+    const marketCap = Math.round((1.4e12 / Math.pow(rank, 1.5)) * wobble);
+
+    tokens.push({
+      id: curated ? curated.id : `fixture-${rank}`,
+      symbol: curated ? curated.symbol : `FX${rank}`,
+      name: curated ? curated.name : `Fixture Token ${rank}`,
+      logoUrl: '',
+      marketCap,
+      chain: 'fixture',
+      address: curated ? curated.id : `fixture-${rank}`,
+      category: curated?.category,
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Value at a percentile of a sorted list
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.floor(p * sorted.length));
+  return sorted[index];
+}
+
+/**
+ * Deals pairs for one tier the way a run at that streak would
+ * @param pairs - Number of pairs to deal
+ */
+export function simulateTier(
+  pool: Token[],
+  tier: DifficultyTier,
+  pairs: number
+): TierSimulationReport {
+  const streak = tier.minStreak;
+  const ratios: number[] = [];
+
+  // Walk a chain like a real run: each dealt token becomes the next known token
+  let current = pool[Math.floor(Math.random() * pool.length)];
+  let recentIds: string[] = [];
+
+  for (let i = 0; i < pairs; i++) {
+    const next = selectNextTokenByDifficulty(pool, current, streak, recentIds);
+    if (!next) break;
+
+    ratios.push(getMcapRatio(current, next));
+    recentIds = [...recentIds, current.id].slice(-10);
+    current = next;
+  }
+
+  const sorted = [...ratios].sort((a, b) => a - b);
+  const inBand = ratios.filter(r => r >= tier.minMcapRatio && r <= tier.maxMcapRatio).length;
+
+  const histogram = RATIO_BUCKETS.map((from, i) => {
+    const to = i < RATIO_BUCKETS.length - 1 ? RATIO_BUCKETS[i + 1] : null;
+    const count = ratios.filter(r => r >= from && (to === null || r < to)).length;
+    return { from, to, count };
+  });
+
+  return {
+    tier: tier.name,
+    streak,
+    band: [tier.minMcapRatio, tier.maxMcapRatio],
+    pairs: ratios.length,
+    inBandRate: ratios.length > 0 ? inBand / ratios.length : 0,
+    ratios: {
+      min: sorted[0] ?? 0,
+      p10: percentile(sorted, 0.1),
+      median: percentile(sorted, 0.5),
+      p90: percentile(sorted, 0.9),
+      max: sorted[sorted.length - 1] ?? 0,
+    },
+    histogram,
+  };
+}
+
+/**
+ * Runs the simulation for every difficulty tier
+ * @param pool - Token pool to deal from (defaults to the fixture pool)
+ * @param pairsPerTier - Pairs dealt per tier
+ */
+export function simulateDifficulty(
+  pool: Token[] = createFixtureTokenPool(),
+  pairsPerTier: number = 500
+): TierSimulationReport[] {
+  return DIFFICULTY_TIERS.map(tier => simulateTier(pool, tier, pairsPerTier));
+}
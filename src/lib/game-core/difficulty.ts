@@ -1,10 +1,26 @@
 /**
  * Difficulty System for CapOrSlap
- * Progressive difficulty that adjusts token selection based on streak
+ * Progressive difficulty that adjusts token selection based on streak -
+ * and, for players with a skill rating, on their chance of winning the pair.
+ * Hard and harder tiers also use how often players really miss a pair.
  */
 
 import { Token } from './types';
 import { isFamousToken } from '../data/token-categories';
+import { TokenStats, getPairHardness } from './token-stats';
+import {
+  SkillRating,
+  getFamousTokenIds,
+  getPairDifficulty,
+  getPairFeatures,
+  getTargetWinProbability,
+  getWinProbability,
+  isCalibratedRating,
+} from './skill-rating';
+
+// Rated selection: how far (in win probability) a pair can stray from the target
+// before it's half as likely to be dealt
+const SKILL_TARGET_SPREAD = 0.1;
 
 /**
  * Difficulty tier configuration
@@ -16,6 +32,8 @@ export interface DifficultyTier {
   minMcapRatio: number;  // Minimum ratio between tokens (e.g., 1.5 = 50% difference)
   maxMcapRatio: number;  // Maximum ratio between tokens
   tokenPoolSize: number; // How many top tokens to include in pool
+  preferFamous: boolean; // Draw from famous tokens first (recognizable early game)
+  preferHardPairs: boolean; // Favour pairs players miss more than the ratio suggests (see token-stats.ts)
 }
 
 /**
@@ -28,7 +46,9 @@ export const DIFFICULTY_TIERS: DifficultyTier[] = [
     maxStreak: 4,  
     minMcapRatio: 3,    // At least 3x difference
     maxMcapRatio: 100,  // Up to 100x difference
-    tokenPoolSize: 40   // Top 40 tokens only
+    tokenPoolSize: 40,  // Top 40 tokens only
+    preferFamous: true,
+    preferHardPairs: false,
   },
   { 
     name: 'Medium',  
@@ -36,7 +56,9 @@ export const DIFFICULTY_TIERS: DifficultyTier[] = [
     maxStreak: 9,  
     minMcapRatio: 2,    // At least 2x difference
     maxMcapRatio: 10,   // Up to 10x difference
-    tokenPoolSize: 60   // Top 60 tokens
+    tokenPoolSize: 60,  // Top 60 tokens
+    preferFamous: false,
+    preferHardPairs: false,
   },
   { 
     name: 'Hard',    
@@ -44,7 +66,9 @@ export const DIFFICULTY_TIERS: DifficultyTier[] = [
     maxStreak: 14, 
     minMcapRatio: 1.5,  // At least 1.5x difference
     maxMcapRatio: 4,    // Up to 4x difference
-    tokenPoolSize: 200   // Top 200 tokens
+    tokenPoolSize: 200, // Top 200 tokens
+    preferFamous: false,
+    preferHardPairs: true,
   },
   { 
     name: 'Expert',  
@@ -52,7 +76,9 @@ export const DIFFICULTY_TIERS: DifficultyTier[] = [
     maxStreak: 19, 
     minMcapRatio: 1.2,  // At least 1.2x difference
     maxMcapRatio: 2.5,  // Up to 2.5x difference
-    tokenPoolSize: 350  // Top 350 tokens
+    tokenPoolSize: 350, // Top 350 tokens
+    preferFamous: false,
+    preferHardPairs: true,
   },
   { 
     name: 'Insane',  
@@ -60,7 +86,9 @@ export const DIFFICULTY_TIERS: DifficultyTier[] = [
     maxStreak: 999, 
     minMcapRatio: 1.1,  // Very close - at least 1.1x difference
     maxMcapRatio: 1.8,  // Up to 1.8x difference
-    tokenPoolSize: 500  // All tokens
+    tokenPoolSize: 500, // All tokens
+    preferFamous: false,
+    preferHardPairs: true,
   },
 ];
 
@@ -145,21 +173,92 @@ export function findValidCandidates(
   });
 }
 
+/**
+ * Weighted random pick
+ */
+function pickWeighted(weighted: { token: Token; weight: number }[]): Token | null {
+  const totalWeight = weighted.reduce((sum, c) => sum + c.weight, 0);
+  let random = Math.random() * totalWeight;
+  
+  for (const { token, weight } of weighted) {
+    random -= weight;
+    if (random <= 0) {
+      return token;
+    }
+  }
+  
+  // Fallback to first candidate
+  return weighted[0]?.token ?? null;
+}
+
+/**
+ * Extra weight for pairs players miss more often than most, in tiers that prefer them
+ * (1 everywhere else, and until there are enough guesses to tell)
+ */
+function getHardPairWeight(
+  tier: DifficultyTier,
+  currentToken: Token,
+  candidate: Token,
+  tokenStats?: TokenStats
+): number {
+  if (!tier.preferHardPairs || !tokenStats) return 1;
+  return getPairHardness(tokenStats, currentToken.id, candidate.id);
+}
+
+/**
+ * Rated players: picks a token the player should beat with the streak's
+ * target win probability (see skill-rating.ts)
+ * The tier still decides pool size, famous preference and whether hard pairs are favoured
+ * @param fullPool - The whole pool (fame is relative to it)
+ */
+function selectNextTokenBySkill(
+  candidatePool: Token[],
+  fullPool: Token[],
+  currentToken: Token,
+  streak: number,
+  skill: SkillRating,
+  recentTokenIds: string[],
+  tokenStats?: TokenStats
+): Token | null {
+  const tier = getTierForStreak(streak);
+  const tierPool = filterTokenPoolByTier(candidatePool, tier);
+  const candidates = tierPool.filter(t => t.id !== currentToken.id && !recentTokenIds.includes(t.id));
+  if (candidates.length === 0) return null;
+  
+  const famousIds = getFamousTokenIds(fullPool);
+  const target = getTargetWinProbability(streak);
+  
+  // Highest weight for pairs right on the target
+  return pickWeighted(candidates.map(candidate => {
+    const difficulty = getPairDifficulty(getPairFeatures(currentToken, candidate, famousIds));
+    const distance = (getWinProbability(skill, difficulty) - target) / SKILL_TARGET_SPREAD;
+    const weight = Math.pow(0.5, distance * distance);
+    return { token: candidate, weight: weight * getHardPairWeight(tier, currentToken, candidate, tokenStats) };
+  }));
+}
+
 /**
  * Select a token pair based on difficulty
  * Returns a valid next token given the current token and streak
+ * Used at every streak - the tier in DIFFICULTY_TIERS decides pool, ratio band and famous preference
+ * @param skill - The player's rating; once calibrated, pairs are picked by win probability
+ *                instead of the tier's ratio band
+ * @param tokenStats - Players' accuracy on tokens and pairs, for tiers that prefer hard pairs
  */
 export function selectNextTokenByDifficulty(
   allTokens: Token[],
   currentToken: Token,
   streak: number,
-  recentTokenIds: string[] = []
+  recentTokenIds: string[] = [],
+  skill?: SkillRating,
+  tokenStats?: TokenStats
 ): Token | null {
   const tier = getTierForStreak(streak);
+  const tierIndex = DIFFICULTY_TIERS.indexOf(tier);
   
-  // For streaks 0-4, prioritize famous tokens
+  // Early tiers prioritize famous tokens
   let candidatePool = allTokens;
-  if (streak >= 0 && streak <= 4) {
+  if (tier.preferFamous) {
     const famousTokens = getFamousTokens(allTokens);
     if (famousTokens.length >= 2) {
       // Use famous tokens as primary pool, but allow fallback to all tokens
@@ -167,6 +266,13 @@ export function selectNextTokenByDifficulty(
     }
   }
   
+  if (skill && isCalibratedRating(skill)) {
+    const rated = selectNextTokenBySkill(
+      candidatePool, allTokens, currentToken, streak, skill, recentTokenIds, tokenStats
+    );
+    if (rated) return rated;
+  }
+  
   // First, filter pool by tier size
   const tierPool = filterTokenPoolByTier(candidatePool, tier);
   
@@ -179,11 +285,10 @@ export function selectNextTokenByDifficulty(
     candidates = findValidCandidates(candidatePool, currentToken, tier, recentTokenIds);
   }
   
-  // If still no candidates, relax ratio constraints
-  if (candidates.length === 0) {
-    // Use Easy tier constraints as fallback
-    const easyTier = DIFFICULTY_TIERS[0];
-    candidates = findValidCandidates(candidatePool, currentToken, easyTier, recentTokenIds);
+  // If still no candidates, relax ratio constraints one tier at a time
+  // (nearest easier band first, so a sparse pool doesn't drop Insane straight to Easy)
+  for (let i = tierIndex - 1; i >= 0 && candidates.length === 0; i--) {
+    candidates = findValidCandidates(candidatePool, currentToken, DIFFICULTY_TIERS[i], recentTokenIds);
   }
   
   // Final fallback: any token except current and recent (from candidate pool)
@@ -199,7 +304,7 @@ export function selectNextTokenByDifficulty(
   }
   
   // If still no candidates and we were using famous tokens, fallback to all tokens
-  if (candidates.length === 0 && streak >= 0 && streak <= 4 && candidatePool !== allTokens) {
+  if (candidates.length === 0 && candidatePool !== allTokens) {
     candidates = allTokens.filter(t => 
       t.id !== currentToken.id && !recentTokenIds.includes(t.id)
     );
@@ -220,22 +325,11 @@ export function selectNextTokenByDifficulty(
     // Higher weight for ratios closer to middle
     const distance = Math.abs(ratio - midRatio);
     const weight = 1 / (1 + distance * 0.5);
-    return { token: candidate, weight };
+    return { token: candidate, weight: weight * getHardPairWeight(tier, currentToken, candidate, tokenStats) };
   });
   
   // Weighted random selection
-  const totalWeight = weightedCandidates.reduce((sum, c) => sum + c.weight, 0);
-  let random = Math.random() * totalWeight;
-  
-  for (const { token, weight } of weightedCandidates) {
-    random -= weight;
-    if (random <= 0) {
-      return token;
-    }
-  }
-  
-  // Fallback to first candidate
-  return candidates[0];
+  return pickWeighted(weightedCandidates);
 }
 
 /**
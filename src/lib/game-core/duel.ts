@@ -0,0 +1,433 @@
+/**
+ * Duels for CapOrSlap
+ * Two players race through the same seeded token sequence. Every round both
+ * see the same pair on the same clock; the first wrong answer loses the duel
+ * and speed breaks ties.
+ *
+ * Pure state transitions only - storage and matchmaking live in lib/duel.
+ */
+
+import { Guess, Token } from './types';
+import { buildSeededSequence } from './seeded-selection';
+import { getTimerDuration } from './timer';
+import { getCorrectAnswer, scoreGuess } from './tie-policy';
+
+// Tokens dealt per duel (initial pair + rounds) - far beyond any realistic duel
+export const DUEL_SEQUENCE_LENGTH = 60;
+
+// Countdown before the first round, so both players start together
+export const DUEL_COUNTDOWN_MS = 3000;
+
+// Pause between rounds while both players see the answer
+export const DUEL_REVEAL_MS = 3000;
+
+// Latency allowance on top of a round's deadline
+export const DUEL_ANSWER_GRACE_MS = 1000;
+
+export type DuelStatus = 'waiting' | 'active' | 'finished' | 'cancelled';
+
+export type DuelEndReason =
+  | 'wrong_answer'       // One player answered wrong (or ran out of time)
+  | 'both_wrong'         // Both missed the same round - speed decides
+  | 'sequence_complete'  // Ran out of tokens - speed decides
+  | 'forfeit';           // A player left
+
+export interface DuelAnswer {
+  guess: Guess | null; // null = ran out of time
+  answeredAt: number;
+  correct: boolean;
+}
+
+export interface DuelRound {
+  roundNumber: number; // 0-based, also drives the timer tier
+  currentTokenId: string;
+  nextTokenId: string;
+  startsAt: number;
+  deadline: number;
+  answers: Record<string, DuelAnswer>; // By userId
+  correctAnswer?: Guess; // Set once the round is resolved
+  resolvedAt?: number;
+}
+
+export interface DuelState {
+  duelId: string;
+  seed: string;
+  inviteCode: string;
+  hostId: string;
+  guestId: string | null;
+  invitedUserId: string | null; // Only this user may join, if set
+  displayNames: Record<string, string>;
+  status: DuelStatus;
+  sequence: Token[]; // Frozen at creation, so both players get the same caps
+  rounds: DuelRound[];
+  winnerId: string | null; // null while playing, or on a draw
+  endReason?: DuelEndReason;
+  createdAt: number;
+  finishedAt?: number;
+  version: number; // Bumped on every change, so listeners can skip repeats
+}
+
+// Same shape as the routes' error responses, so they can pass it straight through
+export type DuelResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string; status: number };
+
+// Token as a player sees it - the next token's cap stays hidden until the round resolves
+export type DuelTokenView = Omit<Token, 'marketCap'> & { marketCap: number | null };
+
+export interface DuelRoundView {
+  roundNumber: number;
+  startsAt: number;
+  deadline: number;
+  currentToken: DuelTokenView;
+  nextToken: DuelTokenView;
+  yourAnswer: DuelAnswer | null;
+  opponentAnswered: boolean;
+  opponentAnswer: DuelAnswer | null; // Only once the round is resolved
+  correctAnswer: Guess | null;
+  resolved: boolean;
+}
+
+export interface DuelView {
+  duelId: string;
+  inviteCode: string;
+  status: DuelStatus;
+  hostId: string;
+  guestId: string | null;
+  invitedUserId: string | null;
+  displayNames: Record<string, string>;
+  you: string;
+  opponentId: string | null;
+  round: DuelRoundView | null;
+  nextRoundAt: number | null; // Set during the countdown and between rounds
+  roundsWon: number; // Rounds both players survived
+  winnerId: string | null;
+  endReason: DuelEndReason | null;
+  totalAnswerMs: Record<string, number> | null; // Revealed once finished
+  serverTime: number;
+  version: number;
+}
+
+interface CreateDuelStateParams {
+  duelId: string;
+  seed: string;
+  inviteCode: string;
+  hostId: string;
+  invitedUserId?: string | null;
+  hostName?: string;
+  pool: Token[];
+  now: number;
+}
+
+/**
+ * Creates a duel waiting for its second player
+ * @returns null if the pool is too small to deal a duel
+ */
+export function createDuelState(params: CreateDuelStateParams): DuelState | null {
+  const sequence = buildSeededSequence(params.pool, params.seed, DUEL_SEQUENCE_LENGTH);
+  if (sequence.length < 2) return null;
+
+  return {
+    duelId: params.duelId,
+    seed: params.seed,
+    inviteCode: params.inviteCode,
+    hostId: params.hostId,
+    guestId: null,
+    invitedUserId: params.invitedUserId ?? null,
+    displayNames: { [params.hostId]: params.hostName || params.hostId },
+    status: 'waiting',
+    sequence,
+    rounds: [],
+    winnerId: null,
+    createdAt: params.now,
+    version: 0,
+  };
+}
+
+/**
+ * Both players in a duel (the guest may not have joined yet)
+ */
+export function getDuelPlayers(state: DuelState): string[] {
+  return state.guestId ? [state.hostId, state.guestId] : [state.hostId];
+}
+
+/**
+ * Check that a user is playing in a duel
+ */
+export function isDuelPlayer(state: DuelState, userId: string): boolean {
+  return userId === state.hostId || userId === state.guestId;
+}
+
+function makeRound(state: DuelState, roundNumber: number, startsAt: number): DuelRound | null {
+  const current = state.sequence[roundNumber];
+  const next = state.sequence[roundNumber + 1];
+  if (!current || !next) return null;
+
+  return {
+    roundNumber,
+    currentTokenId: current.id,
+    nextTokenId: next.id,
+    startsAt,
+    deadline: startsAt + getTimerDuration(roundNumber) * 1000,
+    answers: {},
+  };
+}
+
+/**
+ * Seats the second player and starts the countdown to round one
+ */
+export function startDuel(
+  state: DuelState,
+  guestId: string,
+  guestName: string | undefined,
+  now: number
+): DuelResult<{ duel: DuelState }> {
+  if (state.status !== 'waiting') {
+    return { success: false, error: 'Duel already started', status: 409 };
+  }
+  if (guestId === state.hostId) {
+    return { success: false, error: 'Cannot duel yourself', status: 400 };
+  }
+  if (state.invitedUserId && state.invitedUserId !== guestId) {
+    return { success: false, error: 'This duel is reserved for another player', status: 403 };
+  }
+
+  const firstRound = makeRound(state, 0, now + DUEL_COUNTDOWN_MS);
+  if (!firstRound) {
+    return { success: false, error: 'Duel has no tokens to play', status: 500 };
+  }
+
+  return {
+    success: true,
+    duel: {
+      ...state,
+      guestId,
+      displayNames: { ...state.displayNames, [guestId]: guestName || guestId },
+      status: 'active',
+      rounds: [firstRound],
+      version: state.version + 1,
+    },
+  };
+}
+
+/**
+ * Total time a player spent answering - the tiebreak
+ * Missed rounds count as the full round
+ */
+export function getTotalAnswerMs(state: DuelState, userId: string): number {
+  return state.rounds.reduce((total, round) => {
+    const answer = round.answers[userId];
+    return answer ? total + (answer.answeredAt - round.startsAt) : total;
+  }, 0);
+}
+
+function finishDuel(
+  state: DuelState,
+  winnerId: string | null,
+  endReason: DuelEndReason,
+  finishedAt: number
+): DuelState {
+  return { ...state, status: 'finished', winnerId, endReason, finishedAt };
+}
+
+/**
+ * Speed tiebreak - the faster player overall wins, equal times draw
+ */
+function finishOnSpeed(state: DuelState, endReason: DuelEndReason, finishedAt: number): DuelState {
+  const [hostMs, guestMs] = [state.hostId, state.guestId ?? ''].map(id => getTotalAnswerMs(state, id));
+  const winnerId = hostMs === guestMs ? null : hostMs < guestMs ? state.hostId : state.guestId;
+  return finishDuel(state, winnerId, endReason, finishedAt);
+}
+
+/**
+ * Resolves rounds that are over and deals the next ones
+ * Rounds end once both players have answered or the deadline (plus grace)
+ * has passed; players who didn't answer in time count as wrong. Call before
+ * every read so the duel moves on without a background timer.
+ * @returns The same object if nothing changed
+ */
+export function advanceDuel(state: DuelState, now: number): DuelState {
+  let duel = state;
+
+  while (duel.status === 'active') {
+    const round = duel.rounds[duel.rounds.length - 1];
+    if (!round || round.resolvedAt !== undefined) break;
+
+    const players = getDuelPlayers(duel);
+    const allAnswered = players.every(id => round.answers[id]);
+    if (!allAnswered && now <= round.deadline + DUEL_ANSWER_GRACE_MS) break;
+
+    // Fill in missed answers at the deadline
+    const answers = { ...round.answers };
+    for (const id of players) {
+      if (!answers[id]) {
+        answers[id] = { guess: null, answeredAt: round.deadline, correct: false };
+      }
+    }
+
+    const current = duel.sequence[round.roundNumber];
+    const next = duel.sequence[round.roundNumber + 1];
+    const resolvedAt = allAnswered
+      ? Math.max(...players.map(id => answers[id].answeredAt))
+      : round.deadline + DUEL_ANSWER_GRACE_MS;
+
+    const resolvedRound: DuelRound = {
+      ...round,
+      answers,
+      correctAnswer: getCorrectAnswer(current.marketCap, next.marketCap),
+      resolvedAt,
+    };
+
+    duel = {
+      ...duel,
+      rounds: [...duel.rounds.slice(0, -1), resolvedRound],
+      version: duel.version + 1,
+    };
+
+    const survivors = players.filter(id => answers[id].correct);
+    if (survivors.length === 1) {
+      duel = finishDuel(duel, survivors[0], 'wrong_answer', resolvedAt);
+    } else if (survivors.length === 0) {
+      duel = finishOnSpeed(duel, 'both_wrong', resolvedAt);
+    } else {
+      const nextRound = makeRound(duel, round.roundNumber + 1, resolvedAt + DUEL_REVEAL_MS);
+      duel = nextRound
+        ? { ...duel, rounds: [...duel.rounds, nextRound] }
+        : finishOnSpeed(duel, 'sequence_complete', resolvedAt);
+    }
+  }
+
+  return duel;
+}
+
+/**
+ * Records a player's answer for the current round
+ * The round resolves as soon as both players have answered.
+ */
+export function answerDuelRound(
+  state: DuelState,
+  userId: string,
+  guess: Guess,
+  now: number
+): DuelResult<{ duel: DuelState }> {
+  const duel = advanceDuel(state, now);
+
+  if (!isDuelPlayer(duel, userId)) {
+    return { success: false, error: 'Not a player in this duel', status: 403 };
+  }
+  if (duel.status !== 'active') {
+    return { success: false, error: 'Duel is not active', status: 409 };
+  }
+
+  const round = duel.rounds[duel.rounds.length - 1];
+  if (now < round.startsAt) {
+    return { success: false, error: 'Round has not started yet', status: 425 };
+  }
+  if (round.answers[userId]) {
+    return { success: false, error: 'Already answered this round', status: 409 };
+  }
+
+  const current = duel.sequence[round.roundNumber];
+  const next = duel.sequence[round.roundNumber + 1];
+  const answer: DuelAnswer = {
+    guess,
+    answeredAt: Math.min(now, round.deadline),
+    correct: scoreGuess(current, next, guess).correct,
+  };
+
+  const answered: DuelState = {
+    ...duel,
+    rounds: [
+      ...duel.rounds.slice(0, -1),
+      { ...round, answers: { ...round.answers, [userId]: answer } },
+    ],
+    version: duel.version + 1,
+  };
+
+  return { success: true, duel: advanceDuel(answered, now) };
+}
+
+/**
+ * A player leaves - cancels a duel nobody joined, forfeits a running one
+ */
+export function leaveDuel(state: DuelState, userId: string, now: number): DuelResult<{ duel: DuelState }> {
+  if (!isDuelPlayer(state, userId)) {
+    return { success: false, error: 'Not a player in this duel', status: 403 };
+  }
+
+  if (state.status === 'waiting') {
+    return {
+      success: true,
+      duel: { ...state, status: 'cancelled', finishedAt: now, version: state.version + 1 },
+    };
+  }
+
+  if (state.status === 'active') {
+    const winnerId = userId === state.hostId ? state.guestId : state.hostId;
+    return {
+      success: true,
+      duel: { ...finishDuel(state, winnerId, 'forfeit', now), version: state.version + 1 },
+    };
+  }
+
+  return { success: false, error: 'Duel is already over', status: 409 };
+}
+
+function toTokenView(token: Token, revealCap: boolean): DuelTokenView {
+  return { ...token, marketCap: revealCap ? token.marketCap : null };
+}
+
+/**
+ * What one player is allowed to see of a duel
+ * The next token's cap and the opponent's guess stay hidden until the round
+ * resolves, and a round's tokens stay hidden until it starts.
+ */
+export function getDuelView(state: DuelState, userId: string, now: number): DuelView {
+  const opponentId = userId === state.hostId ? state.guestId : state.hostId;
+
+  // The newest round that has started (during reveals, the one just resolved)
+  const visibleRounds = state.rounds.filter(r => r.startsAt <= now);
+  const round = visibleRounds[visibleRounds.length - 1];
+  const upcoming = state.rounds.find(r => r.startsAt > now);
+
+  let roundView: DuelRoundView | null = null;
+  if (round) {
+    const resolved = round.resolvedAt !== undefined;
+    roundView = {
+      roundNumber: round.roundNumber,
+      startsAt: round.startsAt,
+      deadline: round.deadline,
+      currentToken: toTokenView(state.sequence[round.roundNumber], true),
+      nextToken: toTokenView(state.sequence[round.roundNumber + 1], resolved),
+      yourAnswer: round.answers[userId] ?? null,
+      opponentAnswered: opponentId ? Boolean(round.answers[opponentId]) : false,
+      opponentAnswer: resolved && opponentId ? round.answers[opponentId] ?? null : null,
+      correctAnswer: round.correctAnswer ?? null,
+      resolved,
+    };
+  }
+
+  const finished = state.status === 'finished';
+
+  return {
+    duelId: state.duelId,
+    inviteCode: state.inviteCode,
+    status: state.status,
+    hostId: state.hostId,
+    guestId: state.guestId,
+    invitedUserId: state.invitedUserId,
+    displayNames: state.displayNames,
+    you: userId,
+    opponentId,
+    round: roundView,
+    nextRoundAt: upcoming?.startsAt ?? null,
+    roundsWon: state.rounds.filter(r => r.resolvedAt !== undefined && getDuelPlayers(state).every(id => r.answers[id]?.correct)).length,
+    winnerId: state.winnerId,
+    endReason: state.endReason ?? null,
+    totalAnswerMs: finished
+      ? Object.fromEntries(getDuelPlayers(state).map(id => [id, getTotalAnswerMs(state, id)]))
+      : null,
+    serverTime: now,
+    version: state.version,
+  };
+}
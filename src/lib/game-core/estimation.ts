@@ -0,0 +1,104 @@
+/**
+ * Market Cap Estimation Rounds for CapOrSlap
+ * The player sets a slider on a log scale to estimate a hidden token's market
+ * cap. The score decays with the log-distance (orders of magnitude) between
+ * the estimate and the true value. Classic runs get one as a bonus round every
+ * few correct answers; estimation runs are nothing but.
+ */
+
+import { GameMode, Token } from './types';
+import { getMcapRatio } from './difficulty';
+
+// Slider range - $100K to $10T covers every token in the pool
+export const ESTIMATE_MIN_CAP = 1e5;
+export const ESTIMATE_MAX_CAP = 1e13;
+
+// Points for a dead-on estimate
+export const ESTIMATE_MAX_POINTS = 100;
+
+// Every quarter order of magnitude off (~1.8x) halves the points
+export const ESTIMATE_HALF_LIFE_DECADES = 0.25;
+
+// Classic runs: a bonus round every this many correct answers
+export const ESTIMATE_BONUS_EVERY = 5;
+
+// Estimation runs: rounds per run, and the time for each
+export const ESTIMATION_ROUNDS = 10;
+export const ESTIMATE_ROUND_SECONDS = 20;
+
+/**
+ * Slider position (0-1) for a market cap
+ */
+export function capToSliderPosition(marketCap: number): number {
+  const clamped = Math.min(Math.max(marketCap, ESTIMATE_MIN_CAP), ESTIMATE_MAX_CAP);
+  return Math.log10(clamped / ESTIMATE_MIN_CAP) / Math.log10(ESTIMATE_MAX_CAP / ESTIMATE_MIN_CAP);
+}
+
+/**
+ * Market cap for a slider position (0-1)
+ */
+export function sliderPositionToCap(position: number): number {
+  const clamped = Math.min(Math.max(position, 0), 1);
+  return ESTIMATE_MIN_CAP * Math.pow(ESTIMATE_MAX_CAP / ESTIMATE_MIN_CAP, clamped);
+}
+
+/**
+ * Check if an estimate is a market cap the slider can produce
+ */
+export function isValidEstimate(estimate: unknown): estimate is number {
+  return typeof estimate === 'number'
+    && Number.isFinite(estimate)
+    && estimate >= ESTIMATE_MIN_CAP
+    && estimate <= ESTIMATE_MAX_CAP;
+}
+
+/**
+ * Orders of magnitude between an estimate and the true value
+ * (log10 of the market cap ratio - see getMcapRatio)
+ */
+export function getEstimateLogDistance(estimate: number, marketCap: number): number {
+  const ratio = getMcapRatio({ marketCap: estimate } as Token, { marketCap } as Token);
+  return Number.isFinite(ratio) ? Math.log10(ratio) : Infinity;
+}
+
+/**
+ * Scores an estimate
+ * @returns Points (0 to ESTIMATE_MAX_POINTS) and how far off it was
+ */
+export function scoreEstimate(
+  estimate: number,
+  marketCap: number
+): { points: number; logDistance: number } {
+  const logDistance = getEstimateLogDistance(estimate, marketCap);
+  const points = Math.round(ESTIMATE_MAX_POINTS * Math.pow(0.5, logDistance / ESTIMATE_HALF_LIFE_DECADES));
+  return { points, logDistance };
+}
+
+/**
+ * Check if reaching a streak earns a bonus estimate
+ * Classic runs only - the other modes have boards of their own to keep comparable
+ */
+export function isEstimationBonusRound(mode: GameMode, streak: number): boolean {
+  return mode === 'classic' && streak > 0 && streak % ESTIMATE_BONUS_EVERY === 0;
+}
+
+/**
+ * A token without its market cap - estimation and ranking rounds keep the
+ * answer on the server until the round is scored
+ * The other metrics go too - FDV and TVL give the market cap away
+ */
+export function hideMarketCap(token: Token): Token {
+  return {
+    id: token.id,
+    symbol: token.symbol,
+    name: token.name,
+    logoUrl: token.logoUrl,
+    chain: token.chain,
+    address: token.address,
+    category: token.category,
+    description: token.description,
+    website: token.website,
+    twitter: token.twitter,
+    marketCap: 0,
+  };
+}
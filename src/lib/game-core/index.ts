@@ -8,4 +8,16 @@ export * from './timer';
 export * from './seeded-selection';
 export * from './validator';
 export * from './difficulty';
+export * from './daily';
+export * from './challenge';
+export * from './themes';
 
+export * from './duel';
+export * from './time-machine';
+export * from './metrics';
+export * from './survival';
+export * from './ranking';
+export * from './estimation';
+export * from './skill-rating';
+export * from './token-stats';
+export * from './achievements';
@@ -0,0 +1,129 @@
+/**
+ * Market Cap Snapshots for CapOrSlap
+ * Each run is dealt from a frozen id -> market cap map, stored once per
+ * distinct content hash. Runs started from the same pool refresh share one.
+ * Metric runs freeze their metric's values the same way.
+ */
+
+import { createHash } from 'crypto';
+import { ComparisonMetric, MarketCapSnapshot, Token } from './types';
+import { getMetricValue, withMetricValue } from './metrics';
+import { getStore } from '../store';
+
+// Snapshots only need to outlive the runs dealt from them (and their submission)
+export const MARKET_CAP_SNAPSHOT_TTL_SECONDS = 60 * 60 * 24;
+
+// Hashes seen by this instance are cached - content-addressed, so they never change
+const MAX_CACHED_SNAPSHOTS = 50;
+
+// Redis key patterns
+const KEYS = {
+  snapshot: (hash: string) => `snapshot:mcap:${hash}`,
+};
+
+// Snapshots this instance has stored or loaded
+const localSnapshots = new Map<string, { snapshot: MarketCapSnapshot; storedAt: number }>();
+
+function cacheSnapshot(hash: string, snapshot: MarketCapSnapshot, storedAt: number): void {
+  if (localSnapshots.size >= MAX_CACHED_SNAPSHOTS && !localSnapshots.has(hash)) {
+    // Maps iterate in insertion order - drop the oldest
+    const oldest = localSnapshots.keys().next().value;
+    if (oldest) localSnapshots.delete(oldest);
+  }
+  localSnapshots.set(hash, { snapshot, storedAt });
+}
+
+/**
+ * Builds a snapshot from tokens, in canonical (ID-sorted) order
+ * @param metric - Value to freeze (tokens without one are left out)
+ */
+export function buildMarketCapSnapshot(tokens: Token[], metric: ComparisonMetric = 'marketCap'): MarketCapSnapshot {
+  const snapshot: MarketCapSnapshot = {};
+  const sorted = [...tokens].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  for (const token of sorted) {
+    const value = getMetricValue(token, metric);
+    if (value !== undefined) snapshot[token.id] = value;
+  }
+  return snapshot;
+}
+
+/**
+ * Content hash of a snapshot (SHA-256, first 128 bits as hex)
+ * Key order doesn't matter - the same caps always hash the same
+ */
+export function hashMarketCapSnapshot(snapshot: MarketCapSnapshot): string {
+  const entries = Object.keys(snapshot).sort().map(id => [id, snapshot[id]]);
+  return createHash('sha256').update(JSON.stringify(entries)).digest('hex').slice(0, 32);
+}
+
+/**
+ * Snapshots the market caps of the tokens a run will be dealt from
+ * @param metric - What the run compares (default: market cap)
+ * @returns The snapshot's content hash
+ */
+export async function storeMarketCapSnapshot(
+  tokens: Token[],
+  metric: ComparisonMetric = 'marketCap'
+): Promise<string> {
+  const snapshot = buildMarketCapSnapshot(tokens, metric);
+  const hash = hashMarketCapSnapshot(snapshot);
+  const now = Date.now();
+
+  // Already stored recently enough that it will outlive this run
+  const cached = localSnapshots.get(hash);
+  if (cached && now - cached.storedAt < (MARKET_CAP_SNAPSHOT_TTL_SECONDS * 1000) / 2) {
+    return hash;
+  }
+
+  // Same hash, same content - overwriting just refreshes the TTL
+  await getStore().set(KEYS.snapshot(hash), JSON.stringify(snapshot), {
+    ex: MARKET_CAP_SNAPSHOT_TTL_SECONDS,
+  });
+
+  cacheSnapshot(hash, snapshot, now);
+  return hash;
+}
+
+/**
+ * Loads a snapshot by its content hash
+ * @returns The snapshot, or null if it expired or doesn't match its hash
+ */
+export async function loadMarketCapSnapshot(hash: string): Promise<MarketCapSnapshot | null> {
+  const cached = localSnapshots.get(hash);
+  if (cached) return cached.snapshot;
+
+  try {
+    const data = await getStore().get(KEYS.snapshot(hash));
+    if (!data) return null;
+
+    const snapshot: MarketCapSnapshot = typeof data === 'string' ? JSON.parse(data) : data as MarketCapSnapshot;
+    if (hashMarketCapSnapshot(snapshot) !== hash) {
+      console.error(`[Snapshot] Content hash mismatch for ${hash}`);
+      return null;
+    }
+
+    cacheSnapshot(hash, snapshot, 0); // Unknown store time - re-store if this run's pool is snapshotted again
+    return snapshot;
+  } catch (error) {
+    console.error('[Snapshot] Error loading market cap snapshot:', error);
+    return null;
+  }
+}
+
+/**
+ * Applies a snapshot's market caps (or metric values) to tokens
+ * Tokens that aren't in the snapshot are dropped - a run is only ever dealt snapshotted tokens
+ */
+export function applyMarketCapSnapshot(
+  tokens: Token[],
+  snapshot: MarketCapSnapshot,
+  metric: ComparisonMetric = 'marketCap'
+): Token[] {
+  const applied: Token[] = [];
+  for (const token of tokens) {
+    const value = snapshot[token.id];
+    if (value === undefined) continue;
+    applied.push(withMetricValue(token, metric, value));
+  }
+  return applied;
+}
@@ -0,0 +1,131 @@
+/**
+ * Comparison Metrics for CapOrSlap
+ * What a run compares. Market cap is the classic game; metric runs play the
+ * same higher/lower loop on another token value (e.g. a "Volume Week").
+ */
+
+import { ComparisonMetric, Token } from './types';
+
+export interface ComparisonMetricInfo {
+  id: ComparisonMetric; // Also the Token field the value lives in
+  name: string;
+  emoji: string;
+  label: string; // Shown above the value, e.g. "24h Volume"
+  description: string;
+  enabled: boolean; // False until the token pool has a source for it
+}
+
+export const COMPARISON_METRICS: Record<ComparisonMetric, ComparisonMetricInfo> = {
+  marketCap: {
+    id: 'marketCap',
+    name: 'Market Cap',
+    emoji: '💰',
+    label: 'Market Cap',
+    description: 'The classic - circulating supply times price',
+    enabled: true,
+  },
+  fullyDilutedValuation: {
+    id: 'fullyDilutedValuation',
+    name: 'Fully Diluted',
+    emoji: '🫧',
+    label: 'Fully Diluted Valuation',
+    description: 'Every token that will ever exist, at today\'s price',
+    enabled: true,
+  },
+  volume24h: {
+    id: 'volume24h',
+    name: 'Volume',
+    emoji: '📊',
+    label: '24h Volume',
+    description: 'Which traded more in the last 24 hours?',
+    enabled: true,
+  },
+  priceChange24h: {
+    id: 'priceChange24h',
+    name: 'Price Change',
+    emoji: '📈',
+    label: '24h Price Change',
+    description: 'Which pumped harder (or dumped less) today?',
+    enabled: true,
+  },
+  holders: {
+    id: 'holders',
+    name: 'Holders',
+    emoji: '👥',
+    label: 'Holders',
+    description: 'Which has more wallets holding it?',
+    enabled: false, // No holder count source yet
+  },
+  tvl: {
+    id: 'tvl',
+    name: 'TVL',
+    emoji: '🏦',
+    label: 'Total Value Locked',
+    description: 'DeFi protocols only - which has more deposits?',
+    enabled: true,
+  },
+};
+
+// Smallest pool worth playing a metric run on
+export const MIN_METRIC_TOKENS = 12;
+
+/**
+ * Check that a string is a known metric ID
+ */
+export function isComparisonMetric(value: unknown): value is ComparisonMetric {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(COMPARISON_METRICS, value);
+}
+
+/**
+ * Get a metric's config
+ */
+export function getMetric(metric: ComparisonMetric): ComparisonMetricInfo {
+  return COMPARISON_METRICS[metric];
+}
+
+/**
+ * Metrics that can be played right now, in menu order
+ */
+export function getPlayableMetrics(): ComparisonMetricInfo[] {
+  return Object.values(COMPARISON_METRICS).filter(m => m.enabled);
+}
+
+/**
+ * A token's value for a metric
+ * @returns undefined if the token has no value for it
+ */
+export function getMetricValue(token: Token, metric: ComparisonMetric = 'marketCap'): number | undefined {
+  const value = token[metric];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Copy of a token with a metric's value replaced
+ */
+export function withMetricValue(token: Token, metric: ComparisonMetric, value: number): Token {
+  return token[metric] === value ? token : { ...token, [metric]: value };
+}
+
+/**
+ * Tokens a metric run can deal - only those with a value for the metric
+ * Zero volume/TVL means no data rather than a real zero, so it's dropped too
+ * (a price change of exactly 0% is a real value)
+ */
+export function buildMetricTokenPool(tokens: Token[], metric: ComparisonMetric): Token[] {
+  return tokens.filter(token => {
+    const value = getMetricValue(token, metric);
+    if (value === undefined) return false;
+    return metric === 'priceChange24h' || value > 0;
+  });
+}
+
+/**
+ * Metric being featured this week (NEXT_PUBLIC_FEATURED_METRIC), e.g. volume24h for a Volume Week
+ * @returns null when nothing is featured
+ */
+export function getFeaturedMetric(): ComparisonMetric | null {
+  const featured = process.env.NEXT_PUBLIC_FEATURED_METRIC;
+  return isComparisonMetric(featured) && featured !== 'marketCap' && COMPARISON_METRICS[featured].enabled
+    ? featured
+    : null;
+}
@@ -0,0 +1,119 @@
+/**
+ * Ranking Rounds for CapOrSlap
+ * Instead of cap-or-slap on a pair, the player orders three or four tokens by
+ * market cap, highest first. A round is scored by exact match or by inversions
+ * (pairs put the wrong way round), chosen when the run starts.
+ */
+
+import { MarketCapSnapshot, RankingGuess, RankingScoring, Token } from './types';
+import { getCorrectAnswer, excludeNearTies } from './tie-policy';
+import { selectTokensWithSeed } from './seeded-selection';
+
+// Tokens per round - the fourth joins once the streak gets going
+export const RANKING_SIZES = [3, 4] as const;
+export const RANKING_FOUR_TOKEN_STREAK = 5;
+
+// Inversions scoring: one swapped pair still passes
+export const MAX_RANKING_INVERSIONS = 1;
+
+export const RANKING_SCORINGS: RankingScoring[] = ['exact', 'inversions'];
+
+/**
+ * Type guard for ranking scoring values (query params, request bodies)
+ */
+export function isRankingScoring(value: unknown): value is RankingScoring {
+  return typeof value === 'string' && RANKING_SCORINGS.includes(value as RankingScoring);
+}
+
+/**
+ * Tokens dealt in a round on a streak
+ */
+export function getRankingSize(streak: number): number {
+  return streak < RANKING_FOUR_TOKEN_STREAK ? RANKING_SIZES[0] : RANKING_SIZES[1];
+}
+
+/**
+ * Check if an order ranks exactly the dealt tokens, each once
+ */
+export function isValidRankingOrder(tokenIds: string[], order: unknown): order is RankingGuess {
+  if (!Array.isArray(order) || order.length !== tokenIds.length) return false;
+  const remaining = new Set(tokenIds);
+  for (const id of order) {
+    if (typeof id !== 'string' || !remaining.delete(id)) return false;
+  }
+  return true;
+}
+
+/**
+ * Counts the pairs an order ranks the wrong way round
+ * A token ranked above one with a higher value is an inversion - exact ties
+ * never are (same tie policy as pairs - see tie-policy.ts)
+ * @param values - Value of every ranked token, by ID
+ */
+export function countRankingInversions(order: RankingGuess, values: MarketCapSnapshot): number {
+  let inversions = 0;
+  for (let i = 0; i < order.length; i++) {
+    for (let j = i + 1; j < order.length; j++) {
+      // Ranked above means the lower-ranked token mustn't be higher
+      if (getCorrectAnswer(values[order[j]] ?? 0, values[order[i]] ?? 0) === 'slap') inversions++;
+    }
+  }
+  return inversions;
+}
+
+/**
+ * The right order for a round - highest value first
+ * Exact ties keep the order they were dealt in
+ */
+export function getCorrectRanking(tokenIds: string[], values: MarketCapSnapshot): RankingGuess {
+  return [...tokenIds].sort((a, b) => (values[b] ?? 0) - (values[a] ?? 0));
+}
+
+/**
+ * Scores a ranking round
+ * @param tokenIds - The round's tokens, as dealt
+ * @param order - The player's order, highest first (see isValidRankingOrder)
+ * @param values - Value of every dealt token, by ID
+ * @param scoring - exact: the whole order must be right,
+ *                  inversions: up to MAX_RANKING_INVERSIONS pairs may be swapped
+ */
+export function scoreRanking(
+  tokenIds: string[],
+  order: RankingGuess,
+  values: MarketCapSnapshot,
+  scoring: RankingScoring = 'exact'
+): { correct: boolean; correctOrder: RankingGuess; inversions: number } {
+  const inversions = countRankingInversions(order, values);
+  const maxInversions = scoring === 'inversions' ? MAX_RANKING_INVERSIONS : 0;
+  return {
+    correct: inversions <= maxInversions,
+    correctOrder: getCorrectRanking(tokenIds, values),
+    inversions,
+  };
+}
+
+/**
+ * Deals a ranking round deterministically from the run's seed
+ * Every token is drawn from those that aren't a near-tie with the ones already
+ * picked, so every pair in the round has one clear order
+ * @returns The round's tokens, or fewer than size if the pool runs dry
+ */
+export function selectRankingTokens(
+  pool: Token[],
+  gameSeed: string,
+  roundNumber: number,
+  size: number,
+  excludeIds: string[] = []
+): Token[] {
+  const picked: Token[] = [];
+  let candidates = pool.filter(t => !excludeIds.includes(t.id));
+
+  while (picked.length < size && candidates.length > 0) {
+    const [token] = selectTokensWithSeed(candidates, `${gameSeed}_ranking_${roundNumber}_${picked.length}`, 1);
+    if (!token) break;
+    picked.push(token);
+    candidates = excludeNearTies(candidates, token).filter(t => t.id !== token.id);
+  }
+
+  return picked;
+}
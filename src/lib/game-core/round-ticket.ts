@@ -0,0 +1,121 @@
+/**
+ * Round Tickets for CapOrSlap
+ * HMAC-SHA256 signed proof of the round the server dealt.
+ * Every round handed to the client carries one; guesses, reprieves and
+ * leaderboard submissions must present the latest ticket for their run.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export interface RoundTicketClaims {
+  runId: string;
+  roundNumber: number;
+  currentTokenId: string;
+  nextTokenId: string;
+  issuedAt: number;
+}
+
+export type RoundTicketError = 'forged' | 'replayed' | 'expired';
+
+export type RoundTicketVerification =
+  | { valid: true; claims: RoundTicketClaims }
+  | { valid: false; reason: RoundTicketError };
+
+let devSecret: Buffer | null = null;
+
+/**
+ * Signing secret (ROUND_TICKET_SECRET)
+ * Required in production. In development a random per-process secret stands
+ * in - tickets won't verify across serverless instances or restarts
+ */
+function getSecret(): Buffer | string {
+  const secret = process.env.ROUND_TICKET_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('ROUND_TICKET_SECRET is not set');
+  }
+
+  if (!devSecret) {
+    console.warn('[RoundTicket] ROUND_TICKET_SECRET not set - using a per-process secret');
+    devSecret = randomBytes(32);
+  }
+  return devSecret;
+}
+
+function sign(payload: string): Buffer {
+  return createHmac('sha256', getSecret()).update(payload).digest();
+}
+
+/**
+ * Issues a signed ticket for a round
+ * @returns Ticket string: base64url(claims).base64url(signature)
+ */
+export function issueRoundTicket(claims: RoundTicketClaims): string {
+  const payload = Buffer.from(JSON.stringify([
+    claims.runId,
+    claims.roundNumber,
+    claims.currentTokenId,
+    claims.nextTokenId,
+    claims.issuedAt,
+  ])).toString('base64url');
+
+  return `${payload}.${sign(payload).toString('base64url')}`;
+}
+
+/**
+ * Reads a ticket's claims if its signature checks out
+ * @returns Claims, or null for anything not signed by this server
+ */
+export function readRoundTicket(ticket: string): RoundTicketClaims | null {
+  const [payload, signature, ...rest] = ticket.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = sign(payload);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const [runId, roundNumber, currentTokenId, nextTokenId, issuedAt] =
+      JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return { runId, roundNumber, currentTokenId, nextTokenId, issuedAt };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verifies a ticket against the round the server expects
+ * A genuine ticket for any other round (or an older issue of this one) is a replay
+ * @param expected - The latest ticket the server issued for the run
+ * @param maxAgeMs - How long the ticket is good for after issue
+ */
+export function verifyRoundTicket(
+  ticket: string,
+  expected: RoundTicketClaims,
+  maxAgeMs: number,
+  now: number = Date.now()
+): RoundTicketVerification {
+  const claims = readRoundTicket(ticket);
+  if (!claims) {
+    return { valid: false, reason: 'forged' };
+  }
+
+  if (
+    claims.runId !== expected.runId ||
+    claims.roundNumber !== expected.roundNumber ||
+    claims.currentTokenId !== expected.currentTokenId ||
+    claims.nextTokenId !== expected.nextTokenId ||
+    claims.issuedAt !== expected.issuedAt
+  ) {
+    return { valid: false, reason: 'replayed' };
+  }
+
+  if (now - claims.issuedAt > maxAgeMs) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  return { valid: true, claims };
+}
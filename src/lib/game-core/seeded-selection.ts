@@ -3,7 +3,8 @@
  * Deterministic token selection based on seed for replay verification
  */
 
-import { Token } from './types';
+import { ComparisonMetric, Token } from './types';
+import { excludeNearTies, getCorrectAnswer, isNearTiePair } from './tie-policy';
 
 /**
  * Generate a game seed
@@ -16,7 +17,7 @@ export function generateGameSeed(): string {
  * Simple seeded random number generator (Mulberry32)
  * Deterministic - same seed always produces same sequence
  */
-function seededRandom(seed: number): () => number {
+export function seededRandom(seed: number): () => number {
   return function() {
     let t = seed += 0x6D2B79F5;
     t = Math.imul(t ^ t >>> 15, t | 1);
@@ -74,25 +75,37 @@ export function selectTokensWithSeed(
 /**
  * Select a single next token based on seed and round number
  * Deterministic per round
+ * @param fromToken - Token it will be compared against - a near-tie with it is
+ *                    re-drawn from the tokens that aren't (see tie-policy.ts)
+ * @param metric - What the pair is compared on (default: market cap)
  */
 export function selectNextTokenSeeded(
   pool: Token[],
   gameSeed: string,
   roundNumber: number,
-  excludeIds: string[] = []
+  excludeIds: string[] = [],
+  fromToken?: Token,
+  metric: ComparisonMetric = 'marketCap'
 ): Token | null {
   // Combine seed with round number for unique per-round selection
   const roundSeed = `${gameSeed}_round_${roundNumber}`;
   const tokens = selectTokensWithSeed(pool, roundSeed, 1, excludeIds);
-  return tokens[0] || null;
+  const next = tokens[0] || null;
+
+  if (next && fromToken && isNearTiePair(fromToken, next, metric)) {
+    return selectTokensWithSeed(excludeNearTies(pool, fromToken, metric), roundSeed, 1, excludeIds)[0] || null;
+  }
+  return next;
 }
 
 /**
  * Select initial token pair for a game
+ * A near-tie second token is re-drawn from the tokens that aren't one
  */
 export function selectInitialPairSeeded(
   pool: Token[],
-  gameSeed: string
+  gameSeed: string,
+  metric: ComparisonMetric = 'marketCap'
 ): { currentToken: Token; nextToken: Token } | null {
   const initialSeed = `${gameSeed}_initial`;
   const tokens = selectTokensWithSeed(pool, initialSeed, 2);
@@ -101,12 +114,48 @@ export function selectInitialPairSeeded(
     return null;
   }
   
+  if (isNearTiePair(tokens[0], tokens[1], metric)) {
+    const nextToken = selectTokensWithSeed(excludeNearTies(pool, tokens[0], metric), initialSeed, 1, [tokens[0].id])[0];
+    return nextToken ? { currentToken: tokens[0], nextToken } : null;
+  }
+  
   return {
     currentToken: tokens[0],
     nextToken: tokens[1],
   };
 }
 
+/**
+ * Build a whole token sequence up front from a seed
+ * Uses the same round seeding as verifyGameSequence, so a run dealt from the
+ * sequence can be replayed against the same pool
+ * @param pool - Token pool to deal from
+ * @param gameSeed - Shared seed (everyone with the seed gets the same sequence)
+ * @param length - Number of tokens to generate
+ * @returns Ordered tokens: [current, next, ...following rounds]
+ */
+export function buildSeededSequence(
+  pool: Token[],
+  gameSeed: string,
+  length: number
+): Token[] {
+  const initialPair = selectInitialPairSeeded(pool, gameSeed);
+  if (!initialPair) return [];
+
+  const sequence: Token[] = [initialPair.currentToken, initialPair.nextToken];
+  const usedTokenIds = sequence.map(t => t.id);
+
+  for (let round = 1; sequence.length < length; round++) {
+    const next = selectNextTokenSeeded(pool, gameSeed, round, usedTokenIds, sequence[sequence.length - 1]);
+    if (!next) break; // Pool exhausted
+
+    sequence.push(next);
+    usedTokenIds.push(next.id);
+  }
+
+  return sequence;
+}
+
 /**
  * Replay and verify a game sequence
  * Returns true if the recorded guesses match expected outcomes
@@ -156,9 +205,7 @@ export function verifyGameSequence(
     }
     
     // Verify the guess was correct (they continued playing)
-    const isCorrect = guess.guess === 'cap' 
-      ? nextToken.marketCap >= currentToken.marketCap
-      : nextToken.marketCap < currentToken.marketCap;
+    const isCorrect = guess.guess === getCorrectAnswer(currentToken.marketCap, nextToken.marketCap);
     
     // If this is not the last guess, it must have been correct
     if (i < guesses.length - 1 && !isCorrect) {
@@ -174,7 +221,7 @@ export function verifyGameSequence(
     usedTokenIds.push(currentToken.id);
     
     // Select next token for next round
-    const next = selectNextTokenSeeded(pool, gameSeed, i + 1, usedTokenIds);
+    const next = selectNextTokenSeeded(pool, gameSeed, i + 1, usedTokenIds, currentToken);
     if (next) {
       nextToken = next;
       usedTokenIds.push(nextToken.id);
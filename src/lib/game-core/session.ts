@@ -0,0 +1,946 @@
+/**
+ * Game Sessions for CapOrSlap
+ * The server-side owner of a run: deals every token, scores every guess and
+ * persists the state that validateGameState checks when the run is submitted
+ */
+
+import {
+  ComparisonMetric,
+  EstimateResult,
+  Guess,
+  GameMode,
+  GuessResult,
+  RankingGuess,
+  RankingResult,
+  RankingScoring,
+  ThemeId,
+  Token,
+} from './types';
+import {
+  EstimateRound,
+  GameGuess,
+  RankingRound,
+  ServerGameState,
+  checkRateLimit,
+  MAX_GUESS_INTERVAL_BUFFER,
+} from './validator';
+import { RoundTicketError, issueRoundTicket, verifyRoundTicket } from './round-ticket';
+import { applyMarketCapSnapshot, loadMarketCapSnapshot, storeMarketCapSnapshot } from './market-cap-snapshot';
+import { BLITZ_CLOCK_GRACE_MS, BLITZ_DURATION_MS, getBlitzDeadline, getBlitzTimeRemaining, getTimerDuration } from './timer';
+import { canOfferReprieve, isReprieveFree } from './reprieve';
+import { selectNextToken } from './sequencing';
+import { selectNextTokenByDifficulty } from './difficulty';
+import { selectNextTokenSeeded, selectTokensWithSeed } from './seeded-selection';
+import {
+  SkillRating,
+  getFamousTokenIds,
+  getPairDifficulty,
+  getPairFeatures,
+  isRatedMode,
+  updateSkillRating,
+} from './skill-rating';
+import { SkillHistoryRound, loadSkillRating, saveSkillRating } from './skill-storage';
+import { TokenStats, getTokenStatsRounds } from './token-stats';
+import { loadTokenPairStats, queueTokenStatsEntry } from './token-stats-storage';
+import { buildThemeTokenPool, getTheme } from './themes';
+import { buildMetricTokenPool } from './metrics';
+import { excludeNearTies, scoreGuess } from './tie-policy';
+import { calculateNewStreak, survivesWrongAnswers } from './streak';
+import { SURVIVAL_LIVES, calculateNewLives } from './survival';
+import { getRankingSize, isValidRankingOrder, scoreRanking, selectRankingTokens } from './ranking';
+import {
+  ESTIMATE_ROUND_SECONDS,
+  ESTIMATION_ROUNDS,
+  isEstimationBonusRound,
+  isValidEstimate,
+  scoreEstimate,
+} from './estimation';
+import { getTokenPool } from '../data/token-pool';
+import { loadPoolSnapshot } from '../data/pool-snapshots';
+import { getDailyTokenSnapshot } from '../leaderboard/daily-challenge';
+import { getStore } from '../store';
+import { withLock } from '../store/lock';
+import { consumeReprievePayment } from '../payments/reprieve-payments';
+import { PlayerStatsProgress } from '../profile/stats';
+import { recordProfileRun } from '../profile/storage';
+import { recordUserRun } from '../mystery-box/storage';
+import { archiveChallengeRun } from '../challenge/storage';
+
+// Games shouldn't last longer than an hour
+export const GAME_SESSION_TTL_SECONDS = 60 * 60;
+
+// A finished run's ticket is good for a reprieve or leaderboard submission this long
+// (reprieve payments can take a while to confirm)
+export const FINAL_TICKET_MAX_AGE_MS = 10 * 60 * 1000;
+
+// active = waiting for a guess, lost = wrong guess (reprieve may revive it) or out of lives,
+// complete = nothing left to deal (challenge replay cleared, pool exhausted) or blitz clock ran out
+export type GameSessionStatus = 'active' | 'lost' | 'complete';
+
+export interface GameSession extends ServerGameState {
+  currentTokenId: string;
+  nextTokenId: string;
+  rankingTokenIds?: string[]; // Ranking runs: the round's tokens as dealt (current/next are its first two)
+  estimateTokenId?: string; // Token awaiting an estimate (estimation runs' round, classic runs' bonus round)
+  roundNumber: number;
+  // Classic/daily: the pool the run draws from. Challenge: the replayed pairs, flattened in order
+  tokenPoolIds: string[];
+  lastGuessTimestamp?: number;
+  status?: GameSessionStatus; // Absent on sessions created before statuses existed (active)
+  ticketIssuedAt?: number; // Issue time of the latest round ticket - only that ticket is valid
+  submittedTicketAt?: number; // Final ticket already redeemed on the leaderboard
+  skill?: SkillRating; // Rated runs: the player's rating as of this round (stored when the run ends)
+  skillRounds?: SkillHistoryRound[]; // Rated guesses since the rating was last stored
+  tokenStatsGuesses?: number; // Guesses already queued for the token statistics
+  profileProgress?: PlayerStatsProgress; // What the player's profile already holds of the run
+  runRecorded?: boolean; // Recorded in the player's run history (and play streak calendar)
+}
+
+export interface CreateGameSessionParams {
+  runId: string;
+  seed: string;
+  userId: string;
+  mode: GameMode;
+  currentToken: Token;
+  nextToken: Token;
+  tokens: Token[]; // Everything the run can be dealt - its market caps are snapshotted
+  tokenPoolIds: string[];
+  dayKey?: string;
+  challengeRunId?: string;
+  theme?: ThemeId;
+  metric?: ComparisonMetric; // Metric runs, and replays of them
+  tokenPool?: Token[]; // Frozen tokens (challenge replays)
+  rankingTokens?: Token[]; // Ranking runs: the first round's tokens (current/next are its first two)
+  rankingScoring?: RankingScoring; // Ranking runs only (default: exact)
+  // Estimation runs pass their first hidden token as both current and next
+}
+
+export interface GuessOutcome {
+  correct: boolean;
+  session: GameSession;
+  ticket: string; // For the next round, or the finished run
+  // The pair that was guessed on
+  guessedPair: { currentToken: Token; nextToken: Token };
+  // The pair for the next round (null once the run is over)
+  nextPair: { currentToken: Token; nextToken: Token } | null;
+  correctAnswer: Guess;
+  bonusToken: Token | null; // Classic runs: a bonus estimate the streak earned
+}
+
+export interface RankingOutcome {
+  correct: boolean;
+  session: GameSession;
+  ticket: string; // For the next round, or the finished run
+  result: RankingResult;
+  // The next round's tokens (null once the run is over)
+  nextTokens: Token[] | null;
+}
+
+export interface EstimateOutcome {
+  session: GameSession;
+  ticket: string; // For the next round (classic: the same pair), or the finished run
+  result: EstimateResult;
+  // Estimation runs: the next token to estimate (null once the run is over)
+  nextToken: Token | null;
+}
+
+export interface ReprieveOutcome {
+  session: GameSession;
+  ticket: string;
+  currentToken: Token;
+  nextToken: Token;
+}
+
+// Same shape as the routes' error responses, so they can pass it straight through
+export type SessionResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string; status: number };
+
+const TICKET_ERRORS: Record<RoundTicketError, { error: string; status: number }> = {
+  forged: { error: 'Invalid round ticket', status: 403 },
+  replayed: { error: 'Round ticket already used', status: 409 },
+  expired: { error: 'Round ticket expired', status: 410 },
+};
+
+// Redis key patterns
+const KEYS = {
+  state: (runId: string) => `game:${runId}:state`,
+  seed: (runId: string) => `game:${runId}:seed`,
+  lock: (runId: string) => `game:${runId}:lock`,
+};
+
+/**
+ * Time left on a blitz run's clock (ms) - every wrong answer so far has taken its penalty
+ */
+export function getBlitzClockRemaining(session: ServerGameState, now: number = Date.now()): number {
+  return getBlitzTimeRemaining(session.startedAt, session.guesses.length - session.currentStreak, now);
+}
+
+/**
+ * Loads a session
+ * @returns The session, or null if it doesn't exist or has expired
+ */
+export async function loadGameSession(runId: string): Promise<GameSession | null> {
+  const data = await getStore().get(KEYS.state(runId));
+  if (!data) return null;
+
+  // Handle both string (needs parsing) and object (already parsed) cases
+  return typeof data === 'string' ? JSON.parse(data) : data as GameSession;
+}
+
+/**
+ * Persists a session
+ */
+export async function saveGameSession(session: GameSession): Promise<void> {
+  await getStore().set(KEYS.state(session.runId), JSON.stringify(session), { ex: GAME_SESSION_TTL_SECONDS });
+}
+
+/**
+ * Issues the ticket for the session's current pair
+ * Supersedes every earlier ticket for the run
+ */
+function issueSessionTicket(session: GameSession, now: number = Date.now()): string {
+  session.ticketIssuedAt = now;
+  return issueRoundTicket({
+    runId: session.runId,
+    roundNumber: session.roundNumber,
+    currentTokenId: session.currentTokenId,
+    nextTokenId: session.nextTokenId,
+    issuedAt: now,
+  });
+}
+
+/**
+ * Checks a ticket is the latest one issued for the session
+ * @param maxAgeMs - How long after issue the ticket is accepted
+ */
+function checkSessionTicket(
+  session: GameSession,
+  ticket: string,
+  maxAgeMs: number,
+  now: number
+): { success: true } | { success: false; error: string; status: number } {
+  if (session.ticketIssuedAt === undefined) {
+    return { success: false, ...TICKET_ERRORS.forged };
+  }
+
+  const verification = verifyRoundTicket(ticket, {
+    runId: session.runId,
+    roundNumber: session.roundNumber,
+    currentTokenId: session.currentTokenId,
+    nextTokenId: session.nextTokenId,
+    issuedAt: session.ticketIssuedAt,
+  }, maxAgeMs, now);
+
+  if (!verification.valid) {
+    return { success: false, ...TICKET_ERRORS[verification.reason] };
+  }
+  return { success: true };
+}
+
+/**
+ * Creates and persists a session for a new run
+ * @returns The session and the ticket for its first round
+ */
+export async function createGameSession(
+  params: CreateGameSessionParams
+): Promise<{ session: GameSession; ticket: string }> {
+  const session: GameSession = {
+    runId: params.runId,
+    seed: params.seed,
+    userId: params.userId,
+    mode: params.mode,
+    dayKey: params.dayKey,
+    challengeRunId: params.challengeRunId,
+    theme: params.theme,
+    metric: params.metric,
+    lives: params.mode === 'survival' ? SURVIVAL_LIVES : undefined,
+    startedAt: Date.now(),
+    guesses: [],
+    currentStreak: 0,
+    hasUsedReprieve: false,
+    currentTokenId: params.currentToken.id,
+    nextTokenId: params.nextToken.id,
+    rankingTokenIds: params.rankingTokens?.map(t => t.id),
+    rankings: params.mode === 'ranking' ? [] : undefined,
+    rankingScoring: params.mode === 'ranking' ? params.rankingScoring ?? 'exact' : undefined,
+    estimateTokenId: params.mode === 'estimation' ? params.currentToken.id : undefined,
+    estimates: [],
+    roundNumber: 0,
+    tokenPoolIds: params.tokenPoolIds,
+    tokenPool: params.tokenPool,
+    marketCapSnapshotHash: await storeMarketCapSnapshot(params.tokens, params.metric),
+    status: 'active',
+    skill: isRatedMode(params.mode, params.metric) ? await loadSkillRating(params.userId) : undefined,
+  };
+
+  const ticket = issueSessionTicket(session, session.startedAt);
+  await saveGameSession(session);
+
+  await getStore().set(KEYS.seed(session.runId), session.seed, { ex: GAME_SESSION_TTL_SECONDS });
+
+  return { session, ticket };
+}
+
+/**
+ * Tokens a session can deal from, priced from its market cap snapshot
+ * (metric runs: valued from their metric's snapshot)
+ * Pool refreshes mid-run can't move a run's answers
+ */
+async function getSessionTokens(session: GameSession): Promise<Token[]> {
+  let tokens: Token[];
+  // Challenge replays only ever deal the challenger's frozen tokens
+  if (session.mode === 'challenge') {
+    tokens = session.tokenPool ?? [];
+  } else if (session.mode === 'daily' && session.dayKey) {
+    tokens = await getDailyTokenSnapshot(session.dayKey);
+  } else if (session.mode === 'themed' && session.theme) {
+    tokens = buildThemeTokenPool(await getTokenPool(), getTheme(session.theme));
+  } else if (session.mode === 'timemachine' && session.dayKey) {
+    tokens = (await loadPoolSnapshot(session.dayKey))?.tokens ?? [];
+  } else if (session.mode === 'metric' && session.metric) {
+    tokens = buildMetricTokenPool(await getTokenPool(), session.metric);
+  } else {
+    tokens = await getTokenPool();
+  }
+
+  // Sessions from before snapshots score against the live pool
+  if (!session.marketCapSnapshotHash) return tokens;
+
+  const snapshot = await loadMarketCapSnapshot(session.marketCapSnapshotHash);
+  return snapshot ? applyMarketCapSnapshot(tokens, snapshot, session.metric) : [];
+}
+
+/**
+ * Every token dealt so far (never deal one twice in a run)
+ */
+function getDealtTokenIds(session: GameSession): string[] {
+  const ids = new Set(session.guesses.flatMap(g => [g.currentTokenId, g.nextTokenId]));
+  for (const round of session.rankings ?? []) {
+    round.tokenIds.forEach(id => ids.add(id));
+  }
+  ids.add(session.currentTokenId);
+  ids.add(session.nextTokenId);
+  session.rankingTokenIds?.forEach(id => ids.add(id));
+  for (const estimate of session.estimates ?? []) {
+    ids.add(estimate.tokenId);
+  }
+  if (session.estimateTokenId) ids.add(session.estimateTokenId);
+  return Array.from(ids);
+}
+
+/**
+ * Freezes the tokens a finished run was played with
+ * Verification and challenge replays score against these, not the live pool
+ */
+function snapshotPlayedTokens(session: GameSession, tokens: Token[]): Token[] {
+  const tokenMap = new Map(tokens.map(t => [t.id, t]));
+  // Tokens frozen before a reprieve keep the market caps they were played with
+  for (const token of session.tokenPool ?? []) {
+    tokenMap.set(token.id, token);
+  }
+
+  const played: Token[] = [];
+  for (const id of getDealtTokenIds(session)) {
+    const token = tokenMap.get(id);
+    if (token) played.push(token);
+  }
+  return played;
+}
+
+/**
+ * Picks the pair for the session's current round
+ * This is the only place tokens are dealt after the initial pair
+ * @param fromToken - Token the next one is compared against
+ * @param tokenStats - Players' accuracy on pairs (hard tiers favour the ones they miss)
+ * @returns The next pair, or null if there's nothing left to deal
+ */
+function dealNextPair(
+  session: GameSession,
+  tokens: Token[],
+  fromToken: Token,
+  tokenStats?: TokenStats
+): { currentToken: Token; nextToken: Token } | null {
+  const tokenMap = new Map(tokens.map(t => [t.id, t]));
+  const dealtIds = getDealtTokenIds(session);
+
+  // Challenge replays deal the challenger's pairs in order
+  if (session.mode === 'challenge') {
+    const index = session.roundNumber * 2;
+    const current = tokenMap.get(session.tokenPoolIds[index]);
+    const next = tokenMap.get(session.tokenPoolIds[index + 1]);
+    return current && next ? { currentToken: current, nextToken: next } : null;
+  }
+
+  // Daily runs follow the day's seeded sequence (see buildDailySequence).
+  // Metric runs draw from the seed too - the difficulty tiers are tuned on market cap ratios
+  if (session.mode === 'daily' || session.mode === 'metric') {
+    const next = selectNextTokenSeeded(tokens, session.seed, session.roundNumber, dealtIds, fromToken, session.metric);
+    return next ? { currentToken: fromToken, nextToken: next } : null;
+  }
+
+  // Never deal a near-tie (see tie-policy.ts)
+  const candidates = excludeNearTies(tokens, fromToken, session.metric);
+
+  // Classic, themed, time machine, survival and blitz: the streak's difficulty tier shapes
+  // every pair - or, once the player's rating is calibrated, their chance of winning it
+  let next = selectNextTokenByDifficulty(
+    candidates, fromToken, session.currentStreak, dealtIds, session.skill, tokenStats
+  );
+  if (!next) {
+    next = selectNextToken(candidates, fromToken, dealtIds);
+  }
+  if (!next) {
+    next = selectNextTokenSeeded(candidates, session.seed, session.roundNumber, dealtIds);
+  }
+  return next ? { currentToken: fromToken, nextToken: next } : null;
+}
+
+/**
+ * Picks the tokens for a ranking run's current round (see selectRankingTokens)
+ * @returns The round's tokens, or null if there aren't enough left to deal
+ */
+function dealNextRanking(session: GameSession, tokens: Token[]): Token[] | null {
+  const size = getRankingSize(session.currentStreak);
+  const next = selectRankingTokens(tokens, session.seed, session.roundNumber, size, getDealtTokenIds(session));
+  return next.length === size ? next : null;
+}
+
+/**
+ * Picks a token to estimate - anything the run hasn't dealt yet
+ * @returns The token, or null if there's nothing left to deal
+ */
+function dealEstimateToken(session: GameSession, tokens: Token[]): Token | null {
+  const roundSeed = `${session.seed}_estimate_${session.roundNumber}`;
+  return selectTokensWithSeed(tokens, roundSeed, 1, getDealtTokenIds(session))[0] ?? null;
+}
+
+/**
+ * Ends a blitz run - its clock ran out, or its player stopped early
+ * Freezes the played tokens like any other finished run
+ */
+async function endBlitzRun(session: GameSession): Promise<void> {
+  session.status = 'complete';
+  session.tokenPool = snapshotPlayedTokens(session, await getSessionTokens(session));
+  await storeRunSkill(session);
+  await storeRunTokenStats(session);
+  await storeRunProfile(session);
+  await storeRunChallenge(session);
+  await saveGameSession(session);
+}
+
+/**
+ * Stores the rating a finished run left the player with, and logs its rated guesses
+ * (A player's runs in parallel each overwrite the rating - the last to finish wins)
+ */
+async function storeRunSkill(session: GameSession): Promise<void> {
+  if (!session.skill) return;
+
+  await saveSkillRating(session.userId, session.skill, {
+    runId: session.runId,
+    userId: session.userId,
+    rounds: session.skillRounds ?? [],
+  });
+  session.skillRounds = [];
+}
+
+/**
+ * Queues a finished run's guesses for the token statistics (see token-stats.ts)
+ * Only market cap guesses count, and a revived run only queues the ones since its reprieve
+ */
+async function storeRunTokenStats(session: GameSession, now: number = Date.now()): Promise<void> {
+  const queued = session.tokenStatsGuesses ?? 0;
+  if (session.metric || session.guesses.length <= queued) return;
+
+  await queueTokenStatsEntry({
+    runId: session.runId,
+    rounds: getTokenStatsRounds(session.guesses.slice(queued), session.tokenPool ?? []),
+    timestamp: now,
+  });
+  session.tokenStatsGuesses = session.guesses.length;
+}
+
+/**
+ * Adds a finished run to its player's public profile (see profile/stats.ts)
+ * and run history - a revived run is in the history once, from its first finish
+ */
+async function storeRunProfile(session: GameSession, now: number = Date.now()): Promise<void> {
+  session.profileProgress = await recordProfileRun(session, session.tokenPool ?? [], session.profileProgress, now);
+  if (!session.runRecorded) {
+    await recordUserRun(session.userId, session.currentStreak, now);
+    session.runRecorded = true;
+  }
+}
+
+/**
+ * Keeps a finished run around for its share link (see challenge/storage.ts),
+ * submitted or not - a revived run's link replays it up to its latest finish
+ * Challenge replays are someone else's run already, so they aren't kept
+ */
+async function storeRunChallenge(session: GameSession): Promise<void> {
+  if (session.mode === 'challenge') return;
+  await archiveChallengeRun(session);
+}
+
+/**
+ * Runs an update on a session the caller owns, with the run locked
+ * Requests for a run are handled one at a time, so a ticket can only be
+ * checked and used by one of them.
+ */
+async function withOwnedSession<T>(
+  runId: string,
+  userId: string,
+  update: (session: GameSession) => Promise<SessionResult<T>>
+): Promise<SessionResult<T>> {
+  const result = await withLock(KEYS.lock(runId), async (): Promise<SessionResult<T>> => {
+    const session = await loadGameSession(runId);
+    if (!session) {
+      return { success: false, error: 'Game session not found or expired', status: 404 };
+    }
+    if (session.userId !== userId) {
+      return { success: false, error: 'Unauthorized', status: 403 };
+    }
+    return update(session);
+  });
+
+  return result ?? { success: false, error: 'Game is busy, try again', status: 503 };
+}
+
+/**
+ * Scores a guess on the session's current pair and deals the next round
+ * The tokens always come from the session - never from the client
+ */
+export async function submitGuess(
+  runId: string,
+  userId: string,
+  guess: Guess,
+  ticket: string,
+  now: number = Date.now()
+): Promise<SessionResult<GuessOutcome>> {
+  return withOwnedSession(runId, userId, async (session): Promise<SessionResult<GuessOutcome>> => {
+    if ((session.status ?? 'active') !== 'active') {
+      return { success: false, error: 'Game is already over', status: 409 };
+    }
+
+    if (session.mode === 'ranking') {
+      return { success: false, error: 'Ranking runs are played with ranked orders', status: 400 };
+    }
+    if (session.mode === 'estimation') {
+      return { success: false, error: 'Estimation runs are played with estimates', status: 400 };
+    }
+
+    if (!checkRateLimit(session.lastGuessTimestamp, now)) {
+      return { success: false, error: 'Too many requests', status: 429 };
+    }
+
+    // Blitz runs play against one clock - once it's out, so is the run
+    const blitzMisses = session.guesses.length - session.currentStreak;
+    if (session.mode === 'blitz' && now > getBlitzDeadline(session.startedAt, blitzMisses) + BLITZ_CLOCK_GRACE_MS) {
+      await endBlitzRun(session);
+      return { success: false, error: "Time's up", status: 410 };
+    }
+
+    // The round's timer plus network slack (blitz: the run's clock decides)
+    const roundMaxAgeMs = session.mode === 'blitz'
+      ? BLITZ_DURATION_MS + MAX_GUESS_INTERVAL_BUFFER
+      : getTimerDuration(session.currentStreak) * 1000 + MAX_GUESS_INTERVAL_BUFFER;
+    const ticketCheck = checkSessionTicket(session, ticket, roundMaxAgeMs, now);
+    if (!ticketCheck.success) return ticketCheck;
+
+    const tokens = await getSessionTokens(session);
+    const tokenMap = new Map(tokens.map(t => [t.id, t]));
+    const currentToken = tokenMap.get(session.currentTokenId);
+    const nextToken = tokenMap.get(session.nextTokenId);
+
+    if (!currentToken || !nextToken) {
+      return { success: false, error: 'Session tokens are no longer available', status: 410 };
+    }
+
+    const { correct, correctAnswer } = scoreGuess(currentToken, nextToken, guess, session.metric);
+
+    const guessRecord: GameGuess = {
+      roundNumber: session.roundNumber,
+      currentTokenId: currentToken.id,
+      nextTokenId: nextToken.id,
+      guess,
+      timestamp: now,
+      // Survival: the round timer follows the streak, which wrong answers don't advance.
+      // Blitz: round - streak is the misses so far, which set the clock
+      ...(survivesWrongAnswers(session.mode ?? 'classic') && { streak: session.currentStreak }),
+    };
+    session.guesses.push(guessRecord);
+    session.lastGuessTimestamp = now;
+    // Guessing on skips a bonus estimate that wasn't made
+    session.estimateTokenId = undefined;
+
+    // Rated runs: every guess moves the player's rating
+    if (session.skill) {
+      const features = getPairFeatures(currentToken, nextToken, getFamousTokenIds(tokens));
+      session.skill = updateSkillRating(session.skill, getPairDifficulty(features), correct, now);
+      session.skillRounds = [...(session.skillRounds ?? []), { ...features, correct, timestamp: now }];
+    }
+
+    let nextPair: GuessOutcome['nextPair'] = null;
+
+    // Survival runs carry on through a wrong answer while they have lives left,
+    // blitz runs while they have time left
+    let survives = correct;
+    if (survivesWrongAnswers(session.mode ?? 'classic')) {
+      const result: GuessResult = { correct, guess, currentToken, nextToken, correctAnswer };
+      session.currentStreak = calculateNewStreak(session.currentStreak, result, session.mode);
+      if (session.mode === 'survival') {
+        session.lives = calculateNewLives(session.lives ?? 0, result, session.currentStreak);
+        survives = session.lives > 0;
+      } else {
+        survives = true;
+      }
+    } else if (correct) {
+      session.currentStreak += 1;
+    }
+
+    if (survives) {
+      session.roundNumber += 1;
+
+      nextPair = dealNextPair(session, tokens, nextToken, await loadTokenPairStats(nextToken.id, tokens.map(t => t.id)));
+      if (nextPair) {
+        session.currentTokenId = nextPair.currentToken.id;
+        session.nextTokenId = nextPair.nextToken.id;
+      } else {
+        session.status = 'complete';
+      }
+    } else {
+      session.status = 'lost';
+    }
+
+    // A miss's penalty (or a guess in the grace period) can run a blitz clock out
+    if (session.mode === 'blitz' && session.status === 'active' && getBlitzClockRemaining(session, now) <= 0) {
+      session.status = 'complete';
+      nextPair = null;
+    }
+
+    // Classic runs earn a bonus estimate every few correct answers
+    let bonusToken: Token | null = null;
+    if (correct && session.status === 'active' && isEstimationBonusRound(session.mode ?? 'classic', session.currentStreak)) {
+      bonusToken = dealEstimateToken(session, tokens);
+      session.estimateTokenId = bonusToken?.id;
+    }
+
+    if (session.status !== 'active' && session.mode !== 'challenge') {
+      session.tokenPool = snapshotPlayedTokens(session, tokens);
+    }
+    if (session.status !== 'active') {
+      await storeRunSkill(session);
+      await storeRunTokenStats(session, now);
+      await storeRunProfile(session, now);
+      await storeRunChallenge(session);
+    }
+
+    // Next round's ticket - or, once the run is over, the ticket for reprieve/submission
+    const nextTicket = issueSessionTicket(session, now);
+    await saveGameSession(session);
+
+    return {
+      success: true,
+      correct,
+      session,
+      ticket: nextTicket,
+      guessedPair: { currentToken, nextToken },
+      nextPair,
+      correctAnswer,
+      bonusToken,
+    };
+  });
+}
+
+/**
+ * Scores a market cap estimate - an estimation run's round, or a classic
+ * run's bonus round - and deals the estimation run's next token
+ * @param estimate - Estimated market cap (USD)
+ */
+export async function submitEstimate(
+  runId: string,
+  userId: string,
+  estimate: number,
+  ticket: string,
+  now: number = Date.now()
+): Promise<SessionResult<EstimateOutcome>> {
+  return withOwnedSession(runId, userId, async (session): Promise<SessionResult<EstimateOutcome>> => {
+    if ((session.status ?? 'active') !== 'active') {
+      return { success: false, error: 'Game is already over', status: 409 };
+    }
+
+    if (!session.estimateTokenId) {
+      return { success: false, error: 'No estimate to make', status: 409 };
+    }
+
+    if (!checkRateLimit(session.lastGuessTimestamp, now)) {
+      return { success: false, error: 'Too many requests', status: 429 };
+    }
+
+    const roundMaxAgeMs = ESTIMATE_ROUND_SECONDS * 1000 + MAX_GUESS_INTERVAL_BUFFER;
+    const ticketCheck = checkSessionTicket(session, ticket, roundMaxAgeMs, now);
+    if (!ticketCheck.success) return ticketCheck;
+
+    if (!isValidEstimate(estimate)) {
+      return { success: false, error: 'Estimate out of range', status: 400 };
+    }
+
+    const tokens = await getSessionTokens(session);
+    const token = tokens.find(t => t.id === session.estimateTokenId);
+    if (!token) {
+      return { success: false, error: 'Session tokens are no longer available', status: 410 };
+    }
+
+    const { points, logDistance } = scoreEstimate(estimate, token.marketCap);
+    const isEstimationRun = session.mode === 'estimation';
+
+    const round: EstimateRound = {
+      roundNumber: session.roundNumber,
+      tokenId: token.id,
+      estimate,
+      points,
+      timestamp: now,
+      ...(!isEstimationRun && { streak: session.currentStreak }),
+    };
+    session.estimates = [...(session.estimates ?? []), round];
+    session.estimateTokenId = undefined;
+    session.lastGuessTimestamp = now;
+
+    // Classic bonus rounds sit between pair rounds - the pair in play stays
+    let nextToken: Token | null = null;
+    if (isEstimationRun) {
+      // An estimation run's score is its points
+      session.currentStreak += points;
+      session.roundNumber += 1;
+
+      nextToken = session.estimates.length < ESTIMATION_ROUNDS ? dealEstimateToken(session, tokens) : null;
+      if (nextToken) {
+        session.estimateTokenId = nextToken.id;
+        session.currentTokenId = nextToken.id;
+        session.nextTokenId = nextToken.id;
+      } else {
+        session.status = 'complete';
+        session.tokenPool = snapshotPlayedTokens(session, tokens);
+        await storeRunProfile(session, now);
+      }
+    }
+
+    // Next round's ticket - or, once the run is over, the ticket for submission
+    const nextTicket = issueSessionTicket(session, now);
+    await saveGameSession(session);
+
+    return {
+      success: true,
+      session,
+      ticket: nextTicket,
+      result: { token, estimate, points, logDistance },
+      nextToken,
+    };
+  });
+}
+
+/**
+ * Scores an order on a ranking run's current round and deals the next one
+ * The tokens always come from the session - never from the client
+ * @param order - The round's token IDs, highest market cap first
+ */
+export async function submitRanking(
+  runId: string,
+  userId: string,
+  order: RankingGuess,
+  ticket: string,
+  now: number = Date.now()
+): Promise<SessionResult<RankingOutcome>> {
+  return withOwnedSession(runId, userId, async (session): Promise<SessionResult<RankingOutcome>> => {
+    if (session.mode !== 'ranking' || !session.rankingTokenIds) {
+      return { success: false, error: 'Not a ranking run', status: 400 };
+    }
+
+    if ((session.status ?? 'active') !== 'active') {
+      return { success: false, error: 'Game is already over', status: 409 };
+    }
+
+    if (!checkRateLimit(session.lastGuessTimestamp, now)) {
+      return { success: false, error: 'Too many requests', status: 429 };
+    }
+
+    // Same round timer as a pair round on the streak, plus network slack
+    const roundMaxAgeMs = getTimerDuration(session.currentStreak) * 1000 + MAX_GUESS_INTERVAL_BUFFER;
+    const ticketCheck = checkSessionTicket(session, ticket, roundMaxAgeMs, now);
+    if (!ticketCheck.success) return ticketCheck;
+
+    const tokenIds = session.rankingTokenIds;
+    if (!isValidRankingOrder(tokenIds, order)) {
+      return { success: false, error: 'Order must rank every dealt token once', status: 400 };
+    }
+
+    const tokens = await getSessionTokens(session);
+    const tokenMap = new Map(tokens.map(t => [t.id, t]));
+    const dealt = tokenIds.map(id => tokenMap.get(id));
+    if (dealt.some(t => !t)) {
+      return { success: false, error: 'Round tokens no longer available', status: 410 };
+    }
+    const roundTokens = dealt as Token[];
+
+    const values = Object.fromEntries(roundTokens.map(t => [t.id, t.marketCap]));
+    const { correct, correctOrder, inversions } = scoreRanking(tokenIds, order, values, session.rankingScoring);
+
+    const round: RankingRound = {
+      roundNumber: session.roundNumber,
+      tokenIds,
+      order,
+      timestamp: now,
+    };
+    session.rankings = [...(session.rankings ?? []), round];
+    session.lastGuessTimestamp = now;
+
+    let nextTokens: Token[] | null = null;
+    if (correct) {
+      session.currentStreak += 1;
+      session.roundNumber += 1;
+
+      nextTokens = dealNextRanking(session, tokens);
+      if (nextTokens) {
+        session.rankingTokenIds = nextTokens.map(t => t.id);
+        session.currentTokenId = nextTokens[0].id;
+        session.nextTokenId = nextTokens[1].id;
+      } else {
+        session.status = 'complete';
+      }
+    } else {
+      session.status = 'lost';
+    }
+
+    if (session.status !== 'active') {
+      session.tokenPool = snapshotPlayedTokens(session, tokens);
+      await storeRunProfile(session, now);
+    }
+
+    // Next round's ticket - or, once the run is over, the ticket for submission
+    const nextTicket = issueSessionTicket(session, now);
+    await saveGameSession(session);
+
+    return {
+      success: true,
+      correct,
+      session,
+      ticket: nextTicket,
+      result: { correct, guess: order, tokens: roundTokens, correctOrder, inversions },
+      nextTokens,
+    };
+  });
+}
+
+/**
+ * Revives a lost classic run
+ * The known token stays, the failed comparison is replaced with a fresh token.
+ * Uses up the payment /api/reprieve/verify recorded for the run.
+ */
+export async function applyReprieve(
+  runId: string,
+  userId: string,
+  ticket: string,
+  now: number = Date.now()
+): Promise<SessionResult<ReprieveOutcome>> {
+  return withOwnedSession(runId, userId, async (session): Promise<SessionResult<ReprieveOutcome>> => {
+    // Daily, challenge, themed, time machine, metric and survival runs can't be revived
+    if ((session.mode ?? 'classic') !== 'classic') {
+      return { success: false, error: 'Reprieves are only available in classic runs', status: 400 };
+    }
+    if (session.status !== 'lost') {
+      return { success: false, error: 'Game is not over', status: 409 };
+    }
+    if (!canOfferReprieve(session.currentStreak, session.hasUsedReprieve)) {
+      return { success: false, error: 'Reprieve not available for this run', status: 400 };
+    }
+
+    const ticketCheck = checkSessionTicket(session, ticket, FINAL_TICKET_MAX_AGE_MS, now);
+    if (!ticketCheck.success) return ticketCheck;
+
+    const tokens = await getSessionTokens(session);
+    const currentToken = tokens.find(t => t.id === session.currentTokenId);
+    const pair = currentToken
+      ? dealNextPair(session, tokens, currentToken, await loadTokenPairStats(currentToken.id, tokens.map(t => t.id)))
+      : null;
+    if (!pair) {
+      return { success: false, error: 'No tokens left to continue with', status: 410 };
+    }
+
+    // Last check - a payment is only used up once the reprieve can go ahead
+    if (!isReprieveFree() && !await consumeReprievePayment(runId)) {
+      return { success: false, error: 'Reprieve payment not verified', status: 402 };
+    }
+
+    session.hasUsedReprieve = true;
+    session.reprieveUsedAtRound = session.roundNumber;
+    session.nextTokenId = pair.nextToken.id;
+    session.status = 'active';
+
+    const nextTicket = issueSessionTicket(session, now);
+    await saveGameSession(session);
+
+    return {
+      success: true,
+      session,
+      ticket: nextTicket,
+      currentToken: pair.currentToken,
+      nextToken: pair.nextToken,
+    };
+  });
+}
+
+/**
+ * Redeems a finished run's final ticket for a leaderboard submission
+ * Each final ticket can be redeemed once; a reprieve issues a new one. The
+ * run reported has to be the one the server played - a mismatch is
+ * rejected without using the ticket up.
+ * @param reported - Mode and streak the client submitted
+ */
+export async function redeemFinalTicket(
+  runId: string,
+  userId: string,
+  ticket: string,
+  reported: { mode?: GameMode; streak: number },
+  now: number = Date.now()
+): Promise<SessionResult<{ session: GameSession }>> {
+  return withOwnedSession(runId, userId, async (session): Promise<SessionResult<{ session: GameSession }>> => {
+    // Blitz runs end on the client's clock - stopping early only costs the player time
+    const endsBlitzRun = session.mode === 'blitz' && (session.status ?? 'active') === 'active';
+
+    if ((session.status ?? 'active') === 'active' && !endsBlitzRun) {
+      return { success: false, error: 'Game is still in progress', status: 409 };
+    }
+
+    const ticketCheck = checkSessionTicket(session, ticket, FINAL_TICKET_MAX_AGE_MS, now);
+    if (!ticketCheck.success) return ticketCheck;
+
+    if (endsBlitzRun) {
+      await endBlitzRun(session);
+    }
+
+    if (session.submittedTicketAt === session.ticketIssuedAt) {
+      return { success: false, ...TICKET_ERRORS.replayed };
+    }
+
+    const mode = session.mode ?? 'classic';
+    if ((reported.mode ?? 'classic') !== mode) {
+      return {
+        success: false,
+        error: `Mode mismatch: reported ${reported.mode ?? 'classic'}, server has ${mode}`,
+        status: 400,
+      };
+    }
+    if (reported.streak !== session.currentStreak) {
+      return {
+        success: false,
+        error: `Streak mismatch: reported ${reported.streak}, server has ${session.currentStreak}`,
+        status: 400,
+      };
+    }
+
+    session.submittedTicketAt = session.ticketIssuedAt;
+    await saveGameSession(session);
+
+    return { success: true, session };
+  });
+}
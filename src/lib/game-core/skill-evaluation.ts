@@ -0,0 +1,135 @@
+/**
+ * Skill Model Evaluation for CapOrSlap
+ * Replays logged rated guesses (see skill-storage.ts) through the rating
+ * model: every guess is predicted from the player's rating so far, scored,
+ * then rated. Calibration grid-searches the pair difficulty model for the
+ * parameters that predict the logged outcomes best.
+ */
+
+import {
+  DEFAULT_SKILL_MODEL,
+  SkillModel,
+  SkillRating,
+  createSkillRating,
+  getPairDifficulty,
+  getWinProbability,
+  updateSkillRating,
+} from './skill-rating';
+import { SkillHistoryEntry } from './skill-storage';
+
+// Predicted win probability bucket edges for the calibration table
+export const PREDICTION_BUCKETS = [0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1];
+
+// Parameters tried by calibrateSkillModel
+export const CALIBRATION_GRID: { [K in keyof SkillModel]: number[] } = {
+  base: [1200, 1250, 1300, 1350, 1400, 1450, 1500, 1550, 1600],
+  ratioWeight: [100, 150, 200, 250, 300, 350, 400, 450],
+  obscurityWeight: [0, 25, 50, 75, 100, 125, 150],
+};
+
+// Keeps log loss finite for confident misses
+const MIN_PROBABILITY = 1e-6;
+
+export interface SkillEvaluationReport {
+  model: SkillModel;
+  runs: number;
+  players: number;
+  guesses: number;
+  logLoss: number; // Mean negative log likelihood - lower is better
+  brierScore: number; // Mean squared error of the predictions - lower is better
+  accuracy: number; // Share of guesses on the side the model favoured (0-1)
+  calibration: { from: number; to: number; guesses: number; predicted: number; actual: number }[];
+}
+
+export interface SkillCalibrationReport {
+  current: SkillEvaluationReport; // DEFAULT_SKILL_MODEL
+  best: SkillEvaluationReport;
+  modelsTried: number;
+}
+
+/**
+ * Replays every logged guess in order and scores the model's predictions
+ * Players start from a new rating at their first logged guess - older
+ * history than the log holds isn't replayed
+ */
+export function evaluateSkillModel(
+  history: SkillHistoryEntry[],
+  model: SkillModel = DEFAULT_SKILL_MODEL
+): SkillEvaluationReport {
+  const rounds = history
+    .flatMap(entry => entry.rounds.map(round => ({ ...round, userId: entry.userId })))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const ratings = new Map<string, SkillRating>();
+  const buckets = PREDICTION_BUCKETS.slice(0, -1).map((from, i) => ({
+    from,
+    to: PREDICTION_BUCKETS[i + 1],
+    guesses: 0,
+    predictedSum: 0,
+    correct: 0,
+  }));
+  let logLoss = 0;
+  let brierScore = 0;
+  let favoured = 0;
+
+  for (const round of rounds) {
+    const skill = ratings.get(round.userId) ?? createSkillRating(round.timestamp);
+    const difficulty = getPairDifficulty(round, model);
+    const predicted = Math.min(Math.max(getWinProbability(skill, difficulty), MIN_PROBABILITY), 1 - MIN_PROBABILITY);
+    const outcome = round.correct ? 1 : 0;
+
+    logLoss -= round.correct ? Math.log(predicted) : Math.log(1 - predicted);
+    brierScore += (predicted - outcome) * (predicted - outcome);
+    if ((predicted >= 0.5) === round.correct) favoured++;
+
+    const bucket = buckets[Math.min(Math.floor(predicted * buckets.length), buckets.length - 1)];
+    bucket.guesses++;
+    bucket.predictedSum += predicted;
+    bucket.correct += outcome;
+
+    ratings.set(round.userId, updateSkillRating(skill, difficulty, round.correct, round.timestamp));
+  }
+
+  const guesses = rounds.length;
+  return {
+    model,
+    runs: history.length,
+    players: ratings.size,
+    guesses,
+    logLoss: guesses > 0 ? logLoss / guesses : 0,
+    brierScore: guesses > 0 ? brierScore / guesses : 0,
+    accuracy: guesses > 0 ? favoured / guesses : 0,
+    calibration: buckets.map(b => ({
+      from: b.from,
+      to: b.to,
+      guesses: b.guesses,
+      predicted: b.guesses > 0 ? b.predictedSum / b.guesses : 0,
+      actual: b.guesses > 0 ? b.correct / b.guesses : 0,
+    })),
+  };
+}
+
+/**
+ * Grid-searches the pair difficulty model against logged guesses
+ * @returns The current model's report next to the best one found (lowest log loss)
+ */
+export function calibrateSkillModel(
+  history: SkillHistoryEntry[],
+  grid: { [K in keyof SkillModel]: number[] } = CALIBRATION_GRID
+): SkillCalibrationReport {
+  const current = evaluateSkillModel(history, DEFAULT_SKILL_MODEL);
+  let best = current;
+  let modelsTried = 0;
+
+  for (const base of grid.base) {
+    for (const ratioWeight of grid.ratioWeight) {
+      for (const obscurityWeight of grid.obscurityWeight) {
+        const report = evaluateSkillModel(history, { base, ratioWeight, obscurityWeight });
+        modelsTried++;
+        if (report.logLoss < best.logLoss) best = report;
+      }
+    }
+  }
+
+  return { current, best, modelsTried };
+}
@@ -0,0 +1,169 @@
+/**
+ * Player Skill Ratings for CapOrSlap
+ * Glicko-style ratings: every guessed pair is an "opponent" whose rating is
+ * the pair's difficulty - lower for wide market cap ratios, higher when the
+ * tokens are obscure. Rated players are dealt pairs they should win with a
+ * target probability (see selectNextTokenByDifficulty); everyone else gets
+ * the streak's difficulty tier.
+ */
+
+import { ComparisonMetric, GameMode, Token } from './types';
+import { getFamousTokens, getMcapRatio } from './difficulty';
+
+export interface SkillRating {
+  rating: number;
+  deviation: number; // Rating uncertainty (Glicko RD) - shrinks with games, grows with time away
+  games: number; // Rated guesses
+  updatedAt: number;
+}
+
+// Pair difficulty model - calibrated offline (see skill-evaluation.ts)
+export interface SkillModel {
+  base: number; // Difficulty of a 1x pair of famous tokens
+  ratioWeight: number; // Difficulty removed per order of magnitude between the caps
+  obscurityWeight: number; // Difficulty added per token that isn't famous
+}
+
+// What makes a pair hard - recorded with every rated guess so histories can be replayed
+export interface PairFeatures {
+  logRatio: number; // log10 of the market cap ratio (capped at MAX_LOG_RATIO)
+  obscurity: number; // Tokens in the pair that aren't famous (0-2)
+}
+
+export const DEFAULT_SKILL_MODEL: SkillModel = {
+  base: 1360,
+  ratioWeight: 250,
+  obscurityWeight: 60,
+};
+
+export const INITIAL_RATING = 1500;
+export const INITIAL_DEVIATION = 350;
+export const MIN_DEVIATION = 50;
+
+// Deviation regained per day without a rated guess (Glicko c)
+export const DEVIATION_GROWTH_PER_DAY = 15;
+
+// Rated guesses before selection trusts the rating over the difficulty tiers
+export const MIN_RATED_GAMES = 15;
+
+// Beyond 1000x every pair is a giveaway
+export const MAX_LOG_RATIO = 3;
+
+// Win probability selection aims for: generous early in a run, tougher as the streak grows
+export const TARGET_WIN_PROBABILITY_START = 0.85;
+export const TARGET_WIN_PROBABILITY_FLOOR = 0.6;
+export const TARGET_WIN_PROBABILITY_STEP = 0.01;
+
+// Glicko scale factor
+const Q = Math.LN10 / 400;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A new player's rating
+ */
+export function createSkillRating(now: number = Date.now()): SkillRating {
+  return { rating: INITIAL_RATING, deviation: INITIAL_DEVIATION, games: 0, updatedAt: now };
+}
+
+/**
+ * Check if a run's guesses rate the player
+ * Only market cap pairs - metric runs, ranking and estimation rounds are other games
+ */
+export function isRatedMode(mode: GameMode, metric?: ComparisonMetric): boolean {
+  return !metric && mode !== 'metric' && mode !== 'ranking' && mode !== 'estimation';
+}
+
+/**
+ * Check if a rating has seen enough guesses to pick pairs by
+ */
+export function isCalibratedRating(skill: SkillRating): boolean {
+  return skill.games >= MIN_RATED_GAMES;
+}
+
+/**
+ * IDs of a pool's famous tokens (fame depends on the pool - see isFamousToken)
+ */
+export function getFamousTokenIds(pool: Token[]): Set<string> {
+  return new Set(getFamousTokens(pool).map(t => t.id));
+}
+
+/**
+ * Features of a pair
+ * @param famousIds - The famous tokens of the pool it was dealt from (see getFamousTokenIds)
+ */
+export function getPairFeatures(tokenA: Token, tokenB: Token, famousIds: Set<string>): PairFeatures {
+  const ratio = getMcapRatio(tokenA, tokenB);
+  return {
+    logRatio: Number.isFinite(ratio) ? Math.min(Math.log10(ratio), MAX_LOG_RATIO) : MAX_LOG_RATIO,
+    obscurity: [tokenA, tokenB].filter(t => !famousIds.has(t.id)).length,
+  };
+}
+
+/**
+ * A pair's difficulty, on the rating scale
+ */
+export function getPairDifficulty(features: PairFeatures, model: SkillModel = DEFAULT_SKILL_MODEL): number {
+  return model.base - model.ratioWeight * features.logRatio + model.obscurityWeight * features.obscurity;
+}
+
+/**
+ * Glicko g() - discounts a rating gap by its uncertainty
+ */
+function g(deviation: number): number {
+  return 1 / Math.sqrt(1 + (3 * Q * Q * deviation * deviation) / (Math.PI * Math.PI));
+}
+
+/**
+ * Deviation after time away - the longer since the last rated guess, the less certain
+ */
+export function ageSkillRating(skill: SkillRating, now: number = Date.now()): SkillRating {
+  const days = Math.max(now - skill.updatedAt, 0) / DAY_MS;
+  const deviation = Math.min(
+    Math.sqrt(skill.deviation * skill.deviation + DEVIATION_GROWTH_PER_DAY * DEVIATION_GROWTH_PER_DAY * days),
+    INITIAL_DEVIATION
+  );
+  return { ...skill, deviation };
+}
+
+/**
+ * Chance the player gets a pair right
+ * Uncertain ratings are pulled towards a coin flip
+ */
+export function getWinProbability(skill: SkillRating, difficulty: number): number {
+  return 1 / (1 + Math.pow(10, (-g(skill.deviation) * (skill.rating - difficulty)) / 400));
+}
+
+/**
+ * Win probability selection aims for at a streak
+ */
+export function getTargetWinProbability(streak: number): number {
+  return Math.max(
+    TARGET_WIN_PROBABILITY_START - TARGET_WIN_PROBABILITY_STEP * streak,
+    TARGET_WIN_PROBABILITY_FLOOR
+  );
+}
+
+/**
+ * Rates one guess (Glicko-1 update against a pair of known difficulty)
+ * @param correct - Whether the guess was right
+ */
+export function updateSkillRating(
+  skill: SkillRating,
+  difficulty: number,
+  correct: boolean,
+  now: number = Date.now()
+): SkillRating {
+  const aged = ageSkillRating(skill, now);
+
+  // Pairs' difficulties are known exactly - g(0) = 1
+  const expected = 1 / (1 + Math.pow(10, -(aged.rating - difficulty) / 400));
+  const dSquaredInverse = Q * Q * expected * (1 - expected);
+  const precision = 1 / (aged.deviation * aged.deviation) + dSquaredInverse;
+
+  return {
+    rating: aged.rating + (Q / precision) * ((correct ? 1 : 0) - expected),
+    deviation: Math.max(Math.sqrt(1 / precision), MIN_DEVIATION),
+    games: aged.games + 1,
+    updatedAt: now,
+  };
+}
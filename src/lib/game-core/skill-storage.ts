@@ -0,0 +1,87 @@
+/**
+ * Skill Rating Storage for CapOrSlap
+ * Players' ratings, and a capped log of rated rounds for replaying the model
+ * offline (see skill-evaluation.ts)
+ */
+
+import { getStore } from '../store';
+import { PairFeatures, SkillRating, createSkillRating } from './skill-rating';
+
+// Ratings outlive long breaks - time away only widens their deviation
+export const SKILL_RATING_TTL_SECONDS = 60 * 60 * 24 * 365;
+
+// Most recent runs kept for calibration
+export const MAX_SKILL_HISTORY_RUNS = 5000;
+
+// A rated guess, as replayed by the evaluator
+export interface SkillHistoryRound extends PairFeatures {
+  correct: boolean;
+  timestamp: number;
+}
+
+// A run's rated guesses (a revived run logs the rounds after its reprieve separately)
+export interface SkillHistoryEntry {
+  runId: string;
+  userId: string;
+  rounds: SkillHistoryRound[];
+}
+
+// Redis key patterns
+const KEYS = {
+  rating: (userId: string) => `user:${userId}:skill`,
+  history: () => 'skill:history',
+};
+
+/**
+ * Loads a player's rating
+ * @returns The rating, or a new player's rating if there's none yet
+ */
+export async function loadSkillRating(userId: string): Promise<SkillRating> {
+  try {
+    const data = await getStore().get(KEYS.rating(userId));
+    if (data) {
+      return typeof data === 'string' ? JSON.parse(data) : data as SkillRating;
+    }
+  } catch (error) {
+    console.error('[Skill] Error loading skill rating:', error);
+  }
+  return createSkillRating();
+}
+
+/**
+ * Stores a player's rating and logs the rounds that moved it
+ */
+export async function saveSkillRating(
+  userId: string,
+  skill: SkillRating,
+  entry?: SkillHistoryEntry
+): Promise<void> {
+  const store = getStore();
+
+  try {
+    await store.set(KEYS.rating(userId), JSON.stringify(skill), { ex: SKILL_RATING_TTL_SECONDS });
+
+    if (entry && entry.rounds.length > 0) {
+      await store.lpush(KEYS.history(), JSON.stringify(entry));
+      await store.ltrim(KEYS.history(), 0, MAX_SKILL_HISTORY_RUNS - 1);
+    }
+  } catch (error) {
+    console.error('[Skill] Error saving skill rating:', error);
+  }
+}
+
+/**
+ * Loads the logged runs, oldest first
+ * @param limit - Most recent runs to load
+ */
+export async function loadSkillHistory(limit: number = MAX_SKILL_HISTORY_RUNS): Promise<SkillHistoryEntry[]> {
+  try {
+    const entries = await getStore().lrange<string | SkillHistoryEntry>(KEYS.history(), 0, limit - 1);
+    return entries
+      .map(entry => typeof entry === 'string' ? JSON.parse(entry) as SkillHistoryEntry : entry)
+      .reverse();
+  } catch (error) {
+    console.error('[Skill] Error loading skill history:', error);
+    return [];
+  }
+}
@@ -1,16 +1,36 @@
-import { GuessResult } from './types';
+import { GameMode, GuessResult } from './types';
+
+/**
+ * Check if a mode's runs carry on through a wrong answer
+ * Survival runs lose a life, blitz runs lose time - their streak is the run's score
+ */
+export function survivesWrongAnswers(mode: GameMode): boolean {
+  return mode === 'survival' || mode === 'blitz';
+}
+
+/**
+ * Check if a mode's score is a streak that ends on the first miss
+ * Survival and blitz play through misses; ranking and estimation aren't pair runs
+ */
+export function isStreakRunMode(mode: GameMode): boolean {
+  return !survivesWrongAnswers(mode) && mode !== 'ranking' && mode !== 'estimation';
+}
 
 /**
  * Calculates the new streak after a guess
+ * Survival and blitz runs keep their streak through a wrong answer
  * @param currentStreak - Current streak count
  * @param result - Result of the guess
- * @returns New streak count (incremented or reset to 0)
+ * @param mode - Run's game mode
+ * @returns New streak count (incremented, kept, or reset to 0)
  */
 export function calculateNewStreak(
   currentStreak: number,
-  result: GuessResult
+  result: GuessResult,
+  mode: GameMode = 'classic'
 ): number {
-  return result.correct ? currentStreak + 1 : 0;
+  if (result.correct) return currentStreak + 1;
+  return survivesWrongAnswers(mode) ? currentStreak : 0;
 }
 
 /**
@@ -48,28 +68,23 @@ export function getStreakTier(streak: number): 0 | 1 | 2 | 3 {
   return 3;
 }
 
+// Streak milestones and what's shown when a run reaches one
+// Each is also an achievement (see achievements.ts)
+export const STREAK_MILESTONES: Record<number, string> = {
+  5: 'Getting warmed up!',
+  10: 'Double digits! 🎯',
+  15: 'On fire! 🔥',
+  20: 'Unstoppable! 💪',
+  25: 'Market wizard! 🧙',
+  50: 'LEGENDARY! 👑',
+  100: 'Are you cheating?! 🤯',
+};
+
 /**
  * Generates celebratory text for streak milestones
  * @param streak - Current streak
  * @returns Milestone message or null
  */
 export function getStreakMilestoneMessage(streak: number): string | null {
-  const milestones: Record<number, string> = {
-    5: 'Getting warmed up!',
-    10: 'Double digits! 🎯',
-    15: 'On fire! 🔥',
-    20: 'Unstoppable! 💪',
-    25: 'Market wizard! 🧙',
-    50: 'LEGENDARY! 👑',
-    100: 'Are you cheating?! 🤯',
-  };
-  return milestones[streak] || null;
+  return STREAK_MILESTONES[streak] || null;
 }
-
-
-
-
-
-
-
-
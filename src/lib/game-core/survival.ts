@@ -0,0 +1,72 @@
+/**
+ * Survival Runs for CapOrSlap
+ * A classic run with lives: a wrong answer costs a life instead of ending the
+ * run, and the streak (the run's score) keeps counting correct answers.
+ * Reaching a streak milestone earns a life back. Scores go to their own boards.
+ */
+
+import { GuessResult } from './types';
+import { getStreakMilestoneMessage } from './streak';
+
+// Lives a survival run starts with - also the most it can hold
+export const SURVIVAL_LIVES = 3;
+
+/**
+ * Check if reaching a streak earns a life back
+ * Every streak milestone (see getStreakMilestoneMessage) does
+ */
+export function isLifeMilestone(streak: number): boolean {
+  return getStreakMilestoneMessage(streak) !== null;
+}
+
+/**
+ * Calculates the lives left after a guess
+ * @param lives - Lives before the guess
+ * @param result - Result of the guess
+ * @param newStreak - Streak after the guess
+ * @returns Lives left (0 ends the run)
+ */
+export function calculateNewLives(
+  lives: number,
+  result: Pick<GuessResult, 'correct'>,
+  newStreak: number
+): number {
+  if (!result.correct) return Math.max(lives - 1, 0);
+  return isLifeMilestone(newStreak) ? Math.min(lives + 1, SURVIVAL_LIVES) : lives;
+}
+
+/**
+ * Most wrong answers a run can survive up to a streak
+ * The starting lives, plus one for every milestone reached on the way
+ */
+export function getMaxSurvivalMisses(streak: number): number {
+  let milestones = 0;
+  for (let s = 1; s <= streak; s++) {
+    if (isLifeMilestone(s)) milestones++;
+  }
+  return SURVIVAL_LIVES + milestones;
+}
+
+/**
+ * Replays a survival run's guesses, in order
+ * @param outcomes - Whether each guess was correct
+ * @returns The streak and lives after every guess, and the index of the guess
+ *          that took the last life (-1 if the run never ran out)
+ */
+export function replaySurvivalRun(outcomes: boolean[]): {
+  streak: number;
+  lives: number;
+  outOfLivesAt: number;
+} {
+  let streak = 0;
+  let lives = SURVIVAL_LIVES;
+  let outOfLivesAt = -1;
+
+  for (let i = 0; i < outcomes.length; i++) {
+    if (outcomes[i]) streak++;
+    lives = calculateNewLives(lives, { correct: outcomes[i] }, streak);
+    if (lives === 0 && outOfLivesAt === -1) outOfLivesAt = i;
+  }
+
+  return { streak, lives, outOfLivesAt };
+}
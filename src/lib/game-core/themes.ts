@@ -0,0 +1,134 @@
+/**
+ * Themed Runs for CapOrSlap
+ * Runs dealt from one corner of the market (e.g. only memecoins), using the
+ * curated category tags. Each theme has its own leaderboards.
+ */
+
+import { ThemeId, Token, TokenCategory } from './types';
+import { findTokenInfoById } from '../data/token-categories';
+
+export interface GameTheme {
+  id: ThemeId;
+  name: string;
+  emoji: string;
+  description: string;
+  categories: TokenCategory[]; // Tokens the theme deals from
+  // Fallback rules for when the live pool has too few tagged tokens
+  minTokens: number; // Smallest pool worth playing
+  fallbackCategories: TokenCategory[]; // Added in order until minTokens is reached
+  fillWithTopTokens: boolean; // Last resort: top the pool up with the biggest tokens
+}
+
+export const GAME_THEMES: Record<ThemeId, GameTheme> = {
+  'memecoin-mayhem': {
+    id: 'memecoin-mayhem',
+    name: 'Memecoin Mayhem',
+    emoji: '🐸',
+    description: 'Dogs, frogs and cats - memecoins only',
+    categories: ['memecoins'],
+    minTokens: 16,
+    fallbackCategories: ['gaming', 'ai'],
+    fillWithTopTokens: false,
+  },
+  'l2-wars': {
+    id: 'l2-wars',
+    name: 'L2 Wars',
+    emoji: '⚔️',
+    description: 'Ethereum scaling solutions go head to head',
+    categories: ['l2_chains'],
+    minTokens: 16,
+    fallbackCategories: ['l1_chains', 'infrastructure'],
+    fillWithTopTokens: false,
+  },
+  'defi-degens': {
+    id: 'defi-degens',
+    name: 'DeFi Degens',
+    emoji: '🏦',
+    description: 'Lending, DEXs and yield protocols',
+    categories: ['defi'],
+    minTokens: 16,
+    fallbackCategories: ['rwa', 'infrastructure'],
+    fillWithTopTokens: true,
+  },
+  'ai-uprising': {
+    id: 'ai-uprising',
+    name: 'AI Uprising',
+    emoji: '🤖',
+    description: 'AI tokens and agent platforms',
+    categories: ['ai'],
+    minTokens: 12,
+    fallbackCategories: ['infrastructure', 'gaming'],
+    fillWithTopTokens: true,
+  },
+  'chain-showdown': {
+    id: 'chain-showdown',
+    name: 'Chain Showdown',
+    emoji: '⛓️',
+    description: 'Layer 1s against Layer 2s',
+    categories: ['l1_chains', 'l2_chains'],
+    minTokens: 16,
+    fallbackCategories: ['infrastructure'],
+    fillWithTopTokens: true,
+  },
+};
+
+/**
+ * Check that a string is a known theme ID
+ */
+export function isThemeId(value: unknown): value is ThemeId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(GAME_THEMES, value);
+}
+
+/**
+ * Get a theme by ID
+ */
+export function getTheme(themeId: ThemeId): GameTheme {
+  return GAME_THEMES[themeId];
+}
+
+/**
+ * Get all themes, in display order
+ */
+export function getAllThemes(): GameTheme[] {
+  return Object.values(GAME_THEMES);
+}
+
+/**
+ * A token's category, falling back to the curated list for untagged tokens
+ */
+function getTokenCategory(token: Token): TokenCategory | undefined {
+  return token.category ?? findTokenInfoById(token.id)?.category;
+}
+
+/**
+ * Restricts a token pool to a theme
+ * When the theme's categories are too thin, its fallback categories are
+ * added in order, then (if the theme allows it) the biggest remaining tokens
+ * @param tokens - Full token pool (e.g. from getTokenPool())
+ * @returns Themed pool, sorted by market cap like the full pool
+ */
+export function buildThemeTokenPool(tokens: Token[], theme: GameTheme): Token[] {
+  const byCategory = (categories: TokenCategory[]) => tokens.filter(t => {
+    const category = getTokenCategory(t);
+    return category !== undefined && categories.includes(category);
+  });
+
+  const pool = new Map(byCategory(theme.categories).map(t => [t.id, t]));
+
+  for (const category of theme.fallbackCategories) {
+    if (pool.size >= theme.minTokens) break;
+    for (const token of byCategory([category])) {
+      pool.set(token.id, token);
+    }
+  }
+
+  if (pool.size < theme.minTokens && theme.fillWithTopTokens) {
+    const biggest = [...tokens].sort((a, b) => b.marketCap - a.marketCap);
+    for (const token of biggest) {
+      if (pool.size >= theme.minTokens) break;
+      pool.set(token.id, token);
+    }
+  }
+
+  return Array.from(pool.values()).sort((a, b) => b.marketCap - a.marketCap);
+}
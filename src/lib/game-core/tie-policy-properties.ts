@@ -0,0 +1,219 @@
+/**
+ * Tie Policy Property Checks for CapOrSlap
+ * Exhaustive and randomized checks that the client, the session and the
+ * validator score every pair the same way, and that selection never deals a
+ * near-tie. Served by /api/test/tie-policy.
+ */
+
+import { ComparisonMetric, Guess, Token } from './types';
+import { compareTokens } from './comparison';
+import { getMetricValue, getPlayableMetrics } from './metrics';
+import { applyMarketCapSnapshot, buildMarketCapSnapshot } from './market-cap-snapshot';
+import { deriveCorrectAnswer } from './validator';
+import { NEAR_TIE_THRESHOLD, excludeNearTies, isNearTie, isNearTiePair, scoreGuess } from './tie-policy';
+import { buildSeededSequence, seededRandom, selectInitialPairSeeded } from './seeded-selection';
+
+// Failing cases kept per property
+const MAX_EXAMPLES = 5;
+
+const GUESSES: Guess[] = ['cap', 'slap'];
+
+export interface TiePolicyPropertyReport {
+  property: string;
+  checked: number;
+  failures: number;
+  examples: string[]; // First few failing cases
+}
+
+export interface TiePolicyCheckOptions {
+  sequences?: number; // Seeded sequences dealt per metric (default 50)
+  sequenceLength?: number; // Tokens per sequence (default 30)
+  randomPairs?: number; // Generated value pairs (default 10000)
+  seed?: number; // Makes the run reproducible (default 1)
+}
+
+function createReport(property: string): TiePolicyPropertyReport {
+  return { property, checked: 0, failures: 0, examples: [] };
+}
+
+function record(report: TiePolicyPropertyReport, passed: boolean, example: () => string): void {
+  report.checked++;
+  if (passed) return;
+  report.failures++;
+  if (report.examples.length < MAX_EXAMPLES) report.examples.push(example());
+}
+
+/**
+ * Gives fixture tokens a value for every metric, with deliberate ties
+ * Price changes are rounded to 0.1% (plenty of exact ties), and every 20th
+ * token copies its neighbour's market cap exactly or to within a hair.
+ */
+export function withTiePolicyFixtureMetrics(pool: Token[], seed: number = 1): Token[] {
+  const random = seededRandom(seed);
+
+  return pool.map((token, index) => {
+    const previous = pool[index - 1];
+    let marketCap = token.marketCap;
+    if (previous && index % 20 === 0) marketCap = previous.marketCap;
+    if (previous && index % 20 === 1) marketCap = Math.round(previous.marketCap * (1 + NEAR_TIE_THRESHOLD / 2));
+
+    return {
+      ...token,
+      marketCap,
+      fullyDilutedValuation: Math.round(marketCap * (1 + random() * 2)),
+      volume24h: Math.round(marketCap * random() * 0.2),
+      priceChange24h: Math.round((random() * 40 - 20) * 10) / 10,
+      holders: Math.round(random() * 2_000_000),
+      tvl: Math.round(marketCap * random()),
+    };
+  });
+}
+
+/**
+ * Client, session and validator agree on both guesses for every ordered pair,
+ * and exactly one guess is correct
+ */
+function checkScoringAgreement(
+  pool: Token[],
+  metric: ComparisonMetric,
+  agreement: TiePolicyPropertyReport,
+  oneAnswer: TiePolicyPropertyReport
+): void {
+  // The session scores tokens priced from the run's snapshot, the validator reads the snapshot directly
+  const snapshot = buildMarketCapSnapshot(pool, metric);
+  const sessionTokens = new Map(applyMarketCapSnapshot(pool, snapshot, metric).map(t => [t.id, t]));
+
+  for (const current of pool) {
+    for (const next of pool) {
+      if (current.id === next.id) continue;
+      const sessionCurrent = sessionTokens.get(current.id);
+      const sessionNext = sessionTokens.get(next.id);
+      if (!sessionCurrent || !sessionNext) continue; // No value for the metric - never dealt
+
+      let correctGuesses = 0;
+      for (const guess of GUESSES) {
+        const client = compareTokens(current, next, guess, metric).correct;
+        const server = scoreGuess(sessionCurrent, sessionNext, guess, metric).correct;
+        const validator = deriveCorrectAnswer(
+          { roundNumber: 0, currentTokenId: current.id, nextTokenId: next.id, guess, timestamp: 0 },
+          snapshot
+        ) === guess;
+
+        record(agreement, client === server && server === validator, () =>
+          `${metric}: ${current.id} (${getMetricValue(current, metric)}) vs ${next.id} (${getMetricValue(next, metric)}), ` +
+          `${guess}: client=${client} session=${server} validator=${validator}`
+        );
+        if (server) correctGuesses++;
+      }
+
+      record(oneAnswer, correctGuesses === 1, () =>
+        `${metric}: ${current.id} vs ${next.id} has ${correctGuesses} correct answers`
+      );
+    }
+  }
+}
+
+/**
+ * Seeded dealing (daily runs, duels, metric runs) never puts a near-tie next to each other
+ */
+function checkSeededDealing(
+  pool: Token[],
+  metric: ComparisonMetric,
+  options: Required<TiePolicyCheckOptions>,
+  report: TiePolicyPropertyReport
+): void {
+  for (let i = 0; i < options.sequences; i++) {
+    const gameSeed = `tie-policy_${options.seed}_${metric}_${i}`;
+
+    const pair = selectInitialPairSeeded(pool, gameSeed, metric);
+    if (pair) {
+      record(report, !isNearTiePair(pair.currentToken, pair.nextToken, metric), () =>
+        `${metric}: initial pair ${pair.currentToken.id} / ${pair.nextToken.id} (seed ${gameSeed})`
+      );
+    }
+
+    // Sequences are market cap only (daily runs and duels)
+    if (metric !== 'marketCap') continue;
+
+    const sequence = buildSeededSequence(pool, gameSeed, options.sequenceLength);
+    for (let round = 1; round < sequence.length; round++) {
+      const current = sequence[round - 1];
+      const next = sequence[round];
+      record(report, !isNearTiePair(current, next, metric), () =>
+        `${metric}: ${current.id} / ${next.id} at position ${round} (seed ${gameSeed})`
+      );
+    }
+  }
+}
+
+/**
+ * The pool a classic deal draws from holds no near-tie with the token it's compared to
+ */
+function checkCandidateFiltering(
+  pool: Token[],
+  metric: ComparisonMetric,
+  report: TiePolicyPropertyReport
+): void {
+  for (const from of pool) {
+    if (getMetricValue(from, metric) === undefined) continue;
+    const nearTies = excludeNearTies(pool, from, metric).filter(t => t.id !== from.id && isNearTiePair(from, t, metric));
+    record(report, nearTies.length === 0, () =>
+      `${metric}: ${nearTies.length} near-ties left against ${from.id}`
+    );
+  }
+}
+
+/**
+ * Generated value pairs: near-ties are symmetric, and outside them swapping
+ * the pair flips the answer
+ */
+function checkGeneratedPairs(options: Required<TiePolicyCheckOptions>, report: TiePolicyPropertyReport): void {
+  const random = seededRandom(options.seed);
+  const magnitudes = [0, 0.01, 1, 1e3, 1e6, 1e9, 1e12];
+
+  for (let i = 0; i < options.randomPairs; i++) {
+    const scale = magnitudes[Math.floor(random() * magnitudes.length)];
+    const sign = random() < 0.2 ? -1 : 1; // Price changes go negative
+    const a = sign * scale * random();
+    // A third of the pairs sit right around the threshold
+    const offset = random() < 0.33 ? NEAR_TIE_THRESHOLD * (0.5 + random()) : random();
+    const b = random() < 0.1 ? a : a + Math.abs(a || 1) * offset * (random() < 0.5 ? -1 : 1);
+
+    const symmetric = isNearTie(a, b) === isNearTie(b, a);
+    const forward = scoreGuess({ marketCap: a } as Token, { marketCap: b } as Token, 'cap').correctAnswer;
+    const backward = scoreGuess({ marketCap: b } as Token, { marketCap: a } as Token, 'cap').correctAnswer;
+    const flips = a === b ? forward === 'cap' && backward === 'cap' : forward !== backward;
+
+    record(report, symmetric && flips, () =>
+      `${a} vs ${b}: nearTie ${isNearTie(a, b)}/${isNearTie(b, a)}, answers ${forward}/${backward}`
+    );
+  }
+}
+
+/**
+ * Runs every tie policy property against a pool
+ * @returns One report per property - all pass when every failures count is 0
+ */
+export function checkTiePolicy(pool: Token[], options: TiePolicyCheckOptions = {}): TiePolicyPropertyReport[] {
+  const resolved: Required<TiePolicyCheckOptions> = {
+    sequences: options.sequences ?? 50,
+    sequenceLength: options.sequenceLength ?? 30,
+    randomPairs: options.randomPairs ?? 10_000,
+    seed: options.seed ?? 1,
+  };
+
+  const agreement = createReport('client, session and validator agree on every pair');
+  const oneAnswer = createReport('exactly one answer is correct for every pair');
+  const dealing = createReport('seeded dealing never deals a near-tie');
+  const filtering = createReport('classic deal candidates hold no near-ties');
+  const generated = createReport('generated pairs: symmetric near-ties, answers flip when swapped');
+
+  for (const { id: metric } of getPlayableMetrics()) {
+    checkScoringAgreement(pool, metric, agreement, oneAnswer);
+    checkSeededDealing(pool, metric, resolved, dealing);
+    checkCandidateFiltering(pool, metric, filtering);
+  }
+  checkGeneratedPairs(resolved, generated);
+
+  return [agreement, oneAnswer, dealing, filtering, generated];
+}
@@ -0,0 +1,79 @@
+/**
+ * Tie Policy for CapOrSlap
+ * The one place that decides what counts as higher. The client's instant
+ * feedback, the session's scoring, the validator and duels all go through it.
+ *
+ * Near-ties are never dealt: pairs within NEAR_TIE_THRESHOLD of each other are
+ * rejected by selection, so every dealt pair has one clear answer. An exact tie
+ * that still reaches scoring (runs dealt before this policy, challenge replays
+ * of them) counts as 'cap' - the next token isn't lower.
+ */
+
+import { ComparisonMetric, Guess, Token } from './types';
+import { getMetricValue } from './metrics';
+
+// Values within 0.5% of each other are too close to call (API rounding, stale refreshes)
+export const NEAR_TIE_THRESHOLD = 0.005;
+
+/**
+ * Check if two values are too close to deal as a pair
+ * Relative to the larger magnitude, so it works for caps and for price changes around 0%
+ */
+export function isNearTie(
+  currentValue: number,
+  nextValue: number,
+  threshold: number = NEAR_TIE_THRESHOLD
+): boolean {
+  const scale = Math.max(Math.abs(currentValue), Math.abs(nextValue));
+  return Math.abs(nextValue - currentValue) <= threshold * scale;
+}
+
+/**
+ * Check if a pair is a near-tie on the run's metric
+ * Tokens without a value for the metric never pair up
+ */
+export function isNearTiePair(
+  currentToken: Token,
+  nextToken: Token,
+  metric: ComparisonMetric = 'marketCap'
+): boolean {
+  const currentValue = getMetricValue(currentToken, metric);
+  const nextValue = getMetricValue(nextToken, metric);
+  if (currentValue === undefined || nextValue === undefined) return true;
+  return isNearTie(currentValue, nextValue);
+}
+
+/**
+ * Tokens that can be dealt against fromToken - everything that isn't a near-tie with it
+ */
+export function excludeNearTies(
+  tokens: Token[],
+  fromToken: Token,
+  metric: ComparisonMetric = 'marketCap'
+): Token[] {
+  return tokens.filter(t => t.id === fromToken.id || !isNearTiePair(fromToken, t, metric));
+}
+
+/**
+ * Correct answer for a pair of values
+ * Exact ties count as 'cap' (the next token isn't lower)
+ */
+export function getCorrectAnswer(currentValue: number, nextValue: number): Guess {
+  return nextValue >= currentValue ? 'cap' : 'slap';
+}
+
+/**
+ * Scores a guess on a pair of tokens (missing values count as 0)
+ */
+export function scoreGuess(
+  currentToken: Token,
+  nextToken: Token,
+  guess: Guess,
+  metric: ComparisonMetric = 'marketCap'
+): { correct: boolean; correctAnswer: Guess } {
+  const correctAnswer = getCorrectAnswer(
+    getMetricValue(currentToken, metric) ?? 0,
+    getMetricValue(nextToken, metric) ?? 0
+  );
+  return { correct: guess === correctAnswer, correctAnswer };
+}
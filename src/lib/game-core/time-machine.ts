@@ -0,0 +1,38 @@
+/**
+ * Time Machine for CapOrSlap
+ * Classic runs played on a past day's market caps ("which was bigger on
+ * <date>?"), dealt from the stored pool snapshots (see data/pool-snapshots.ts).
+ * Both the caps on that day and today's caps are revealed.
+ */
+
+import { getDailyKey } from './daily';
+
+/**
+ * Days a time machine run can travel to - every snapshot before today
+ * @param snapshotDays - Days with a stored snapshot (YYYY-MM-DD)
+ */
+export function getTimeMachineDays(snapshotDays: string[], now: number = Date.now()): string[] {
+  const today = getDailyKey(now);
+  return snapshotDays.filter(day => day < today).sort();
+}
+
+/**
+ * Picks the day for a run when the player didn't choose one
+ * @returns null if there's nowhere to travel to yet
+ */
+export function pickTimeMachineDay(days: string[], random: () => number = Math.random): string | null {
+  if (days.length === 0) return null;
+  return days[Math.floor(random() * days.length)];
+}
+
+/**
+ * Display form of a snapshot day, e.g. "Mar 14, 2025"
+ */
+export function formatSnapshotDate(dayKey: string): string {
+  return new Date(`${dayKey}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
@@ -1,6 +1,7 @@
 /**
  * Timer System for CapOrSlap
- * Timer decreases as streak increases
+ * Timer decreases as streak increases. Blitz runs instead play against a
+ * single clock for the whole run, which wrong answers shorten.
  */
 
 export interface TimerConfig {
@@ -85,6 +86,43 @@ export function getTimerDurationAfterReprieve(streak: number): number {
   return Math.min(baseDuration + 10, 60);
 }
 
+// Blitz runs: one clock for the whole run
+export const BLITZ_DURATION_MS = 60 * 1000;
+
+// Blitz runs: a wrong answer takes this much off the clock
+export const BLITZ_MISS_PENALTY_MS = 5 * 1000;
+
+// Blitz runs: a guess sent as the clock hits zero still counts (network latency)
+export const BLITZ_CLOCK_GRACE_MS = 1500;
+
+/**
+ * When a blitz run's clock runs out
+ * @param startedAt - When the run started (ms)
+ * @param misses - Wrong answers so far
+ */
+export function getBlitzDeadline(startedAt: number, misses: number): number {
+  return startedAt + BLITZ_DURATION_MS - misses * BLITZ_MISS_PENALTY_MS;
+}
+
+/**
+ * Time left on a blitz run's clock (ms, never negative)
+ */
+export function getBlitzTimeRemaining(startedAt: number, misses: number, now: number = Date.now()): number {
+  return Math.max(getBlitzDeadline(startedAt, misses) - now, 0);
+}
+
+/**
+ * Timer display config for the blitz clock
+ */
+export function getBlitzTimerConfig(): TimerConfig {
+  return {
+    duration: BLITZ_DURATION_MS / 1000,
+    tier: 'Blitz',
+    warningAt: 0.33,   // 20s
+    criticalAt: 0.17,  // 10s
+  };
+}
+
 /**
  * Pause duration between rounds (when correct animation plays)
  */
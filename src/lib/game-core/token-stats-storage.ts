@@ -0,0 +1,238 @@
+/**
+ * Token Statistics Storage for CapOrSlap
+ * Finished runs queue their scored guesses; aggregateTokenStats (run by
+ * /api/admin/aggregate-token-stats) folds the queue into the stored
+ * statistics that selection and /api/stats/tokens read.
+ * Token accuracy and the totals sit in one key. Pair accuracy sits in a hash
+ * keyed by pair, read a token's pairs at a time - there are far too many
+ * pairs to move in one request.
+ */
+
+import { getStore } from '../store';
+import {
+  MAX_TRACKED_PAIRS,
+  MIN_STATS_GUESSES,
+  PairAccuracy,
+  TokenStats,
+  TokenStatsEntry,
+  addToTokenStats,
+  createTokenStats,
+  getEntryPairKeys,
+  getPairKey,
+} from './token-stats';
+
+// Runs queued between aggregations - if the job stops running, the oldest are dropped
+export const MAX_PENDING_TOKEN_STATS_RUNS = 20000;
+
+// Queued runs folded in per read - keeps each request and response small
+const AGGREGATION_BATCH_RUNS = 200;
+
+// Hash fields read or written per request
+const PAIR_BATCH_SIZE = 500;
+
+// How long a server reuses the statistics it loaded
+const CACHE_DURATION = 5 * 60 * 1000;
+
+// An aggregation that hasn't finished by then is assumed dead
+const AGGREGATION_LOCK_SECONDS = 5 * 60;
+
+// Redis key patterns
+const KEYS = {
+  stats: () => 'token-stats', // Token accuracy and totals (no pairs)
+  pairs: () => 'token-stats:pairs', // Hash: pair key -> PairAccuracy
+  pairGuesses: () => 'token-stats:pairs:guesses', // Sorted set: pair key -> guesses (least guessed pruned first)
+  pending: () => 'token-stats:pending',
+  lock: () => 'token-stats:lock',
+};
+
+export interface AggregateTokenStatsResult {
+  stats: TokenStats; // Without pairs
+  runsAdded: number;
+  pairs: number; // Pairs stored
+}
+
+// In-memory cache
+let cachedStats: TokenStats | null = null;
+let lastLoadTime = 0;
+const cachedPairs = new Map<string, { pairs: Record<string, PairAccuracy>; loadedAt: number }>();
+
+function parseEntry<T>(data: unknown): T {
+  return typeof data === 'string' ? JSON.parse(data) : data as T;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Reads pairs' accuracy from the hash
+ * @returns The pairs that have been guessed, by key
+ */
+export async function loadPairStats(keys: string[]): Promise<Record<string, PairAccuracy>> {
+  const store = getStore();
+  const pairs: Record<string, PairAccuracy> = {};
+  for (const batch of chunk(keys, PAIR_BATCH_SIZE)) {
+    const values = await store.hmget<string | PairAccuracy>(KEYS.pairs(), ...batch);
+    values.forEach((value, i) => {
+      if (value) pairs[batch[i]] = parseEntry<PairAccuracy>(value);
+    });
+  }
+  return pairs;
+}
+
+/**
+ * Writes pairs' accuracy to the hash, and their guesses to the pruning index
+ */
+async function writePairs(pairs: Record<string, PairAccuracy>): Promise<void> {
+  const store = getStore();
+  for (const batch of chunk(Object.entries(pairs), PAIR_BATCH_SIZE)) {
+    await store.hset(KEYS.pairs(), Object.fromEntries(batch.map(([key, pair]) => [key, JSON.stringify(pair)])));
+    const [first, ...rest] = batch.map(([key, pair]) => ({ score: pair.guesses, member: key }));
+    await store.zadd(KEYS.pairGuesses(), first, ...rest);
+  }
+}
+
+/**
+ * Drops the least guessed pairs once there are more than MAX_TRACKED_PAIRS
+ * @returns Pairs left
+ */
+async function prunePairs(): Promise<number> {
+  const store = getStore();
+  const count = await store.zcard(KEYS.pairGuesses());
+  if (count <= MAX_TRACKED_PAIRS) return count;
+
+  const excess = await store.zrange<string[]>(KEYS.pairGuesses(), 0, count - MAX_TRACKED_PAIRS - 1);
+  for (const batch of chunk(excess.map(String), PAIR_BATCH_SIZE)) {
+    await store.hdel(KEYS.pairs(), ...batch);
+    await store.zrem(KEYS.pairGuesses(), ...batch);
+  }
+  return MAX_TRACKED_PAIRS;
+}
+
+/**
+ * Queues a finished run's guesses for the next aggregation
+ */
+export async function queueTokenStatsEntry(entry: TokenStatsEntry): Promise<void> {
+  if (entry.rounds.length === 0) return;
+  const store = getStore();
+
+  try {
+    await store.lpush(KEYS.pending(), JSON.stringify(entry));
+    await store.ltrim(KEYS.pending(), 0, MAX_PENDING_TOKEN_STATS_RUNS - 1);
+  } catch (error) {
+    console.error('[TokenStats] Error queueing run:', error);
+  }
+}
+
+/**
+ * Loads the aggregated token statistics and totals, cached for a few minutes
+ * Pairs aren't included - see loadTokenPairStats
+ * @returns The statistics, or empty ones if nothing has been aggregated yet
+ */
+export async function loadTokenStats(): Promise<TokenStats> {
+  const now = Date.now();
+  if (cachedStats && now - lastLoadTime < CACHE_DURATION) {
+    return cachedStats;
+  }
+
+  try {
+    const data = await getStore().get(KEYS.stats());
+    cachedStats = data ? { ...parseEntry<TokenStats>(data), pairs: {} } : createTokenStats(0);
+    lastLoadTime = now;
+    return cachedStats;
+  } catch (error) {
+    console.error('[TokenStats] Error loading statistics:', error);
+    return cachedStats ?? createTokenStats(0);
+  }
+}
+
+/**
+ * Loads the statistics with one token's pairs, cached for a few minutes
+ * Pairs are only read once there are enough guesses for selection to use them
+ * @param otherTokenIds - Tokens it could be paired with
+ */
+export async function loadTokenPairStats(tokenId: string, otherTokenIds: string[]): Promise<TokenStats> {
+  const stats = await loadTokenStats();
+  if (stats.guesses < MIN_STATS_GUESSES) return stats;
+
+  const now = Date.now();
+  let cached = cachedPairs.get(tokenId);
+  if (!cached || now - cached.loadedAt >= CACHE_DURATION) {
+    try {
+      const keys = otherTokenIds.filter(id => id !== tokenId).map(id => getPairKey(tokenId, id));
+      cached = { pairs: await loadPairStats(keys), loadedAt: now };
+      cachedPairs.set(tokenId, cached);
+    } catch (error) {
+      console.error('[TokenStats] Error loading pair statistics:', error);
+      return stats;
+    }
+  }
+
+  return { ...stats, pairs: cached.pairs };
+}
+
+/**
+ * The most guessed pairs' accuracy
+ * @param count - How many pairs to read
+ */
+export async function loadMostGuessedPairStats(count: number): Promise<Record<string, PairAccuracy>> {
+  const keys = await getStore().zrange<string[]>(KEYS.pairGuesses(), 0, count - 1, { rev: true });
+  return loadPairStats(keys.map(String));
+}
+
+/**
+ * Aggregation job - folds every queued run into the stored statistics
+ * Runs are read oldest first, a batch at a time; only the pairs a batch
+ * played are read and written back.
+ * @returns The new statistics, or null if another aggregation is running
+ */
+export async function aggregateTokenStats(): Promise<AggregateTokenStatsResult | null> {
+  const store = getStore();
+
+  // One aggregation at a time - two would count the same runs twice
+  const locked = await store.set(KEYS.lock(), Date.now(), { nx: true, ex: AGGREGATION_LOCK_SECONDS });
+  if (!locked) return null;
+
+  try {
+    const data = await store.get(KEYS.stats());
+    const stats = data ? parseEntry<TokenStats>(data) : createTokenStats();
+
+    // Statistics stored before pairs moved to the hash still hold them
+    if (stats.pairs && Object.keys(stats.pairs).length > 0) {
+      await writePairs(stats.pairs);
+    }
+    stats.pairs = {};
+
+    let runsAdded = 0;
+    const maxBatches = Math.ceil(MAX_PENDING_TOKEN_STATS_RUNS / AGGREGATION_BATCH_RUNS);
+    for (let batch = 0; batch < maxBatches; batch++) {
+      // Runs are pushed on the front - the oldest sit at the end
+      const pending = await store.lrange<string | TokenStatsEntry>(KEYS.pending(), -AGGREGATION_BATCH_RUNS, -1);
+      if (pending.length === 0) break;
+
+      const entries = pending.map(entry => parseEntry<TokenStatsEntry>(entry)).reverse();
+      stats.pairs = await loadPairStats(getEntryPairKeys(entries));
+      addToTokenStats(stats, entries);
+
+      await writePairs(stats.pairs);
+      await store.set(KEYS.stats(), JSON.stringify({ ...stats, pairs: {} }));
+      // Only drop the runs read - newer ones may have been pushed meanwhile
+      await store.ltrim(KEYS.pending(), 0, -(pending.length + 1));
+      runsAdded += entries.length;
+    }
+
+    const pairs = await prunePairs();
+
+    stats.pairs = {};
+    cachedStats = stats;
+    lastLoadTime = Date.now();
+    cachedPairs.clear();
+    return { stats, runsAdded, pairs };
+  } finally {
+    await store.del(KEYS.lock());
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Token Difficulty Statistics for CapOrSlap
+ * How often players actually get each token and each pair right, learned from
+ * finished runs' guesses. Runs log their scored guesses (see
+ * token-stats-storage.ts); an aggregation job folds them into the stored statistics.
+ * Hard and harder tiers lean towards pairs players really miss.
+ */
+
+import { Guess, Token } from './types';
+import { GameGuess } from './validator';
+import { scoreGuess } from './tie-policy';
+
+// A finished run's scored guess
+export interface TokenStatsRound {
+  currentTokenId: string;
+  nextTokenId: string;
+  guess: Guess;
+  correct: boolean;
+}
+
+// A finished run's guesses, waiting for the aggregation job
+// (a revived run logs the guesses after its reprieve separately)
+export interface TokenStatsEntry {
+  runId: string;
+  rounds: TokenStatsRound[];
+  timestamp: number;
+}
+
+export interface TokenAccuracy {
+  guesses: number;
+  correct: number;
+  overrated: number; // Misses where players thought it was the bigger token
+  underrated: number; // Misses where players thought it was the smaller token
+}
+
+export interface PairAccuracy {
+  guesses: number;
+  correct: number;
+}
+
+export interface TokenStats {
+  tokens: Record<string, TokenAccuracy>;
+  pairs: Record<string, PairAccuracy>; // Keyed by getPairKey - only the pairs loaded (stored apart, see token-stats-storage.ts)
+  runs: number;
+  guesses: number;
+  correct: number;
+  updatedAt: number;
+}
+
+// Guesses before selection trusts the stats at all
+export const MIN_STATS_GUESSES = 500;
+
+// Pairs kept in storage - the least guessed are dropped first
+export const MAX_TRACKED_PAIRS = 10000;
+
+// Guesses' worth of weight the prior gets when smoothing a token's or a pair's miss rate
+const PRIOR_GUESSES = 20;
+
+/**
+ * Empty statistics
+ */
+export function createTokenStats(now: number = Date.now()): TokenStats {
+  return { tokens: {}, pairs: {}, runs: 0, guesses: 0, correct: 0, updatedAt: now };
+}
+
+/**
+ * A pair's key - the same whichever token was shown first
+ */
+export function getPairKey(tokenIdA: string, tokenIdB: string): string {
+  return tokenIdA < tokenIdB ? `${tokenIdA}:${tokenIdB}` : `${tokenIdB}:${tokenIdA}`;
+}
+
+/**
+ * Keys of every pair a batch of logged runs played
+ */
+export function getEntryPairKeys(entries: TokenStatsEntry[]): string[] {
+  const keys = new Set<string>();
+  for (const entry of entries) {
+    for (const round of entry.rounds) {
+      keys.add(getPairKey(round.currentTokenId, round.nextTokenId));
+    }
+  }
+  return Array.from(keys);
+}
+
+/**
+ * Scores a run's market cap guesses for the statistics
+ * @param tokens - The tokens the run was played with (its frozen pool)
+ * @returns The rounds whose tokens are known
+ */
+export function getTokenStatsRounds(guesses: GameGuess[], tokens: Token[]): TokenStatsRound[] {
+  const tokenMap = new Map(tokens.map(t => [t.id, t]));
+  const rounds: TokenStatsRound[] = [];
+
+  for (const g of guesses) {
+    const currentToken = tokenMap.get(g.currentTokenId);
+    const nextToken = tokenMap.get(g.nextTokenId);
+    if (!currentToken || !nextToken) continue;
+
+    const { correct } = scoreGuess(currentToken, nextToken, g.guess);
+    rounds.push({ currentTokenId: g.currentTokenId, nextTokenId: g.nextTokenId, guess: g.guess, correct });
+  }
+  return rounds;
+}
+
+function addTokenGuess(stats: TokenStats, tokenId: string, correct: boolean, thoughtBigger: boolean): void {
+  const token = stats.tokens[tokenId] ?? (stats.tokens[tokenId] = { guesses: 0, correct: 0, overrated: 0, underrated: 0 });
+  token.guesses++;
+  if (correct) {
+    token.correct++;
+  } else if (thoughtBigger) {
+    token.overrated++;
+  } else {
+    token.underrated++;
+  }
+}
+
+/**
+ * Folds logged runs into the statistics (in place)
+ * The runs' pairs must already be loaded into stats.pairs to add up
+ */
+export function addToTokenStats(stats: TokenStats, entries: TokenStatsEntry[], now: number = Date.now()): TokenStats {
+  for (const entry of entries) {
+    stats.runs++;
+    for (const round of entry.rounds) {
+      stats.guesses++;
+      if (round.correct) stats.correct++;
+
+      // 'cap' says the next token is the bigger one
+      const nextThoughtBigger = round.guess === 'cap';
+      addTokenGuess(stats, round.currentTokenId, round.correct, !nextThoughtBigger);
+      addTokenGuess(stats, round.nextTokenId, round.correct, nextThoughtBigger);
+
+      const key = getPairKey(round.currentTokenId, round.nextTokenId);
+      const pair = stats.pairs[key] ?? (stats.pairs[key] = { guesses: 0, correct: 0 });
+      pair.guesses++;
+      if (round.correct) pair.correct++;
+    }
+  }
+
+  stats.updatedAt = now;
+  return stats;
+}
+
+/**
+ * Share of all logged guesses that were wrong
+ */
+export function getOverallMissRate(stats: TokenStats): number {
+  return stats.guesses > 0 ? 1 - stats.correct / stats.guesses : 0;
+}
+
+/**
+ * Share of a token's guesses that were wrong
+ * Smoothed towards the overall miss rate, so a handful of guesses doesn't make a token "hard"
+ */
+export function getTokenMissRate(stats: TokenStats, tokenId: string): number {
+  const overall = getOverallMissRate(stats);
+  const token = stats.tokens[tokenId];
+  if (!token) return overall;
+  return (token.guesses - token.correct + PRIOR_GUESSES * overall) / (token.guesses + PRIOR_GUESSES);
+}
+
+/**
+ * Share of a pair's guesses that were wrong
+ * Smoothed towards its two tokens' miss rates - pairs nobody has played yet get exactly those
+ */
+export function getPairMissRate(stats: TokenStats, tokenIdA: string, tokenIdB: string): number {
+  const prior = (getTokenMissRate(stats, tokenIdA) + getTokenMissRate(stats, tokenIdB)) / 2;
+  const pair = stats.pairs[getPairKey(tokenIdA, tokenIdB)];
+  if (!pair) return prior;
+  return (pair.guesses - pair.correct + PRIOR_GUESSES * prior) / (pair.guesses + PRIOR_GUESSES);
+}
+
+/**
+ * How much harder than average a pair plays (1 = average, 2 = missed twice as often)
+ * @returns 1 until there are MIN_STATS_GUESSES guesses to go on
+ */
+export function getPairHardness(stats: TokenStats, tokenIdA: string, tokenIdB: string): number {
+  const overall = getOverallMissRate(stats);
+  if (stats.guesses < MIN_STATS_GUESSES || overall === 0) return 1;
+  return getPairMissRate(stats, tokenIdA, tokenIdB) / overall;
+}
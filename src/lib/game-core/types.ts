@@ -42,8 +42,28 @@ export interface Token {
   description?: string;
   website?: string;
   twitter?: string;
+  // Time machine: today's cap, while marketCap holds the snapshot day's
+  liveMarketCap?: number;
+  // Other comparison metrics (see metrics.ts) - absent when no source reports them
+  fullyDilutedValuation?: number;
+  volume24h?: number;
+  priceChange24h?: number; // Percent, e.g. -3.2
+  holders?: number;
+  tvl?: number; // DeFi protocols only
 }
 
+// Token value a run is played on (see COMPARISON_METRICS in metrics.ts)
+export type ComparisonMetric =
+  | 'marketCap'
+  | 'fullyDilutedValuation'
+  | 'volume24h'
+  | 'priceChange24h'
+  | 'holders'
+  | 'tvl';
+
+// Market caps a run was dealt with, by token ID (see market-cap-snapshot.ts)
+export type MarketCapSnapshot = Record<string, number>;
+
 // Token pair for comparison
 export interface TokenPair {
   current: Token;
@@ -62,17 +82,103 @@ export interface GuessResult {
   correctAnswer: Guess;
 }
 
+// Ranking round answer: the dealt token IDs, highest market cap first
+export type RankingGuess = string[];
+
+// How a ranking round is scored (see ranking.ts)
+// exact = the whole order must be right, inversions = one swapped pair still passes
+export type RankingScoring = 'exact' | 'inversions';
+
+// Result of a ranking guess
+export interface RankingResult {
+  correct: boolean;
+  guess: RankingGuess;
+  tokens: Token[]; // As dealt
+  correctOrder: RankingGuess;
+  inversions: number; // Pairs the guess ranked the wrong way round
+}
+
+// Result of a market cap estimate (see estimation.ts)
+export interface EstimateResult {
+  token: Token; // With its market cap revealed
+  estimate: number;
+  points: number; // 0 to ESTIMATE_MAX_POINTS
+  logDistance: number; // Orders of magnitude off
+}
+
 // Game state
-export type GamePhase = 'playing' | 'correct' | 'loss';
+// miss = wrong answer the run carries on from (survival costs a life, blitz costs time),
+// bonus = classic run's market cap estimate between rounds
+export type GamePhase = 'playing' | 'correct' | 'miss' | 'bonus' | 'loss';
+
+// Game mode (classic = random run, daily = shared sequence for the UTC day,
+// challenge = replay of another player's run from a ?challenge= link,
+// themed = classic run dealt from one theme's categories - see themes.ts,
+// timemachine = classic run played on a past day's stored market caps,
+// metric = classic run compared on another metric, e.g. 24h volume,
+// survival = classic run with lives - see survival.ts,
+// blitz = as many correct answers as possible against one 60s clock - see timer.ts,
+// ranking = every round orders three or four tokens instead of a pair - see ranking.ts,
+// estimation = every round estimates a hidden token's market cap - see estimation.ts)
+export type GameMode =
+  | 'classic'
+  | 'daily'
+  | 'challenge'
+  | 'themed'
+  | 'timemachine'
+  | 'metric'
+  | 'survival'
+  | 'blitz'
+  | 'ranking'
+  | 'estimation';
+
+// Themed run IDs (see GAME_THEMES in themes.ts)
+export type ThemeId =
+  | 'memecoin-mayhem'
+  | 'l2-wars'
+  | 'defi-degens'
+  | 'ai-uprising'
+  | 'chain-showdown';
+
+// Achievement IDs (see ACHIEVEMENTS in achievements.ts)
+export type AchievementId =
+  | 'streak-5'
+  | 'streak-10'
+  | 'streak-15'
+  | 'streak-20'
+  | 'streak-25'
+  | 'streak-50'
+  | 'streak-100'
+  | 'clean-10'
+  | 'perfect-insane'
+  | 'beat-top-3'
+  | 'play-streak-7';
+
+// The run being replayed in challenge mode
+export interface ChallengeInfo {
+  runId: string;
+  challenger: User;
+  challengerStreak: number;
+  outcomes: boolean[]; // Whether the challenger got each round right, in order (each pair's caps come with its result)
+  metric?: ComparisonMetric; // What the challenger's run compared (default: market cap)
+}
 
 export interface GameState {
+  mode: GameMode;
   phase: GamePhase;
   currentToken: Token | null;
   nextToken: Token | null;
   streak: number;
   hasUsedReprieve: boolean;
   runId: string;
-  preloadedTokens: Token[]; // Queue of preloaded tokens ready to use
+  challenge?: ChallengeInfo; // Only in challenge mode
+  theme?: ThemeId; // Only in themed mode
+  snapshotDate?: string; // Only in time machine mode - day the caps are from (YYYY-MM-DD)
+  metric?: ComparisonMetric; // What the run compares - market cap when absent
+  lives?: number; // Only in survival mode - lives left
+  clockEndsAt?: number; // Only in blitz mode - when the run's clock runs out (client time, ms)
+  bonusToken?: Token; // Only in the bonus phase - the token to estimate (market cap hidden)
+  bonusPoints?: number; // Classic runs - points from bonus estimates so far
 }
 
 // A completed run (for leaderboard/sharing)
@@ -84,6 +190,12 @@ export interface Run {
   timestamp: number;
   lastToken: Token;
   failedGuess?: GuessResult;
+  mode?: GameMode; // Defaults to 'classic' when absent
+  challengeRunId?: string; // Run that was replayed, in challenge mode
+  theme?: ThemeId; // Theme played, in themed mode
+  snapshotDate?: string; // Day played, in time machine mode
+  metric?: ComparisonMetric; // Compared metric, when not market cap
+  bonusPoints?: number; // Classic runs - points from bonus estimates
 }
 
 // Leaderboard entry
@@ -94,6 +206,8 @@ export interface LeaderboardEntry {
   cumulativeScore?: number; // Cumulative score for weekly (sum of all streaks)
   usedReprieve: boolean;
   timestamp: number;
+  badges?: AchievementId[]; // Achievements shown next to the player (see getAchievementBadges)
+  reward?: string; // Season reward earned - final season standings only
 }
 
 // Share data for generating challenge
@@ -3,8 +3,29 @@
  * Hybrid approach: client plays freely, high scores verified server-side
  */
 
-import { Token, Guess } from './types';
-import { getTimerDuration } from './timer';
+import {
+  Token,
+  Guess,
+  GameMode,
+  MarketCapSnapshot,
+  ThemeId,
+  ComparisonMetric,
+  RankingGuess,
+  RankingScoring,
+} from './types';
+import { getMetricValue } from './metrics';
+import { getCorrectAnswer } from './tie-policy';
+import { BLITZ_CLOCK_GRACE_MS, getBlitzDeadline, getTimerDuration } from './timer';
+import { getMaxSurvivalMisses, replaySurvivalRun } from './survival';
+import { isValidRankingOrder, scoreRanking } from './ranking';
+import {
+  ESTIMATE_MAX_POINTS,
+  ESTIMATE_ROUND_SECONDS,
+  ESTIMATION_ROUNDS,
+  isEstimationBonusRound,
+  isValidEstimate,
+  scoreEstimate,
+} from './estimation';
 
 // Threshold for requiring server verification
 export const VERIFICATION_THRESHOLD = 10;
@@ -19,6 +40,25 @@ export interface GameGuess {
   guess: Guess;
   timestamp: number;
   clientTimerRemaining?: number;
+  streak?: number; // Streak the guess was made on (survival and blitz runs - wrong answers don't advance it)
+}
+
+// A played ranking round (ranking runs record these instead of guesses)
+export interface RankingRound {
+  roundNumber: number;
+  tokenIds: string[]; // As dealt
+  order: RankingGuess; // Player's order, highest first
+  timestamp: number;
+}
+
+// A played market cap estimate (estimation runs' rounds, classic runs' bonus rounds)
+export interface EstimateRound {
+  roundNumber: number;
+  tokenId: string;
+  estimate: number;
+  points: number; // As the session scored it
+  timestamp: number;
+  streak?: number; // Classic bonus rounds - the streak that earned it
 }
 
 export interface ServerGameState {
@@ -30,7 +70,17 @@ export interface ServerGameState {
   currentStreak: number;
   hasUsedReprieve: boolean;
   reprieveUsedAtRound?: number;
-  tokenPool?: Token[]; // Snapshot of token pool at game start
+  tokenPool?: Token[]; // Tokens the finished run was played with
+  marketCapSnapshotHash?: string; // Market caps the run was dealt from (see market-cap-snapshot.ts)
+  mode?: GameMode; // Absent on runs started before modes existed (classic)
+  dayKey?: string; // YYYY-MM-DD: the Daily Challenge day ('daily') or the snapshot day played ('timemachine')
+  challengeRunId?: string; // Run being replayed when mode is 'challenge'
+  theme?: ThemeId; // Theme played when mode is 'themed'
+  metric?: ComparisonMetric; // What the run compares - market cap when absent (the snapshot holds its values)
+  lives?: number; // Lives left when mode is 'survival'
+  rankings?: RankingRound[]; // Played rounds when mode is 'ranking'
+  rankingScoring?: RankingScoring; // How ranking rounds are scored (default: exact)
+  estimates?: EstimateRound[]; // Estimation runs' rounds, classic runs' bonus rounds
 }
 
 export interface ValidationResult {
@@ -46,13 +96,29 @@ export function requiresVerification(streak: number): boolean {
   return streak >= VERIFICATION_THRESHOLD;
 }
 
+/**
+ * Index of the wrong guess a reprieve forgave, or -1
+ * It's the first guess of the round the reprieve was used in
+ */
+export function getReprievedGuessIndex(state: ServerGameState): number {
+  if (!state.hasUsedReprieve || state.reprieveUsedAtRound === undefined) return -1;
+  return state.guesses.findIndex(g => g.roundNumber === state.reprieveUsedAtRound);
+}
+
 /**
  * Validate timing between guesses
  * Ensures player couldn't have cheated by taking too long
+ * @param reprievedIndex - Forgiven guess; the wait after it (paying) isn't timed
+ * @param mode - Blitz runs have no round timer: every guess must beat the
+ *               run's clock, shortened by the misses before it
+ * @param estimates - Bonus estimates; a guess after one is timed from it
  */
 export function validateGuessTiming(
   guesses: GameGuess[],
-  startedAt: number
+  startedAt: number,
+  reprievedIndex: number = -1,
+  mode: GameMode = 'classic',
+  estimates: EstimateRound[] = []
 ): ValidationResult {
   if (guesses.length === 0) {
     return { valid: true };
@@ -62,10 +128,29 @@ export function validateGuessTiming(
   
   for (let i = 0; i < guesses.length; i++) {
     const guess = guesses[i];
-    const expectedMaxTime = getTimerDuration(i) * 1000 + MAX_GUESS_INTERVAL_BUFFER;
+    // The round's ticket was reissued when a bonus estimate came in
+    for (const estimate of estimates) {
+      if (estimate.timestamp > lastTimestamp && estimate.timestamp < guess.timestamp) {
+        lastTimestamp = estimate.timestamp;
+      }
+    }
     const actualTime = guess.timestamp - lastTimestamp;
     
-    if (actualTime > expectedMaxTime) {
+    if (mode === 'blitz') {
+      const deadline = getBlitzDeadline(startedAt, i - (guess.streak ?? 0)) + BLITZ_CLOCK_GRACE_MS;
+      if (guess.timestamp > deadline) {
+        return {
+          valid: false,
+          reason: `Round ${i}: Guess came ${guess.timestamp - deadline}ms after the clock ran out`,
+          failedAtRound: i,
+        };
+      }
+    }
+    
+    // The round timer follows the streak - the round number, unless the guess recorded it
+    const expectedMaxTime = getTimerDuration(guess.streak ?? i) * 1000 + MAX_GUESS_INTERVAL_BUFFER;
+    
+    if (mode !== 'blitz' && actualTime > expectedMaxTime && i !== reprievedIndex + 1) {
       return {
         valid: false,
         reason: `Round ${i}: Guess took ${actualTime}ms, max allowed ${expectedMaxTime}ms`,
@@ -88,37 +173,55 @@ export function validateGuessTiming(
   return { valid: true };
 }
 
+/**
+ * Re-derives a recorded round's correct answer from the caps it was dealt with
+ * (same tie policy as the session - see tie-policy.ts)
+ * @returns The answer, or null if either token is missing from the snapshot
+ */
+export function deriveCorrectAnswer(guess: GameGuess, marketCaps: MarketCapSnapshot): Guess | null {
+  const currentMarketCap = marketCaps[guess.currentTokenId];
+  const nextMarketCap = marketCaps[guess.nextTokenId];
+  if (currentMarketCap === undefined || nextMarketCap === undefined) return null;
+  return getCorrectAnswer(currentMarketCap, nextMarketCap);
+}
+
 /**
  * Validate that guesses match expected market cap comparisons
+ * Every round is re-scored against the run's market cap snapshot
  */
 export function validateGuessCorrectness(
   guesses: GameGuess[],
-  tokenPool: Token[]
+  marketCaps: MarketCapSnapshot,
+  reprievedIndex: number = -1
 ): ValidationResult {
-  // Create a map for quick token lookup
-  const tokenMap = new Map<string, Token>();
-  for (const token of tokenPool) {
-    tokenMap.set(token.id, token);
-  }
-  
-  for (let i = 0; i < guesses.length - 1; i++) { // All but last guess must be correct
+  for (let i = 0; i < guesses.length; i++) {
     const guess = guesses[i];
-    const currentToken = tokenMap.get(guess.currentTokenId);
-    const nextToken = tokenMap.get(guess.nextTokenId);
+    const correctAnswer = deriveCorrectAnswer(guess, marketCaps);
     
-    if (!currentToken || !nextToken) {
+    if (!correctAnswer) {
       return {
         valid: false,
-        reason: `Round ${i}: Token not found in pool`,
+        reason: `Round ${i}: Token not found in snapshot`,
         failedAtRound: i,
       };
     }
     
-    const isCorrect = guess.guess === 'cap'
-      ? nextToken.marketCap >= currentToken.marketCap
-      : nextToken.marketCap < currentToken.marketCap;
+    const isCorrect = guess.guess === correctAnswer;
+    
+    if (i === reprievedIndex) {
+      // Only a wrong guess can be reprieved
+      if (isCorrect) {
+        return {
+          valid: false,
+          reason: `Round ${i}: Reprieve used after a correct guess`,
+          failedAtRound: i,
+        };
+      }
+      continue;
+    }
     
-    if (!isCorrect) {
+    // All but the last guess must be correct
+    if (!isCorrect && i < guesses.length - 1) {
       return {
         valid: false,
         reason: `Round ${i}: Recorded guess was incorrect but game continued`,
@@ -130,28 +233,397 @@ export function validateGuessCorrectness(
   return { valid: true };
 }
 
+/**
+ * Validates a survival run's guesses, streak and lives
+ * Wrong answers are allowed while lives remain - only the one that took the
+ * last life may end the run
+ * @param caps - The run's market cap snapshot, or null to only bound the misses
+ */
+export function validateSurvivalRun(
+  state: ServerGameState,
+  caps: MarketCapSnapshot | null
+): ValidationResult {
+  if (!caps) {
+    const misses = state.guesses.length - state.currentStreak;
+    if (misses < 0 || misses > getMaxSurvivalMisses(state.currentStreak)) {
+      return {
+        valid: false,
+        reason: `Streak mismatch: reported ${state.currentStreak} from ${state.guesses.length} guesses`,
+      };
+    }
+    return { valid: true };
+  }
+
+  const outcomes: boolean[] = [];
+  for (let i = 0; i < state.guesses.length; i++) {
+    const guess = state.guesses[i];
+    const correctAnswer = deriveCorrectAnswer(guess, caps);
+    if (!correctAnswer) {
+      return {
+        valid: false,
+        reason: `Round ${i}: Token not found in snapshot`,
+        failedAtRound: i,
+      };
+    }
+    outcomes.push(guess.guess === correctAnswer);
+  }
+
+  const replay = replaySurvivalRun(outcomes);
+  if (replay.outOfLivesAt !== -1 && replay.outOfLivesAt < outcomes.length - 1) {
+    return {
+      valid: false,
+      reason: `Round ${replay.outOfLivesAt}: Out of lives but game continued`,
+      failedAtRound: replay.outOfLivesAt,
+    };
+  }
+
+  if (state.currentStreak !== replay.streak) {
+    return {
+      valid: false,
+      reason: `Streak mismatch: reported ${state.currentStreak}, replay scored ${replay.streak}`,
+    };
+  }
+
+  if (state.lives !== undefined && state.lives !== replay.lives) {
+    return {
+      valid: false,
+      reason: `Lives mismatch: reported ${state.lives}, replay left ${replay.lives}`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates a blitz run's guesses and score
+ * Wrong answers don't end the run, but every one must be on record - the
+ * streak each guess was made on sets the clock its timing is checked against
+ * @param caps - The run's market cap snapshot, or null to only bound the score
+ */
+export function validateBlitzRun(
+  state: ServerGameState,
+  caps: MarketCapSnapshot | null
+): ValidationResult {
+  if (!caps) {
+    if (state.currentStreak < 0 || state.currentStreak > state.guesses.length) {
+      return {
+        valid: false,
+        reason: `Streak mismatch: reported ${state.currentStreak} from ${state.guesses.length} guesses`,
+      };
+    }
+    return { valid: true };
+  }
+
+  let correctGuesses = 0;
+  for (let i = 0; i < state.guesses.length; i++) {
+    const guess = state.guesses[i];
+    const correctAnswer = deriveCorrectAnswer(guess, caps);
+    if (!correctAnswer) {
+      return {
+        valid: false,
+        reason: `Round ${i}: Token not found in snapshot`,
+        failedAtRound: i,
+      };
+    }
+
+    // Understating the misses would stretch the clock
+    if (guess.streak !== correctGuesses) {
+      return {
+        valid: false,
+        reason: `Round ${i}: Recorded streak ${guess.streak}, replay has ${correctGuesses}`,
+        failedAtRound: i,
+      };
+    }
+
+    if (guess.guess === correctAnswer) correctGuesses++;
+  }
+
+  if (state.currentStreak !== correctGuesses) {
+    return {
+      valid: false,
+      reason: `Streak mismatch: reported ${state.currentStreak}, replay scored ${correctGuesses}`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates a ranking run's rounds and streak
+ * Every round is timed like a pair round on the same streak, re-scored with
+ * the run's scoring, and only the last may be wrong
+ * @param caps - The run's market cap snapshot, or null to only bound the streak
+ */
+export function validateRankingRun(
+  state: ServerGameState,
+  caps: MarketCapSnapshot | null
+): ValidationResult {
+  const rankings = state.rankings ?? [];
+  let lastTimestamp = state.startedAt;
+
+  for (let i = 0; i < rankings.length; i++) {
+    const round = rankings[i];
+    const actualTime = round.timestamp - lastTimestamp;
+    const expectedMaxTime = getTimerDuration(i) * 1000 + MAX_GUESS_INTERVAL_BUFFER;
+
+    if (actualTime > expectedMaxTime) {
+      return {
+        valid: false,
+        reason: `Round ${i}: Ranking took ${actualTime}ms, max allowed ${expectedMaxTime}ms`,
+        failedAtRound: i,
+      };
+    }
+
+    // Same bot check as pair rounds
+    if (actualTime < 100) {
+      return {
+        valid: false,
+        reason: `Round ${i}: Ranking was suspiciously fast (${actualTime}ms)`,
+        failedAtRound: i,
+      };
+    }
+
+    if (!isValidRankingOrder(round.tokenIds, round.order)) {
+      return {
+        valid: false,
+        reason: `Round ${i}: Order doesn't rank the dealt tokens`,
+        failedAtRound: i,
+      };
+    }
+
+    lastTimestamp = round.timestamp;
+  }
+
+  if (!caps) {
+    const expectedStreak = rankings.length - 1; // Last round is the loss
+    if (state.currentStreak !== expectedStreak && state.currentStreak !== rankings.length) {
+      return {
+        valid: false,
+        reason: `Streak mismatch: reported ${state.currentStreak}, expected ${expectedStreak}`,
+      };
+    }
+    return { valid: true };
+  }
+
+  let correctRounds = 0;
+  for (let i = 0; i < rankings.length; i++) {
+    const round = rankings[i];
+    if (round.tokenIds.some(id => caps[id] === undefined)) {
+      return {
+        valid: false,
+        reason: `Round ${i}: Token not found in snapshot`,
+        failedAtRound: i,
+      };
+    }
+
+    const { correct } = scoreRanking(round.tokenIds, round.order, caps, state.rankingScoring);
+    if (!correct && i < rankings.length - 1) {
+      return {
+        valid: false,
+        reason: `Round ${i}: Recorded ranking was incorrect but game continued`,
+        failedAtRound: i,
+      };
+    }
+    if (correct) correctRounds++;
+  }
+
+  if (state.currentStreak !== correctRounds) {
+    return {
+      valid: false,
+      reason: `Streak mismatch: reported ${state.currentStreak}, replay scored ${correctRounds}`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Re-scores a run's estimates against its market caps
+ * Classic bonus rounds must each come from a different bonus streak
+ */
+export function validateEstimates(
+  estimates: EstimateRound[],
+  caps: MarketCapSnapshot,
+  mode: GameMode = 'classic'
+): ValidationResult {
+  const bonusStreaks = new Set<number>();
+
+  for (let i = 0; i < estimates.length; i++) {
+    const round = estimates[i];
+    const marketCap = caps[round.tokenId];
+    if (marketCap === undefined) {
+      return {
+        valid: false,
+        reason: `Estimate ${i}: Token not found in snapshot`,
+        failedAtRound: round.roundNumber,
+      };
+    }
+
+    const { points } = scoreEstimate(round.estimate, marketCap);
+    if (round.points !== points) {
+      return {
+        valid: false,
+        reason: `Estimate ${i}: Recorded ${round.points} points, replay scored ${points}`,
+        failedAtRound: round.roundNumber,
+      };
+    }
+
+    if (mode !== 'estimation') {
+      const streak = round.streak ?? -1;
+      if (!isEstimationBonusRound(mode, streak) || bonusStreaks.has(streak)) {
+        return {
+          valid: false,
+          reason: `Estimate ${i}: No bonus round at streak ${streak}`,
+          failedAtRound: round.roundNumber,
+        };
+      }
+      bonusStreaks.add(streak);
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates an estimation run's rounds and score
+ * The score (currentStreak) is the sum of every round's points
+ * @param caps - The run's market cap snapshot, or null to only check the recorded points add up
+ */
+export function validateEstimationRun(
+  state: ServerGameState,
+  caps: MarketCapSnapshot | null
+): ValidationResult {
+  const estimates = state.estimates ?? [];
+  if (estimates.length > ESTIMATION_ROUNDS) {
+    return {
+      valid: false,
+      reason: `Too many rounds: ${estimates.length}, max ${ESTIMATION_ROUNDS}`,
+    };
+  }
+
+  let lastTimestamp = state.startedAt;
+  const expectedMaxTime = ESTIMATE_ROUND_SECONDS * 1000 + MAX_GUESS_INTERVAL_BUFFER;
+  for (let i = 0; i < estimates.length; i++) {
+    const round = estimates[i];
+    const actualTime = round.timestamp - lastTimestamp;
+
+    if (actualTime > expectedMaxTime) {
+      return {
+        valid: false,
+        reason: `Round ${i}: Estimate took ${actualTime}ms, max allowed ${expectedMaxTime}ms`,
+        failedAtRound: i,
+      };
+    }
+
+    // Same bot check as pair rounds
+    if (actualTime < 100) {
+      return {
+        valid: false,
+        reason: `Round ${i}: Estimate was suspiciously fast (${actualTime}ms)`,
+        failedAtRound: i,
+      };
+    }
+
+    if (!isValidEstimate(round.estimate) || round.points < 0 || round.points > ESTIMATE_MAX_POINTS) {
+      return {
+        valid: false,
+        reason: `Round ${i}: Estimate out of range`,
+        failedAtRound: i,
+      };
+    }
+
+    lastTimestamp = round.timestamp;
+  }
+
+  if (caps) {
+    const scoring = validateEstimates(estimates, caps, 'estimation');
+    if (!scoring.valid) return scoring;
+  }
+
+  const score = estimates.reduce((sum, round) => sum + round.points, 0);
+  if (state.currentStreak !== score) {
+    return {
+      valid: false,
+      reason: `Score mismatch: reported ${state.currentStreak}, rounds add up to ${score}`,
+    };
+  }
+
+  return { valid: true };
+}
+
 /**
  * Full validation of a completed game
+ * @param marketCaps - The run's market cap snapshot; falls back to the tokens
+ *                     frozen on the state (runs from before snapshots)
  */
-export function validateGameState(state: ServerGameState): ValidationResult {
+export function validateGameState(
+  state: ServerGameState,
+  marketCaps: MarketCapSnapshot | null = null
+): ValidationResult {
+  const reprievedIndex = getReprievedGuessIndex(state);
+  
   // 1. Validate timing
-  const timingResult = validateGuessTiming(state.guesses, state.startedAt);
+  const timingResult = validateGuessTiming(
+    state.guesses,
+    state.startedAt,
+    reprievedIndex,
+    state.mode,
+    state.estimates
+  );
   if (!timingResult.valid) {
     return timingResult;
   }
   
-  // 2. If we have token pool, validate guess correctness
-  if (state.tokenPool && state.tokenPool.length > 0) {
-    const correctnessResult = validateGuessCorrectness(state.guesses, state.tokenPool);
+  const caps = marketCaps ?? (state.tokenPool && state.tokenPool.length > 0
+    ? Object.fromEntries(state.tokenPool.map(t => [t.id, getMetricValue(t, state.metric) ?? 0]))
+    : null);
+  
+  // Ranking and estimation runs record their own rounds instead of guesses
+  if (state.mode === 'ranking') {
+    return validateRankingRun(state, caps);
+  }
+  if (state.mode === 'estimation') {
+    return validateEstimationRun(state, caps);
+  }
+  
+  // Survival and blitz runs survive wrong answers - the streak is counted differently
+  if (state.mode === 'survival') {
+    return validateSurvivalRun(state, caps);
+  }
+  if (state.mode === 'blitz') {
+    return validateBlitzRun(state, caps);
+  }
+  
+  // 2. If we have the market caps, re-score every round
+  if (caps) {
+    const correctnessResult = validateGuessCorrectness(state.guesses, caps, reprievedIndex);
     if (!correctnessResult.valid) {
       return correctnessResult;
     }
+    
+    // The streak is exactly the number of correct guesses
+    const correctGuesses = state.guesses.filter(g => deriveCorrectAnswer(g, caps) === g.guess).length;
+    if (state.currentStreak !== correctGuesses) {
+      return {
+        valid: false,
+        reason: `Streak mismatch: reported ${state.currentStreak}, replay scored ${correctGuesses}`,
+      };
+    }
+    
+    // Classic bonus estimates
+    const estimatesResult = validateEstimates(state.estimates ?? [], caps, state.mode);
+    if (!estimatesResult.valid) {
+      return estimatesResult;
+    }
+    
+    return { valid: true };
   }
   
-  // 3. Validate streak matches guess count
+  // 3. Without market caps, validate streak matches guess count
   // (accounting for reprieve if used)
-  const expectedStreak = state.guesses.length - 1; // Last guess is the loss
-  if (state.currentStreak !== expectedStreak && state.currentStreak !== state.guesses.length) {
+  const scoredGuesses = state.guesses.length - (reprievedIndex >= 0 ? 1 : 0);
+  const expectedStreak = scoredGuesses - 1; // Last guess is the loss
+  if (state.currentStreak !== expectedStreak && state.currentStreak !== scoredGuesses) {
     return {
       valid: false,
       reason: `Streak mismatch: reported ${state.currentStreak}, expected ${expectedStreak}`,
@@ -174,37 +646,3 @@ export function checkRateLimit(
   // Minimum 500ms between guesses
   return now - lastGuessTimestamp >= 500;
 }
-
-/**
- * Generate anti-cheat hash for client
- * Client must include this in submissions
- */
-export function generateClientHash(
-  runId: string,
-  roundNumber: number,
-  timestamp: number
-): string {
-  // Simple hash - in production, use HMAC with server secret
-  const data = `${runId}:${roundNumber}:${timestamp}`;
-  let hash = 0;
-  for (let i = 0; i < data.length; i++) {
-    const char = data.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return Math.abs(hash).toString(36);
-}
-
-/**
- * Verify client hash
- */
-export function verifyClientHash(
-  hash: string,
-  runId: string,
-  roundNumber: number,
-  timestamp: number
-): boolean {
-  const expected = generateClientHash(runId, roundNumber, timestamp);
-  return hash === expected;
-}
-
@@ -0,0 +1,27 @@
+/**
+ * Invite Codes
+ * Short codes for invite links (teams, duels) - easy to type in or read out
+ */
+
+import { randomInt } from 'crypto';
+
+// No 0/O or 1/I/L, so codes survive being read out loud
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * A random invite code
+ */
+export function generateInviteCode(length: number): string {
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Normalizes a typed-in or linked invite code
+ */
+export function normalizeInviteCode(code: string): string {
+  return code.trim().toUpperCase();
+}
@@ -0,0 +1,40 @@
+/**
+ * Blitz Run Leaderboard
+ * Blitz scores (correct answers in 60 seconds) aren't streaks, so they get
+ * their own weekly best-score board
+ */
+
+import { getStore } from '../store';
+import { getWeekKey } from './period';
+
+// Weekly blitz boards stick around for a few weeks of lookbacks
+const BLITZ_WEEKLY_TTL_SECONDS = 60 * 60 * 24 * 35;
+
+// Redis key patterns
+const KEYS = {
+  blitzWeeklyLeaderboard: (weekKey: string) => `leaderboard:blitz:weekly:${weekKey}`,
+};
+
+/**
+ * Submits a blitz run to this week's blitz board
+ * @returns User's rank on the board (1-indexed), or 0 on failure
+ */
+export async function submitBlitzScore(userId: string, score: number): Promise<number> {
+  const store = getStore();
+
+  // Guests never appear on leaderboards
+  if (userId.startsWith('guest_')) return 0;
+
+  try {
+    const boardKey = KEYS.blitzWeeklyLeaderboard(getWeekKey());
+    // GT - the board keeps each player's best score
+    await store.zadd(boardKey, { gt: true }, { score, member: userId });
+    await store.expire(boardKey, BLITZ_WEEKLY_TTL_SECONDS);
+
+    const rank = await store.zrevrank(boardKey, userId);
+    return rank !== null ? rank + 1 : 0;
+  } catch (error) {
+    console.error('[Blitz] Error submitting blitz score:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Daily Challenge Storage
+ * Frozen token pool snapshot, one attempt per user and the daily leaderboard
+ */
+
+import { Token } from '@/lib/game-core/types';
+import { getTokenPool } from '@/lib/data/token-pool';
+import { getStore } from '../store';
+
+// Keep daily data around for a day after it ends (late submissions, lookbacks)
+const DAILY_TTL_SECONDS = 60 * 60 * 48;
+
+// Redis key patterns
+const KEYS = {
+  dailyPool: (dayKey: string) => `daily:${dayKey}:pool`,
+  dailyAttempt: (dayKey: string, userId: string) => `daily:${dayKey}:attempt:${userId}`,
+  dailyLeaderboard: (dayKey: string) => `leaderboard:daily:${dayKey}`,
+};
+
+/**
+ * Gets the frozen token pool for a day
+ * The first request of the day snapshots getTokenPool(); everyone after
+ * that reads the same snapshot, so market cap refreshes can't change the sequence
+ */
+export async function getDailyTokenSnapshot(dayKey: string): Promise<Token[]> {
+  const store = getStore();
+
+  try {
+    const existing = await store.get(KEYS.dailyPool(dayKey));
+    if (existing) {
+      return typeof existing === 'string' ? JSON.parse(existing) : existing as Token[];
+    }
+
+    // First request of the day - freeze the current pool
+    // NX so concurrent first requests can't overwrite each other
+    const tokens = await getTokenPool();
+    await store.set(KEYS.dailyPool(dayKey), JSON.stringify(tokens), {
+      nx: true,
+      ex: DAILY_TTL_SECONDS,
+    });
+
+    // Re-read in case another request won the race
+    const stored = await store.get(KEYS.dailyPool(dayKey));
+    if (stored) {
+      return typeof stored === 'string' ? JSON.parse(stored) : stored as Token[];
+    }
+    return tokens;
+  } catch (error) {
+    console.error('[Daily] Error loading token snapshot:', error);
+    return [];
+  }
+}
+
+/**
+ * Claims the user's single daily attempt
+ * @returns True if the attempt was claimed, false if already used today
+ */
+export async function claimDailyAttempt(
+  userId: string,
+  dayKey: string,
+  runId: string
+): Promise<boolean> {
+  const store = getStore();
+
+  try {
+    const result = await store.set(KEYS.dailyAttempt(dayKey, userId), runId, {
+      nx: true,
+      ex: DAILY_TTL_SECONDS,
+    });
+    return result === 'OK';
+  } catch (error) {
+    console.error('[Daily] Error claiming daily attempt:', error);
+    return false;
+  }
+}
+
+/**
+ * Gets the run ID of the user's attempt for a day, if any
+ */
+export async function getDailyAttempt(userId: string, dayKey: string): Promise<string | null> {
+  const store = getStore();
+
+  try {
+    return await store.get<string>(KEYS.dailyAttempt(dayKey, userId));
+  } catch (error) {
+    console.error('[Daily] Error fetching daily attempt:', error);
+    return null;
+  }
+}
+
+/**
+ * Submits a daily run to that day's leaderboard
+ * @returns User's rank on the daily board (1-indexed), or 0 on failure
+ */
+export async function submitDailyScore(
+  userId: string,
+  dayKey: string,
+  streak: number
+): Promise<number> {
+  const store = getStore();
+
+  // Guests never appear on leaderboards
+  if (userId.startsWith('guest_')) return 0;
+
+  try {
+    const boardKey = KEYS.dailyLeaderboard(dayKey);
+    // GT keeps the better score if a run is ever submitted twice
+    await store.zadd(boardKey, { gt: true }, { score: streak, member: userId });
+    await store.expire(boardKey, DAILY_TTL_SECONDS);
+
+    const rank = await store.zrevrank(boardKey, userId);
+    return rank !== null ? rank + 1 : 0;
+  } catch (error) {
+    console.error('[Daily] Error submitting daily score:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Estimation Run Leaderboard
+ * Estimation scores (points over ten market cap estimates) aren't streaks, so
+ * they get their own weekly best-score board
+ */
+
+import { getStore } from '../store';
+import { getWeekKey } from './period';
+
+// Weekly estimation boards stick around for a few weeks of lookbacks
+const ESTIMATION_WEEKLY_TTL_SECONDS = 60 * 60 * 24 * 35;
+
+// Redis key patterns
+const KEYS = {
+  estimationWeeklyLeaderboard: (weekKey: string) => `leaderboard:estimation:weekly:${weekKey}`,
+};
+
+/**
+ * Submits an estimation run to this week's estimation board
+ * @returns User's rank on the board (1-indexed), or 0 on failure
+ */
+export async function submitEstimationScore(userId: string, score: number): Promise<number> {
+  const store = getStore();
+
+  // Guests never appear on leaderboards
+  if (userId.startsWith('guest_')) return 0;
+
+  try {
+    const boardKey = KEYS.estimationWeeklyLeaderboard(getWeekKey());
+    // GT - the board keeps each player's best score
+    await store.zadd(boardKey, { gt: true }, { score, member: userId });
+    await store.expire(boardKey, ESTIMATION_WEEKLY_TTL_SECONDS);
+
+    const rank = await store.zrevrank(boardKey, userId);
+    return rank !== null ? rank + 1 : 0;
+  } catch (error) {
+    console.error('[Estimation] Error submitting estimation score:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Friends Leaderboards
+ * A player's friends are the players they follow here - plus, for Farcaster
+ * players, the accounts they follow on Farcaster. Friends boards rank a
+ * player against them on this week's cumulative scores or all-time best
+ * streaks, and friends get a notification when the player passes them.
+ */
+
+import { getStore } from '../store';
+import { getFarcasterFollowing } from '../auth/identity-resolver';
+import { getUserNotificationApps, sendOvertakeNotification } from '../notifications';
+import { getGroupLeaderboard, getUserWeeklyScoreRank, getUsersScores } from '../redis';
+import { LeaderboardEntry } from '../game-core/types';
+import { getWeekKey } from './period';
+
+export type FriendsBoard = 'weekly' | 'global';
+
+// Players a player can follow here
+export const MAX_FOLLOWS = 200;
+
+// Farcaster follows counted as friends (most recently followed first)
+export const MAX_FARCASTER_FRIENDS = 500;
+
+// Friends notified per leaderboard submission
+export const MAX_FRIEND_OVERTAKE_NOTIFICATIONS = 5;
+
+// Farcaster follows are looked up again after an hour
+const FARCASTER_FRIENDS_TTL_SECONDS = 60 * 60;
+
+// Redis key patterns
+const KEYS = {
+  follows: (userId: string) => `user:${userId}:follows`,
+  farcasterFriends: (fid: string) => `friends:farcaster:${fid}`,
+  overtakeNotified: (weekKey: string, userId: string, friendId: string) =>
+    `friends:overtake:${weekKey}:${userId}:${friendId}`,
+};
+
+/**
+ * Check if a user ID is a Farcaster FID
+ */
+export function isFarcasterUserId(userId: string): boolean {
+  return /^[1-9]\d*$/.test(userId);
+}
+
+/**
+ * Loads the players a player follows here, most recent first
+ */
+export async function loadFollows(userId: string): Promise<string[]> {
+  try {
+    const data = await getStore().get(KEYS.follows(userId));
+    if (data) {
+      return typeof data === 'string' ? JSON.parse(data) : data as string[];
+    }
+  } catch (error) {
+    console.error('[Friends] Error loading follows:', error);
+  }
+  return [];
+}
+
+/**
+ * Follows a player - the oldest follow makes way once MAX_FOLLOWS is reached
+ * @returns The players now followed
+ */
+export async function followPlayer(userId: string, followId: string): Promise<string[]> {
+  const follows = [followId, ...(await loadFollows(userId)).filter(id => id !== followId)].slice(0, MAX_FOLLOWS);
+  await getStore().set(KEYS.follows(userId), JSON.stringify(follows));
+  return follows;
+}
+
+/**
+ * Unfollows a player
+ * @returns The players still followed
+ */
+export async function unfollowPlayer(userId: string, followId: string): Promise<string[]> {
+  const follows = (await loadFollows(userId)).filter(id => id !== followId);
+  await getStore().set(KEYS.follows(userId), JSON.stringify(follows));
+  return follows;
+}
+
+/**
+ * The FIDs a Farcaster player follows (cached for an hour)
+ */
+async function getFarcasterFriends(fid: string): Promise<string[]> {
+  const store = getStore();
+
+  try {
+    const cached = await store.get(KEYS.farcasterFriends(fid));
+    if (cached) {
+      return typeof cached === 'string' ? JSON.parse(cached) : cached as string[];
+    }
+
+    const following = await getFarcasterFollowing(fid, MAX_FARCASTER_FRIENDS);
+    await store.set(KEYS.farcasterFriends(fid), JSON.stringify(following), { ex: FARCASTER_FRIENDS_TTL_SECONDS });
+    return following;
+  } catch (error) {
+    console.error('[Friends] Error loading Farcaster friends:', error);
+    return [];
+  }
+}
+
+/**
+ * A player's friends - followed here, or on Farcaster
+ */
+export async function getFriendIds(userId: string): Promise<string[]> {
+  if (userId.startsWith('guest_')) return [];
+
+  const [follows, farcasterFriends] = await Promise.all([
+    loadFollows(userId),
+    isFarcasterUserId(userId) ? getFarcasterFriends(userId) : Promise.resolve([]),
+  ]);
+  return [...new Set([...follows, ...farcasterFriends])].filter(id => id !== userId);
+}
+
+/**
+ * A player's friends board - the player and their friends who have a score
+ */
+export async function getFriendsLeaderboard(userId: string, board: FriendsBoard): Promise<LeaderboardEntry[]> {
+  return getGroupLeaderboard([userId, ...(await getFriendIds(userId))], board);
+}
+
+/**
+ * A player's rank among their friends
+ * @returns Rank (1-indexed), or null if the player hasn't scored on the board
+ */
+export async function getFriendRank(userId: string, board: FriendsBoard): Promise<number | null> {
+  const scores = await getUsersScores([userId, ...(await getFriendIds(userId))], board);
+  const index = scores.findIndex(s => s.userId === userId);
+  return index >= 0 ? index + 1 : null;
+}
+
+/**
+ * Notifies the friends a player just passed on this week's cumulative scores
+ * Only Farcaster friends with notifications enabled can be reached; each is
+ * notified about the same player at most once a week
+ * @param scoreBefore - The player's weekly score before the run
+ * @param scoreAfter - The player's weekly score with the run
+ * @returns How many friends were notified
+ */
+export async function notifyFriendOvertakes(
+  userId: string,
+  displayName: string,
+  scoreBefore: number,
+  scoreAfter: number
+): Promise<number> {
+  if (scoreAfter <= scoreBefore) return 0;
+  const store = getStore();
+  const weekKey = getWeekKey();
+
+  const friendIds = (await getFriendIds(userId)).filter(isFarcasterUserId);
+  const passed = (await getUsersScores(friendIds, 'weekly'))
+    .filter(s => s.score >= scoreBefore && s.score < scoreAfter)
+    .slice(0, MAX_FRIEND_OVERTAKE_NOTIFICATIONS);
+
+  let notified = 0;
+  for (const { userId: friendId } of passed) {
+    const fid = Number(friendId);
+    const [appFids, rank] = await Promise.all([getUserNotificationApps(fid), getUserWeeklyScoreRank(friendId)]);
+    if (appFids.length === 0 || rank === null) continue;
+
+    const firstThisWeek = await store.set(
+      KEYS.overtakeNotified(weekKey, userId, friendId),
+      1,
+      { ex: 60 * 60 * 24 * 8, nx: true }
+    );
+    if (!firstThisWeek) continue;
+
+    for (const appFid of appFids) {
+      await sendOvertakeNotification(fid, appFid, displayName, rank);
+    }
+    notified++;
+  }
+
+  return notified;
+}
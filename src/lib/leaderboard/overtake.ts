@@ -3,8 +3,9 @@
  * Detects when a player passes other players on the leaderboard
  */
 
-import { Redis } from '@upstash/redis';
+import { GameStore } from '@/lib/store';
 import { ResolvedIdentity, resolveIdentity } from '@/lib/auth/identity-resolver';
+import { getWeekKey } from './period';
 
 export interface OvertakeEvent {
   overtakenUserId: string;
@@ -31,27 +32,18 @@ const KEYS = {
   userProfile: (userId: string) => `user:${userId}:profile`,
 };
 
-function getWeekKey(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const startOfYear = new Date(year, 0, 1);
-  const days = Math.floor((now.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000));
-  const week = Math.ceil((days + startOfYear.getDay() + 1) / 7);
-  return `${year}-${week.toString().padStart(2, '0')}`;
-}
-
 /**
  * Get user's current rank in a leaderboard
  */
 export async function getUserRank(
-  redis: Redis,
+  store: GameStore,
   userId: string,
   board: 'global' | 'weekly'
 ): Promise<number | null> {
   const key = board === 'global' ? KEYS.globalLeaderboard : KEYS.weeklyLeaderboard();
   
   try {
-    const rank = await redis.zrevrank(key, userId);
+    const rank = await store.zrevrank(key, userId);
     return rank !== null ? rank + 1 : null; // Convert 0-indexed to 1-indexed
   } catch {
     return null;
@@ -63,7 +55,7 @@ export async function getUserRank(
  * Returns user IDs that would be overtaken
  */
 export async function findOvertakenUsers(
-  redis: Redis,
+  store: GameStore,
   board: 'global' | 'weekly',
   oldRank: number | null,
   newRank: number
@@ -81,7 +73,7 @@ export async function findOvertakenUsers(
   try {
     // Get users in the range that would be overtaken
     // zrevrange gets members by descending score (highest first)
-    const overtaken = await redis.zrange(key, newRank - 1, startRank - 1, { rev: true });
+    const overtaken = await store.zrange(key, newRank - 1, startRank - 1, { rev: true });
     return overtaken as string[];
   } catch {
     return [];
@@ -92,7 +84,7 @@ export async function findOvertakenUsers(
  * Detect overtakes when submitting a new score
  */
 export async function detectOvertakes(
-  redis: Redis,
+  store: GameStore,
   userId: string,
   newStreak: number,
   board: 'global' | 'weekly'
@@ -100,10 +92,10 @@ export async function detectOvertakes(
   const key = board === 'global' ? KEYS.globalLeaderboard : KEYS.weeklyLeaderboard();
   
   // Get user's current rank before update
-  const oldRank = await getUserRank(redis, userId, board);
+  const oldRank = await getUserRank(store, userId, board);
   
   // Get current score (if exists)
-  const currentScore = await redis.zscore(key, userId);
+  const currentScore = await store.zscore(key, userId);
   
   // Only check for overtakes if new score is better
   if (currentScore !== null && newStreak <= Number(currentScore)) {
@@ -112,11 +104,11 @@ export async function detectOvertakes(
   
   // Calculate new rank (approximately)
   // Count how many users have a score >= newStreak
-  const usersAbove = await redis.zcount(key, newStreak, '+inf');
+  const usersAbove = await store.zcount(key, newStreak, '+inf');
   const newRank = usersAbove + 1;
   
   // Find who would be overtaken
-  const overtakenUserIds = await findOvertakenUsers(redis, board, oldRank, newRank);
+  const overtakenUserIds = await findOvertakenUsers(store, board, oldRank, newRank);
   
   // Limit to 10 overtakes max for performance
   const limitedOvertakes = overtakenUserIds.slice(0, 10);
@@ -130,11 +122,13 @@ export async function detectOvertakes(
     
     try {
       // Try to get cached identity first
-      const cachedProfile = await redis.get(KEYS.userProfile(overtakenId));
+      const cachedProfile = await store.get(KEYS.userProfile(overtakenId));
       let identity: ResolvedIdentity;
       
       if (cachedProfile) {
-        identity = JSON.parse(cachedProfile as string);
+        identity = typeof cachedProfile === 'string'
+          ? JSON.parse(cachedProfile)
+          : cachedProfile as ResolvedIdentity;
       } else {
         // Resolve identity (works for wallet addresses)
         identity = await resolveIdentity(overtakenId);
@@ -160,7 +154,7 @@ export async function detectOvertakes(
  * Submit score and detect all overtakes
  */
 export async function submitScoreWithOvertakes(
-  redis: Redis,
+  store: GameStore,
   userId: string,
   streak: number,
   userIdentity: ResolvedIdentity
@@ -181,12 +175,12 @@ export async function submitScoreWithOvertakes(
   
   try {
     // Get previous best
-    const previousBest = await redis.zscore(globalKey, userId);
+    const previousBest = await store.zscore(globalKey, userId);
     const isNewBest = previousBest === null || streak > Number(previousBest);
     
     if (!isNewBest) {
       // Not a new best, no changes to leaderboard
-      const currentRank = await getUserRank(redis, userId, 'global');
+      const currentRank = await getUserRank(store, userId, 'global');
       return {
         success: true,
         isNewBest: false,
@@ -197,25 +191,25 @@ export async function submitScoreWithOvertakes(
     }
     
     // Get previous rank
-    const previousRank = await getUserRank(redis, userId, 'global');
+    const previousRank = await getUserRank(store, userId, 'global');
     
     // Detect overtakes before updating
-    const globalOvertakes = await detectOvertakes(redis, userId, streak, 'global');
-    const weeklyOvertakes = await detectOvertakes(redis, userId, streak, 'weekly');
+    const globalOvertakes = await detectOvertakes(store, userId, streak, 'global');
+    const weeklyOvertakes = await detectOvertakes(store, userId, streak, 'weekly');
     
     // Update leaderboards
-    await redis.zadd(globalKey, { score: streak, member: userId });
-    await redis.zadd(weeklyKey, { score: streak, member: userId });
+    await store.zadd(globalKey, { score: streak, member: userId });
+    await store.zadd(weeklyKey, { score: streak, member: userId });
     
     // Cache user identity for others to see
-    await redis.set(KEYS.userProfile(userId), JSON.stringify(userIdentity), { ex: 86400 * 7 });
+    await store.set(KEYS.userProfile(userId), JSON.stringify(userIdentity), { ex: 86400 * 7 });
     
     // Get new rank
-    const newRank = await getUserRank(redis, userId, 'global') || 0;
+    const newRank = await getUserRank(store, userId, 'global') || 0;
     
     // Store user's new rank for future overtake detection
-    await redis.set(KEYS.userRankGlobal(userId), newRank);
-    await redis.set(KEYS.userRankWeekly(userId), await getUserRank(redis, userId, 'weekly') || 0);
+    await store.set(KEYS.userRankGlobal(userId), newRank);
+    await store.set(KEYS.userRankWeekly(userId), await getUserRank(store, userId, 'weekly') || 0);
     
     // Combine overtakes
     const allOvertakes = [...globalOvertakes, ...weeklyOvertakes];
@@ -233,8 +227,8 @@ export async function submitScoreWithOvertakes(
       overtakes: uniqueOvertakes,
     };
   } catch (error) {
-    // If Redis connection fails, return a safe fallback
-    console.error('[Leaderboard] Redis error in submitScoreWithOvertakes:', error);
+    // If the store fails, return a safe fallback
+    console.error('[Leaderboard] Store error in submitScoreWithOvertakes:', error);
     return {
       success: false,
       isNewBest: false,
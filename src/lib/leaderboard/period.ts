@@ -0,0 +1,108 @@
+/**
+ * Leaderboard Periods
+ * The one place week keys and week boundaries are computed.
+ * Weeks are ISO-8601 weeks in UTC: they start Monday 00:00 UTC and are keyed
+ * by ISO week-year and week number (e.g. "2026-W07"), so every server, client
+ * and timezone agrees on which week a run belongs to.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const WEEK_MS = 7 * DAY_MS;
+
+const WEEK_KEY_PATTERN = /^(\d{4})-W(\d{2})$/;
+
+export interface PeriodBounds {
+  start: Date; // Inclusive
+  end: Date; // Exclusive - the next period's start
+}
+
+/**
+ * Start of the ISO week containing a date (Monday 00:00 UTC)
+ */
+export function getWeekStart(date: Date = new Date()): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // getUTCDay: 0 = Sunday ... 6 = Saturday; ISO weeks start on Monday
+  const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+  start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  return start;
+}
+
+/**
+ * Start of the ISO week after the one containing a date
+ */
+export function getNextWeekStart(date: Date = new Date()): Date {
+  return new Date(getWeekStart(date).getTime() + WEEK_MS);
+}
+
+/**
+ * ISO week key for a date
+ * @returns Key like "2026-W07" (the year is the ISO week-year, which can
+ * differ from the calendar year in the first and last days of January/December)
+ */
+export function getWeekKey(date: Date = new Date()): string {
+  // The Thursday of a week decides which year the week belongs to
+  const thursday = new Date(getWeekStart(date).getTime() + 3 * DAY_MS);
+  const year = thursday.getUTCFullYear();
+  const week = Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / WEEK_MS) + 1;
+  return `${year}-W${week.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Parses a week key back to its ISO week-year and week number
+ * @returns null if the key isn't a valid ISO week key
+ */
+export function parseWeekKey(weekKey: string): { year: number; week: number } | null {
+  const match = WEEK_KEY_PATTERN.exec(weekKey);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const week = Number(match[2]);
+  if (week < 1 || week > getWeeksInYear(year)) return null;
+
+  return { year, week };
+}
+
+/**
+ * Number of ISO weeks in a week-year (52 or 53)
+ */
+export function getWeeksInYear(year: number): number {
+  // Dec 28 is always in the last ISO week of its year
+  const lastWeekKey = getWeekKey(new Date(Date.UTC(year, 11, 28)));
+  return Number(lastWeekKey.slice(-2));
+}
+
+/**
+ * Start and end of a week
+ * @param weekKey - ISO week key (defaults to the current week)
+ * @returns null if the key isn't a valid ISO week key
+ */
+export function getWeekBounds(weekKey: string = getWeekKey()): PeriodBounds | null {
+  const parsed = parseWeekKey(weekKey);
+  if (!parsed) return null;
+
+  // Jan 4 is always in week 1
+  const firstWeekStart = getWeekStart(new Date(Date.UTC(parsed.year, 0, 4)));
+  const start = new Date(firstWeekStart.getTime() + (parsed.week - 1) * WEEK_MS);
+
+  return {
+    start,
+    end: new Date(start.getTime() + WEEK_MS),
+  };
+}
+
+/**
+ * Week key for the week before (or after, with a negative offset) a week
+ * @param weeksBack - How many weeks to step back
+ */
+export function getPreviousWeekKey(weekKey: string = getWeekKey(), weeksBack: number = 1): string | null {
+  const bounds = getWeekBounds(weekKey);
+  if (!bounds) return null;
+  return getWeekKey(new Date(bounds.start.getTime() - weeksBack * WEEK_MS));
+}
+
+/**
+ * Seconds until the current week ends - for TTLs on per-week keys
+ */
+export function getSecondsUntilWeekEnd(now: Date = new Date()): number {
+  return Math.max(0, Math.ceil((getNextWeekStart(now).getTime() - now.getTime()) / 1000));
+}
@@ -3,7 +3,8 @@
  * Tracks user's previous rank for comparison and position change detection
  */
 
-import { getRedis } from '../redis';
+import { getStore } from '../store';
+import { getWeekKey } from './period';
 
 // Redis key patterns
 const KEYS = {
@@ -11,29 +12,16 @@ const KEYS = {
   userPreviousRankGlobal: (userId: string) => `user:${userId}:rank:global:previous`,
 };
 
-/**
- * Gets the current week key (YYYY-WW format)
- */
-function getWeekKey(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const startOfYear = new Date(year, 0, 1);
-  const days = Math.floor((now.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000));
-  const week = Math.ceil((days + startOfYear.getDay() + 1) / 7);
-  return `${year}-${week.toString().padStart(2, '0')}`;
-}
-
 /**
  * Gets user's current rank in weekly leaderboard
  */
 async function getUserWeeklyRank(userId: string): Promise<number | null> {
-  const redis = getRedis();
-  if (!redis) return null;
+  const store = getStore();
   
   try {
     const weekKey = getWeekKey();
     const weeklyKey = `leaderboard:weekly:${weekKey}`;
-    const rank = await redis.zrevrank(weeklyKey, userId);
+    const rank = await store.zrevrank(weeklyKey, userId);
     return rank !== null ? rank + 1 : null; // Convert 0-indexed to 1-indexed
   } catch (error) {
     console.error('Error fetching user weekly rank:', error);
@@ -45,12 +33,11 @@ async function getUserWeeklyRank(userId: string): Promise<number | null> {
  * Gets user's current rank in global leaderboard
  */
 async function getUserGlobalRank(userId: string): Promise<number | null> {
-  const redis = getRedis();
-  if (!redis) return null;
+  const store = getStore();
   
   try {
     const globalKey = 'leaderboard:global';
-    const rank = await redis.zrevrank(globalKey, userId);
+    const rank = await store.zrevrank(globalKey, userId);
     return rank !== null ? rank + 1 : null; // Convert 0-indexed to 1-indexed
   } catch (error) {
     console.error('Error fetching user global rank:', error);
@@ -66,15 +53,15 @@ export async function updatePreviousRank(
   board: 'weekly' | 'global',
   currentRank: number | null
 ): Promise<void> {
-  const redis = getRedis();
-  if (!redis || currentRank === null) return;
+  const store = getStore();
+  if (currentRank === null) return;
   
   try {
     const key = board === 'weekly' 
       ? KEYS.userPreviousRankWeekly(userId)
       : KEYS.userPreviousRankGlobal(userId);
     
-    await redis.set(key, currentRank.toString(), { ex: 60 * 60 * 24 * 8 }); // 8 days TTL
+    await store.set(key, currentRank.toString(), { ex: 60 * 60 * 24 * 8 }); // 8 days TTL
   } catch (error) {
     console.error('Error updating previous rank:', error);
   }
@@ -87,15 +74,14 @@ export async function getPreviousRank(
   userId: string,
   board: 'weekly' | 'global'
 ): Promise<number | null> {
-  const redis = getRedis();
-  if (!redis) return null;
+  const store = getStore();
   
   try {
     const key = board === 'weekly' 
       ? KEYS.userPreviousRankWeekly(userId)
       : KEYS.userPreviousRankGlobal(userId);
     
-    const rankStr = await redis.get<string>(key);
+    const rankStr = await store.get<string>(key);
     return rankStr ? parseInt(rankStr, 10) : null;
   } catch (error) {
     console.error('Error fetching previous rank:', error);
@@ -4,7 +4,7 @@
  */
 
 import { getFeatureFlags } from '@/lib/feature-flags';
-import { getCurrentWeekStart, getNextSundayMidnightUTC } from './week-timer';
+import { getWeekKey, getWeekBounds as getPeriodWeekBounds, PeriodBounds } from './period';
 
 export interface PrizepoolConfig {
   enabled: boolean;
@@ -16,6 +16,7 @@ export interface PrizepoolConfig {
 export interface PrizePoolConfig {
   weekKey: string;
   prizeAmount: number;
+  teamPrizeAmount?: number; // Separate pool for the weekly team board
   sponsor?: SponsorInfo;
   status: 'active' | 'completed';
   startDate: number;
@@ -165,51 +166,20 @@ export function getPrizepoolSummary(totalAmount: number): {
 }
 
 /**
- * Gets the current week key (YYYY-WW format)
- * Weeks start on Sunday at midnight UTC
+ * Gets the current week key (ISO week, e.g. "2026-W07")
+ * Same key the weekly leaderboards use - see ./period
  */
 export function getCurrentWeekKey(): string {
-  const now = new Date();
-  const utcDate = new Date(now.toISOString());
-  
-  // Get the current day of week (0 = Sunday, 6 = Saturday)
-  const day = utcDate.getUTCDay();
-  
-  // Calculate days to subtract to get to the most recent Sunday
-  const daysToSunday = day === 0 ? 0 : day;
-  const sunday = new Date(utcDate);
-  sunday.setUTCDate(utcDate.getUTCDate() - daysToSunday);
-  sunday.setUTCHours(0, 0, 0, 0);
-  
-  // Calculate week number from start of year
-  const year = sunday.getUTCFullYear();
-  const startOfYear = new Date(Date.UTC(year, 0, 1));
-  
-  // Find the first Sunday of the year
-  const firstSundayDay = startOfYear.getUTCDay();
-  const daysToFirstSunday = firstSundayDay === 0 ? 0 : 7 - firstSundayDay;
-  const firstSunday = new Date(startOfYear);
-  firstSunday.setUTCDate(1 + daysToFirstSunday);
-  firstSunday.setUTCHours(0, 0, 0, 0);
-  
-  // Calculate weeks since first Sunday
-  const daysSinceFirstSunday = Math.floor((sunday.getTime() - firstSunday.getTime()) / (24 * 60 * 60 * 1000));
-  const week = Math.floor(daysSinceFirstSunday / 7) + 1;
-  
-  return `${year}-${week.toString().padStart(2, '0')}`;
+  return getWeekKey();
 }
 
 /**
  * Gets week bounds (start and end dates)
+ * @param weekKey - Week to get bounds for (defaults to the current week)
+ * @returns null if the key isn't a valid week key
  */
-export function getWeekBounds(weekKey?: string): { start: Date; end: Date } {
-  const weekStart = getCurrentWeekStart();
-  const weekEnd = getNextSundayMidnightUTC();
-  
-  return {
-    start: weekStart,
-    end: weekEnd,
-  };
+export function getWeekBounds(weekKey?: string): PeriodBounds | null {
+  return getPeriodWeekBounds(weekKey);
 }
 
 // Stub functions for incomplete features
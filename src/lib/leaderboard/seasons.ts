@@ -0,0 +1,344 @@
+/**
+ * Seasons
+ * A season is a run of whole leaderboard weeks (see ./period) between a
+ * configured start and end date. Every run submitted during a season adds
+ * to the player's season score - the season's weekly cumulative scores
+ * added up. Once a season ends its final standings, with the rewards they
+ * earned, are archived for good and the live season board expires.
+ */
+
+import { LeaderboardEntry } from '@/lib/game-core/types';
+import { getStore } from '../store';
+import { withLock } from '../store/lock';
+import { getSeasonLeaderboard } from '../redis';
+import { WEEK_MS, getNextWeekStart, getWeekKey, getWeekStart } from './period';
+
+// Players kept in a season's archived standings
+export const SEASON_ARCHIVE_SIZE = 100;
+
+// Live season boards stick around for a month after the season is archived
+const LIVE_SEASON_GRACE_SECONDS = 60 * 60 * 24 * 30;
+
+const SEASON_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Redis key patterns
+const KEYS = {
+  seasons: () => 'seasons:config', // Every season's config, oldest first
+  seasonLeaderboard: (seasonId: string) => `leaderboard:season:${seasonId}`,
+  userSeasonStats: (userId: string, seasonId: string) => `user:${userId}:season:${seasonId}`,
+  userSeasonLock: (userId: string, seasonId: string) => `user:${userId}:season:${seasonId}:lock`,
+  archive: (seasonId: string) => `season:${seasonId}:archive`,
+};
+
+export interface SeasonReward {
+  fromRank: number;
+  toRank: number; // Inclusive
+  reward: string; // e.g. "500 USDC", "Season champion badge"
+}
+
+export interface Season {
+  seasonId: string;
+  name: string;
+  startWeek: string; // First week key
+  endWeek: string; // Last week key
+  startDate: number; // Start of the first week
+  endDate: number; // End of the last week (exclusive)
+  rewards: SeasonReward[];
+}
+
+export type SeasonStatus = 'upcoming' | 'active' | 'ended';
+
+export interface SeasonArchive {
+  season: Season;
+  standings: LeaderboardEntry[]; // Final standings, each with the reward earned
+  players: number; // Everyone who scored, not just the archived top
+  finalizedAt: number;
+}
+
+export interface SeasonUserStats {
+  score: number; // Sum of the season's streaks
+  bestStreak: number;
+  runCount: number;
+  weeksPlayed: number;
+  lastWeekKey: string;
+}
+
+export type SeasonResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string; status: number };
+
+/**
+ * Rewards used when a season doesn't configure its own
+ */
+export const DEFAULT_SEASON_REWARDS: SeasonReward[] = [
+  { fromRank: 1, toRank: 1, reward: '🥇 Season champion' },
+  { fromRank: 2, toRank: 3, reward: '🏆 Season podium' },
+  { fromRank: 4, toRank: 10, reward: '🏅 Season top 10' },
+];
+
+/**
+ * Where a season is at a moment
+ */
+export function getSeasonStatus(season: Season, now: number = Date.now()): SeasonStatus {
+  if (now < season.startDate) return 'upcoming';
+  return now < season.endDate ? 'active' : 'ended';
+}
+
+/**
+ * The reward a final rank earns
+ */
+export function getSeasonReward(season: Season, rank: number): string | null {
+  return season.rewards.find(r => rank >= r.fromRank && rank <= r.toRank)?.reward ?? null;
+}
+
+/**
+ * Every configured season, oldest first
+ */
+export async function getSeasons(): Promise<Season[]> {
+  try {
+    const data = await getStore().get(KEYS.seasons());
+    if (data) {
+      return typeof data === 'string' ? JSON.parse(data) : data as Season[];
+    }
+  } catch (error) {
+    console.error('[Seasons] Error loading seasons:', error);
+  }
+  return [];
+}
+
+/**
+ * A configured season
+ */
+export async function getSeason(seasonId: string): Promise<Season | null> {
+  return (await getSeasons()).find(s => s.seasonId === seasonId) ?? null;
+}
+
+/**
+ * The season running at a moment
+ */
+export async function getActiveSeason(now: number = Date.now()): Promise<Season | null> {
+  return (await getSeasons()).find(s => getSeasonStatus(s, now) === 'active') ?? null;
+}
+
+/**
+ * Creates or reschedules a season
+ * Dates are snapped out to whole weeks - the season starts with the week
+ * holding startDate and ends with the week holding endDate. Seasons can't
+ * overlap, and a season that has started keeps its start.
+ * @param startDate - YYYY-MM-DD (UTC)
+ * @param endDate - YYYY-MM-DD (UTC)
+ */
+export async function saveSeason(
+  input: { seasonId: string; name: string; startDate: string; endDate: string; rewards?: SeasonReward[] },
+  now: number = Date.now()
+): Promise<SeasonResult<{ season: Season }>> {
+  if (!SEASON_ID_PATTERN.test(input.seasonId)) {
+    return { success: false, error: 'Season IDs are lowercase letters, digits and dashes', status: 400 };
+  }
+  if (!DATE_PATTERN.test(input.startDate) || !DATE_PATTERN.test(input.endDate)) {
+    return { success: false, error: 'Dates must be YYYY-MM-DD', status: 400 };
+  }
+
+  const start = new Date(`${input.startDate}T00:00:00Z`);
+  const end = new Date(`${input.endDate}T00:00:00Z`);
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) {
+    return { success: false, error: 'Invalid season dates', status: 400 };
+  }
+
+  const rewards = input.rewards ?? DEFAULT_SEASON_REWARDS;
+  if (rewards.some(r => r.fromRank < 1 || r.toRank < r.fromRank || !r.reward)) {
+    return { success: false, error: 'Invalid season rewards', status: 400 };
+  }
+
+  const season: Season = {
+    seasonId: input.seasonId,
+    name: input.name.trim() || input.seasonId,
+    startWeek: getWeekKey(start),
+    endWeek: getWeekKey(end),
+    startDate: getWeekStart(start).getTime(),
+    endDate: getNextWeekStart(end).getTime(),
+    rewards,
+  };
+
+  const seasons = await getSeasons();
+  const existing = seasons.find(s => s.seasonId === season.seasonId);
+  if (existing && getSeasonStatus(existing, now) === 'ended') {
+    return { success: false, error: 'Season has ended', status: 409 };
+  }
+  if (existing && getSeasonStatus(existing, now) === 'active' && existing.startDate !== season.startDate) {
+    return { success: false, error: 'Season has started - its start date is fixed', status: 409 };
+  }
+  if (season.endDate <= now) {
+    return { success: false, error: 'Season would already be over', status: 400 };
+  }
+
+  const overlapping = seasons.find(s =>
+    s.seasonId !== season.seasonId && s.startDate < season.endDate && season.startDate < s.endDate
+  );
+  if (overlapping) {
+    return { success: false, error: `Overlaps ${overlapping.name}`, status: 409 };
+  }
+
+  const updated = [...seasons.filter(s => s.seasonId !== season.seasonId), season]
+    .sort((a, b) => a.startDate - b.startDate);
+  await getStore().set(KEYS.seasons(), JSON.stringify(updated));
+
+  return { success: true, season };
+}
+
+/**
+ * Adds a submitted run to the running season's board
+ * The player's stats are updated under their lock, so runs submitted at
+ * once can't overwrite each other's score.
+ * @returns The player's season score, or 0 outside a season
+ */
+export async function trackSeasonScore(userId: string, streak: number, now: number = Date.now()): Promise<number> {
+  // Guests never appear on leaderboards
+  if (userId.startsWith('guest_')) return 0;
+
+  const season = await getActiveSeason(now);
+  if (!season) return 0;
+
+  const store = getStore();
+  const weekKey = getWeekKey(new Date(now));
+  const ttl = Math.ceil((season.endDate - now) / 1000) + LIVE_SEASON_GRACE_SECONDS;
+
+  try {
+    const score = await withLock(KEYS.userSeasonLock(userId, season.seasonId), async () => {
+      const statsKey = KEYS.userSeasonStats(userId, season.seasonId);
+      const data = await store.get(statsKey);
+      const stats: SeasonUserStats = data
+        ? (typeof data === 'string' ? JSON.parse(data) : data as SeasonUserStats)
+        : { score: 0, bestStreak: 0, runCount: 0, weeksPlayed: 0, lastWeekKey: '' };
+
+      stats.score += streak;
+      stats.bestStreak = Math.max(stats.bestStreak, streak);
+      stats.runCount += 1;
+      if (stats.lastWeekKey !== weekKey) {
+        stats.weeksPlayed += 1;
+        stats.lastWeekKey = weekKey;
+      }
+
+      await store.set(statsKey, JSON.stringify(stats), { ex: ttl });
+      const boardKey = KEYS.seasonLeaderboard(season.seasonId);
+      await store.zadd(boardKey, { score: stats.score, member: userId });
+      await store.expire(boardKey, ttl);
+      return stats.score;
+    });
+
+    return score ?? 0;
+  } catch (error) {
+    console.error('[Seasons] Error tracking season score:', error);
+    return 0;
+  }
+}
+
+/**
+ * A season's archived final standings
+ * @returns null until the season has been archived
+ */
+export async function getSeasonArchive(seasonId: string): Promise<SeasonArchive | null> {
+  try {
+    const data = await getStore().get(KEYS.archive(seasonId));
+    if (data) {
+      return typeof data === 'string' ? JSON.parse(data) : data as SeasonArchive;
+    }
+  } catch (error) {
+    console.error('[Seasons] Error loading season archive:', error);
+  }
+  return null;
+}
+
+/**
+ * Archives an ended season's final standings (once - later calls return
+ * the first archive)
+ * @returns The archive, or null if the season hasn't ended
+ */
+export async function finalizeSeason(seasonId: string, now: number = Date.now()): Promise<SeasonArchive | null> {
+  const season = await getSeason(seasonId);
+  if (!season || getSeasonStatus(season, now) !== 'ended') return null;
+
+  const existing = await getSeasonArchive(seasonId);
+  if (existing) return existing;
+
+  const store = getStore();
+  const standings = (await getSeasonLeaderboard(seasonId, SEASON_ARCHIVE_SIZE)).map(entry => {
+    const reward = getSeasonReward(season, entry.rank);
+    return reward ? { ...entry, reward } : entry;
+  });
+
+  const archive: SeasonArchive = {
+    season,
+    standings,
+    players: await store.zcard(KEYS.seasonLeaderboard(seasonId)),
+    finalizedAt: now,
+  };
+
+  // Kept for good; nx so a concurrent finalize can't replace it
+  const saved = await store.set(KEYS.archive(seasonId), JSON.stringify(archive), { nx: true });
+  if (!saved) return getSeasonArchive(seasonId);
+
+  await store.expire(KEYS.seasonLeaderboard(seasonId), LIVE_SEASON_GRACE_SECONDS);
+  return archive;
+}
+
+/**
+ * Archives every season that has ended since the last check
+ * @returns The seasons archived by this call
+ */
+export async function finalizeEndedSeasons(now: number = Date.now()): Promise<string[]> {
+  const finalized: string[] = [];
+  for (const season of await getSeasons()) {
+    if (getSeasonStatus(season, now) !== 'ended' || await getSeasonArchive(season.seasonId)) continue;
+    if (await finalizeSeason(season.seasonId, now)) finalized.push(season.seasonId);
+  }
+  return finalized;
+}
+
+/**
+ * The season to show by default - the running one, else the latest to end,
+ * else the next to start
+ */
+export async function getFeaturedSeason(now: number = Date.now()): Promise<Season | null> {
+  const seasons = await getSeasons();
+  return seasons.find(s => getSeasonStatus(s, now) === 'active')
+    ?? [...seasons].reverse().find(s => getSeasonStatus(s, now) === 'ended')
+    ?? seasons.find(s => getSeasonStatus(s, now) === 'upcoming')
+    ?? null;
+}
+
+/**
+ * A season's board - live while it runs, the archived final standings (with
+ * rewards) once it has ended. Archiving is left to the weekly cycle; until
+ * it runs, an ended season shows its last live standings.
+ * @returns null if there's no such season
+ */
+export async function getSeasonStandings(
+  seasonId: string,
+  limit: number = 100,
+  now: number = Date.now()
+): Promise<{ season: Season; status: SeasonStatus; final: boolean; entries: LeaderboardEntry[] } | null> {
+  const season = await getSeason(seasonId);
+  if (!season) return null;
+
+  const status = getSeasonStatus(season, now);
+  const archive = status === 'ended' ? await getSeasonArchive(seasonId) : null;
+  if (archive) {
+    return { season, status, final: true, entries: archive.standings.slice(0, limit) };
+  }
+
+  return {
+    season,
+    status,
+    final: false,
+    entries: status !== 'upcoming' ? await getSeasonLeaderboard(seasonId, limit) : [],
+  };
+}
+
+/**
+ * Weeks a season spans
+ */
+export function getSeasonWeekCount(season: Season): number {
+  return Math.round((season.endDate - season.startDate) / WEEK_MS);
+}
@@ -0,0 +1,53 @@
+/**
+ * Survival Run Leaderboards
+ * Survival scores outlast classic streaks (wrong answers only cost a life),
+ * so they get their own all-time and weekly best-score boards
+ */
+
+import { getStore } from '../store';
+import { getWeekKey } from './period';
+
+// Weekly survival boards stick around for a few weeks of lookbacks
+const SURVIVAL_WEEKLY_TTL_SECONDS = 60 * 60 * 24 * 35;
+
+// Redis key patterns
+const KEYS = {
+  survivalLeaderboard: () => 'leaderboard:survival:global',
+  survivalWeeklyLeaderboard: (weekKey: string) => `leaderboard:survival:weekly:${weekKey}`,
+};
+
+/**
+ * Submits a survival run to the survival boards
+ * @returns User's ranks on the survival boards (1-indexed, 0 on failure)
+ */
+export async function submitSurvivalScore(
+  userId: string,
+  score: number
+): Promise<{ globalRank: number; weeklyRank: number }> {
+  const store = getStore();
+
+  // Guests never appear on leaderboards
+  if (userId.startsWith('guest_')) return { globalRank: 0, weeklyRank: 0 };
+
+  try {
+    const globalKey = KEYS.survivalLeaderboard();
+    const weeklyKey = KEYS.survivalWeeklyLeaderboard(getWeekKey());
+
+    // GT - boards keep each player's best score
+    await store.zadd(globalKey, { gt: true }, { score, member: userId });
+    await store.zadd(weeklyKey, { gt: true }, { score, member: userId });
+    await store.expire(weeklyKey, SURVIVAL_WEEKLY_TTL_SECONDS);
+
+    const [globalRank, weeklyRank] = await Promise.all([
+      store.zrevrank(globalKey, userId),
+      store.zrevrank(weeklyKey, userId),
+    ]);
+    return {
+      globalRank: globalRank !== null ? globalRank + 1 : 0,
+      weeklyRank: weeklyRank !== null ? weeklyRank + 1 : 0,
+    };
+  } catch (error) {
+    console.error('[Survival] Error submitting survival score:', error);
+    return { globalRank: 0, weeklyRank: 0 };
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Themed Run Leaderboards
+ * Every theme has its own all-time and weekly best-streak boards
+ */
+
+import { ThemeId } from '@/lib/game-core/types';
+import { getStore } from '../store';
+import { getWeekKey } from './period';
+
+// Weekly theme boards stick around for a few weeks of lookbacks
+const THEME_WEEKLY_TTL_SECONDS = 60 * 60 * 24 * 35;
+
+// Redis key patterns
+const KEYS = {
+  themeLeaderboard: (themeId: ThemeId) => `leaderboard:theme:${themeId}:global`,
+  themeWeeklyLeaderboard: (themeId: ThemeId, weekKey: string) => `leaderboard:theme:${themeId}:weekly:${weekKey}`,
+};
+
+/**
+ * Submits a themed run to the theme's boards
+ * @returns User's ranks on the theme boards (1-indexed, 0 on failure)
+ */
+export async function submitThemeScore(
+  userId: string,
+  themeId: ThemeId,
+  streak: number
+): Promise<{ globalRank: number; weeklyRank: number }> {
+  const store = getStore();
+
+  // Guests never appear on leaderboards
+  if (userId.startsWith('guest_')) return { globalRank: 0, weeklyRank: 0 };
+
+  try {
+    const globalKey = KEYS.themeLeaderboard(themeId);
+    const weeklyKey = KEYS.themeWeeklyLeaderboard(themeId, getWeekKey());
+
+    // GT - boards keep each player's best streak
+    await store.zadd(globalKey, { gt: true }, { score: streak, member: userId });
+    await store.zadd(weeklyKey, { gt: true }, { score: streak, member: userId });
+    await store.expire(weeklyKey, THEME_WEEKLY_TTL_SECONDS);
+
+    const [globalRank, weeklyRank] = await Promise.all([
+      store.zrevrank(globalKey, userId),
+      store.zrevrank(weeklyKey, userId),
+    ]);
+    return {
+      globalRank: globalRank !== null ? globalRank + 1 : 0,
+      weeklyRank: weeklyRank !== null ? weeklyRank + 1 : 0,
+    };
+  } catch (error) {
+    console.error('[Themes] Error submitting theme score:', error);
+    return { globalRank: 0, weeklyRank: 0 };
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Week Key Migration
+ * Re-keys weekly leaderboard data written under the legacy "YYYY-WW" week keys
+ * (Sunday-start weeks counted from Jan 1) onto ISO week keys (see ./period).
+ * Each legacy week is folded into the ISO week holding most of its days.
+ */
+
+import { GameStore } from '../store';
+import { getWeekKey, PeriodBounds } from './period';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LEGACY_WEEK_KEY_PATTERN = /^(\d{4})-(\d{2})$/;
+
+// Same TTL trackWeeklyScore uses for weekly stats and cumulative scores
+const WEEKLY_STATS_TTL_SECONDS = 60 * 60 * 24 * 8;
+
+// Same TTLs finalizeWeeklyPrizePool (see ./weekly-cycle) writes prize pools with
+const PRIZE_POOL_CONFIG_TTL_SECONDS = 60 * 60 * 24 * 8;
+const PRIZE_POOL_HISTORY_TTL_SECONDS = 60 * 60 * 24 * 365;
+
+// Merged values are kept long enough to re-run a migration that stopped partway
+const MIGRATED_TTL_SECONDS = 60 * 60 * 24 * 30;
+
+const KEYS = {
+  weeklyLeaderboard: (weekKey: string) => `leaderboard:weekly:${weekKey}`,
+  weeklyCumulativeScores: (weekKey: string) => `scores:weekly:${weekKey}:cumulative`,
+  userWeeklyStats: (userId: string, weekKey: string) => `user:${userId}:weekly:${weekKey}`,
+  prizePoolConfig: (weekKey: string) => `prizepool:weekly:${weekKey}`,
+  prizePoolHistory: (weekKey: string) => `prizepool:history:${weekKey}`,
+  migrated: (legacyWeekKey: string, userId: string) => `migration:week-keys:${legacyWeekKey}:${userId}`,
+};
+
+interface WeeklyStats {
+  cumulativeScore: number;
+  bestStreak: number;
+  runCount: number;
+  lastUpdated: number;
+}
+
+// A user's merged week, worked out once per legacy week
+interface MigratedWeek {
+  score: number;
+  stats: WeeklyStats | null;
+}
+
+export interface WeekKeyMigrationResult {
+  legacyWeekKey: string;
+  weekKey: string;
+  leaderboardEntries: number;
+  cumulativeEntries: number;
+  userStats: number;
+  prizePoolKeys: number;
+}
+
+/**
+ * Legacy week key for a date, as the old per-module getWeekKey() computed it
+ * (production servers run in UTC, so UTC stands in for their local time)
+ */
+export function getLegacyWeekKey(date: Date): string {
+  const year = date.getUTCFullYear();
+  const startOfYear = Date.UTC(year, 0, 1);
+  const days = Math.floor((date.getTime() - startOfYear) / DAY_MS);
+  const week = Math.ceil((days + new Date(startOfYear).getUTCDay() + 1) / 7);
+  return `${year}-${week.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Days a legacy week key covered
+ * The first and last weeks of a year are cut short at the year boundary
+ * @returns null if the key isn't a legacy key for a week that existed
+ */
+export function getLegacyWeekBounds(legacyWeekKey: string): PeriodBounds | null {
+  const match = LEGACY_WEEK_KEY_PATTERN.exec(legacyWeekKey);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const week = Number(match[2]);
+  const startOfYear = Date.UTC(year, 0, 1);
+  const startOfNextYear = Date.UTC(year + 1, 0, 1);
+  const firstDayOffset = new Date(startOfYear).getUTCDay();
+
+  const start = Math.max(startOfYear, startOfYear + (7 * (week - 1) - firstDayOffset) * DAY_MS);
+  const end = Math.min(startOfNextYear, startOfYear + (7 * week - firstDayOffset) * DAY_MS);
+  if (week < 1 || start >= end) return null;
+
+  return { start: new Date(start), end: new Date(end) };
+}
+
+/**
+ * ISO week key a legacy week's data moves to
+ * A legacy week runs Sunday-Saturday, so its last day sits in the ISO week
+ * holding the rest of it (for a year's short first or last week too)
+ */
+export function mapLegacyWeekKey(legacyWeekKey: string): string | null {
+  const bounds = getLegacyWeekBounds(legacyWeekKey);
+  if (!bounds) return null;
+  return getWeekKey(new Date(bounds.end.getTime() - DAY_MS));
+}
+
+/**
+ * Legacy week keys that covered the last few weeks
+ * @param weeks - How many weeks back to look
+ */
+export function listRecentLegacyWeekKeys(weeks: number, now: Date = new Date()): string[] {
+  const keys = new Set<string>();
+  for (let day = 0; day <= weeks * 7; day++) {
+    keys.add(getLegacyWeekKey(new Date(now.getTime() - day * DAY_MS)));
+  }
+  return Array.from(keys);
+}
+
+/**
+ * Sorted set members come back JSON-parsed - turn them back into the stored string
+ */
+function toMember(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+async function readScores(store: GameStore, key: string): Promise<{ member: string; score: number }[]> {
+  const flat = await store.zrange<unknown[]>(key, 0, -1, { withScores: true });
+  const entries: { member: string; score: number }[] = [];
+  for (let i = 0; i < flat.length; i += 2) {
+    entries.push({ member: toMember(flat[i]), score: Number(flat[i + 1]) });
+  }
+  return entries;
+}
+
+function parseStats(value: unknown): WeeklyStats | null {
+  if (!value) return null;
+  return typeof value === 'string' ? JSON.parse(value) : (value as WeeklyStats);
+}
+
+function parsePrizePool(value: unknown): Record<string, unknown> {
+  return typeof value === 'string' ? JSON.parse(value) : (value as Record<string, unknown>);
+}
+
+/**
+ * Moves a legacy week's prize pool config and history onto its ISO week key
+ * A pool already set up under the ISO key is kept; the legacy copy is dropped.
+ * @returns How many prize pool keys the legacy week had
+ */
+async function migratePrizePool(
+  store: GameStore,
+  legacyWeekKey: string,
+  weekKey: string,
+  dryRun: boolean
+): Promise<number> {
+  const keys = [
+    { key: KEYS.prizePoolConfig, ttl: PRIZE_POOL_CONFIG_TTL_SECONDS },
+    { key: KEYS.prizePoolHistory, ttl: PRIZE_POOL_HISTORY_TTL_SECONDS },
+  ];
+  let moved = 0;
+
+  for (const { key, ttl } of keys) {
+    const legacyKey = key(legacyWeekKey);
+    const value = await store.get(legacyKey);
+    if (!value) continue;
+    moved++;
+    if (dryRun) continue;
+
+    // Finalizing reads the week key back out of the config, so it follows the move
+    const pool = { ...parsePrizePool(value), weekKey };
+    await store.set(key(weekKey), JSON.stringify(pool), { nx: true, ex: ttl });
+    await store.del(legacyKey);
+  }
+
+  return moved;
+}
+
+function parseMigratedWeek(value: unknown): MigratedWeek | null {
+  if (!value) return null;
+  return typeof value === 'string' ? JSON.parse(value) : (value as MigratedWeek);
+}
+
+/**
+ * Moves one legacy week's data onto its ISO week key
+ * Best streaks keep the higher score, cumulative scores and run counts add up,
+ * so weeks that fold into the same ISO week (or data already written under the
+ * ISO key) merge cleanly. Prize pools can't be merged, so one only moves if
+ * the ISO week has none yet. Legacy keys are deleted once copied.
+ * Safe to re-run after a failure: each user's merged values are recorded
+ * before they're written, and a re-run writes the recorded values again
+ * instead of adding the legacy week a second time.
+ * @param dryRun - Only count what would move
+ */
+export async function migrateLegacyWeek(
+  store: GameStore,
+  legacyWeekKey: string,
+  dryRun: boolean = false
+): Promise<WeekKeyMigrationResult | null> {
+  const weekKey = mapLegacyWeekKey(legacyWeekKey);
+  if (!weekKey) return null;
+
+  const leaderboardKey = KEYS.weeklyLeaderboard(legacyWeekKey);
+  const cumulativeKey = KEYS.weeklyCumulativeScores(legacyWeekKey);
+  const leaderboard = await readScores(store, leaderboardKey);
+  const cumulative = await readScores(store, cumulativeKey);
+
+  const result: WeekKeyMigrationResult = {
+    legacyWeekKey,
+    weekKey,
+    leaderboardEntries: leaderboard.length,
+    cumulativeEntries: cumulative.length,
+    userStats: 0,
+    prizePoolKeys: await migratePrizePool(store, legacyWeekKey, weekKey, dryRun),
+  };
+
+  // Best streaks: ZADD GT keeps whichever score is higher
+  if (!dryRun && leaderboard.length > 0) {
+    const [first, ...rest] = leaderboard;
+    await store.zadd(KEYS.weeklyLeaderboard(weekKey), { gt: true }, first, ...rest);
+    await store.del(leaderboardKey);
+  }
+
+  // Cumulative scores and the per-user stats behind them are summed
+  for (const { member: userId, score } of cumulative) {
+    const legacyStatsKey = KEYS.userWeeklyStats(userId, legacyWeekKey);
+    const legacyStats = parseStats(await store.get(legacyStatsKey));
+    if (legacyStats) result.userStats++;
+    if (dryRun) continue;
+
+    const targetKey = KEYS.weeklyCumulativeScores(weekKey);
+    const statsKey = KEYS.userWeeklyStats(userId, weekKey);
+    const migratedKey = KEYS.migrated(legacyWeekKey, userId);
+
+    let migrated = parseMigratedWeek(await store.get(migratedKey));
+    if (!migrated) {
+      const existingScore = Number((await store.zscore(targetKey, userId)) ?? 0);
+      const existing = parseStats(await store.get(statsKey));
+      const merged: MigratedWeek = {
+        score: existingScore + score,
+        stats: existing && legacyStats
+          ? {
+              cumulativeScore: existing.cumulativeScore + legacyStats.cumulativeScore,
+              bestStreak: Math.max(existing.bestStreak, legacyStats.bestStreak),
+              runCount: existing.runCount + legacyStats.runCount,
+              lastUpdated: Math.max(existing.lastUpdated, legacyStats.lastUpdated),
+            }
+          : legacyStats,
+      };
+
+      // nx - if another run recorded this user's merge first, its values win
+      await store.set(migratedKey, JSON.stringify(merged), { nx: true, ex: MIGRATED_TTL_SECONDS });
+      migrated = parseMigratedWeek(await store.get(migratedKey)) ?? merged;
+    }
+
+    await store.zadd(targetKey, { score: migrated.score, member: userId });
+    if (migrated.stats) {
+      await store.set(statsKey, JSON.stringify(migrated.stats), { ex: WEEKLY_STATS_TTL_SECONDS });
+    }
+    if (legacyStats) {
+      await store.del(legacyStatsKey);
+    }
+  }
+
+  if (!dryRun && cumulative.length > 0) {
+    await store.expire(KEYS.weeklyCumulativeScores(weekKey), WEEKLY_STATS_TTL_SECONDS);
+    await store.del(cumulativeKey);
+  }
+
+  return result;
+}
+
+/**
+ * Migrates every legacy week key from the last few weeks
+ * Weekly scores expire after 8 days, so a couple of weeks covers live data;
+ * the weekly leaderboard has no TTL, so look further back to move its history.
+ * @param weeks - How many weeks back to look
+ * @param dryRun - Only count what would move
+ */
+export async function migrateLegacyWeekKeys(
+  store: GameStore,
+  weeks: number,
+  dryRun: boolean = false
+): Promise<WeekKeyMigrationResult[]> {
+  const results: WeekKeyMigrationResult[] = [];
+
+  for (const legacyWeekKey of listRecentLegacyWeekKeys(weeks)) {
+    const result = await migrateLegacyWeek(store, legacyWeekKey, dryRun);
+    if (result && (result.leaderboardEntries > 0 || result.cumulativeEntries > 0 || result.prizePoolKeys > 0)) {
+      results.push(result);
+    }
+  }
+
+  return results;
+}
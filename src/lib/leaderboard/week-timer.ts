@@ -1,59 +1,12 @@
 /**
  * Weekly Leaderboard Timer Utilities
- * Calculates time until next Sunday midnight UTC and formats countdown
+ * Calculates time until the weekly reset (see ./period) and formats countdown
  */
 
-/**
- * Gets the next Sunday at midnight UTC
- * @returns Date object for next Sunday 00:00:00 UTC
- */
-export function getNextSundayMidnightUTC(): Date {
-  const now = new Date();
-  const utcDate = new Date(now.toISOString());
-  
-  // Get the current day of week (0 = Sunday, 6 = Saturday)
-  const day = utcDate.getUTCDay();
-  
-  // Calculate days until next Sunday
-  // If today is Sunday, we want next Sunday (7 days away)
-  // Otherwise, calculate days until next Sunday
-  const daysUntilSunday = day === 0 ? 7 : 7 - day;
-  
-  const nextSunday = new Date(utcDate);
-  nextSunday.setUTCDate(utcDate.getUTCDate() + daysUntilSunday);
-  nextSunday.setUTCHours(0, 0, 0, 0);
-  
-  return nextSunday;
-}
-
-/**
- * Gets the current week start (most recent Sunday midnight UTC)
- * @returns Date object for current week start
- */
-export function getCurrentWeekStart(): Date {
-  const now = new Date();
-  const utcDate = new Date(now.toISOString());
-  
-  const day = utcDate.getUTCDay();
-  const daysToSunday = day === 0 ? 0 : day;
-  
-  const sunday = new Date(utcDate);
-  sunday.setUTCDate(utcDate.getUTCDate() - daysToSunday);
-  sunday.setUTCHours(0, 0, 0, 0);
-  
-  return sunday;
-}
-
-/**
- * Gets the current week end (next Sunday midnight UTC)
- * @returns Date object for current week end
- */
-export function getCurrentWeekEnd(): Date {
-  return getNextSundayMidnightUTC();
-}
+import { getNextWeekStart } from './period';
 
 /**
- * Calculates time remaining until next Sunday midnight UTC
+ * Calculates time remaining until the next week starts
  * @returns Object with days, hours, minutes, seconds
  */
 export function getTimeUntilNextWeek(): {
@@ -64,9 +17,9 @@ export function getTimeUntilNextWeek(): {
   totalSeconds: number;
 } {
   const now = new Date();
-  const nextSunday = getNextSundayMidnightUTC();
+  const nextWeekStart = getNextWeekStart(now);
   
-  const diffMs = nextSunday.getTime() - now.getTime();
+  const diffMs = nextWeekStart.getTime() - now.getTime();
   const totalSeconds = Math.max(0, Math.floor(diffMs / 1000));
   
   const days = Math.floor(totalSeconds / (24 * 60 * 60));
@@ -1,10 +1,14 @@
 /**
  * Weekly Cycle Management
- * Handles weekly prize pool cycles, initialization, and finalization
+ * Handles weekly prize pool cycles, initialization, and finalization.
+ * Seasons (see ./seasons) are runs of these weeks - finalizing a week also
+ * archives any season that ended with it.
  */
 
-import { getCurrentWeekKey, getWeekBounds, PrizePoolConfig } from './prizepool';
-import { getRedis } from '../redis';
+import { PrizePoolConfig } from './prizepool';
+import { finalizeEndedSeasons } from './seasons';
+import { getStore } from '../store';
+import { TeamPrize, calculateTeamPrizeDistribution } from '../teams';
 
 const KEYS = {
   prizePoolConfig: (weekKey: string) => `prizepool:weekly:${weekKey}`,
@@ -18,18 +22,20 @@ const KEYS = {
 export async function finalizeWeeklyPrizePool(weekKey: string): Promise<{
   success: boolean;
   distribution?: Array<{ userId: string; prize: number; rank: number }>;
+  teamDistribution?: TeamPrize[];
+  seasonsFinalized?: string[];
   error?: string;
 }> {
-  const redis = getRedis();
-  if (!redis) {
-    return { success: false, error: 'Redis not configured' };
-  }
+  const store = getStore();
   
   try {
+    // Seasons end with a week - archive their final standings whether or not the week had a prize pool
+    const seasonsFinalized = await finalizeEndedSeasons();
+    
     // Get prize pool config
-    const configJson = await redis.get(KEYS.prizePoolConfig(weekKey));
+    const configJson = await store.get(KEYS.prizePoolConfig(weekKey));
     if (!configJson) {
-      return { success: false, error: 'Prize pool config not found' };
+      return { success: false, error: 'Prize pool config not found', seasonsFinalized };
     }
     
     const config: PrizePoolConfig = typeof configJson === 'string' 
@@ -53,26 +59,35 @@ export async function finalizeWeeklyPrizePool(weekKey: string): Promise<{
       config.prizeAmount
     );
     
+    // Team pool - paid out by team rank, then split between each team's counted members
+    const teamDistribution = config.teamPrizeAmount
+      ? await calculateTeamPrizeDistribution(config.teamPrizeAmount, weekKey)
+      : [];
+    
     // Archive results
     const history = {
       weekKey: config.weekKey,
       prizeAmount: config.prizeAmount,
+      teamPrizeAmount: config.teamPrizeAmount,
       sponsor: config.sponsor,
       distribution,
+      teamDistribution,
       finalizedAt: Date.now(),
       startDate: config.startDate,
       endDate: config.endDate,
     };
     
-    await redis.set(KEYS.prizePoolHistory(weekKey), JSON.stringify(history), { ex: 60 * 60 * 24 * 365 }); // 1 year
+    await store.set(KEYS.prizePoolHistory(weekKey), JSON.stringify(history), { ex: 60 * 60 * 24 * 365 }); // 1 year
     
     // Mark config as completed
     config.status = 'completed';
-    await redis.set(KEYS.prizePoolConfig(weekKey), JSON.stringify(config), { ex: 60 * 60 * 24 * 8 });
+    await store.set(KEYS.prizePoolConfig(weekKey), JSON.stringify(config), { ex: 60 * 60 * 24 * 8 });
     
     return {
       success: true,
       distribution,
+      teamDistribution,
+      seasonsFinalized,
     };
   } catch (error) {
     console.error('Error finalizing prize pool:', error);
@@ -93,7 +108,3 @@ export async function initializeNextWeekPrizePool(
   const { initializeWeeklyPrizePool } = await import('./prizepool');
   return await initializeWeeklyPrizePool(prizeAmount, sponsor);
 }
-
-
-
-
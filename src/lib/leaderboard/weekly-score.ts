@@ -3,7 +3,8 @@
  * Tracks attempts and calculates weekly scores using formula: (Streak × 10) + Attempts
  */
 
-import { Redis } from '@upstash/redis';
+import { GameStore } from '../store';
+import { getSecondsUntilWeekEnd } from './period';
 
 // Redis key patterns
 const KEYS = {
@@ -12,52 +13,44 @@ const KEYS = {
 
 /**
  * Increments the weekly attempt counter for a user
- * @param redis - Redis client
+ * @param store - Game store
  * @param userId - User ID
- * @param weekKey - Week key (YYYY-WW format)
+ * @param weekKey - Week key (see ./period)
  * @returns New attempt count
  */
 export async function incrementWeeklyAttempts(
-  redis: Redis,
+  store: GameStore,
   userId: string,
   weekKey: string
 ): Promise<number> {
   const key = KEYS.weeklyAttempts(userId, weekKey);
   
   // Increment and return new count
-  const attempts = await redis.incr(key);
+  const attempts = await store.incr(key);
   
-  // Set TTL to expire at end of week (7 days from now, but we'll set it conservatively)
-  // Calculate seconds until next Sunday midnight UTC
-  const now = new Date();
-  const utcDate = new Date(now.toISOString());
-  const day = utcDate.getUTCDay();
-  const daysUntilSunday = day === 0 ? 7 : 7 - day;
-  const secondsUntilNextWeek = (daysUntilSunday * 24 * 60 * 60) + 
-    (23 - utcDate.getUTCHours()) * 60 * 60 + 
-    (59 - utcDate.getUTCMinutes()) * 60 + 
-    (60 - utcDate.getUTCSeconds());
+  // Set TTL to expire at end of week
+  const secondsUntilNextWeek = getSecondsUntilWeekEnd();
   
   // Set TTL with some buffer (add 1 hour to be safe)
-  await redis.expire(key, secondsUntilNextWeek + 3600);
+  await store.expire(key, secondsUntilNextWeek + 3600);
   
   return attempts;
 }
 
 /**
  * Gets the current weekly attempt count for a user
- * @param redis - Redis client
+ * @param store - Game store
  * @param userId - User ID
- * @param weekKey - Week key (YYYY-WW format)
+ * @param weekKey - Week key (see ./period)
  * @returns Attempt count (0 if not found)
  */
 export async function getWeeklyAttempts(
-  redis: Redis,
+  store: GameStore,
   userId: string,
   weekKey: string
 ): Promise<number> {
   const key = KEYS.weeklyAttempts(userId, weekKey);
-  const attempts = await redis.get<number>(key);
+  const attempts = await store.get<number>(key);
   return attempts || 0;
 }
 
@@ -1,9 +1,9 @@
 /**
- * Redis storage helpers for Mystery Box feature
+ * Storage helpers for Mystery Box feature
  */
 
-import { Redis } from '@upstash/redis';
-import { getRedis } from '@/lib/redis';
+import { getStore } from '@/lib/store';
+import { recordPlayedRun } from '@/lib/play-streak/storage';
 
 // Redis key patterns
 const KEYS = {
@@ -41,12 +41,11 @@ export function isToday(timestamp: number): boolean {
  * Get daily pool count (remaining mystery boxes for today)
  */
 export async function getDailyPoolCount(): Promise<number> {
-  const redis = getRedis();
-  if (!redis) return 0;
+  const store = getStore();
   
   try {
     const today = getTodayKey();
-    const count = await redis.get<number>(KEYS.dailyPool(today));
+    const count = await store.get<number>(KEYS.dailyPool(today));
     return count ?? 50; // Default to 50 if not set (first check of day)
   } catch (error) {
     console.error('[MysteryBox] Error getting daily pool count:', error);
@@ -58,13 +57,12 @@ export async function getDailyPoolCount(): Promise<number> {
  * Initialize or reset daily pool (called on first check of new day)
  */
 export async function initializeDailyPool(): Promise<number> {
-  const redis = getRedis();
-  if (!redis) return 0;
+  const store = getStore();
   
   try {
     const today = getTodayKey();
     // Set to 50 with 25 hour TTL (slightly longer than 24h to handle edge cases)
-    await redis.set(KEYS.dailyPool(today), 50, { ex: 25 * 60 * 60 });
+    await store.set(KEYS.dailyPool(today), 50, { ex: 25 * 60 * 60 });
     return 50;
   } catch (error) {
     console.error('[MysteryBox] Error initializing daily pool:', error);
@@ -76,16 +74,15 @@ export async function initializeDailyPool(): Promise<number> {
  * Decrement daily pool count
  */
 export async function decrementDailyPool(): Promise<boolean> {
-  const redis = getRedis();
-  if (!redis) return false;
+  const store = getStore();
   
   try {
     const today = getTodayKey();
-    const newCount = await redis.decr(KEYS.dailyPool(today));
+    const newCount = await store.decr(KEYS.dailyPool(today));
     
     // If count went negative, reset to 0
     if (newCount < 0) {
-      await redis.set(KEYS.dailyPool(today), 0, { ex: 25 * 60 * 60 });
+      await store.set(KEYS.dailyPool(today), 0, { ex: 25 * 60 * 60 });
       return false;
     }
     
@@ -100,12 +97,11 @@ export async function decrementDailyPool(): Promise<boolean> {
  * Get user's daily claim count
  */
 export async function getUserDailyClaims(userId: string): Promise<number> {
-  const redis = getRedis();
-  if (!redis) return 0;
+  const store = getStore();
   
   try {
     const today = getTodayKey();
-    const claims = await redis.get<number>(KEYS.userClaims(today, userId));
+    const claims = await store.get<number>(KEYS.userClaims(today, userId));
     return claims ?? 0;
   } catch (error) {
     console.error('[MysteryBox] Error getting user daily claims:', error);
@@ -117,14 +113,13 @@ export async function getUserDailyClaims(userId: string): Promise<number> {
  * Increment user's daily claim count
  */
 export async function incrementUserDailyClaims(userId: string): Promise<number> {
-  const redis = getRedis();
-  if (!redis) return 0;
+  const store = getStore();
   
   try {
     const today = getTodayKey();
-    const newCount = await redis.incr(KEYS.userClaims(today, userId));
+    const newCount = await store.incr(KEYS.userClaims(today, userId));
     // Set TTL to 25 hours
-    await redis.expire(KEYS.userClaims(today, userId), 25 * 60 * 60);
+    await store.expire(KEYS.userClaims(today, userId), 25 * 60 * 60);
     return newCount;
   } catch (error) {
     console.error('[MysteryBox] Error incrementing user daily claims:', error);
@@ -133,47 +128,50 @@ export async function incrementUserDailyClaims(userId: string): Promise<number>
 }
 
 /**
- * Record a run for a user (for average calculation)
+ * Record a run for a user (for average calculation and their play streak calendar)
  */
 export async function recordUserRun(userId: string, streak: number, timestamp: number): Promise<void> {
-  const redis = getRedis();
-  if (!redis) return;
+  const store = getStore();
   
   try {
     const runData = { streak, timestamp };
     const key = KEYS.userRuns(userId);
     
     // Add to list (left push to keep recent first)
-    await redis.lpush(key, JSON.stringify(runData));
+    await store.lpush(key, JSON.stringify(runData));
     
     // Keep only last 20 runs
-    await redis.ltrim(key, 0, 19);
+    await store.ltrim(key, 0, 19);
     
     // Set TTL to 30 days (keep history for a month)
-    await redis.expire(key, 30 * 24 * 60 * 60);
+    await store.expire(key, 30 * 24 * 60 * 60);
   } catch (error) {
     console.error('[MysteryBox] Error recording user run:', error);
   }
+
+  await recordPlayedRun(userId, timestamp);
 }
 
 /**
  * Get user's recent run history
  */
 export async function getUserRunHistory(userId: string): Promise<Array<{ streak: number; timestamp: number }>> {
-  const redis = getRedis();
-  if (!redis) return [];
+  const store = getStore();
   
   try {
     const key = KEYS.userRuns(userId);
-    const runs = await redis.lrange(key, 0, 19); // Get last 20
+    const runs = await store.lrange<string | { streak: number; timestamp: number }>(key, 0, 19); // Get last 20
     
     if (!runs || !Array.isArray(runs)) {
       return [];
     }
     
-    return runs.map((runStr: string) => {
+    return runs.map((runStr: string | { streak: number; timestamp: number }) => {
       try {
-        return JSON.parse(runStr) as { streak: number; timestamp: number };
+        // The store hands back JSON entries already parsed
+        return typeof runStr === 'string'
+          ? JSON.parse(runStr) as { streak: number; timestamp: number }
+          : runStr;
       } catch {
         return { streak: 0, timestamp: 0 };
       }
@@ -188,11 +186,10 @@ export async function getUserRunHistory(userId: string): Promise<Array<{ streak:
  * Mark a mystery box as claimed
  */
 export async function markBoxAsClaimed(boxId: string, userId: string): Promise<void> {
-  const redis = getRedis();
-  if (!redis) return;
+  const store = getStore();
   
   try {
-    await redis.set(KEYS.claimedBox(boxId), userId, { ex: 7 * 24 * 60 * 60 }); // 7 days
+    await store.set(KEYS.claimedBox(boxId), userId, { ex: 7 * 24 * 60 * 60 }); // 7 days
   } catch (error) {
     console.error('[MysteryBox] Error marking box as claimed:', error);
   }
@@ -202,11 +199,10 @@ export async function markBoxAsClaimed(boxId: string, userId: string): Promise<v
  * Check if a box has been claimed
  */
 export async function isBoxClaimed(boxId: string): Promise<boolean> {
-  const redis = getRedis();
-  if (!redis) return false;
+  const store = getStore();
   
   try {
-    const claimed = await redis.get<string>(KEYS.claimedBox(boxId));
+    const claimed = await store.get<string>(KEYS.claimedBox(boxId));
     return claimed !== null;
   } catch (error) {
     console.error('[MysteryBox] Error checking if box is claimed:', error);
@@ -5,7 +5,7 @@
  * See: https://docs.base.org/mini-apps/core-concepts/notifications
  */
 
-import { getRedis } from '../redis';
+import { getStore } from '../store';
 
 // Types
 export interface NotificationDetails {
@@ -32,8 +32,14 @@ const NOTIFICATION_KEYS = {
   userNotification: (fid: number, appFid: number) => `notification:${fid}:${appFid}`,
   // Set of all FIDs with notifications enabled (for bulk notifications)
   allNotificationUsers: () => 'notification:users',
+  // Key: notification:{fid}:apps -> app FIDs the user enabled notifications in
+  userApps: (fid: number) => `notification:${fid}:apps`,
 };
 
+// Clients users could enable notifications in before their apps were listed
+// (Farcaster and the Base app) - checked when a user has no apps list yet
+const LEGACY_APP_FIDS = [9152, 309857];
+
 /**
  * Stores notification details for a user
  * Called when user enables notifications (miniapp_added or notifications_enabled)
@@ -43,22 +49,23 @@ export async function setUserNotificationDetails(
   appFid: number,
   details: NotificationDetails
 ): Promise<boolean> {
-  const redis = getRedis();
-  if (!redis) {
-    console.warn('[Notifications] Redis not configured - cannot store notification details');
-    return false;
-  }
+  const store = getStore();
 
   try {
     // Store notification details
-    await redis.set(
+    await store.set(
       NOTIFICATION_KEYS.userNotification(fid, appFid),
       JSON.stringify(details),
       { ex: 60 * 60 * 24 * 365 } // 1 year expiry
     );
 
     // Add to set of users with notifications
-    await redis.sadd(NOTIFICATION_KEYS.allNotificationUsers(), `${fid}:${appFid}`);
+    await store.sadd(NOTIFICATION_KEYS.allNotificationUsers(), `${fid}:${appFid}`);
+
+    const appFids = await getUserNotificationApps(fid);
+    if (!appFids.includes(appFid)) {
+      await store.set(NOTIFICATION_KEYS.userApps(fid), JSON.stringify([...appFids, appFid]), { ex: 60 * 60 * 24 * 365 });
+    }
 
     console.log('[Notifications] Stored notification details for:', { fid, appFid });
     return true;
@@ -75,11 +82,10 @@ export async function getUserNotificationDetails(
   fid: number,
   appFid: number
 ): Promise<NotificationDetails | null> {
-  const redis = getRedis();
-  if (!redis) return null;
+  const store = getStore();
 
   try {
-    const data = await redis.get<string>(NOTIFICATION_KEYS.userNotification(fid, appFid));
+    const data = await store.get<string>(NOTIFICATION_KEYS.userNotification(fid, appFid));
     if (!data) return null;
 
     return typeof data === 'string' ? JSON.parse(data) : data;
@@ -89,6 +95,38 @@ export async function getUserNotificationDetails(
   }
 }
 
+/**
+ * Gets the app FIDs a user enabled notifications in
+ * Users who subscribed before apps were listed get their list built from
+ * the details stored per app
+ */
+export async function getUserNotificationApps(fid: number): Promise<number[]> {
+  const store = getStore();
+
+  try {
+    const data = await store.get<string | number[]>(NOTIFICATION_KEYS.userApps(fid));
+    if (!data) return await backfillUserNotificationApps(fid);
+
+    return typeof data === 'string' ? JSON.parse(data) : data;
+  } catch (error) {
+    console.error('[Notifications] Failed to get notification apps:', error);
+    return [];
+  }
+}
+
+/**
+ * Lists the known apps a user has notification details stored for
+ */
+async function backfillUserNotificationApps(fid: number): Promise<number[]> {
+  const details = await Promise.all(LEGACY_APP_FIDS.map(appFid => getUserNotificationDetails(fid, appFid)));
+  const appFids = LEGACY_APP_FIDS.filter((_, i) => details[i]);
+
+  if (appFids.length > 0) {
+    await getStore().set(NOTIFICATION_KEYS.userApps(fid), JSON.stringify(appFids), { ex: 60 * 60 * 24 * 365 });
+  }
+  return appFids;
+}
+
 /**
  * Deletes notification details for a user
  * Called when user disables notifications or removes mini app
@@ -97,12 +135,18 @@ export async function deleteUserNotificationDetails(
   fid: number,
   appFid: number
 ): Promise<boolean> {
-  const redis = getRedis();
-  if (!redis) return false;
+  const store = getStore();
 
   try {
-    await redis.del(NOTIFICATION_KEYS.userNotification(fid, appFid));
-    await redis.srem(NOTIFICATION_KEYS.allNotificationUsers(), `${fid}:${appFid}`);
+    await store.del(NOTIFICATION_KEYS.userNotification(fid, appFid));
+    await store.srem(NOTIFICATION_KEYS.allNotificationUsers(), `${fid}:${appFid}`);
+
+    const appFids = (await getUserNotificationApps(fid)).filter(app => app !== appFid);
+    if (appFids.length > 0) {
+      await store.set(NOTIFICATION_KEYS.userApps(fid), JSON.stringify(appFids), { ex: 60 * 60 * 24 * 365 });
+    } else {
+      await store.del(NOTIFICATION_KEYS.userApps(fid));
+    }
 
     console.log('[Notifications] Deleted notification details for:', { fid, appFid });
     return true;
@@ -209,6 +253,25 @@ export async function sendOvertakeNotification(
   console.log('[Notifications] Overtake notification result:', result);
 }
 
+/**
+ * Sends a reminder when a user's daily play streak ends unless they play today
+ */
+export async function sendPlayStreakReminder(
+  fid: number,
+  appFid: number,
+  streak: number
+): Promise<SendNotificationResult> {
+  const result = await sendNotification({
+    fid,
+    appFid,
+    title: '🔥 Keep your streak alive!',
+    body: `Don't lose your ${streak}-day streak - play a round before the day is out!`,
+  });
+
+  console.log('[Notifications] Play streak reminder result:', result);
+  return result;
+}
+
 /**
  * Sends a notification for a new high score
  */
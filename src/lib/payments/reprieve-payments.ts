@@ -0,0 +1,45 @@
+/**
+ * Reprieve Payments
+ * Verified reprieve payments, recorded against the run they paid for.
+ * /api/reprieve/verify records a payment; applyReprieve (see
+ * game-core/session.ts) uses it up. A payment can only ever pay for one run.
+ */
+
+import { getStore } from '../store';
+
+// How long a verified payment waits to be used, and how long a used one stays blocked
+const PAYMENT_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+// Redis key patterns
+const KEYS = {
+  payment: (txHash: string) => `reprieve:tx:${txHash}`, // runId the payment paid for
+  runPayment: (runId: string) => `reprieve:run:${runId}`, // Unused payment for the run
+};
+
+/**
+ * Records a verified payment for a run
+ * @returns false if the payment was already recorded for another run
+ */
+export async function recordReprievePayment(txHash: string, runId: string): Promise<boolean> {
+  const store = getStore();
+  const key = KEYS.payment(txHash.toLowerCase());
+
+  const claimed = await store.set(key, runId, { nx: true, ex: PAYMENT_TTL_SECONDS });
+  if (!claimed && String(await store.get(key)) !== runId) return false;
+
+  await store.set(KEYS.runPayment(runId), txHash, { ex: PAYMENT_TTL_SECONDS });
+  return true;
+}
+
+/**
+ * Uses up a run's verified payment - call with the run's session locked
+ * @returns The payment's txHash, or null if the run has none waiting
+ */
+export async function consumeReprievePayment(runId: string): Promise<string | null> {
+  const store = getStore();
+  const txHash = await store.get(KEYS.runPayment(runId));
+  if (!txHash) return null;
+
+  await store.del(KEYS.runPayment(runId));
+  return String(txHash);
+}
@@ -0,0 +1,135 @@
+/**
+ * Daily Play Streaks
+ * A player's calendar of UTC days played and the streak of consecutive days
+ * it holds. Every week of streak earns a streak freeze (up to MAX_FREEZES
+ * banked); a missed day uses one up, keeping the streak alive.
+ */
+
+import { getDailyKey } from '../game-core/daily';
+
+// Days of history kept in a calendar
+export const CALENDAR_DAYS = 90;
+
+// Streak days per freeze earned
+export const FREEZE_EARN_DAYS = 7;
+
+// Freezes a player can bank
+export const MAX_FREEZES = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PlayCalendar {
+  days: Record<string, number>; // Runs finished per UTC day (YYYY-MM-DD), the last CALENDAR_DAYS days
+  frozenDays: string[]; // Missed days a freeze covered
+  streak: number; // Streak as of lastPlayDay - frozen days keep it alive without adding to it
+  longestStreak: number;
+  freezes: number; // Banked freezes
+  lastPlayDay?: string;
+  updatedAt: number;
+}
+
+export interface PlayStreakStatus {
+  currentStreak: number; // 0 once broken
+  longestStreak: number;
+  freezes: number; // Banked freezes left once the days missed since the last play are covered
+  playedToday: boolean;
+  atRisk: boolean; // Not played today, and not playing today would end the streak
+}
+
+export interface CalendarDay {
+  day: string;
+  runs: number;
+  frozen: boolean;
+}
+
+/**
+ * Empty calendar
+ */
+export function createPlayCalendar(now: number = Date.now()): PlayCalendar {
+  return {
+    days: {},
+    frozenDays: [],
+    streak: 0,
+    longestStreak: 0,
+    freezes: 0,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Whole UTC days from one day key to another
+ */
+function getDaysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Adds a finished run to a calendar (in place)
+ * The first run of a day extends the streak - through missed days if the
+ * banked freezes cover them all, otherwise it starts over
+ */
+export function addRunToCalendar(calendar: PlayCalendar, timestamp: number): void {
+  const day = getDailyKey(timestamp);
+  calendar.days[day] = (calendar.days[day] ?? 0) + 1;
+  calendar.updatedAt = Math.max(calendar.updatedAt, timestamp);
+
+  // Later runs of a day (or runs recorded late) don't move the streak
+  if (calendar.lastPlayDay && getDaysBetween(calendar.lastPlayDay, day) <= 0) return;
+
+  const missed = calendar.lastPlayDay ? getDaysBetween(calendar.lastPlayDay, day) - 1 : Infinity;
+  if (missed <= calendar.freezes) {
+    for (let i = 1; i <= missed; i++) {
+      calendar.frozenDays.push(getDailyKey(timestamp - i * DAY_MS));
+    }
+    calendar.freezes -= missed;
+    calendar.streak++;
+  } else {
+    calendar.streak = 1;
+  }
+
+  // Every week of streak banks a freeze
+  if (calendar.streak % FREEZE_EARN_DAYS === 0) {
+    calendar.freezes = Math.min(calendar.freezes + 1, MAX_FREEZES);
+  }
+  calendar.longestStreak = Math.max(calendar.longestStreak, calendar.streak);
+  calendar.lastPlayDay = day;
+
+  const oldest = getDailyKey(timestamp - (CALENDAR_DAYS - 1) * DAY_MS);
+  for (const key of Object.keys(calendar.days)) {
+    if (key < oldest) delete calendar.days[key];
+  }
+  calendar.frozenDays = calendar.frozenDays.filter(key => key >= oldest);
+}
+
+/**
+ * Where a player's streak stands at a moment
+ * Today isn't over, so a streak last extended yesterday is still alive
+ */
+export function getPlayStreakStatus(calendar: PlayCalendar, now: number = Date.now()): PlayStreakStatus {
+  if (!calendar.lastPlayDay) {
+    return { currentStreak: 0, longestStreak: calendar.longestStreak, freezes: calendar.freezes, playedToday: false, atRisk: false };
+  }
+
+  const missed = Math.max(getDaysBetween(calendar.lastPlayDay, getDailyKey(now)) - 1, 0);
+  const alive = missed <= calendar.freezes;
+  const playedToday = calendar.lastPlayDay === getDailyKey(now);
+
+  return {
+    currentStreak: alive ? calendar.streak : 0,
+    longestStreak: calendar.longestStreak,
+    freezes: alive ? calendar.freezes - missed : calendar.freezes,
+    playedToday,
+    atRisk: alive && !playedToday && missed + 1 > calendar.freezes,
+  };
+}
+
+/**
+ * A calendar's last few days, oldest first
+ */
+export function getCalendarDays(calendar: PlayCalendar, count: number, now: number = Date.now()): CalendarDay[] {
+  const frozen = new Set(calendar.frozenDays);
+  return Array.from({ length: count }, (_, i) => {
+    const day = getDailyKey(now - (count - 1 - i) * DAY_MS);
+    return { day, runs: calendar.days[day] ?? 0, frozen: frozen.has(day) };
+  });
+}
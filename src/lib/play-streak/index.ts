@@ -0,0 +1,73 @@
+/**
+ * Daily Play Streaks
+ * Where a player's streak stands, and reminders for players about to lose one
+ */
+
+import { getUserNotificationApps, sendPlayStreakReminder } from '../notifications';
+import { getStore } from '../store';
+import { getDailyKey } from '../game-core/daily';
+import { CalendarDay, PlayStreakStatus, getCalendarDays, getPlayStreakStatus } from './calendar';
+import { getRecentPlayers, loadPlayCalendar } from './storage';
+
+// Days of calendar shown with a player's streak
+const CALENDAR_DAYS_SHOWN = 28;
+
+// Shortest streak worth a reminder
+export const MIN_REMINDER_STREAK = 2;
+
+// Redis key patterns
+const KEYS = {
+  reminded: (dayKey: string, userId: string) => `play-streak:reminded:${dayKey}:${userId}`,
+};
+
+export interface PlayStreak extends PlayStreakStatus {
+  calendar: CalendarDay[]; // Oldest first, today last
+}
+
+export interface PlayStreakReminderResult {
+  checked: number; // Recent players looked at
+  atRisk: number; // Players whose streak ends unless they play today
+  reminded: number; // Reminders delivered
+}
+
+/**
+ * A player's daily play streak and recent calendar
+ */
+export async function getPlayStreak(userId: string, now: number = Date.now()): Promise<PlayStreak> {
+  const calendar = await loadPlayCalendar(userId);
+  return {
+    ...getPlayStreakStatus(calendar, now),
+    calendar: getCalendarDays(calendar, CALENDAR_DAYS_SHOWN, now),
+  };
+}
+
+/**
+ * Reminds players who haven't played today that their streak is about to end
+ * Only Farcaster players (user ID = FID) with notifications enabled can be
+ * reached; each is reminded at most once a day
+ */
+export async function sendPlayStreakReminders(now: number = Date.now()): Promise<PlayStreakReminderResult> {
+  const store = getStore();
+  const today = getDailyKey(now);
+  const players = await getRecentPlayers(now);
+  const result: PlayStreakReminderResult = { checked: players.length, atRisk: 0, reminded: 0 };
+
+  for (const userId of players) {
+    const status = getPlayStreakStatus(await loadPlayCalendar(userId), now);
+    if (!status.atRisk || status.currentStreak < MIN_REMINDER_STREAK) continue;
+    result.atRisk++;
+
+    const fid = Number(userId);
+    if (!Number.isInteger(fid) || fid <= 0) continue;
+
+    const firstToday = await store.set(KEYS.reminded(today, userId), 1, { ex: 60 * 60 * 24 * 2, nx: true });
+    if (!firstToday) continue;
+
+    for (const appFid of await getUserNotificationApps(fid)) {
+      const sent = await sendPlayStreakReminder(fid, appFid, status.currentStreak);
+      if (sent.state === 'success') result.reminded++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,86 @@
+/**
+ * Play Streak Storage
+ * Players' calendars, updated by every run recorded through recordUserRun,
+ * and when each player last played (for streak reminders). Guests don't
+ * keep a calendar.
+ */
+
+import { getStore } from '../store';
+import { MAX_FREEZES, PlayCalendar, addRunToCalendar, createPlayCalendar } from './calendar';
+
+// Calendars of players who stop playing expire after a year
+const CALENDAR_TTL_SECONDS = 60 * 60 * 24 * 365;
+
+// Players read per page when looking for recent players
+const RECENT_PLAYERS_PAGE_SIZE = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Redis key patterns
+const KEYS = {
+  calendar: (userId: string) => `user:${userId}:calendar`,
+  lastPlayed: () => 'play-streak:last-played', // Sorted set: userId -> last run's timestamp
+};
+
+/**
+ * Loads a player's calendar
+ * @returns The calendar, or an empty one for players without any runs
+ */
+export async function loadPlayCalendar(userId: string): Promise<PlayCalendar> {
+  try {
+    const data = await getStore().get(KEYS.calendar(userId));
+    if (data) {
+      return typeof data === 'string' ? JSON.parse(data) : data as PlayCalendar;
+    }
+  } catch (error) {
+    console.error('[PlayStreak] Error loading calendar:', error);
+  }
+  return createPlayCalendar();
+}
+
+/**
+ * Adds a finished run to its player's calendar
+ */
+export async function recordPlayedRun(userId: string, timestamp: number): Promise<void> {
+  if (userId.startsWith('guest_')) return;
+  const store = getStore();
+
+  try {
+    const calendar = await loadPlayCalendar(userId);
+    addRunToCalendar(calendar, timestamp);
+    await store.set(KEYS.calendar(userId), JSON.stringify(calendar), { ex: CALENDAR_TTL_SECONDS });
+    await store.zadd(KEYS.lastPlayed(), { gt: true }, { score: timestamp, member: userId });
+  } catch (error) {
+    console.error('[PlayStreak] Error recording run:', error);
+  }
+}
+
+/**
+ * Players whose streak may still be alive - the ones who played within the
+ * days the most banked freezes can cover, most recent first
+ */
+export async function getRecentPlayers(now: number = Date.now()): Promise<string[]> {
+  const store = getStore();
+  const since = now - (MAX_FREEZES + 2) * DAY_MS;
+  const players: string[] = [];
+
+  try {
+    for (let start = 0; ; start += RECENT_PLAYERS_PAGE_SIZE) {
+      const page = await store.zrange<(string | number)[]>(
+        KEYS.lastPlayed(),
+        start,
+        start + RECENT_PLAYERS_PAGE_SIZE - 1,
+        { rev: true, withScores: true }
+      );
+
+      for (let i = 0; i < page.length; i += 2) {
+        if (Number(page[i + 1]) < since) return players;
+        players.push(String(page[i]));
+      }
+      if (page.length < RECENT_PLAYERS_PAGE_SIZE * 2) return players;
+    }
+  } catch (error) {
+    console.error('[PlayStreak] Error loading recent players:', error);
+    return players;
+  }
+}
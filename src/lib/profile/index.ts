@@ -0,0 +1,98 @@
+/**
+ * Player Profiles
+ * Everything a public profile page shows, gathered from the leaderboards,
+ * the identity resolver and the player's own statistics
+ */
+
+import { resolveIdentity, ResolvedIdentity, truncateAddress } from '../auth/identity-resolver';
+import { getTokenPool } from '../data/token-pool';
+import { DIFFICULTY_TIERS } from '../game-core/difficulty';
+import { getUserBestStreak, getUserWeeklyRank, getUserWeeklyRankHistory, getUserWeeklyStats } from '../redis';
+import { STREAK_HISTOGRAM_BUCKETS, TierName, getMostMissedTokens } from './stats';
+import { ProfileRun, loadPlayerStats, loadProfileRuns } from './storage';
+
+// Shown on the profile
+const MISSED_TOKENS_SHOWN = 5;
+const RANK_HISTORY_WEEKS = 8;
+const RECENT_RUNS_SHOWN = 20;
+
+export interface PlayerProfile {
+  userId: string;
+  identity: ResolvedIdentity;
+  bestStreak: number; // All-time best classic streak
+  weekly: {
+    bestStreak: number;
+    cumulativeScore: number;
+    runCount: number;
+    rank: number | null;
+  };
+  streakRuns: number;
+  streakHistogram: { from: number; to: number | null; runs: number }[]; // to: null for the open-ended bucket
+  tiers: { tier: TierName; guesses: number; accuracy: number | null }[];
+  mostMissed: { tokenId: string; symbol: string; logoUrl?: string; misses: number }[];
+  weeklyRanks: { weekKey: string; rank: number | null }[]; // Newest first
+  recentRuns: ProfileRun[];
+}
+
+/**
+ * Builds a player's public profile
+ * @returns The profile, or null for guests and players who haven't finished a run
+ */
+export async function getPlayerProfile(userId: string): Promise<PlayerProfile | null> {
+  if (userId.startsWith('guest_')) return null;
+
+  const [bestStreak, stats, recentRuns] = await Promise.all([
+    getUserBestStreak(userId),
+    loadPlayerStats(userId),
+    loadProfileRuns(userId, RECENT_RUNS_SHOWN),
+  ]);
+  if (bestStreak === 0 && recentRuns.length === 0) return null;
+
+  const [identity, weeklyStats, weeklyRank, weeklyRanks, pool] = await Promise.all([
+    resolveIdentity(userId).catch((): ResolvedIdentity => ({
+      address: userId,
+      displayName: truncateAddress(userId),
+      source: 'address',
+    })),
+    getUserWeeklyStats(userId),
+    getUserWeeklyRank(userId),
+    getUserWeeklyRankHistory(userId, RANK_HISTORY_WEEKS),
+    getTokenPool(),
+  ]);
+  const poolMap = new Map(pool.map(t => [t.id, t]));
+
+  return {
+    userId,
+    identity,
+    bestStreak,
+    weekly: {
+      bestStreak: weeklyStats?.bestStreak ?? 0,
+      cumulativeScore: weeklyStats?.cumulativeScore ?? 0,
+      runCount: weeklyStats?.runCount ?? 0,
+      rank: weeklyRank,
+    },
+    streakRuns: stats.streakRuns,
+    streakHistogram: STREAK_HISTOGRAM_BUCKETS.map((from, i) => ({
+      from,
+      to: i < STREAK_HISTOGRAM_BUCKETS.length - 1 ? STREAK_HISTOGRAM_BUCKETS[i + 1] - 1 : null,
+      runs: stats.streakHistogram[i] ?? 0,
+    })),
+    tiers: DIFFICULTY_TIERS.map(({ name }) => {
+      const accuracy = stats.tiers[name];
+      return {
+        tier: name,
+        guesses: accuracy?.guesses ?? 0,
+        accuracy: accuracy?.guesses ? accuracy.correct / accuracy.guesses : null,
+      };
+    }),
+    // Tokens that left the pool are shown by their ID
+    mostMissed: getMostMissedTokens(stats, MISSED_TOKENS_SHOWN).map(({ tokenId, misses }) => ({
+      tokenId,
+      symbol: poolMap.get(tokenId)?.symbol ?? tokenId,
+      logoUrl: poolMap.get(tokenId)?.logoUrl,
+      misses,
+    })),
+    weeklyRanks,
+    recentRuns,
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Player Profile Statistics
+ * What a public profile shows beyond the leaderboards: where a player's
+ * streak runs end, how they do at each difficulty tier and which tokens trip
+ * them up. Built up run by run as runs finish (see profile/storage.ts).
+ */
+
+import { DifficultyTier, getTierForStreak } from '../game-core/difficulty';
+import { isStreakRunMode } from '../game-core/streak';
+import { scoreGuess } from '../game-core/tie-policy';
+import { Token } from '../game-core/types';
+import { ServerGameState } from '../game-core/validator';
+
+// Lower bounds of the streak histogram's buckets (the last is open-ended)
+export const STREAK_HISTOGRAM_BUCKETS = [0, 1, 3, 5, 10, 15, 20, 30, 50];
+
+// Missed tokens kept per player - the least missed are dropped first
+export const MAX_MISSED_TOKENS = 100;
+
+export type TierName = DifficultyTier['name'];
+
+export interface TierAccuracy {
+  guesses: number;
+  correct: number;
+}
+
+export interface PlayerStats {
+  streakRuns: number;
+  streakHistogram: number[]; // Streak runs ending in each STREAK_HISTOGRAM_BUCKETS bucket
+  tiers: Partial<Record<TierName, TierAccuracy>>; // Market cap guesses by the tier of the streak they were made at
+  missedTokens: Record<string, number>; // Misses per hidden token
+  updatedAt: number;
+}
+
+// How much of a run its player's stats already hold - a revived run finishes twice
+export interface PlayerStatsProgress {
+  streak?: number; // Streak the histogram holds the run at
+  guesses: number;
+}
+
+/**
+ * Empty statistics
+ */
+export function createPlayerStats(now: number = Date.now()): PlayerStats {
+  return {
+    streakRuns: 0,
+    streakHistogram: STREAK_HISTOGRAM_BUCKETS.map(() => 0),
+    tiers: {},
+    missedTokens: {},
+    updatedAt: now,
+  };
+}
+
+/**
+ * Index of the histogram bucket a streak falls in
+ */
+export function getStreakBucket(streak: number): number {
+  let bucket = 0;
+  STREAK_HISTOGRAM_BUCKETS.forEach((from, i) => {
+    if (streak >= from) bucket = i;
+  });
+  return bucket;
+}
+
+/**
+ * Adds a finished run to its player's statistics (in place)
+ * @param tokens - The tokens the run was played with (its frozen pool)
+ * @param progress - What an earlier finish of the same run already added
+ * @returns What the statistics now hold of the run - pass it back if the run finishes again
+ */
+export function addRunToPlayerStats(
+  stats: PlayerStats,
+  state: ServerGameState,
+  tokens: Token[],
+  progress?: PlayerStatsProgress,
+  now: number = Date.now()
+): PlayerStatsProgress {
+  const mode = state.mode ?? 'classic';
+
+  // A revived run moves to the bucket of its final streak
+  let streak = progress?.streak;
+  if (isStreakRunMode(mode)) {
+    if (streak === undefined) {
+      stats.streakRuns++;
+    } else {
+      stats.streakHistogram[getStreakBucket(streak)]--;
+    }
+    streak = state.currentStreak;
+    stats.streakHistogram[getStreakBucket(streak)]++;
+  }
+
+  // Metric runs compare something other than market caps
+  if (!state.metric) {
+    const tokenMap = new Map(tokens.map(t => [t.id, t]));
+    let streakBefore = 0;
+
+    state.guesses.forEach((g, i) => {
+      const currentToken = tokenMap.get(g.currentTokenId);
+      const nextToken = tokenMap.get(g.nextTokenId);
+      if (!currentToken || !nextToken) return;
+
+      const { correct } = scoreGuess(currentToken, nextToken, g.guess);
+      // Survival and blitz guesses carry their streak; elsewhere every guess before was right
+      // (or forgiven by a reprieve, which keeps the streak)
+      const guessStreak = g.streak ?? streakBefore;
+      if (correct) streakBefore++;
+      if (i < (progress?.guesses ?? 0)) return;
+
+      const tier = getTierForStreak(guessStreak).name;
+      const accuracy = stats.tiers[tier] ?? (stats.tiers[tier] = { guesses: 0, correct: 0 });
+      accuracy.guesses++;
+      if (correct) {
+        accuracy.correct++;
+      } else {
+        stats.missedTokens[g.nextTokenId] = (stats.missedTokens[g.nextTokenId] ?? 0) + 1;
+      }
+    });
+  }
+
+  const missed = Object.keys(stats.missedTokens);
+  if (missed.length > MAX_MISSED_TOKENS) {
+    missed
+      .sort((a, b) => stats.missedTokens[a] - stats.missedTokens[b])
+      .slice(0, missed.length - MAX_MISSED_TOKENS)
+      .forEach(id => delete stats.missedTokens[id]);
+  }
+
+  stats.updatedAt = now;
+  return { streak, guesses: state.guesses.length };
+}
+
+/**
+ * A player's most missed tokens, most first
+ */
+export function getMostMissedTokens(stats: PlayerStats, limit: number): { tokenId: string; misses: number }[] {
+  return Object.entries(stats.missedTokens)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([tokenId, misses]) => ({ tokenId, misses }));
+}
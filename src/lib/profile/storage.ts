@@ -0,0 +1,108 @@
+/**
+ * Player Profile Storage
+ * Every finished run is added to its player's statistics and recent run
+ * history as it ends - submitted or not - for their public profile page.
+ */
+
+import { GameMode, Token } from '../game-core/types';
+import { ServerGameState } from '../game-core/validator';
+import { getStore } from '../store';
+import { PlayerStats, PlayerStatsProgress, addRunToPlayerStats, createPlayerStats } from './stats';
+
+// Recent runs kept per player
+export const MAX_PROFILE_RUNS = 50;
+
+// Profiles of players who stop playing expire after a year
+const PROFILE_TTL_SECONDS = 60 * 60 * 24 * 365;
+
+// Redis key patterns
+const KEYS = {
+  stats: (userId: string) => `user:${userId}:stats`,
+  history: (userId: string) => `user:${userId}:history`,
+};
+
+export interface ProfileRun {
+  runId: string;
+  mode: GameMode;
+  score: number; // Streak - or correct answers (survival, blitz), rounds (ranking), points (estimation)
+  usedReprieve: boolean;
+  timestamp: number;
+}
+
+/**
+ * Adds a finished run to its player's profile
+ * Guests don't have profiles
+ * @param tokens - The tokens the run was played with (its frozen pool)
+ * @param progress - What an earlier finish of the same run (before a reprieve) already added
+ * @returns What the profile now holds of the run
+ */
+export async function recordProfileRun(
+  state: ServerGameState,
+  tokens: Token[],
+  progress?: PlayerStatsProgress,
+  now: number = Date.now()
+): Promise<PlayerStatsProgress | undefined> {
+  if (state.userId.startsWith('guest_')) return progress;
+  const store = getStore();
+
+  try {
+    const stats = await loadPlayerStats(state.userId);
+    const added = addRunToPlayerStats(stats, state, tokens, progress, now);
+    await store.set(KEYS.stats(state.userId), JSON.stringify(stats), { ex: PROFILE_TTL_SECONDS });
+
+    const run: ProfileRun = {
+      runId: state.runId,
+      mode: state.mode ?? 'classic',
+      score: state.currentStreak,
+      usedReprieve: state.hasUsedReprieve,
+      timestamp: now,
+    };
+    await store.lpush(KEYS.history(state.userId), JSON.stringify(run));
+    await store.ltrim(KEYS.history(state.userId), 0, MAX_PROFILE_RUNS - 1);
+    await store.expire(KEYS.history(state.userId), PROFILE_TTL_SECONDS);
+
+    return added;
+  } catch (error) {
+    console.error('[Profile] Error recording run:', error);
+    return progress;
+  }
+}
+
+/**
+ * Loads a player's statistics
+ * @returns The statistics, or empty ones for players without any runs
+ */
+export async function loadPlayerStats(userId: string): Promise<PlayerStats> {
+  try {
+    const data = await getStore().get(KEYS.stats(userId));
+    if (data) {
+      return typeof data === 'string' ? JSON.parse(data) : data as PlayerStats;
+    }
+  } catch (error) {
+    console.error('[Profile] Error loading player stats:', error);
+  }
+  return createPlayerStats();
+}
+
+/**
+ * Loads a player's recent runs, newest first
+ * A revived run is listed once, with its final score
+ */
+export async function loadProfileRuns(userId: string, limit: number = MAX_PROFILE_RUNS): Promise<ProfileRun[]> {
+  try {
+    const entries = await getStore().lrange<string | ProfileRun>(KEYS.history(userId), 0, MAX_PROFILE_RUNS - 1);
+    const seen = new Set<string>();
+    const runs: ProfileRun[] = [];
+
+    for (const entry of entries) {
+      const run = typeof entry === 'string' ? JSON.parse(entry) as ProfileRun : entry;
+      if (seen.has(run.runId)) continue;
+      seen.add(run.runId);
+      runs.push(run);
+    }
+    return runs.slice(0, limit);
+  } catch (error) {
+    console.error('[Profile] Error loading run history:', error);
+    return [];
+  }
+}
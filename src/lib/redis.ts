@@ -1,10 +1,13 @@
 import { Redis } from '@upstash/redis';
-import { LeaderboardEntry, Run, User } from './game-core/types';
+import { LeaderboardEntry, Run, ThemeId, User } from './game-core/types';
 import { truncateAddress } from './auth/identity-resolver';
+import { getStore } from './store';
+import { getPreviousWeekKey, getWeekKey } from './leaderboard/period';
 
 /**
  * Upstash Redis integration for CapOrSlap
- * Handles leaderboard storage and user best streaks
+ * Handles the Upstash client, leaderboard storage and user best streaks
+ * (leaderboards go through getStore(), so they also work without Upstash)
  */
 
 // Initialize Redis client (lazy - only when env vars are present)
@@ -49,7 +52,7 @@ export function getRedis(): Redis | null {
   
   // Check if env vars are present
   if (!url || !token) {
-    console.warn('[Redis] Upstash Redis not configured - leaderboard disabled');
+    console.warn('[Redis] Upstash Redis not configured - using the in-memory store');
     console.warn('[Redis] Set UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN in .env');
     redisError = 'Redis environment variables not set';
     return null;
@@ -119,30 +122,32 @@ export function resetRedis(): void {
   redisError = null;
 }
 
+// Themed and survival run boards (see leaderboard/theme-boards.ts, leaderboard/survival-boards.ts)
+export type ThemeBoard = 'weekly' | 'global';
+
 // Redis key patterns
 const KEYS = {
-  weeklyLeaderboard: () => `leaderboard:weekly:${getWeekKey()}`,
+  weeklyLeaderboard: (weekKey: string = getWeekKey()) => `leaderboard:weekly:${weekKey}`,
   globalLeaderboard: () => 'leaderboard:global',
+  dailyLeaderboard: (dayKey: string) => `leaderboard:daily:${dayKey}`,
+  themeLeaderboard: (themeId: ThemeId, board: ThemeBoard) => board === 'weekly'
+    ? `leaderboard:theme:${themeId}:weekly:${getWeekKey()}`
+    : `leaderboard:theme:${themeId}:global`,
+  survivalLeaderboard: (board: ThemeBoard) => board === 'weekly'
+    ? `leaderboard:survival:weekly:${getWeekKey()}`
+    : 'leaderboard:survival:global',
+  blitzLeaderboard: () => `leaderboard:blitz:weekly:${getWeekKey()}`,
+  estimationLeaderboard: () => `leaderboard:estimation:weekly:${getWeekKey()}`,
+  seasonLeaderboard: (seasonId: string) => `leaderboard:season:${seasonId}`, // See leaderboard/seasons.ts
+  userSeasonStats: (userId: string, seasonId: string) => `user:${userId}:season:${seasonId}`,
   userBestStreak: (userId: string) => `user:${userId}:best`,
   userProfile: (userId: string) => `user:${userId}:profile`,
   runData: (runId: string) => `run:${runId}`,
   // Weekly cumulative score tracking
   weeklyCumulativeScores: () => `scores:weekly:${getWeekKey()}:cumulative`,
-  userWeeklyStats: (userId: string) => `user:${userId}:weekly:${getWeekKey()}`,
+  userWeeklyStats: (userId: string, weekKey: string = getWeekKey()) => `user:${userId}:weekly:${weekKey}`,
 };
 
-/**
- * Gets the current week key (YYYY-WW format)
- */
-function getWeekKey(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const startOfYear = new Date(year, 0, 1);
-  const days = Math.floor((now.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000));
-  const week = Math.ceil((days + startOfYear.getDay() + 1) / 7);
-  return `${year}-${week.toString().padStart(2, '0')}`;
-}
-
 /**
  * Submits a run to the leaderboard
  * @param run - Completed run data
@@ -150,8 +155,7 @@ function getWeekKey(): string {
  * @returns Whether submission was successful
  */
 export async function submitToLeaderboard(run: Run, user: User): Promise<boolean> {
-  const client = getRedis();
-  if (!client) return false;
+  const client = getStore();
   
   try {
     // Store run data
@@ -202,8 +206,7 @@ export async function submitToLeaderboard(run: Run, user: User): Promise<boolean
  * @returns Array of leaderboard entries
  */
 export async function getWeeklyLeaderboard(limit: number = 100): Promise<LeaderboardEntry[]> {
-  const client = getRedis();
-  if (!client) return [];
+  const client = getStore();
   
   try {
     // Get top scores (descending)
@@ -225,8 +228,7 @@ export async function getWeeklyLeaderboard(limit: number = 100): Promise<Leaderb
  * @returns Array of leaderboard entries
  */
 export async function getGlobalLeaderboard(limit: number = 100): Promise<LeaderboardEntry[]> {
-  const client = getRedis();
-  if (!client) return [];
+  const client = getStore();
   
   try {
     const results = await client.zrange<string[]>(KEYS.globalLeaderboard(), 0, limit - 1, {
@@ -241,14 +243,265 @@ export async function getGlobalLeaderboard(limit: number = 100): Promise<Leaderb
   }
 }
 
+/**
+ * Gets the Daily Challenge leaderboard for a day
+ * @param dayKey - Daily key (YYYY-MM-DD, UTC)
+ * @param limit - Max entries to return
+ * @returns Array of leaderboard entries
+ */
+export async function getDailyLeaderboard(dayKey: string, limit: number = 100): Promise<LeaderboardEntry[]> {
+  const client = getStore();
+  
+  try {
+    const results = await client.zrange<string[]>(KEYS.dailyLeaderboard(dayKey), 0, limit - 1, {
+      rev: true,
+      withScores: true,
+    });
+    
+    return await formatLeaderboardResults(results);
+  } catch (error) {
+    console.error('Error fetching daily leaderboard:', error);
+    return [];
+  }
+}
+
+/**
+ * Gets a user's rank in the Daily Challenge leaderboard
+ * @param userId - User ID
+ * @param dayKey - Daily key (YYYY-MM-DD, UTC)
+ * @returns Rank (1-indexed) or null if not found
+ */
+export async function getUserDailyRank(userId: string, dayKey: string): Promise<number | null> {
+  const client = getStore();
+  
+  try {
+    const rank = await client.zrevrank(KEYS.dailyLeaderboard(dayKey), userId);
+    return rank !== null ? rank + 1 : null;
+  } catch (error) {
+    console.error('Error fetching user daily rank:', error);
+    return null;
+  }
+}
+
+/**
+ * Gets a themed run leaderboard
+ * @param themeId - Theme
+ * @param board - 'weekly' (this week's best streaks) or 'global' (all-time)
+ * @param limit - Max entries to return
+ * @returns Array of leaderboard entries
+ */
+export async function getThemeLeaderboard(
+  themeId: ThemeId,
+  board: ThemeBoard,
+  limit: number = 100
+): Promise<LeaderboardEntry[]> {
+  const client = getStore();
+  
+  try {
+    const results = await client.zrange<string[]>(KEYS.themeLeaderboard(themeId, board), 0, limit - 1, {
+      rev: true,
+      withScores: true,
+    });
+    
+    return await formatLeaderboardResults(results);
+  } catch (error) {
+    console.error('Error fetching theme leaderboard:', error);
+    return [];
+  }
+}
+
+/**
+ * Gets a user's rank on a themed run leaderboard
+ * @returns Rank (1-indexed) or null if not found
+ */
+export async function getUserThemeRank(
+  userId: string,
+  themeId: ThemeId,
+  board: ThemeBoard
+): Promise<number | null> {
+  const client = getStore();
+  
+  try {
+    const rank = await client.zrevrank(KEYS.themeLeaderboard(themeId, board), userId);
+    return rank !== null ? rank + 1 : null;
+  } catch (error) {
+    console.error('Error fetching user theme rank:', error);
+    return null;
+  }
+}
+
+/**
+ * Gets the survival run leaderboard
+ * @param board - 'weekly' (this week's best scores) or 'global' (all-time)
+ * @param limit - Max entries to return
+ * @returns Array of leaderboard entries
+ */
+export async function getSurvivalLeaderboard(
+  board: ThemeBoard,
+  limit: number = 100
+): Promise<LeaderboardEntry[]> {
+  const client = getStore();
+  
+  try {
+    const results = await client.zrange<string[]>(KEYS.survivalLeaderboard(board), 0, limit - 1, {
+      rev: true,
+      withScores: true,
+    });
+    
+    return await formatLeaderboardResults(results);
+  } catch (error) {
+    console.error('Error fetching survival leaderboard:', error);
+    return [];
+  }
+}
+
+/**
+ * Gets a user's rank on the survival run leaderboard
+ * @returns Rank (1-indexed) or null if not found
+ */
+export async function getUserSurvivalRank(
+  userId: string,
+  board: ThemeBoard
+): Promise<number | null> {
+  const client = getStore();
+  
+  try {
+    const rank = await client.zrevrank(KEYS.survivalLeaderboard(board), userId);
+    return rank !== null ? rank + 1 : null;
+  } catch (error) {
+    console.error('Error fetching user survival rank:', error);
+    return null;
+  }
+}
+
+/**
+ * Gets this week's blitz run leaderboard (see leaderboard/blitz-boards.ts)
+ * @param limit - Max entries to return
+ * @returns Array of leaderboard entries
+ */
+export async function getBlitzLeaderboard(limit: number = 100): Promise<LeaderboardEntry[]> {
+  const client = getStore();
+  
+  try {
+    const results = await client.zrange<string[]>(KEYS.blitzLeaderboard(), 0, limit - 1, {
+      rev: true,
+      withScores: true,
+    });
+    
+    return await formatLeaderboardResults(results);
+  } catch (error) {
+    console.error('Error fetching blitz leaderboard:', error);
+    return [];
+  }
+}
+
+/**
+ * Gets a user's rank on this week's blitz run leaderboard
+ * @returns Rank (1-indexed) or null if not found
+ */
+export async function getUserBlitzRank(userId: string): Promise<number | null> {
+  const client = getStore();
+  
+  try {
+    const rank = await client.zrevrank(KEYS.blitzLeaderboard(), userId);
+    return rank !== null ? rank + 1 : null;
+  } catch (error) {
+    console.error('Error fetching user blitz rank:', error);
+    return null;
+  }
+}
+
+/**
+ * Gets this week's estimation run leaderboard (see leaderboard/estimation-boards.ts)
+ * @param limit - Max entries to return
+ * @returns Array of leaderboard entries
+ */
+export async function getEstimationLeaderboard(limit: number = 100): Promise<LeaderboardEntry[]> {
+  const client = getStore();
+  
+  try {
+    const results = await client.zrange<string[]>(KEYS.estimationLeaderboard(), 0, limit - 1, {
+      rev: true,
+      withScores: true,
+    });
+    
+    return await formatLeaderboardResults(results);
+  } catch (error) {
+    console.error('Error fetching estimation leaderboard:', error);
+    return [];
+  }
+}
+
+/**
+ * Gets a user's rank on this week's estimation run leaderboard
+ * @returns Rank (1-indexed) or null if not found
+ */
+export async function getUserEstimationRank(userId: string): Promise<number | null> {
+  const client = getStore();
+  
+  try {
+    const rank = await client.zrevrank(KEYS.estimationLeaderboard(), userId);
+    return rank !== null ? rank + 1 : null;
+  } catch (error) {
+    console.error('Error fetching user estimation rank:', error);
+    return null;
+  }
+}
+
+/**
+ * Gets a season's live leaderboard (season score = sum of the season's weekly scores)
+ * @param seasonId - Season ID
+ * @param limit - Max entries to return
+ * @returns Array of leaderboard entries - cumulativeScore is the season score
+ */
+export async function getSeasonLeaderboard(seasonId: string, limit: number = 100): Promise<LeaderboardEntry[]> {
+  const client = getStore();
+  
+  try {
+    const results = await client.zrange<string[]>(KEYS.seasonLeaderboard(seasonId), 0, limit - 1, {
+      rev: true,
+      withScores: true,
+    });
+    
+    const entries = await formatLeaderboardResults(results);
+    return await Promise.all(entries.map(async entry => {
+      const statsJson = await client.get(KEYS.userSeasonStats(entry.user.userId, seasonId));
+      const stats = statsJson ? (typeof statsJson === 'string' ? JSON.parse(statsJson) : statsJson) : null;
+      return {
+        ...entry,
+        cumulativeScore: entry.bestStreak,
+        bestStreak: stats?.bestStreak ?? 0,
+      };
+    }));
+  } catch (error) {
+    console.error('Error fetching season leaderboard:', error);
+    return [];
+  }
+}
+
+/**
+ * Gets a user's rank on a season's live leaderboard
+ * @returns Rank (1-indexed) or null if not found
+ */
+export async function getUserSeasonRank(userId: string, seasonId: string): Promise<number | null> {
+  const client = getStore();
+  
+  try {
+    const rank = await client.zrevrank(KEYS.seasonLeaderboard(seasonId), userId);
+    return rank !== null ? rank + 1 : null;
+  } catch (error) {
+    console.error('Error fetching user season rank:', error);
+    return null;
+  }
+}
+
 /**
  * Gets a user's rank in the weekly leaderboard
  * @param userId - User ID
  * @returns Rank (1-indexed) or null if not found
  */
 export async function getUserWeeklyRank(userId: string): Promise<number | null> {
-  const client = getRedis();
-  if (!client) return null;
+  const client = getStore();
   
   try {
     // Use zrevrank to directly look up userId (works for both JSON and plain string formats)
@@ -284,14 +537,40 @@ export async function getUserWeeklyRank(userId: string): Promise<number | null>
   }
 }
 
+/**
+ * Gets a user's final (or, this week, current) rank in recent weekly leaderboards
+ * Only weeks scored since members became plain user IDs are found
+ * @param weeks - How many weeks to look back, this one included
+ * @returns One entry per week, newest first - rank is null for weeks the user didn't place
+ */
+export async function getUserWeeklyRankHistory(
+  userId: string,
+  weeks: number = 8
+): Promise<Array<{ weekKey: string; rank: number | null }>> {
+  const client = getStore();
+  const history: Array<{ weekKey: string; rank: number | null }> = [];
+  
+  try {
+    let weekKey: string | null = getWeekKey();
+    for (let i = 0; i < weeks && weekKey; i++) {
+      const rank = await client.zrevrank(KEYS.weeklyLeaderboard(weekKey), userId);
+      history.push({ weekKey, rank: rank !== null ? rank + 1 : null });
+      weekKey = getPreviousWeekKey(weekKey);
+    }
+    return history;
+  } catch (error) {
+    console.error('Error fetching user weekly rank history:', error);
+    return history;
+  }
+}
+
 /**
  * Gets a user's best streak
  * @param userId - User ID
  * @returns Best streak or 0
  */
 export async function getUserBestStreak(userId: string): Promise<number> {
-  const client = getRedis();
-  if (!client) return 0;
+  const client = getStore();
   
   try {
     const best = await client.get<number>(KEYS.userBestStreak(userId));
@@ -309,8 +588,7 @@ export async function getUserBestStreak(userId: string): Promise<number> {
  * @returns Updated cumulative score
  */
 export async function trackWeeklyScore(userId: string, streak: number): Promise<number> {
-  const client = getRedis();
-  if (!client) return 0;
+  const client = getStore();
   
   // Reject guest users - they should not be tracked
   if (userId.startsWith('guest_')) {
@@ -372,8 +650,7 @@ export async function trackWeeklyScore(userId: string, streak: number): Promise<
  * @returns Cumulative score for current week
  */
 export async function getUserWeeklyScore(userId: string): Promise<number> {
-  const client = getRedis();
-  if (!client) return 0;
+  const client = getStore();
   
   try {
     const statsKey = KEYS.userWeeklyStats(userId);
@@ -389,6 +666,35 @@ export async function getUserWeeklyScore(userId: string): Promise<number> {
   }
 }
 
+/**
+ * Gets a user's stats for the current week
+ * @param userId - User ID
+ * @param weekKey - Week to read (defaults to the current week)
+ * @returns Cumulative score, best streak and runs that week, or null before their first run
+ */
+export async function getUserWeeklyStats(userId: string, weekKey?: string): Promise<{
+  cumulativeScore: number;
+  bestStreak: number;
+  runCount: number;
+} | null> {
+  const client = getStore();
+  
+  try {
+    const statsJson = await client.get(KEYS.userWeeklyStats(userId, weekKey));
+    if (!statsJson) return null;
+    
+    const stats = typeof statsJson === 'string' ? JSON.parse(statsJson) : statsJson;
+    return {
+      cumulativeScore: stats.cumulativeScore || 0,
+      bestStreak: stats.bestStreak || 0,
+      runCount: stats.runCount || 0,
+    };
+  } catch (error) {
+    console.error('Error fetching user weekly stats:', error);
+    return null;
+  }
+}
+
 /**
  * Gets weekly cumulative scores leaderboard
  * @param limit - Max entries to return
@@ -400,8 +706,7 @@ export async function getWeeklyCumulativeScores(limit: number = 100): Promise<Ar
   bestStreak: number;
   runCount: number;
 }>> {
-  const client = getRedis();
-  if (!client) return [];
+  const client = getStore();
   
   try {
     const scoresKey = KEYS.weeklyCumulativeScores();
@@ -452,6 +757,79 @@ export async function getWeeklyCumulativeScores(limit: number = 100): Promise<Ar
   }
 }
 
+/**
+ * Gets a user's rank by weekly cumulative score
+ * @param userId - User ID
+ * @returns Rank (1-indexed) or null if they haven't scored this week
+ */
+export async function getUserWeeklyScoreRank(userId: string): Promise<number | null> {
+  const client = getStore();
+  
+  try {
+    const rank = await client.zrevrank(KEYS.weeklyCumulativeScores(), userId);
+    return rank !== null ? rank + 1 : null;
+  } catch (error) {
+    console.error('Error fetching user weekly score rank:', error);
+    return null;
+  }
+}
+
+/**
+ * Gets a group of users' scores - weekly cumulative scores or all-time best streaks
+ * @param userIds - Users to look up
+ * @returns Users with a score, highest first
+ */
+export async function getUsersScores(
+  userIds: string[],
+  board: 'weekly' | 'global'
+): Promise<Array<{ userId: string; score: number }>> {
+  const client = getStore();
+  const key = board === 'weekly' ? KEYS.weeklyCumulativeScores() : KEYS.globalLeaderboard();
+  
+  try {
+    const scores = await Promise.all(
+      userIds.map(async userId => ({ userId, score: await client.zscore(key, userId) }))
+    );
+    return scores
+      .filter((s): s is { userId: string; score: number } => s.score !== null)
+      .map(s => ({ userId: s.userId, score: Number(s.score) }))
+      .sort((a, b) => b.score - a.score);
+  } catch (error) {
+    console.error('Error fetching users scores:', error);
+    return [];
+  }
+}
+
+/**
+ * Gets a leaderboard of a group of users (e.g. a player and their friends)
+ * @param userIds - Users to rank
+ * @param board - 'weekly' ranks by cumulative score this week, 'global' by all-time best streak
+ * @returns Array of leaderboard entries, users without a score left out
+ */
+export async function getGroupLeaderboard(
+  userIds: string[],
+  board: 'weekly' | 'global'
+): Promise<LeaderboardEntry[]> {
+  try {
+    const scores = await getUsersScores(userIds, board);
+    const entries = await formatLeaderboardResults(scores.flatMap(s => [s.userId, String(s.score)]));
+    if (board === 'global') return entries;
+    
+    // Weekly: the score is the week's cumulative score - best streak comes from the week's stats
+    return await Promise.all(entries.map(async entry => {
+      const stats = await getUserWeeklyStats(entry.user.userId);
+      return {
+        ...entry,
+        cumulativeScore: entry.bestStreak,
+        bestStreak: stats?.bestStreak ?? 0,
+      };
+    }));
+  } catch (error) {
+    console.error('Error fetching group leaderboard:', error);
+    return [];
+  }
+}
+
 /**
  * Formats raw Redis results into LeaderboardEntry array
  * 
@@ -462,8 +840,8 @@ export async function getWeeklyCumulativeScores(limit: number = 100): Promise<Ar
  * - For FIDs (numeric), resolves to Farcaster usernames
  */
 async function formatLeaderboardResults(results: string[]): Promise<LeaderboardEntry[]> {
-  const client = getRedis();
-  if (!client || results.length === 0) return [];
+  const client = getStore();
+  if (results.length === 0) return [];
   
   const entries: LeaderboardEntry[] = [];
   
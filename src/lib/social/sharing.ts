@@ -1,6 +1,7 @@
 'use client';
 
-import { Run, ShareData, GuessResult } from '../game-core/types';
+import { Run, ShareData, GuessResult, ChallengeInfo } from '../game-core/types';
+import { getChallengeOutcome } from '../game-core/challenge';
 import { detectEnvironment } from '../environment';
 
 /**
@@ -80,7 +81,8 @@ export function generateShareData(run: Run, customMessage?: string): ShareData {
     message = defaultMessages[Math.floor(Math.random() * defaultMessages.length)];
   }
   
-  const challengeUrl = `${APP_URL}?challenge=${run.runId}`;
+  // A replayed run passes the original challenge along
+  const challengeUrl = `${APP_URL}?challenge=${run.challengeRunId ?? run.runId}`;
   
   return {
     streak: run.streak,
@@ -268,7 +270,8 @@ export function generateWinShareData(
     message = message.replace(/Rank #\[RANK\] /g, '');
   }
   
-  const challengeUrl = `${APP_URL}?challenge=${run.runId}`;
+  // A replayed run passes the original challenge along
+  const challengeUrl = `${APP_URL}?challenge=${run.challengeRunId ?? run.runId}`;
   
   return {
     streak: run.streak,
@@ -279,6 +282,32 @@ export function generateWinShareData(
   };
 }
 
+/**
+ * Generates share data for a finished challenge replay
+ * The link points at the original run, so the next player gets the same sequence
+ * @param run - The finished replay run
+ * @param challenge - The challenge that was replayed
+ * @returns ShareData object
+ */
+export function generateChallengeResultShareData(run: Run, challenge: ChallengeInfo): ShareData {
+  const name = challenge.challenger.displayName;
+  const outcome = getChallengeOutcome(run.streak, challenge.challengerStreak);
+  
+  const message = outcome === 'win'
+    ? `I beat ${name}'s ${challenge.challengerStreak} streak on CapOrSlap with ${run.streak} 👑`
+    : outcome === 'tie'
+      ? `Tied ${name} at ${run.streak} on CapOrSlap 🤝`
+      : `${name} got me on CapOrSlap: ${run.streak} vs ${challenge.challengerStreak} 💀`;
+  
+  return {
+    streak: run.streak,
+    runId: run.runId,
+    userId: run.userId,
+    message,
+    url: `${APP_URL}?challenge=${challenge.runId}`,
+  };
+}
+
 /**
  * Generates leaderboard share text
  * @param rank - User's rank
@@ -0,0 +1,55 @@
+/**
+ * Game Store
+ * Upstash when it's configured, the in-memory store otherwise
+ * (or when GAME_STORE=memory), so everything works without a network
+ */
+
+import { getRedis } from '../redis';
+import { createUpstashStore } from './upstash';
+import { createMemoryStore } from './memory';
+import { GameStore } from './types';
+
+export * from './types';
+export { createMemoryStore } from './memory';
+export { createUpstashStore } from './upstash';
+
+let store: GameStore | null = null;
+
+// Survives dev server hot reloads, which re-evaluate this module
+const globalForStore = globalThis as typeof globalThis & { capOrSlapMemoryStore?: GameStore };
+
+function getMemoryStore(): GameStore {
+  if (!globalForStore.capOrSlapMemoryStore) {
+    globalForStore.capOrSlapMemoryStore = createMemoryStore();
+  }
+  return globalForStore.capOrSlapMemoryStore;
+}
+
+/**
+ * Gets the app's store
+ * Never null - without Upstash, data lives in this process until it restarts
+ */
+export function getStore(): GameStore {
+  if (store) return store;
+
+  const redis = process.env.GAME_STORE === 'memory' ? null : getRedis();
+  if (redis) {
+    store = createUpstashStore(redis);
+  } else {
+    if (process.env.NODE_ENV === 'production' && process.env.GAME_STORE !== 'memory') {
+      console.error('[Store] Upstash not available - using the in-memory store (data is per instance)');
+    } else {
+      console.log('[Store] Using the in-memory store');
+    }
+    store = getMemoryStore();
+  }
+
+  return store;
+}
+
+/**
+ * Swaps the app's store (tests and scripts), or resets to auto-detection with null
+ */
+export function setStore(next: GameStore | null): void {
+  store = next;
+}
@@ -0,0 +1,40 @@
+/**
+ * Store Locks
+ * A short nx lock around read-modify-write updates, so two requests for
+ * the same record can't both pass its checks or overwrite each other.
+ * Each holder sets its own token and only releases the lock while it still
+ * holds that token - an update that outlives the TTL can't release a lock
+ * someone else has taken since.
+ */
+
+import { randomUUID } from 'crypto';
+import { getStore } from './index';
+
+const LOCK_TTL_SECONDS = 5;
+const LOCK_RETRIES = 40;
+const LOCK_RETRY_MS = 50;
+
+/**
+ * Runs an update holding a lock
+ * @param lockKey - Key the lock is held on (e.g. `duel:<id>:lock`)
+ * @returns The update's result, or null if the lock couldn't be taken in time
+ */
+export async function withLock<T>(lockKey: string, update: () => Promise<T>): Promise<T | null> {
+  const store = getStore();
+  const token = randomUUID();
+
+  for (let attempt = 0; attempt < LOCK_RETRIES; attempt++) {
+    const acquired = await store.set(lockKey, token, { nx: true, ex: LOCK_TTL_SECONDS });
+    if (acquired) {
+      try {
+        return await update();
+      } finally {
+        await store.delIfEquals(lockKey, token);
+      }
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+
+  console.error(`[Store] Timed out waiting for lock ${lockKey}`);
+  return null;
+}
@@ -0,0 +1,316 @@
+/**
+ * In-Memory Game Store
+ * Full GameStore behavior inside the current process - for local play and
+ * scripts without Upstash. Nothing is shared between instances or restarts.
+ */
+
+import { GameStore, ScoreBound, ScoreMember, SetOptions, ZAddOptions, ZRangeOptions } from './types';
+
+type StoreEntry =
+  | { type: 'string'; value: string; expiresAt?: number }
+  | { type: 'zset'; value: Map<string, number>; expiresAt?: number }
+  | { type: 'set'; value: Set<string>; expiresAt?: number }
+  | { type: 'hash'; value: Map<string, string>; expiresAt?: number }
+  | { type: 'list'; value: string[]; expiresAt?: number };
+
+/**
+ * Serializes a value the way Upstash does (strings as-is, everything else as JSON)
+ */
+function serialize(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Reads a stored value back the way Upstash does (JSON-parsed where possible)
+ */
+function deserialize<T>(raw: string): T {
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return raw as T;
+  }
+}
+
+/**
+ * Resolves Redis-style inclusive (and negative) indices to a slice
+ */
+function toSlice(length: number, start: number, stop: number): [number, number] {
+  const from = Math.max(start < 0 ? length + start : start, 0);
+  const to = Math.min(stop < 0 ? length + stop : stop, length - 1);
+  return [from, to + 1];
+}
+
+function toScore(bound: ScoreBound): number {
+  if (bound === '-inf') return -Infinity;
+  if (bound === '+inf') return Infinity;
+  return bound;
+}
+
+/**
+ * Creates an empty in-memory store
+ */
+export function createMemoryStore(): GameStore {
+  const entries = new Map<string, StoreEntry>();
+
+  // Expired keys are dropped lazily, on access
+  function read<K extends StoreEntry['type']>(
+    key: string,
+    type: K
+  ): Extract<StoreEntry, { type: K }> | null {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+    if (entry.type !== type) {
+      throw new Error('WRONGTYPE Operation against a key holding the wrong kind of value');
+    }
+    return entry as Extract<StoreEntry, { type: K }>;
+  }
+
+  function exists(key: string): boolean {
+    const entry = entries.get(key);
+    if (!entry) return false;
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return false;
+    }
+    return true;
+  }
+
+  function incrBy(key: string, amount: number): number {
+    const entry = read(key, 'string');
+    const current = entry ? Number(entry.value) : 0;
+    if (!Number.isInteger(current)) {
+      throw new Error('ERR value is not an integer or out of range');
+    }
+    const next = current + amount;
+    // INCR keeps the key's TTL
+    entries.set(key, { type: 'string', value: String(next), expiresAt: entry?.expiresAt });
+    return next;
+  }
+
+  // Members ordered by score, then member - the same order Redis uses
+  function sortedMembers(key: string, rev: boolean): [string, number][] {
+    const entry = read(key, 'zset');
+    if (!entry) return [];
+    const sorted = Array.from(entry.value.entries()).sort(([memberA, scoreA], [memberB, scoreB]) =>
+      scoreA !== scoreB ? scoreA - scoreB : memberA < memberB ? -1 : memberA > memberB ? 1 : 0
+    );
+    return rev ? sorted.reverse() : sorted;
+  }
+
+  return {
+    backend: 'memory',
+
+    async get<T = unknown>(key: string): Promise<T | null> {
+      const entry = read(key, 'string');
+      return entry ? deserialize<T>(entry.value) : null;
+    },
+
+    async set(key: string, value: unknown, options?: SetOptions): Promise<'OK' | null> {
+      if (options?.nx && exists(key)) return null;
+      entries.set(key, {
+        type: 'string',
+        value: serialize(value),
+        // A plain SET clears any previous TTL
+        expiresAt: options?.ex !== undefined ? Date.now() + options.ex * 1000 : undefined,
+      });
+      return 'OK';
+    },
+
+    async del(...keys: string[]): Promise<number> {
+      let deleted = 0;
+      for (const key of keys) {
+        if (exists(key)) {
+          entries.delete(key);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+
+    async delIfEquals(key: string, value: string): Promise<number> {
+      const entry = read(key, 'string');
+      if (!entry || entry.value !== value) return 0;
+      entries.delete(key);
+      return 1;
+    },
+
+    async expire(key: string, seconds: number): Promise<number> {
+      if (!exists(key)) return 0;
+      entries.get(key)!.expiresAt = Date.now() + seconds * 1000;
+      return 1;
+    },
+
+    async incr(key: string): Promise<number> {
+      return incrBy(key, 1);
+    },
+
+    async decr(key: string): Promise<number> {
+      return incrBy(key, -1);
+    },
+
+    zadd: (async (key: string, first: ScoreMember | ZAddOptions, ...rest: ScoreMember[]) => {
+      const options: ZAddOptions = 'member' in first ? {} : first;
+      const toAdd = 'member' in first ? [first, ...rest] : rest;
+
+      let entry = read(key, 'zset');
+      if (!entry) {
+        entry = { type: 'zset', value: new Map() };
+        entries.set(key, entry);
+      }
+
+      let added = 0;
+      for (const { score, member } of toAdd) {
+        const existing = entry.value.get(member);
+        if (existing === undefined) {
+          entry.value.set(member, score);
+          added++;
+        } else if (!options.nx && (!options.gt || score > existing)) {
+          entry.value.set(member, score);
+        }
+      }
+      return added;
+    }) as GameStore['zadd'],
+
+    async zrem(key: string, ...members: string[]): Promise<number> {
+      const entry = read(key, 'zset');
+      if (!entry) return 0;
+      let removed = 0;
+      for (const member of members) {
+        if (entry.value.delete(member)) removed++;
+      }
+      return removed;
+    },
+
+    async zscore(key: string, member: string): Promise<number | null> {
+      return read(key, 'zset')?.value.get(member) ?? null;
+    },
+
+    async zrevrank(key: string, member: string): Promise<number | null> {
+      const index = sortedMembers(key, true).findIndex(([m]) => m === member);
+      return index >= 0 ? index : null;
+    },
+
+    async zcard(key: string): Promise<number> {
+      return read(key, 'zset')?.value.size ?? 0;
+    },
+
+    async zcount(key: string, min: ScoreBound, max: ScoreBound): Promise<number> {
+      const entry = read(key, 'zset');
+      if (!entry) return 0;
+      const [low, high] = [toScore(min), toScore(max)];
+      let count = 0;
+      for (const score of entry.value.values()) {
+        if (score >= low && score <= high) count++;
+      }
+      return count;
+    },
+
+    async zrange<T extends unknown[] = string[]>(
+      key: string,
+      start: number,
+      stop: number,
+      options?: ZRangeOptions
+    ): Promise<T> {
+      const sorted = sortedMembers(key, options?.rev ?? false);
+      const [from, to] = toSlice(sorted.length, start, stop);
+      const range = sorted.slice(from, to);
+      const flat = options?.withScores
+        ? range.flatMap(([member, score]) => [member, String(score)])
+        : range.map(([member]) => member);
+      return flat.map(item => deserialize(item)) as T;
+    },
+
+    async sadd(key: string, ...members: string[]): Promise<number> {
+      let entry = read(key, 'set');
+      if (!entry) {
+        entry = { type: 'set', value: new Set() };
+        entries.set(key, entry);
+      }
+      let added = 0;
+      for (const member of members) {
+        if (!entry.value.has(member)) {
+          entry.value.add(member);
+          added++;
+        }
+      }
+      return added;
+    },
+
+    async srem(key: string, ...members: string[]): Promise<number> {
+      const entry = read(key, 'set');
+      if (!entry) return 0;
+      let removed = 0;
+      for (const member of members) {
+        if (entry.value.delete(member)) removed++;
+      }
+      return removed;
+    },
+
+    async hset(key: string, fields: Record<string, unknown>): Promise<number> {
+      let entry = read(key, 'hash');
+      if (!entry) {
+        entry = { type: 'hash', value: new Map() };
+        entries.set(key, entry);
+      }
+      let added = 0;
+      for (const [field, value] of Object.entries(fields)) {
+        if (!entry.value.has(field)) added++;
+        entry.value.set(field, serialize(value));
+      }
+      return added;
+    },
+
+    async hmget<T = unknown>(key: string, ...fields: string[]): Promise<(T | null)[]> {
+      const entry = read(key, 'hash');
+      return fields.map(field => {
+        const raw = entry?.value.get(field);
+        return raw === undefined ? null : deserialize<T>(raw);
+      });
+    },
+
+    async hdel(key: string, ...fields: string[]): Promise<number> {
+      const entry = read(key, 'hash');
+      if (!entry) return 0;
+      let removed = 0;
+      for (const field of fields) {
+        if (entry.value.delete(field)) removed++;
+      }
+      return removed;
+    },
+
+    async lpush(key: string, ...elements: string[]): Promise<number> {
+      let entry = read(key, 'list');
+      if (!entry) {
+        entry = { type: 'list', value: [] };
+        entries.set(key, entry);
+      }
+      // Each element goes to the head in turn, so the last one ends up first
+      entry.value.unshift(...elements.map(serialize).reverse());
+      return entry.value.length;
+    },
+
+    async ltrim(key: string, start: number, stop: number): Promise<'OK'> {
+      const entry = read(key, 'list');
+      if (entry) {
+        const [from, to] = toSlice(entry.value.length, start, stop);
+        entry.value = entry.value.slice(from, to);
+      }
+      return 'OK';
+    },
+
+    async lrange<T = string>(key: string, start: number, stop: number): Promise<T[]> {
+      const entry = read(key, 'list');
+      if (!entry) return [];
+      const [from, to] = toSlice(entry.value.length, start, stop);
+      return entry.value.slice(from, to).map(item => deserialize<T>(item));
+    },
+
+    async ping(): Promise<string> {
+      return 'PONG';
+    },
+  };
+}
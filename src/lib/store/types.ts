@@ -0,0 +1,84 @@
+/**
+ * Game Store Types
+ * The storage operations the app relies on (key/value, TTLs, counters,
+ * sorted sets, sets, hashes and lists), independent of the backend behind them
+ */
+
+export type StoreBackend = 'upstash' | 'memory';
+
+export interface SetOptions {
+  ex?: number; // Expire after this many seconds
+  nx?: boolean; // Only set if the key doesn't exist yet
+}
+
+export interface ZAddOptions {
+  gt?: boolean; // Only update existing members when the new score is greater
+  nx?: boolean; // Only add new members, never update existing ones
+}
+
+export interface ScoreMember {
+  score: number;
+  member: string;
+}
+
+export interface ZRangeOptions {
+  rev?: boolean; // Highest score first
+  withScores?: boolean; // Results alternate [member, score, member, score, ...]
+}
+
+// Sorted set score bound (inclusive), or an open end
+export type ScoreBound = number | '-inf' | '+inf';
+
+/**
+ * Storage backend for leaderboards, game state and everything else the server keeps
+ *
+ * Values are serialized on write (strings as-is, everything else as JSON) and
+ * read back JSON-parsed where possible - the same round trip as Upstash.
+ * Callers should keep handling both string and parsed results.
+ */
+export interface GameStore {
+  readonly backend: StoreBackend;
+
+  // Key/value
+  get<T = unknown>(key: string): Promise<T | null>;
+  set(key: string, value: unknown, options?: SetOptions): Promise<'OK' | null>; // null when nx blocked it
+  del(...keys: string[]): Promise<number>;
+  delIfEquals(key: string, value: string): Promise<number>; // 1 if the key still held value and was deleted
+  expire(key: string, seconds: number): Promise<number>; // 1 if the key exists
+
+  // Counters
+  incr(key: string): Promise<number>;
+  decr(key: string): Promise<number>;
+
+  // Sorted sets
+  zadd(key: string, entry: ScoreMember, ...entries: ScoreMember[]): Promise<number | null>;
+  zadd(key: string, options: ZAddOptions, entry: ScoreMember, ...entries: ScoreMember[]): Promise<number | null>;
+  zrem(key: string, ...members: string[]): Promise<number>;
+  zscore(key: string, member: string): Promise<number | null>;
+  zrevrank(key: string, member: string): Promise<number | null>;
+  zcard(key: string): Promise<number>;
+  zcount(key: string, min: ScoreBound, max: ScoreBound): Promise<number>;
+  zrange<T extends unknown[] = string[]>(
+    key: string,
+    start: number,
+    stop: number,
+    options?: ZRangeOptions
+  ): Promise<T>;
+
+  // Sets
+  sadd(key: string, ...members: string[]): Promise<number>;
+  srem(key: string, ...members: string[]): Promise<number>;
+
+  // Hashes
+  hset(key: string, fields: Record<string, unknown>): Promise<number>; // Fields newly added
+  hmget<T = unknown>(key: string, ...fields: string[]): Promise<(T | null)[]>; // In the order asked for
+  hdel(key: string, ...fields: string[]): Promise<number>;
+
+  // Lists
+  lpush(key: string, ...elements: string[]): Promise<number>;
+  ltrim(key: string, start: number, stop: number): Promise<'OK'>;
+  lrange<T = string>(key: string, start: number, stop: number): Promise<T[]>;
+
+  // Connectivity
+  ping(): Promise<string>;
+}
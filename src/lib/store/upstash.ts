@@ -0,0 +1,80 @@
+/**
+ * Upstash Game Store
+ * Thin pass-through to the Upstash REST client
+ */
+
+import { Redis, SetCommandOptions, ZAddCommandOptions } from '@upstash/redis';
+import { GameStore, ScoreBound, ScoreMember, SetOptions, ZAddOptions, ZRangeOptions } from './types';
+
+// Compares and deletes in one step, so nothing can be written in between
+const DEL_IF_EQUALS_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Wraps an Upstash client as a GameStore
+ */
+export function createUpstashStore(redis: Redis): GameStore {
+  return {
+    backend: 'upstash',
+
+    get: <T>(key: string) => redis.get<T>(key),
+
+    set: async (key: string, value: unknown, options?: SetOptions) => {
+      const result = options
+        ? await redis.set(key, value, options as SetCommandOptions)
+        : await redis.set(key, value);
+      return result === null ? null : 'OK';
+    },
+
+    del: (...keys: string[]) => redis.del(...keys),
+    delIfEquals: async (key: string, value: string) =>
+      Number(await redis.eval(DEL_IF_EQUALS_SCRIPT, [key], [value])),
+    expire: (key: string, seconds: number) => redis.expire(key, seconds),
+    incr: (key: string) => redis.incr(key),
+    decr: (key: string) => redis.decr(key),
+
+    // Both overloads - the first argument is either an entry or the options
+    zadd: ((key: string, first: ScoreMember | ZAddOptions, ...rest: ScoreMember[]) => {
+      if ('member' in first) {
+        return redis.zadd(key, first, ...rest);
+      }
+      const [entry, ...entries] = rest;
+      return redis.zadd(key, first as ZAddCommandOptions, entry, ...entries);
+    }) as GameStore['zadd'],
+
+    zrem: (key: string, ...members: string[]) => {
+      const [member, ...more] = members;
+      return redis.zrem(key, member, ...more);
+    },
+    zscore: (key: string, member: string) => redis.zscore(key, member),
+    zrevrank: (key: string, member: string) => redis.zrevrank(key, member),
+    zcard: (key: string) => redis.zcard(key),
+    zcount: (key: string, min: ScoreBound, max: ScoreBound) => redis.zcount(key, min, max),
+    zrange: <T extends unknown[]>(key: string, start: number, stop: number, options?: ZRangeOptions) =>
+      redis.zrange<T>(key, start, stop, options),
+
+    sadd: (key: string, ...members: string[]) => {
+      const [member, ...more] = members;
+      return redis.sadd(key, member, ...more);
+    },
+    srem: (key: string, ...members: string[]) => redis.srem(key, ...members),
+
+    hset: (key: string, fields: Record<string, unknown>) => redis.hset(key, fields),
+    // Upstash answers with an object keyed by field (null when none exist)
+    hmget: async <T>(key: string, ...fields: string[]) => {
+      const values = await redis.hmget<Record<string, T | null>>(key, ...fields);
+      return fields.map(field => values?.[field] ?? null);
+    },
+    hdel: (key: string, ...fields: string[]) => redis.hdel(key, ...fields),
+
+    lpush: (key: string, ...elements: string[]) => redis.lpush(key, ...elements),
+    ltrim: (key: string, start: number, stop: number) => redis.ltrim(key, start, stop),
+    lrange: <T>(key: string, start: number, stop: number) => redis.lrange<T>(key, start, stop),
+
+    ping: () => redis.ping(),
+  };
+}
@@ -0,0 +1,307 @@
+/**
+ * Teams
+ * Players create a team or join one through its invite link. A team's
+ * weekly score sums its best members' weekly scores (see ./score) and ranks
+ * it on the weekly team board; team prizes are split between the members
+ * whose scores counted.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { resolveIdentity } from '../auth/identity-resolver';
+import { generateInviteCode, normalizeInviteCode } from '../invite-code';
+import { getUserWeeklyStats } from '../redis';
+import { calculatePrizeDistribution } from '../leaderboard/prizepool';
+import { withLock } from '../store/lock';
+import { TeamMemberScore, calculateTeamScore, splitTeamPrize } from './score';
+import {
+  Team,
+  deleteTeam,
+  getTeamLockKey,
+  getTeamWeeklyRank,
+  getTeamWeeklyScores,
+  getUserTeamId,
+  getUserTeamLockKey,
+  loadTeam,
+  saveTeam,
+  setTeamWeeklyScore,
+  setUserTeamId,
+} from './storage';
+
+export type { Team } from './storage';
+export { TEAM_SCORE_TOP_N } from './score';
+
+// Players a team can hold
+export const MAX_TEAM_MEMBERS = 10;
+
+export const TEAM_NAME_MIN_LENGTH = 3;
+export const TEAM_NAME_MAX_LENGTH = 24;
+
+const INVITE_CODE_LENGTH = 8;
+
+const LOCK_TIMEOUT_ERROR = { success: false as const, error: 'Team is busy, try again', status: 503 };
+
+export type TeamResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string; status: number };
+
+export interface TeamMember extends TeamMemberScore {
+  displayName: string;
+  avatarUrl?: string;
+}
+
+export interface TeamStandings {
+  teamId: string;
+  name: string;
+  captainId: string;
+  score: number; // This week's team score
+  rank: number | null; // On this week's team board
+  members: TeamMember[]; // Highest weekly score first
+  inviteCode?: string; // Members only
+}
+
+export interface TeamLeaderboardEntry {
+  rank: number;
+  teamId: string;
+  name: string;
+  memberCount: number;
+  score: number;
+}
+
+export interface TeamPrize {
+  teamId: string;
+  rank: number;
+  prize: number; // Team's share of the pool
+  members: Array<{ userId: string; prize: number }>;
+}
+
+/**
+ * Scores a team's members' weeks
+ * @param weekKey - Week to score (defaults to the current week)
+ */
+async function scoreTeam(team: Team, weekKey?: string) {
+  const weeks = await Promise.all(team.members.map(async userId => {
+    const stats = await getUserWeeklyStats(userId, weekKey);
+    return { userId, bestStreak: stats?.bestStreak ?? 0, attempts: stats?.runCount ?? 0 };
+  }));
+  return calculateTeamScore(weeks);
+}
+
+/**
+ * Recomputes a team's score on this week's board
+ * @returns The team's score
+ */
+export async function updateTeamWeeklyScore(team: Team): Promise<number> {
+  const { score } = await scoreTeam(team);
+  await setTeamWeeklyScore(team.teamId, score);
+  return score;
+}
+
+/**
+ * Updates the board for a player's team after they submit a run
+ */
+export async function recordTeamMemberRun(userId: string): Promise<void> {
+  const teamId = await getUserTeamId(userId);
+  if (!teamId) return;
+
+  const team = await loadTeam(teamId);
+  if (team) await updateTeamWeeklyScore(team);
+}
+
+/**
+ * Creates a team captained by its creator
+ */
+export async function createTeam(userId: string, name: string): Promise<TeamResult<{ team: Team }>> {
+  if (userId.startsWith('guest_')) {
+    return { success: false, error: 'Guests cannot create teams', status: 403 };
+  }
+
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  if (trimmed.length < TEAM_NAME_MIN_LENGTH || trimmed.length > TEAM_NAME_MAX_LENGTH) {
+    return {
+      success: false,
+      error: `Team names are ${TEAM_NAME_MIN_LENGTH}-${TEAM_NAME_MAX_LENGTH} characters`,
+      status: 400,
+    };
+  }
+
+  // Held until the player points at the new team - a join meanwhile would put them in two
+  const result = await withLock(getUserTeamLockKey(userId), async (): Promise<TeamResult<{ team: Team }>> => {
+    if (await getUserTeamId(userId)) {
+      return { success: false, error: 'Leave your team before creating another', status: 409 };
+    }
+
+    const team: Team = {
+      teamId: uuidv4(),
+      name: trimmed,
+      captainId: userId,
+      members: [userId],
+      inviteCode: generateInviteCode(INVITE_CODE_LENGTH),
+      createdAt: Date.now(),
+    };
+
+    await saveTeam(team);
+    await setUserTeamId(userId, team.teamId);
+    await updateTeamWeeklyScore(team);
+    return { success: true, team };
+  });
+
+  return result ?? LOCK_TIMEOUT_ERROR;
+}
+
+/**
+ * Joins a team with the invite code from its link
+ */
+export async function joinTeam(
+  userId: string,
+  teamId: string,
+  inviteCode: string
+): Promise<TeamResult<{ team: Team }>> {
+  if (userId.startsWith('guest_')) {
+    return { success: false, error: 'Guests cannot join teams', status: 403 };
+  }
+
+  // The player's lock, then the team's - the player's team is checked and set in one go
+  const result = await withLock(getUserTeamLockKey(userId), async (): Promise<TeamResult<{ team: Team }>> => {
+    const currentTeamId = await getUserTeamId(userId);
+    if (currentTeamId && currentTeamId !== teamId) {
+      return { success: false, error: 'Leave your team before joining another', status: 409 };
+    }
+
+    const joined = await withLock(getTeamLockKey(teamId), async (): Promise<TeamResult<{ team: Team }>> => {
+      const team = await loadTeam(teamId);
+      if (!team) {
+        return { success: false, error: 'Team not found', status: 404 };
+      }
+      if (team.members.includes(userId)) {
+        return { success: true, team };
+      }
+      if (normalizeInviteCode(inviteCode) !== team.inviteCode) {
+        return { success: false, error: 'Invalid invite link', status: 403 };
+      }
+      if (team.members.length >= MAX_TEAM_MEMBERS) {
+        return { success: false, error: 'Team is full', status: 409 };
+      }
+
+      team.members.push(userId);
+      await saveTeam(team);
+      await setUserTeamId(userId, team.teamId);
+      await updateTeamWeeklyScore(team);
+      return { success: true, team };
+    });
+    return joined ?? LOCK_TIMEOUT_ERROR;
+  });
+
+  return result ?? LOCK_TIMEOUT_ERROR;
+}
+
+/**
+ * Leaves a team - the next member in join order takes over as captain, and
+ * the last member out disbands it
+ * @returns The team as left behind, or null once disbanded
+ */
+export async function leaveTeam(
+  userId: string,
+  teamId: string
+): Promise<TeamResult<{ team: Team | null }>> {
+  // Same lock order as joinTeam - the player's lock, then the team's
+  const result = await withLock(getUserTeamLockKey(userId), async (): Promise<TeamResult<{ team: Team | null }>> => {
+    const left = await withLock(getTeamLockKey(teamId), async (): Promise<TeamResult<{ team: Team | null }>> => {
+      const team = await loadTeam(teamId);
+      if (!team || !team.members.includes(userId)) {
+        return { success: false, error: 'Not a member of this team', status: 404 };
+      }
+
+      team.members = team.members.filter(id => id !== userId);
+      await setUserTeamId(userId, null);
+
+      if (team.members.length === 0) {
+        await deleteTeam(teamId);
+        return { success: true, team: null };
+      }
+
+      if (team.captainId === userId) {
+        team.captainId = team.members[0];
+      }
+      await saveTeam(team);
+      await updateTeamWeeklyScore(team);
+      return { success: true, team };
+    });
+    return left ?? LOCK_TIMEOUT_ERROR;
+  });
+
+  return result ?? LOCK_TIMEOUT_ERROR;
+}
+
+/**
+ * A team's week - score, rank and every member's contribution
+ * @param viewerId - Members also see the invite code
+ * @returns null if the team doesn't exist
+ */
+export async function getTeamStandings(teamId: string, viewerId?: string | null): Promise<TeamStandings | null> {
+  const team = await loadTeam(teamId);
+  if (!team) return null;
+
+  const { score, members } = await scoreTeam(team);
+  const identities = await Promise.all(members.map(m => resolveIdentity(m.userId).catch(() => null)));
+
+  return {
+    teamId: team.teamId,
+    name: team.name,
+    captainId: team.captainId,
+    score,
+    rank: await getTeamWeeklyRank(team.teamId),
+    members: members.map((member, i) => ({
+      ...member,
+      displayName: identities[i]?.displayName || member.userId,
+      avatarUrl: identities[i]?.avatarUrl,
+    })),
+    ...(viewerId && team.members.includes(viewerId) && { inviteCode: team.inviteCode }),
+  };
+}
+
+/**
+ * The player's team, if they're in one
+ */
+export async function getUserTeamStandings(userId: string): Promise<TeamStandings | null> {
+  const teamId = await getUserTeamId(userId);
+  return teamId ? getTeamStandings(teamId, userId) : null;
+}
+
+/**
+ * This week's team board
+ */
+export async function getTeamLeaderboard(limit: number = 100): Promise<TeamLeaderboardEntry[]> {
+  const scores = await getTeamWeeklyScores(limit);
+  const teams = await Promise.all(scores.map(s => loadTeam(s.teamId)));
+
+  return scores.flatMap((s, i) => {
+    const team = teams[i];
+    return team
+      ? [{ rank: i + 1, teamId: team.teamId, name: team.name, memberCount: team.members.length, score: s.score }]
+      : [];
+  });
+}
+
+/**
+ * Splits a team prize pool - teams are paid by rank through the weekly
+ * prize distribution, then each team's prize is split between its counted
+ * members
+ * @param weekKey - Week being paid out (defaults to the current week)
+ */
+export async function calculateTeamPrizeDistribution(prizeAmount: number, weekKey?: string): Promise<TeamPrize[]> {
+  const scores = await getTeamWeeklyScores(50, weekKey);
+  const distribution = calculatePrizeDistribution(
+    scores.map(s => ({ userId: s.teamId, score: s.score })),
+    prizeAmount
+  );
+
+  const prizes: TeamPrize[] = [];
+  for (const { userId: teamId, prize, rank } of distribution) {
+    const team = await loadTeam(teamId);
+    if (!team) continue;
+
+    const { members } = await scoreTeam(team, weekKey);
+    prizes.push({ teamId, rank, prize, members: splitTeamPrize(prize, members) });
+  }
+  return prizes;
+}
@@ -0,0 +1,58 @@
+/**
+ * Team Scores
+ * A team's weekly score is the sum of its best TEAM_SCORE_TOP_N members'
+ * weekly scores (see calculateWeeklyScore), so a big team can't win on
+ * headcount alone.
+ */
+
+import { calculateWeeklyScore } from '../leaderboard/weekly-score';
+
+// Members whose weekly scores count towards the team's
+export const TEAM_SCORE_TOP_N = 5;
+
+export interface TeamMemberWeek {
+  userId: string;
+  bestStreak: number; // Best streak this week
+  attempts: number; // Runs submitted this week
+}
+
+export interface TeamMemberScore extends TeamMemberWeek {
+  score: number; // calculateWeeklyScore(bestStreak, attempts)
+  counted: boolean; // Among the top TEAM_SCORE_TOP_N
+}
+
+export interface TeamScore {
+  score: number;
+  members: TeamMemberScore[]; // Highest score first
+}
+
+/**
+ * Scores a team's week from its members' weeks
+ * Members who haven't played score 0; ties keep the members' order
+ */
+export function calculateTeamScore(members: TeamMemberWeek[]): TeamScore {
+  const scored = members
+    .map(member => ({ ...member, score: calculateWeeklyScore(member.bestStreak, member.attempts) }))
+    .sort((a, b) => b.score - a.score)
+    .map((member, index) => ({ ...member, counted: index < TEAM_SCORE_TOP_N && member.score > 0 }));
+
+  return {
+    score: scored.filter(m => m.counted).reduce((sum, m) => sum + m.score, 0),
+    members: scored,
+  };
+}
+
+/**
+ * Splits a team's prize between the members whose scores counted, in
+ * proportion to their scores
+ */
+export function splitTeamPrize(
+  prize: number,
+  members: TeamMemberScore[]
+): Array<{ userId: string; prize: number }> {
+  const counted = members.filter(m => m.counted);
+  const total = counted.reduce((sum, m) => sum + m.score, 0);
+  if (prize <= 0 || total <= 0) return [];
+
+  return counted.map(m => ({ userId: m.userId, prize: prize * (m.score / total) }));
+}
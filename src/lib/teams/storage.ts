@@ -0,0 +1,148 @@
+/**
+ * Team Storage
+ * Teams live in one key per team; membership changes go through short
+ * locks - the team's, so two players joining at once can't overfill it, and
+ * the player's, so they can't end up in two teams. Each player points at
+ * their team, and this week's team scores sit in a sorted set.
+ */
+
+import { getStore } from '../store';
+import { getWeekKey } from '../leaderboard/period';
+
+// Team scores are kept a day past the end of their week
+const WEEKLY_SCORES_TTL_SECONDS = 60 * 60 * 24 * 8;
+
+// Redis key patterns
+const KEYS = {
+  team: (teamId: string) => `team:${teamId}`,
+  lock: (teamId: string) => `team:${teamId}:lock`,
+  userTeam: (userId: string) => `user:${userId}:team`,
+  userLock: (userId: string) => `user:${userId}:team:lock`,
+  weeklyScores: (weekKey: string = getWeekKey()) => `leaderboard:teams:weekly:${weekKey}`, // Sorted set: teamId -> team score
+};
+
+export interface Team {
+  teamId: string;
+  name: string;
+  captainId: string;
+  members: string[]; // Join order, captain first
+  inviteCode: string; // Needed to join - shared in the team's invite link
+  createdAt: number;
+}
+
+/**
+ * Load a team
+ * @returns null if it doesn't exist (or was disbanded)
+ */
+export async function loadTeam(teamId: string): Promise<Team | null> {
+  try {
+    const data = await getStore().get(KEYS.team(teamId));
+    if (data) {
+      return typeof data === 'string' ? JSON.parse(data) : data as Team;
+    }
+  } catch (error) {
+    console.error('[Teams] Error loading team:', error);
+  }
+  return null;
+}
+
+/**
+ * Save a team (kept until disbanded)
+ */
+export async function saveTeam(team: Team): Promise<void> {
+  await getStore().set(KEYS.team(team.teamId), JSON.stringify(team));
+}
+
+/**
+ * Delete a disbanded team and its place on this week's board
+ */
+export async function deleteTeam(teamId: string): Promise<void> {
+  const store = getStore();
+  await store.del(KEYS.team(teamId));
+  await store.zrem(KEYS.weeklyScores(), teamId);
+}
+
+/**
+ * The team a player is in
+ */
+export async function getUserTeamId(userId: string): Promise<string | null> {
+  const teamId = await getStore().get(KEYS.userTeam(userId));
+  return teamId ? String(teamId) : null;
+}
+
+/**
+ * Point a player at their team, or clear it when they leave
+ */
+export async function setUserTeamId(userId: string, teamId: string | null): Promise<void> {
+  const store = getStore();
+  if (teamId) {
+    await store.set(KEYS.userTeam(userId), teamId);
+  } else {
+    await store.del(KEYS.userTeam(userId));
+  }
+}
+
+/**
+ * Key a team's membership changes are locked on (see withLock)
+ */
+export function getTeamLockKey(teamId: string): string {
+  return KEYS.lock(teamId);
+}
+
+/**
+ * Key a player's team changes are locked on - taken before the team's
+ */
+export function getUserTeamLockKey(userId: string): string {
+  return KEYS.userLock(userId);
+}
+
+/**
+ * Sets a team's score on this week's board
+ */
+export async function setTeamWeeklyScore(teamId: string, score: number): Promise<void> {
+  const store = getStore();
+  const key = KEYS.weeklyScores();
+  await store.zadd(key, { score, member: teamId });
+  await store.expire(key, WEEKLY_SCORES_TTL_SECONDS);
+}
+
+/**
+ * This week's team scores, highest first
+ * @param weekKey - Week to read (defaults to the current week)
+ */
+export async function getTeamWeeklyScores(
+  limit: number = 100,
+  weekKey?: string
+): Promise<Array<{ teamId: string; score: number }>> {
+  try {
+    const results = await getStore().zrange<(string | number)[]>(
+      KEYS.weeklyScores(weekKey),
+      0,
+      limit - 1,
+      { rev: true, withScores: true }
+    );
+
+    const scores: Array<{ teamId: string; score: number }> = [];
+    for (let i = 0; i < results.length; i += 2) {
+      scores.push({ teamId: String(results[i]), score: Number(results[i + 1]) });
+    }
+    return scores;
+  } catch (error) {
+    console.error('[Teams] Error loading weekly scores:', error);
+    return [];
+  }
+}
+
+/**
+ * A team's rank on this week's board
+ * @returns Rank (1-indexed), or null if the team isn't on the board
+ */
+export async function getTeamWeeklyRank(teamId: string): Promise<number | null> {
+  try {
+    const rank = await getStore().zrevrank(KEYS.weeklyScores(), teamId);
+    return rank !== null ? rank + 1 : null;
+  } catch (error) {
+    console.error('[Teams] Error loading weekly rank:', error);
+    return null;
+  }
+}